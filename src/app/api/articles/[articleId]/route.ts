@@ -0,0 +1,132 @@
+// src/app/api/articles/[articleId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+import {
+  ARTICLE_COLUMNS,
+  parseArticleFields,
+  serializeArticle,
+  toArticleColumns,
+  type ArticleRow,
+} from '../../../../lib/articles';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type RouteContext = { params: Promise<{ articleId: string }> };
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+function validateIds(articleId: string, userId: string | undefined) {
+  if (!UUID_REGEX.test(articleId)) {
+    return jsonError('Invalid article id');
+  }
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+  return null;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { articleId } = await params;
+  const userId = request.nextUrl.searchParams.get('userId')?.trim();
+  const invalid = validateIds(articleId, userId);
+  if (invalid) return invalid;
+
+  const { data, error } = await supabaseAdmin
+    .from('articles')
+    .select(ARTICLE_COLUMNS)
+    .eq('id', articleId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[articles] failed to load article', error);
+    return jsonError('Failed to load article', 500);
+  }
+  if (!data) {
+    return jsonError('Article not found', 404);
+  }
+
+  return NextResponse.json({ article: serializeArticle(data as ArticleRow) });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { articleId } = await params;
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = typeof body.userId === 'string' ? body.userId.trim() : undefined;
+  const invalid = validateIds(articleId, userId);
+  if (invalid) return invalid;
+
+  const fields = parseArticleFields(body);
+  if (typeof fields === 'string') {
+    return jsonError(fields);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('articles')
+    .update({ ...toArticleColumns(fields), updated_at: new Date().toISOString() })
+    .eq('id', articleId)
+    .eq('user_id', userId)
+    .select(ARTICLE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[articles] failed to update article', error);
+    return jsonError('Failed to update article', 500);
+  }
+  if (!data) {
+    return jsonError('Article not found', 404);
+  }
+
+  return NextResponse.json({ article: serializeArticle(data as ArticleRow) });
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { articleId } = await params;
+  const userId = request.nextUrl.searchParams.get('userId')?.trim();
+  const invalid = validateIds(articleId, userId);
+  if (invalid) return invalid;
+
+  const { data, error } = await supabaseAdmin
+    .from('articles')
+    .delete()
+    .eq('id', articleId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    console.error('[articles] failed to delete article', error);
+    return jsonError('Failed to delete article', 500);
+  }
+  if (!data?.length) {
+    return jsonError('Article not found', 404);
+  }
+
+  // Versions are keyed by article id without a foreign key, so clean them up
+  // here. A failure only leaves orphaned history behind.
+  const { error: versionsError } = await supabaseAdmin
+    .from('article_versions')
+    .delete()
+    .eq('article_id', articleId)
+    .eq('user_id', userId);
+  if (versionsError) {
+    console.error('[articles] failed to delete article versions', versionsError);
+  }
+
+  return NextResponse.json({ deleted: true });
+}
@@ -0,0 +1,128 @@
+// src/app/api/articles/[articleId]/versions/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+import {
+  ARTICLE_VERSION_COLUMNS,
+  createArticleVersion,
+  listArticleVersions,
+  serializeArticleVersion,
+  type ArticleVersionRow,
+} from '../../../../../lib/articleVersions';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type PostBody = {
+  userId?: string;
+  title?: string;
+  content?: string;
+  sources?: unknown;
+  // Restores an earlier version by copying it into a new, latest version.
+  restoreVersion?: number;
+};
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ articleId: string }> }
+) {
+  const { articleId } = await params;
+  if (!UUID_REGEX.test(articleId)) {
+    return jsonError('Invalid article id');
+  }
+  const userId = request.nextUrl.searchParams.get('userId')?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  try {
+    const rows = await listArticleVersions(articleId, userId);
+    return NextResponse.json({ versions: rows.map(serializeArticleVersion) });
+  } catch (err) {
+    console.error('[article-versions] failed to load versions', err);
+    return jsonError('Failed to load article versions', 500);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ articleId: string }> }
+) {
+  const { articleId } = await params;
+  if (!UUID_REGEX.test(articleId)) {
+    return jsonError('Invalid article id');
+  }
+
+  let body: PostBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  try {
+    if (body.restoreVersion !== undefined) {
+      if (!Number.isInteger(body.restoreVersion) || body.restoreVersion < 1) {
+        return jsonError('restoreVersion must be a positive integer');
+      }
+      const { data, error } = await supabaseAdmin
+        .from('article_versions')
+        .select(ARTICLE_VERSION_COLUMNS)
+        .eq('article_id', articleId)
+        .eq('user_id', userId)
+        .eq('version', body.restoreVersion)
+        .maybeSingle();
+      if (error) {
+        throw error;
+      }
+      if (!data) {
+        return jsonError('Article version not found', 404);
+      }
+      const restored = data as ArticleVersionRow;
+      const row = await createArticleVersion({
+        articleId,
+        userId,
+        source: 'restore',
+        title: restored.title,
+        content: restored.content,
+        sources: restored.sources,
+        restoredFrom: restored.version,
+      });
+      return NextResponse.json({ version: serializeArticleVersion(row) }, { status: 201 });
+    }
+
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      return jsonError('Missing content');
+    }
+    const row = await createArticleVersion({
+      articleId,
+      userId,
+      source: 'manual',
+      title: typeof body.title === 'string' ? body.title : '',
+      content: body.content,
+      sources: Array.isArray(body.sources) ? body.sources : [],
+    });
+    return NextResponse.json({ version: serializeArticleVersion(row) }, { status: 201 });
+  } catch (err) {
+    console.error('[article-versions] failed to save version', err);
+    return jsonError('Failed to save article version', 500);
+  }
+}
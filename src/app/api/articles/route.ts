@@ -0,0 +1,134 @@
+// src/app/api/articles/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../lib/supabaseAdmin';
+import {
+  ARTICLE_STATUSES,
+  ARTICLE_SUMMARY_COLUMNS,
+  ArticleOwnershipError,
+  parseArticleFields,
+  serializeArticle,
+  upsertArticle,
+  type ArticleRow,
+  type ArticleStatus,
+} from '../../../lib/articles';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// Escapes the wildcard characters of a PostgREST ilike pattern.
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const userId = searchParams.get('userId')?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  const limitParam = Number.parseInt(searchParams.get('limit') ?? '', 10);
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(limitParam, 1), MAX_LIST_LIMIT)
+    : DEFAULT_LIST_LIMIT;
+  const offsetParam = Number.parseInt(searchParams.get('offset') ?? '', 10);
+  const offset = Number.isFinite(offsetParam) ? Math.max(offsetParam, 0) : 0;
+
+  let query = supabaseAdmin
+    .from('articles')
+    .select(ARTICLE_SUMMARY_COLUMNS, { count: 'exact' })
+    .eq('user_id', userId);
+
+  const search = searchParams.get('q')?.trim();
+  if (search) {
+    query = query.ilike('title', `%${escapeLikePattern(search)}%`);
+  }
+
+  const status = searchParams.get('status')?.trim();
+  if (status) {
+    if (!ARTICLE_STATUSES.includes(status as ArticleStatus)) {
+      return jsonError(`status must be one of ${ARTICLE_STATUSES.join(', ')}`);
+    }
+    query = query.eq('status', status);
+  }
+
+  const articleType = searchParams.get('articleType')?.trim();
+  if (articleType) {
+    query = query.eq('article_type', articleType);
+  }
+
+  const wordpress = searchParams.get('wordpress')?.trim();
+  if (wordpress === 'linked') {
+    query = query.not('wordpress_post_id', 'is', null);
+  } else if (wordpress === 'unlinked') {
+    query = query.is('wordpress_post_id', null);
+  }
+
+  const { data, error, count } = await query
+    .order('updated_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error('[articles] failed to list articles', error);
+    return jsonError('Failed to load articles', 500);
+  }
+
+  return NextResponse.json({
+    articles: ((data ?? []) as ArticleRow[]).map(serializeArticle),
+    total: count ?? 0,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = typeof body.userId === 'string' ? body.userId.trim() : '';
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  // Clients may choose the id up front so generation usage and versions can
+  // be attributed to the article before it is first saved.
+  const articleId = typeof body.id === 'string' ? body.id.trim() : crypto.randomUUID();
+  if (!UUID_REGEX.test(articleId)) {
+    return jsonError('Invalid article id');
+  }
+
+  const fields = parseArticleFields(body);
+  if (typeof fields === 'string') {
+    return jsonError(fields);
+  }
+
+  try {
+    const row = await upsertArticle(articleId, userId, fields);
+    return NextResponse.json({ article: serializeArticle(row) }, { status: 201 });
+  } catch (err) {
+    // Same answer as the single-article routes give for another user's id.
+    if (err instanceof ArticleOwnershipError) {
+      return jsonError('Article not found', 404);
+    }
+    console.error('[articles] failed to save article', err);
+    return jsonError('Failed to save article', 500);
+  }
+}
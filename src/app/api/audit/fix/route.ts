@@ -0,0 +1,128 @@
+// src/app/api/audit/fix/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStageProvider, type LlmMessage } from '../../../../lib/llm';
+import { countWordsFromHtml } from '../../../../lib/articleStructure';
+import { auditArticle, FIXABLE_AUDIT_CHECKS, type AuditCheckId } from '../../../../lib/seoAudit';
+import {
+  applyAuditFix,
+  buildAuditFixPrompt,
+  fixHeadingHierarchy,
+  parseAuditFixResponse,
+  planAuditFix,
+} from '../../../../lib/seoAuditFixes';
+import { recordUsageEvents, withUsageReporting, type UsageEvent } from '../../../../lib/usage';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const FIX_TEMPERATURE = 0.3;
+const TOKENS_PER_FIX_WORD = 4;
+const MIN_FIX_TOKENS = 600;
+
+type PostBody = {
+  userId?: string;
+  articleId?: string;
+  title?: string;
+  content?: string;
+  focusKeyphrase?: string;
+  checkId?: string;
+  model?: string;
+};
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// Fixes one failed audit check. Only the fragments that check flagged are
+// rewritten; the response carries the updated title and content and a fresh
+// audit so the checklist can refresh without another request.
+export async function POST(request: NextRequest) {
+  let body: PostBody;
+  try {
+    body = (await request.json()) as PostBody;
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim();
+  if (userId && !UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+  const articleId = body.articleId?.trim();
+  if (articleId && !UUID_REGEX.test(articleId)) {
+    return jsonError('Invalid articleId format');
+  }
+  const content = typeof body.content === 'string' ? body.content : '';
+  if (!content.trim()) {
+    return jsonError('Missing content');
+  }
+  const checkId = body.checkId as AuditCheckId;
+  if (!FIXABLE_AUDIT_CHECKS.includes(checkId)) {
+    return jsonError(`checkId must be one of ${FIXABLE_AUDIT_CHECKS.join(', ')}`);
+  }
+  const input = {
+    title: body.title?.trim() ?? '',
+    html: content,
+    focusKeyphrase: body.focusKeyphrase?.trim() ?? '',
+  };
+
+  if (checkId === 'heading-hierarchy') {
+    const fixed = { ...input, html: fixHeadingHierarchy(content) };
+    return NextResponse.json({ title: fixed.title, content: fixed.html, audit: auditArticle(fixed) });
+  }
+
+  const plan = planAuditFix(checkId, input);
+  if (!plan) {
+    return jsonError('Nothing to fix for this check', 422);
+  }
+
+  const usageEvents: UsageEvent[] = [];
+  try {
+    const { provider, model } = getStageProvider('draft', body.model);
+    const trackedProvider = withUsageReporting(
+      provider,
+      'audit',
+      (event) => usageEvents.push(event),
+      checkId
+    );
+    const targetWords = plan.targets.reduce(
+      (total, target) => total + countWordsFromHtml(target.prompt),
+      0
+    );
+    const messages: LlmMessage[] = [{ role: 'user', content: buildAuditFixPrompt(plan, input) }];
+    const response = await trackedProvider.chat({
+      model,
+      messages,
+      temperature: FIX_TEMPERATURE,
+      max_tokens: Math.min(
+        Math.max(MIN_FIX_TOKENS, targetWords * TOKENS_PER_FIX_WORD),
+        provider.getTokenLimits(model).maxOutputTokens
+      ),
+      response_format: { type: 'json_object' },
+    });
+
+    const replacements = parseAuditFixResponse(
+      response.choices[0]?.message?.content,
+      plan.targets.length
+    );
+    if (!replacements) {
+      return jsonError('Model returned no usable fix', 502);
+    }
+    const fixed =
+      plan.field === 'title'
+        ? { ...input, title: applyAuditFix(input.title, plan, replacements) }
+        : { ...input, html: applyAuditFix(content, plan, replacements) };
+    return NextResponse.json({ title: fixed.title, content: fixed.html, audit: auditArticle(fixed) });
+  } catch (err) {
+    console.error('[audit] failed to fix check', err);
+    return jsonError('Failed to apply fix', 500);
+  } finally {
+    await recordUsageEvents(
+      { route: 'audit/fix', userId, articleId, articleTitle: input.title },
+      usageEvents
+    );
+  }
+}
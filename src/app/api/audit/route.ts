@@ -0,0 +1,40 @@
+// src/app/api/audit/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditArticle } from '../../../lib/seoAudit';
+
+export const runtime = 'nodejs';
+
+type PostBody = {
+  title?: string;
+  content?: string;
+  focusKeyphrase?: string;
+  seo?: { focusKeyphrase?: string } | null;
+};
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// Scores a draft's on-page SEO. The focus keyphrase comes from the request or
+// from the article's SEO metadata.
+export async function POST(request: NextRequest) {
+  let body: PostBody;
+  try {
+    body = (await request.json()) as PostBody;
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const content = typeof body.content === 'string' ? body.content : '';
+  if (!content.trim()) {
+    return jsonError('Missing content');
+  }
+
+  const audit = auditArticle({
+    title: body.title?.trim() ?? '',
+    html: content,
+    focusKeyphrase: body.focusKeyphrase?.trim() || body.seo?.focusKeyphrase?.trim() || '',
+  });
+  return NextResponse.json({ audit });
+}
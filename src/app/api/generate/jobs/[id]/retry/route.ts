@@ -0,0 +1,79 @@
+// src/app/api/generate/jobs/[id]/retry/route.ts
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../../../lib/supabaseAdmin';
+import {
+  GENERATION_JOB_COLUMNS,
+  scheduleGenerationJobs,
+  serializeGenerationJob,
+  type GenerationJobRow,
+} from '../../jobRunner';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!UUID_REGEX.test(id)) {
+    return jsonError('Invalid job id');
+  }
+
+  let body: { userId?: string } = {};
+  try {
+    body = await request.json();
+  } catch {
+    body = {};
+  }
+
+  const userId = body.userId?.trim() ?? '';
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({
+      status: 'queued',
+      stage: null,
+      outline: null,
+      partial_content: null,
+      error: null,
+      attempts: 0,
+      started_at: null,
+      finished_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .eq('status', 'failed')
+    .select(GENERATION_JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[generation-jobs] failed to retry job', error);
+    return jsonError('Failed to retry generation job', 500);
+  }
+  if (!data) {
+    return jsonError('Only failed jobs can be retried', 409);
+  }
+
+  scheduleGenerationJobs(1);
+
+  return NextResponse.json(
+    { job: serializeGenerationJob(data as GenerationJobRow) },
+    { status: 202 }
+  );
+}
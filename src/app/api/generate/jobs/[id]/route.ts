@@ -0,0 +1,56 @@
+// src/app/api/generate/jobs/[id]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+import {
+  GENERATION_JOB_COLUMNS,
+  serializeGenerationJob,
+  type GenerationJobRow,
+} from '../jobRunner';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!UUID_REGEX.test(id)) {
+    return jsonError('Invalid job id');
+  }
+
+  const userId = request.nextUrl.searchParams.get('userId')?.trim() ?? '';
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .select(GENERATION_JOB_COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[generation-jobs] failed to load job', error);
+    return jsonError('Failed to load generation job', 500);
+  }
+  if (!data) {
+    return jsonError('Generation job not found', 404);
+  }
+
+  return NextResponse.json({
+    job: serializeGenerationJob(data as GenerationJobRow),
+  });
+}
@@ -0,0 +1,235 @@
+import { after } from 'next/server';
+import { POST as generateArticle } from '../route';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+import {
+  applyGenerationEvent,
+  INITIAL_GENERATION_PROGRESS,
+  readGenerationStream,
+  type GenerationProgress,
+} from '../../../generate/generationStreamHelpers';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type GenerationJobRow = {
+  id: string;
+  user_id: string | null;
+  batch_id: string | null;
+  status: GenerationJobStatus;
+  stage: string | null;
+  payload: Record<string, unknown>;
+  outline: string | null;
+  partial_content: string | null;
+  content: string | null;
+  sources: unknown[] | null;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+export const GENERATION_JOB_COLUMNS =
+  'id, user_id, batch_id, status, stage, payload, outline, partial_content, content, sources, error, attempts, created_at, updated_at, started_at, finished_at';
+
+const MAX_JOB_ATTEMPTS = 3;
+const STALE_JOB_AFTER_MINUTES = 10;
+const PROGRESS_FLUSH_INTERVAL_MS = 2_000;
+const DEFAULT_WORKER_TIME_BUDGET_MS = 240_000;
+const MAX_PARALLEL_WORKERS = 3;
+
+export function serializeGenerationJob(row: GenerationJobRow) {
+  return {
+    id: row.id,
+    batchId: row.batch_id,
+    status: row.status,
+    stage: row.stage,
+    title: typeof row.payload?.title === 'string' ? row.payload.title : '',
+    payload: row.payload,
+    outline: row.outline,
+    partialContent: row.partial_content,
+    content: row.content,
+    sources: Array.isArray(row.sources) ? row.sources : [],
+    error: row.error,
+    attempts: row.attempts,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+async function updateJob(id: string, fields: Partial<GenerationJobRow>) {
+  const { error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) {
+    console.error('[generation-jobs] failed to update job', { id, error });
+  }
+}
+
+function currentStage(progress: GenerationProgress): string | null {
+  const last = progress.stages[progress.stages.length - 1];
+  return last ? last.stage : null;
+}
+
+// Runs one job through the regular /api/generate pipeline in streaming mode so
+// the row reflects the current stage, outline and partial draft while the
+// article is still being written.
+export async function runGenerationJob(job: GenerationJobRow): Promise<void> {
+  let progress = INITIAL_GENERATION_PROGRESS;
+  let lastFlushAt = 0;
+  let pendingFlush: Promise<void> = Promise.resolve();
+
+  const flushProgress = () => {
+    lastFlushAt = Date.now();
+    const snapshot = progress;
+    pendingFlush = pendingFlush.then(() =>
+      updateJob(job.id, {
+        stage: currentStage(snapshot),
+        outline: snapshot.outline || null,
+        partial_content: snapshot.draft || null,
+      })
+    );
+  };
+
+  try {
+    const request = new Request('http://localhost/api/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // The stored payload comes from the client, so it is spread first and
+      // cannot replace the job owner or the job id the article is saved under.
+      body: JSON.stringify({
+        ...job.payload,
+        articleId: job.id,
+        userId: job.user_id ?? undefined,
+        stream: true,
+      }),
+    });
+    const streamResponse = await generateArticle(request);
+    const isEventStream = (streamResponse.headers.get('content-type') ?? '').includes(
+      'application/x-ndjson'
+    );
+    const response =
+      streamResponse.ok && isEventStream
+        ? await readGenerationStream(streamResponse, (event) => {
+            progress = applyGenerationEvent(progress, event);
+            if (
+              event.type !== 'draft' ||
+              Date.now() - lastFlushAt >= PROGRESS_FLUSH_INTERVAL_MS
+            ) {
+              flushProgress();
+            }
+          })
+        : streamResponse;
+
+    await pendingFlush;
+
+    let body: any = null;
+    try {
+      body = await response.json();
+    } catch {
+      body = null;
+    }
+
+    if (!response.ok || !body?.content) {
+      await updateJob(job.id, {
+        status: 'failed',
+        error:
+          (typeof body?.error === 'string' && body.error) ||
+          `Generation failed with status ${response.status}`,
+        finished_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await updateJob(job.id, {
+      status: 'succeeded',
+      stage: null,
+      outline: progress.outline || null,
+      partial_content: null,
+      content: body.content,
+      sources: Array.isArray(body.sources) ? body.sources : [],
+      error: null,
+      finished_at: new Date().toISOString(),
+    });
+  } catch (err) {
+    console.error('[generation-jobs] job failed', { id: job.id, err });
+    await pendingFlush;
+    await updateJob(job.id, {
+      status: 'failed',
+      error: err instanceof Error ? err.message : 'Generation failed',
+      finished_at: new Date().toISOString(),
+    });
+  }
+}
+
+async function failExhaustedJobs() {
+  const cutoff = new Date(
+    Date.now() - STALE_JOB_AFTER_MINUTES * 60 * 1000
+  ).toISOString();
+  const { error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({
+      status: 'failed',
+      error: 'Generation stopped responding and ran out of retries',
+      finished_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('status', 'running')
+    .gte('attempts', MAX_JOB_ATTEMPTS)
+    .lt('updated_at', cutoff);
+  if (error) {
+    console.error('[generation-jobs] failed to expire stale jobs', error);
+  }
+}
+
+export async function claimNextGenerationJob(): Promise<GenerationJobRow | null> {
+  const { data, error } = await supabaseAdmin.rpc('claim_generation_job', {
+    stale_after: `${STALE_JOB_AFTER_MINUTES} minutes`,
+    max_attempts: MAX_JOB_ATTEMPTS,
+  });
+  if (error) {
+    console.error('[generation-jobs] failed to claim job', error);
+    return null;
+  }
+  const rows = (Array.isArray(data) ? data : data ? [data] : []) as GenerationJobRow[];
+  return rows[0] ?? null;
+}
+
+export async function processGenerationJobs({
+  maxJobs = 5,
+  timeBudgetMs = DEFAULT_WORKER_TIME_BUDGET_MS,
+}: { maxJobs?: number; timeBudgetMs?: number } = {}): Promise<number> {
+  const deadline = Date.now() + timeBudgetMs;
+  let processed = 0;
+
+  await failExhaustedJobs();
+
+  while (processed < maxJobs && Date.now() < deadline) {
+    const job = await claimNextGenerationJob();
+    if (!job) {
+      break;
+    }
+    await runGenerationJob(job);
+    processed += 1;
+  }
+
+  return processed;
+}
+
+// Starts up to MAX_PARALLEL_WORKERS job loops once the current response has
+// been sent. Each loop claims its own job, so a batch is worked on in parallel.
+export function scheduleGenerationJobs(jobCount = 1) {
+  const workers = Math.min(Math.max(jobCount, 1), MAX_PARALLEL_WORKERS);
+  after(async () => {
+    await Promise.all(
+      Array.from({ length: workers }, () =>
+        processGenerationJobs({ maxJobs: jobCount }).catch((err) => {
+          console.error('[generation-jobs] background processing failed', err);
+        })
+      )
+    );
+  });
+}
@@ -0,0 +1,156 @@
+// src/app/api/generate/jobs/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+import {
+  GENERATION_JOB_COLUMNS,
+  scheduleGenerationJobs,
+  serializeGenerationJob,
+  type GenerationJobRow,
+} from './jobRunner';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+const MAX_BATCH_SIZE = 25;
+
+type PostBody = {
+  userId?: string;
+  payload?: Record<string, unknown>;
+  payloads?: Record<string, unknown>[];
+};
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+function normalizeJobPayload(
+  payload: unknown
+): Record<string, unknown> | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return null;
+  }
+  const { stream: _stream, ...storedPayload } = payload as Record<string, unknown>;
+  const title =
+    typeof storedPayload.title === 'string' ? storedPayload.title.trim() : '';
+  if (!title) {
+    return null;
+  }
+  return { ...storedPayload, title };
+}
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId')?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  const limitParam = Number.parseInt(
+    request.nextUrl.searchParams.get('limit') ?? '',
+    10
+  );
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(limitParam, 1), MAX_LIST_LIMIT)
+    : DEFAULT_LIST_LIMIT;
+
+  let query = supabaseAdmin
+    .from('generation_jobs')
+    .select(GENERATION_JOB_COLUMNS)
+    .eq('user_id', userId);
+
+  const batchId = request.nextUrl.searchParams.get('batchId')?.trim();
+  if (batchId) {
+    if (!UUID_REGEX.test(batchId)) {
+      return jsonError('Invalid batchId format');
+    }
+    query = query.eq('batch_id', batchId).order('created_at', { ascending: true });
+  } else {
+    query = query.order('created_at', { ascending: false });
+  }
+
+  const { data, error } = await query.limit(limit);
+
+  if (error) {
+    console.error('[generation-jobs] failed to list jobs', error);
+    return jsonError('Failed to load generation jobs', 500);
+  }
+
+  return NextResponse.json({
+    jobs: ((data ?? []) as GenerationJobRow[]).map(serializeGenerationJob),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  let body: PostBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  const isBatch = Array.isArray(body.payloads);
+  const rawPayloads = isBatch ? body.payloads ?? [] : [body.payload];
+  if (rawPayloads.length === 0) {
+    return jsonError('Missing generation payload');
+  }
+  if (rawPayloads.length > MAX_BATCH_SIZE) {
+    return jsonError(`Batches are limited to ${MAX_BATCH_SIZE} articles`);
+  }
+
+  const payloads: Record<string, unknown>[] = [];
+  for (const rawPayload of rawPayloads) {
+    const payload = normalizeJobPayload(rawPayload);
+    if (!payload) {
+      return jsonError(
+        rawPayload && typeof rawPayload === 'object'
+          ? 'Missing title'
+          : 'Missing generation payload'
+      );
+    }
+    payloads.push(payload);
+  }
+
+  const batchId = isBatch ? crypto.randomUUID() : null;
+
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .insert(
+      payloads.map((payload) => ({
+        user_id: userId,
+        batch_id: batchId,
+        status: 'queued',
+        payload,
+      }))
+    )
+    .select(GENERATION_JOB_COLUMNS);
+
+  if (error || !data) {
+    console.error('[generation-jobs] failed to enqueue job', error);
+    return jsonError('Failed to enqueue generation job', 500);
+  }
+
+  scheduleGenerationJobs(payloads.length);
+
+  const jobs = (data as GenerationJobRow[]).map(serializeGenerationJob);
+
+  if (isBatch) {
+    return NextResponse.json({ batchId, jobs }, { status: 202 });
+  }
+
+  return NextResponse.json({ job: jobs[0] }, { status: 202 });
+}
@@ -0,0 +1,30 @@
+// src/app/api/generate/jobs/worker/route.ts
+
+import { NextResponse } from 'next/server';
+import { processGenerationJobs } from '../jobRunner';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+// Drains queued generation jobs. Point a cron at this route so jobs whose
+// original request ended early, or that are waiting for a retry, get picked up.
+async function handleWorkerRequest(request: Request) {
+  const secret = process.env.GENERATION_JOB_WORKER_SECRET?.trim();
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Generation worker is not configured' },
+      { status: 503 }
+    );
+  }
+
+  const authorization = request.headers.get('authorization') ?? '';
+  if (authorization !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const processed = await processGenerationJobs();
+  return NextResponse.json({ processed });
+}
+
+export const GET = handleWorkerRequest;
+export const POST = handleWorkerRequest;
@@ -1,12 +1,18 @@
 // route.ts
 import { NextResponse } from 'next/server';
-import { getOpenAI } from '../../../lib/openai';
 import {
-  DEFAULT_GROK_MODEL,
-  DEFAULT_GROK_OUTLINE_MODEL,
-  runChatCompletion,
-  type GrokChatCompletionMessage,
-} from '../../../lib/grok';
+  getStageProvider,
+  resolveStageProviders,
+  type LlmChatRequest,
+  type LlmChatResponse,
+  type LlmProvider,
+} from '../../../lib/llm';
+import { getModelLimits } from '../../../lib/modelRegistry';
+import {
+  countMessageTokens,
+  fitItemsToTokenBudget,
+  planPromptBudget,
+} from '../../../lib/tokenBudget';
 import { DEFAULT_WORDS, WORD_RANGES } from '../../../constants/lengthOptions';
 import { serpapiSearch, type SerpApiResult } from '../../../lib/serpapi';
 import {
@@ -16,8 +22,97 @@ import {
   validateThemeCoverage,
   type ThemeCoverageIssue,
 } from '../../../lib/themeCoverage';
+import {
+  createGenerationEventStream,
+  emitGenerationEvent,
+  GENERATION_STREAM_CONTENT_TYPE,
+  trackGenerationStage,
+  type GenerationEventHandler,
+  type GenerationStage,
+} from '../../../lib/generationEvents';
+import {
+  analyzeArticleStructure,
+  applySectionExpansions,
+  countWordsFromHtml,
+  MIN_PARAGRAPHS_PER_SECTION,
+  parseExpansionResponse,
+  UNDER_DEVELOPED_WORD_THRESHOLD,
+} from '../../../lib/articleStructure';
+import { createArticleVersion } from '../../../lib/articleVersions';
+import { upsertArticle } from '../../../lib/articles';
+import { attachSourcePassages } from '../../../lib/sourceIngestion';
+import {
+  applyInternalLinks,
+  buildInternalLinkInstruction,
+  loadInternalLinkIndex,
+  selectInternalLinks,
+  type InternalLink,
+} from '../../../lib/internalLinks';
+import {
+  buildRecipePrompt,
+  buildUnusedIngredientFeedback,
+  DEFAULT_SERVINGS,
+  findUnusedIngredients,
+  MAX_SERVINGS,
+  parseRecipeResponse,
+  renderRecipeHtml,
+  UNIT_SYSTEMS,
+  type UnitSystem,
+} from '../../../lib/recipes';
+import { loadSourcePolicy } from '../../../lib/siteProfiles';
+import { buildStructuredData } from '../../../lib/structuredData';
+import {
+  buildFaqPrompt,
+  fetchRelatedQuestions,
+  hasFaqSection,
+  parseFaqResponse,
+  renderFaqSection,
+  selectFaqQuestions,
+} from '../../../lib/faq';
+import {
+  buildFallbackSeoMetadata,
+  buildSeoPrompt,
+  parseSeoResponse,
+  type SeoMetadata,
+} from '../../../lib/seoMetadata';
+import {
+  EMPTY_SOURCE_POLICY,
+  isSourceBlocked,
+  mergeSourcePolicies,
+  normalizeSourcePolicy,
+  removeBlockedLinks,
+  resolveTrustTier,
+  TRUST_TIER_BOOSTS,
+  type SourcePolicy,
+} from '../../../lib/sourcePolicy';
+import { buildUserReportingSources } from '../../../lib/userSources';
+import {
+  normalizeSourceDocuments,
+  type SourceDocumentInput,
+  type SourceDocumentMode,
+} from '../../../lib/sourceDocuments';
+import {
+  normalizeVerificationSources,
+  requestVerification,
+  truncateField,
+  type VerificationSource,
+} from '../../../lib/verification';
+import {
+  findSentenceRange,
+  type VerificationClaim,
+  type VerificationReport,
+  type VerificationSeverity,
+  type VerificationVerdict,
+} from '../../../lib/verificationReport';
+import { loadWordPressCredentials } from '../../../lib/wordpressAccounts';
+import {
+  buildSearchUsageEvent,
+  recordUsageEvents,
+  withUsageReporting,
+  type UsageEvent,
+} from '../../../lib/usage';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 export const revalidate = 0;
 
 interface NewsArticle {
@@ -35,6 +130,8 @@ interface ReportingSource {
   categories?: string[];
   sourceName?: string;
   sourceType?: string;
+  // Relevant paragraphs from the fetched article, when full text was available.
+  passages?: string[];
 }
 
 type ReportingContext = {
@@ -45,15 +142,6 @@ type ReportingContext = {
   referenceBlock: string;
 };
 
-type VerificationSource =
-  | string
-  | {
-      url?: string | null;
-      title?: string | null;
-      summary?: string | null;
-      publishedAt?: string | null;
-    };
-
 const MILLIS_IN_MINUTE = 60 * 1000;
 const MILLIS_IN_HOUR = 60 * MILLIS_IN_MINUTE;
 const MILLIS_IN_DAY = 24 * MILLIS_IN_HOUR;
@@ -154,6 +242,7 @@ type ArticlePromptOptions = {
   groundingInstruction: string;
   customInstructionBlock: string;
   linkInstruction: string;
+  internalLinkInstruction?: string;
   extraRequirements?: string[];
 };
 
@@ -167,6 +256,7 @@ function buildArticlePrompt({
   groundingInstruction,
   customInstructionBlock,
   linkInstruction,
+  internalLinkInstruction = '',
   extraRequirements = [],
 }: ArticlePromptOptions): string {
   const extraRequirementBlock = extraRequirements.length
@@ -191,7 +281,9 @@ ${reportingSection}${toneInstruction}${povInstruction}Requirements:
   - Avoid cheesy or overly rigid language (e.g., "gem", "embodiment", "endeavor", "Vigilant", "Daunting", etc.).
   - Avoid referring to the article itself (e.g., “This article explores…” or “In this article…”) anywhere in the introduction.
   - Do NOT wrap your output in markdown code fences or extra <p> tags.
-  ${DETAIL_INSTRUCTION}${customInstructionBlock}${groundingInstruction}${linkInstruction}
+  ${DETAIL_INSTRUCTION}${customInstructionBlock}${groundingInstruction}${linkInstruction}${
+    internalLinkInstruction ? `\n  ${internalLinkInstruction}` : ''
+  }
   - Do NOT label the intro under "Introduction" or with prefixes like "INTRO:", and do not end with a "Conclusion" heading or closing phrases like "In conclusion".
   - Do NOT invent sources, links, or information not present in the provided reporting.
 
@@ -306,6 +398,7 @@ type ListicleArticlePromptOptions = {
   lengthInstruction: string;
   numberingInstruction: string;
   wordCountInstruction: string;
+  internalLinkInstruction?: string;
   extraRequirements?: string[];
 };
 
@@ -321,6 +414,7 @@ function buildListicleArticlePrompt({
   lengthInstruction,
   numberingInstruction,
   wordCountInstruction,
+  internalLinkInstruction,
   extraRequirements = [],
 }: ListicleArticlePromptOptions): string {
   const combinedLengthInstruction = `${lengthInstruction}${numberingInstruction}${wordCountInstruction}`;
@@ -339,6 +433,7 @@ function buildListicleArticlePrompt({
     groundingInstruction,
     customInstructionBlock,
     linkInstruction,
+    internalLinkInstruction,
     extraRequirements: mergedExtraRequirements,
   });
 }
@@ -540,18 +635,7 @@ const MIN_LINKS = 3;
 const STRICT_LINK_RETRY_THRESHOLD = 2;
 const LENGTH_EXPANSION_ATTEMPTS = 2;
 const VERIFICATION_DISCREPANCY_THRESHOLD = 0;
-const VERIFICATION_MAX_SOURCE_FIELD_LENGTH = 600;
-const VERIFICATION_MAX_SOURCES = 8;
-
-const DEFAULT_VERIFICATION_TIMEOUT_MS = 60_000;
-const VERIFICATION_TIMEOUT_MS = (() => {
-  const raw = process.env.GROK_VERIFICATION_TIMEOUT_MS ?? process.env.OPENAI_VERIFICATION_TIMEOUT_MS;
-  const parsed = raw ? Number(raw) : Number.NaN;
-  return Number.isFinite(parsed) ? parsed : DEFAULT_VERIFICATION_TIMEOUT_MS;
-})();
-
-const VERIFICATION_MODEL = DEFAULT_GROK_MODEL;
-
+const VERIFICATION_MAX_CLAIMS = 15;
 const THEME_COVERAGE_THRESHOLD = (() => {
   const raw = process.env.TRAVEL_THEME_COVERAGE_THRESHOLD;
   if (!raw) {
@@ -567,16 +651,29 @@ const THEME_COVERAGE_THRESHOLD = (() => {
 // Low temperature to encourage factual consistency for reporting prompts
 const FACTUAL_TEMPERATURE = 0.2;
 
-const MODEL_CONTEXT_LIMITS: Record<string, number> = {
-  'gpt-4o': 16384,
-  'gpt-4o-mini': 16384,
-  'gpt-4': 8192,
-  'gpt-3.5-turbo': 16000,
-};
-
 const COMPLETION_SAFETY_MARGIN_TOKENS = 256;
 
+// HTML markup and inline links add roughly half again as many tokens as the
+// prose itself, and the headroom keeps drafts that run long from being cut off.
+const HTML_TOKENS_PER_WORD = 2;
+const COMPLETION_HEADROOM = 1.25;
+
+// Outlines are short; capping them keeps room for them in the draft prompt.
+const OUTLINE_MAX_TOKENS = 1500;
+const SEO_MAX_TOKENS = 600;
+const FAQ_MAX_TOKENS = 1000;
+// Articles that can take a "People also ask" FAQ section.
+const FAQ_ARTICLE_TYPES = ['Blog post', 'News article'];
+// A recipe with notes and nutrition runs to about 1,500 tokens of JSON.
+const RECIPE_MAX_TOKENS = 3000;
+
+// Share of the draft model's prompt window the reporting block may take up.
+const REPORTING_BLOCK_PROMPT_SHARE = 0.5;
+
 // Encourage more concrete examples by default
+const USER_SOURCE_INSTRUCTION =
+  '- Treat the writer-supplied documents as the primary basis of the article: lead with their facts and quotes, and do not contradict them with other reporting. Link a document only when it has a URL.\n';
+
 const DETAIL_INSTRUCTION =
   '- Provide specific real-world examples (e.g., car model years or actual app names) instead of generic placeholders like "App 1".\n' +
   '- When sources include concrete facts, repeat them precisely: list full names, give unrounded figures, and preserve other specific details; include exact dates only when they materially affect the narrative and are required for clarity.\n' +
@@ -859,41 +956,76 @@ function formatKeyDetails(summary: string | undefined | null): string[] {
 async function generateOutlineWithFallback(
   prompt: string,
   fallbackModel: string,
-  temperature = 0.7
+  temperature = 0.7,
+  onEvent?: GenerationEventHandler
+): Promise<string> {
+  const outline = await trackGenerationStage(onEvent, 'outline', () =>
+    requestOutline(prompt, fallbackModel, temperature, onEvent)
+  );
+  emitGenerationEvent(onEvent, { type: 'outline', outline });
+  return outline;
+}
+
+// Reports token usage for every call made through the returned provider as a
+// `usage` event, so retries and repair passes are costed separately.
+function trackUsage(
+  provider: LlmProvider,
+  onEvent: GenerationEventHandler | undefined,
+  stage: GenerationStage,
+  purpose?: string
+): LlmProvider {
+  if (!onEvent) {
+    return provider;
+  }
+  return withUsageReporting(
+    provider,
+    stage,
+    (usage) => emitGenerationEvent(onEvent, { type: 'usage', usage }),
+    purpose
+  );
+}
+
+// Tries each configured outline provider in order (LLM_OUTLINE_PROVIDERS,
+// Grok then OpenAI by default). Errors from the last provider propagate.
+async function requestOutline(
+  prompt: string,
+  fallbackModel: string,
+  temperature: number,
+  onEvent?: GenerationEventHandler
 ): Promise<string> {
-  const hasGrokKey = Boolean(process.env.GROK_API_KEY?.trim());
-  if (hasGrokKey) {
+  const candidates = resolveStageProviders('outline', fallbackModel);
+
+  for (let index = 0; index < candidates.length; index += 1) {
+    const { provider, model } = candidates[index];
+    const isLastCandidate = index === candidates.length - 1;
     try {
-      const grokResponse = await runChatCompletion({
-        model: DEFAULT_GROK_OUTLINE_MODEL,
+      const outlineRes = await trackUsage(provider, onEvent, 'outline').chat({
+        model,
         messages: [{ role: 'user', content: prompt }],
         temperature,
+        max_tokens: OUTLINE_MAX_TOKENS,
       });
-      const grokOutline = grokResponse.choices[0]?.message?.content?.trim();
-      if (grokOutline) {
-        return grokOutline;
+      const outline = outlineRes.choices[0]?.message?.content?.trim();
+      if (outline) {
+        return outline;
+      }
+      if (!isLastCandidate) {
+        console.warn(
+          `[api/generate] ${provider.label} outline response empty, falling back to the next provider`
+        );
       }
-      console.warn(
-        '[api/generate] Grok outline response empty, falling back to OpenAI'
-      );
     } catch (err) {
+      if (isLastCandidate) {
+        throw err;
+      }
       console.warn(
-        '[api/generate] Grok outline generation failed, falling back to OpenAI',
+        `[api/generate] ${provider.label} outline generation failed, falling back to the next provider`,
         err
       );
     }
   }
 
-  const openai = getOpenAI();
-  const outlineRes = await openai.chat.completions.create({
-    model: fallbackModel,
-    messages: [{ role: 'user', content: prompt }],
-    temperature,
-  });
-
-  const outline = outlineRes.choices[0]?.message?.content?.trim();
-  if (!outline) throw new Error('Outline generation failed');
-  return outline;
+  throw new Error('Outline generation failed');
 }
 
 function calcMaxTokens(
@@ -911,13 +1043,15 @@ function calcMaxTokens(
     desiredWords = DEFAULT_WORDS;
   }
   const tokens = Math.ceil(desiredWords / 0.75);
-  const limit = MODEL_CONTEXT_LIMITS[model] || 8000;
+  const limit = getModelLimits(model).maxOutputTokens;
   return Math.min(tokens, limit);
 }
 
 type FetchSourcesOptions = {
   maxAgeMs?: number | null;
   serpParams?: Record<string, string>;
+  onSearch?: () => void;
+  sourcePolicy?: SourcePolicy;
 };
 
 const SOURCE_TOKEN_MIN_LENGTH = 3;
@@ -988,7 +1122,12 @@ type ScoredReportingSource = ReportingSource & {
 
 async function fetchSources(
   headline: string,
-  { maxAgeMs = MAX_SOURCE_WINDOW_MS, serpParams }: FetchSourcesOptions = {}
+  {
+    maxAgeMs = MAX_SOURCE_WINDOW_MS,
+    serpParams,
+    onSearch,
+    sourcePolicy = EMPTY_SOURCE_POLICY,
+  }: FetchSourcesOptions = {}
 ): Promise<ReportingSource[]> {
   const nowMs = Date.now();
   const seenLinks = new Set<string>();
@@ -1012,6 +1151,7 @@ async function fetchSources(
     engine: 'google_news',
     extraParams: serpParams ?? { tbs: SERP_14_DAY_TBS },
     limit: 12,
+    onRequest: onSearch,
   });
 
   const [newsArticles, serpResults] = await Promise.all([
@@ -1022,7 +1162,7 @@ async function fetchSources(
   for (const article of newsArticles) {
     const url = article.url;
     const normalizedTitle = normalizeTitleValue(article.title);
-    if (!url || seenLinks.has(url)) {
+    if (!url || seenLinks.has(url) || isSourceBlocked(url, sourcePolicy)) {
       continue;
     }
 
@@ -1071,7 +1211,7 @@ async function fetchSources(
       url,
       summary,
       publishedAt: normalizePublishedAt(publishedTimestamp),
-      score,
+      score: score + TRUST_TIER_BOOSTS[resolveTrustTier(url, sourcePolicy)],
       publishedTimestamp,
     };
 
@@ -1093,7 +1233,7 @@ async function fetchSources(
     }
 
     const link = result.link;
-    if (!link || seenLinks.has(link)) {
+    if (!link || seenLinks.has(link) || isSourceBlocked(link, sourcePolicy)) {
       continue;
     }
 
@@ -1141,7 +1281,7 @@ async function fetchSources(
       url: link,
       summary,
       publishedAt: normalizePublishedAt(publishedTimestamp),
-      score,
+      score: score + TRUST_TIER_BOOSTS[resolveTrustTier(link, sourcePolicy)],
       publishedTimestamp,
     });
   }
@@ -1218,6 +1358,28 @@ function normalizeSummary(summary: string): string {
   return trimmed || 'No summary provided.';
 }
 
+// Drops the lowest-ranked sources until the reporting block fits its share of
+// the draft model's prompt window, leaving room for the outline and completion.
+function fitReportingSourcesToBudget<T extends ReportingSource>(
+  sources: T[],
+  requestedModel: string,
+  desiredOutputTokens: number
+): T[] {
+  const { provider, model } = getStageProvider('draft', requestedModel);
+  const { inputTokens } = planPromptBudget(
+    provider.getTokenLimits(model),
+    Math.ceil(desiredOutputTokens * COMPLETION_HEADROOM)
+  );
+  const budget = Math.floor(inputTokens * REPORTING_BLOCK_PROMPT_SHARE);
+  const fitted = fitItemsToTokenBudget<T>(sources, buildRecentReportingBlock, budget, model);
+  if (fitted.length < sources.length) {
+    console.warn(
+      `[api/generate] reporting block trimmed to ${fitted.length} of ${sources.length} sources to fit ${model}`
+    );
+  }
+  return fitted;
+}
+
 function buildRecentReportingBlock(sources: ReportingSource[]): string {
   if (!sources.length) {
     return '';
@@ -1227,15 +1389,24 @@ function buildRecentReportingBlock(sources: ReportingSource[]): string {
     .map((item) => {
       const timestamp = formatPublishedTimestamp(item.publishedAt);
       const summary = normalizeSummary(item.summary);
-      const keyDetails = formatKeyDetails(item.summary);
+      const passages = item.passages ?? [];
+      const keyDetails = formatKeyDetails([item.summary, ...passages].join(' '));
       const title = item.title || 'Untitled';
+      const origin = item.sourceType === 'user' ? 'writer-supplied' : timestamp;
+      const urlLine = item.url ? `URL: ${item.url}` : 'URL: none (cite in prose, do not link)';
+      const excerptLine =
+        passages.length > 0
+          ? `\n  Excerpts from the full article:\n${passages
+              .map((passage) => `    > ${passage}`)
+              .join('\n')}`
+          : '';
       const detailLine =
         keyDetails.length > 0
           ? `\n  Must include and cite each item below as a distinct, cited sentence:\n${keyDetails
               .map((detail) => `    - ${detail}`)
               .join('\n')}`
           : '';
-      return `- "${title}" (${timestamp})\n  Summary: ${summary}${detailLine}\n  URL: ${item.url}`;
+      return `- "${title}" (${origin})\n  Summary: ${summary}${excerptLine}${detailLine}\n  ${urlLine}`;
     })
     .join('\n');
 
@@ -1374,7 +1545,8 @@ function deriveReferenceIsoTimestamp(
 
 async function fetchNewsArticles(
   query: string,
-  serpFallbackEnabled: boolean
+  serpFallbackEnabled: boolean,
+  onSearch?: () => void
 ): Promise<NewsArticle[]> {
   const nowMs = Date.now();
   const fromIso = new Date(nowMs - MAX_SOURCE_WINDOW_MS).toISOString();
@@ -1444,6 +1616,7 @@ async function fetchNewsArticles(
       engine: 'google_news',
       extraParams: { tbs: SERP_14_DAY_TBS },
       limit: 8,
+      onRequest: onSearch,
     });
 
     const seenTitles = new Set<string>();
@@ -1773,182 +1946,12 @@ function escapeHtml(text: string): string {
     .replace(/'/g, '&#39;');
 }
 
-function stripHtmlTags(value: string): string {
-  if (!value) {
-    return '';
-  }
-  return value.replace(/<[^>]*>/g, ' ');
-}
-
-function countWordsFromHtml(html: string): number {
-  if (!html) {
-    return 0;
-  }
-  const withoutTags = html
-    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-    .replace(/<[^>]*>/g, ' ')
-    .replace(/&(nbsp|#160);/gi, ' ');
-  const normalized = withoutTags.replace(/\s+/g, ' ').trim();
-  if (!normalized) {
-    return 0;
-  }
-  return normalized.split(' ').length;
-}
-
 interface SourceContext {
   url: string;
   title?: string;
   summary?: string;
 }
 
-interface SectionStats {
-  heading: string;
-  start: number;
-  end: number;
-  paragraphCount: number;
-  wordCount: number;
-}
-
-interface ArticleStructure {
-  intro: {
-    paragraphCount: number;
-    wordCount: number;
-  };
-  sections: SectionStats[];
-}
-
-const MIN_PARAGRAPHS_PER_SECTION = 2;
-const UNDER_DEVELOPED_WORD_THRESHOLD = 120;
-
-function analyzeArticleStructure(html: string): ArticleStructure {
-  const headingRegex = /<h2[^>]*>([\s\S]*?)<\/h2>/gi;
-  const matches: Array<{ heading: string; index: number; endOfHeading: number }> = [];
-  let match: RegExpExecArray | null;
-
-  while ((match = headingRegex.exec(html)) !== null) {
-    const headingHtml = match[1] ?? '';
-    const headingText = stripHtmlTags(headingHtml).replace(/\s+/g, ' ').trim();
-    matches.push({
-      heading: headingText,
-      index: match.index,
-      endOfHeading: match.index + match[0].length,
-    });
-  }
-
-  const firstHeadingIndex = matches.length > 0 ? matches[0].index : html.length;
-  const introHtml = html.slice(0, firstHeadingIndex);
-  const introParagraphCount = (introHtml.match(/<p\b[^>]*>[\s\S]*?<\/p>/gi) ?? []).length;
-  const introWordCount = countWordsFromHtml(introHtml);
-
-  const sections: SectionStats[] = [];
-  for (let i = 0; i < matches.length; i += 1) {
-    const current = matches[i];
-    const nextStart = i + 1 < matches.length ? matches[i + 1].index : html.length;
-    const sectionHtml = html.slice(current.endOfHeading, nextStart);
-    const paragraphCount = (sectionHtml.match(/<p\b[^>]*>[\s\S]*?<\/p>/gi) ?? []).length;
-    const wordCount = countWordsFromHtml(sectionHtml);
-    sections.push({
-      heading: current.heading,
-      start: current.endOfHeading,
-      end: nextStart,
-      paragraphCount,
-      wordCount,
-    });
-  }
-
-  return {
-    intro: {
-      paragraphCount: introParagraphCount,
-      wordCount: introWordCount,
-    },
-    sections,
-  };
-}
-
-interface SectionExpansion {
-  heading: string;
-  html: string;
-}
-
-function parseExpansionResponse(raw: string): SectionExpansion[] {
-  if (!raw) {
-    return [];
-  }
-
-  const jsonMatch = raw.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    return [];
-  }
-
-  try {
-    const parsed = JSON.parse(jsonMatch[0]);
-    if (!parsed || !Array.isArray(parsed.expansions)) {
-      return [];
-    }
-
-    return parsed.expansions
-      .map((entry: any) => {
-        if (!entry) {
-          return null;
-        }
-        const heading = typeof entry.heading === 'string' ? entry.heading.trim() : '';
-        const html = typeof entry.html === 'string' ? entry.html.trim() : '';
-        if (!heading || !html) {
-          return null;
-        }
-        return { heading, html } as SectionExpansion;
-      })
-      .filter((entry: SectionExpansion | null): entry is SectionExpansion => Boolean(entry));
-  } catch {
-    return [];
-  }
-}
-
-function applySectionExpansions(
-  originalContent: string,
-  expansions: SectionExpansion[]
-): string {
-  let content = originalContent;
-
-  for (const expansion of expansions) {
-    const addition = expansion.html?.trim();
-    const heading = expansion.heading?.trim();
-    if (!addition || !heading) {
-      continue;
-    }
-
-    if (heading === '__INTRO__') {
-      const firstHeadingMatch = content.match(/<h2[^>]*>/i);
-      const insertIndex = firstHeadingMatch?.index ?? content.length;
-      const before = content.slice(0, insertIndex);
-      const after = content.slice(insertIndex);
-      const joiner = before.endsWith('\n') || addition.startsWith('<') ? '' : '\n';
-      content = `${before}${joiner}${addition}${after}`;
-      continue;
-    }
-
-    const structure = analyzeArticleStructure(content);
-    const normalizedTarget = heading.replace(/\s+/g, ' ').trim().toLowerCase();
-    const targetSection = structure.sections.find(
-      (section) => section.heading.replace(/\s+/g, ' ').trim().toLowerCase() === normalizedTarget
-    );
-
-    if (!targetSection) {
-      const joiner = content.endsWith('\n') || addition.startsWith('<') ? '' : '\n';
-      content = `${content}${joiner}${addition}`;
-      continue;
-    }
-
-    const before = content.slice(0, targetSection.end);
-    const after = content.slice(targetSection.end);
-    const joiner = before.endsWith('\n') || addition.startsWith('<') ? '' : '\n';
-    content = `${before}${joiner}${addition}${after}`;
-  }
-
-  return content;
-}
-
 interface KeywordEntry {
   value: string;
   isExact: boolean;
@@ -2040,6 +2043,22 @@ const FALLBACK_STOPWORDS = new Set<string>([
   'towards',
 ]);
 
+// Streams the base draft so each token chunk can be forwarded to the client,
+// falling back to a single blocking request when nobody is listening.
+async function createDraftCompletion(
+  provider: LlmProvider,
+  params: LlmChatRequest,
+  onEvent?: GenerationEventHandler
+): Promise<LlmChatResponse> {
+  if (!onEvent) {
+    return provider.chat(params);
+  }
+
+  return provider.streamChat(params, {
+    onDelta: (delta) => emitGenerationEvent(onEvent, { type: 'draft', delta }),
+  });
+}
+
 // Generate article content and ensure a minimum number of links are present
 // prompt   - text prompt to send to the model
 // model    - model name to use
@@ -2055,9 +2074,12 @@ async function generateWithLinks(
   minWords = 0,
   contextualSources: SourceContext[] = [],
   strictLinking = true,
-  lengthRetryCount = 0
+  lengthRetryCount = 0,
+  onEvent?: GenerationEventHandler
 ): Promise<string> {
-  const limit = MODEL_CONTEXT_LIMITS[model] || 8000;
+  const { provider, model: draftModel } = getStageProvider('draft', model);
+  const modelLimits = provider.getTokenLimits(draftModel);
+  const limit = modelLimits.maxOutputTokens;
   const requiredCount = Math.min(Math.max(MIN_LINKS, sources.length), 5);
   const requiredSources = sources.slice(0, requiredCount);
   const trimmedPrompt = prompt.trim();
@@ -2071,19 +2093,31 @@ async function generateWithLinks(
     augmentedPrompt = `${trimmedPrompt}\n\nCite every required source inside natural sentences exactly once. Include at least ${totalLinksNeeded} total hyperlinks and do not fabricate extra citations.\nRequired sources (one citation per URL):\n${reminderList}`;
   }
 
-  const estimateTokens = (text: string) => Math.ceil(text.length / 4);
-  const promptLengthTokens = estimateTokens(augmentedPrompt);
-  const systemPromptTokens = systemPrompt ? estimateTokens(systemPrompt) : 0;
-  const expectedFromWords = minWords > 0 ? Math.ceil(minWords * 1.6) : 0;
-  const baseBudget = Math.max(maxTokens, expectedFromWords, promptLengthTokens * 2, 800);
-  const availableContext = Math.max(limit - promptLengthTokens - systemPromptTokens, 0);
+  const buildMessages = (content: string) =>
+    systemPrompt
+      ? [
+          { role: 'system' as const, content: systemPrompt },
+          { role: 'user' as const, content },
+        ]
+      : [{ role: 'user' as const, content }];
+
+  const promptTokens = countMessageTokens(buildMessages(augmentedPrompt), draftModel);
+  const expectedFromWords =
+    minWords > 0 ? Math.ceil(minWords * HTML_TOKENS_PER_WORD) : 0;
+  const baseBudget = Math.ceil(
+    Math.max(maxTokens, expectedFromWords, 800) * COMPLETION_HEADROOM
+  );
+  const availableContext = Math.max(modelLimits.contextTokens - promptTokens, 0);
   const safetyAdjustedBudget = Math.max(
     availableContext - COMPLETION_SAFETY_MARGIN_TOKENS,
     0
   );
-  const maxCompletionTokens = Math.max(
-    safetyAdjustedBudget,
-    availableContext > 0 ? Math.min(availableContext, 1) : 0
+  const maxCompletionTokens = Math.min(
+    Math.max(
+      safetyAdjustedBudget,
+      availableContext > 0 ? Math.min(availableContext, 1) : 0
+    ),
+    limit
   );
   let tokens = Math.min(baseBudget, maxCompletionTokens);
   if (tokens <= 0 && availableContext > 0) {
@@ -2093,33 +2127,38 @@ async function generateWithLinks(
   if (tokens <= 0 && availableContext === 0) {
     throw new Error('Prompt exceeds the model context limit.');
   }
-  const buildMessages = (content: string) =>
-    systemPrompt
-      ? [
-          { role: 'system' as const, content: systemPrompt },
-          { role: 'user' as const, content },
-        ]
-      : [{ role: 'user' as const, content }];
 
-  const openai = getOpenAI();
-  let baseRes = await openai.chat.completions.create({
-    model,
-    messages: buildMessages(augmentedPrompt),
-    temperature: FACTUAL_TEMPERATURE,
-    max_tokens: tokens,
-  });
+  let baseRes = await trackGenerationStage(onEvent, 'draft', () =>
+    createDraftCompletion(
+      trackUsage(provider, onEvent, 'draft'),
+      {
+        model: draftModel,
+        messages: buildMessages(augmentedPrompt),
+        temperature: FACTUAL_TEMPERATURE,
+        max_tokens: tokens,
+      },
+      onEvent
+    )
+  );
 
   // If the response was cut off due to max_tokens, retry once with more room
   if (baseRes.choices[0]?.finish_reason === 'length') {
     const retryBudget = Math.max(maxCompletionTokens, tokens);
     if (retryBudget > tokens) {
       tokens = retryBudget;
-      baseRes = await openai.chat.completions.create({
-        model,
-        messages: buildMessages(augmentedPrompt),
-        temperature: FACTUAL_TEMPERATURE,
-        max_tokens: tokens,
-      });
+      emitGenerationEvent(onEvent, { type: 'draft', delta: '', reset: true });
+      baseRes = await trackGenerationStage(onEvent, 'draft', () =>
+        createDraftCompletion(
+          trackUsage(provider, onEvent, 'draft', 'length-retry'),
+          {
+            model: draftModel,
+            messages: buildMessages(augmentedPrompt),
+            temperature: FACTUAL_TEMPERATURE,
+            max_tokens: tokens,
+          },
+          onEvent
+        )
+      );
     }
   }
 
@@ -2528,8 +2567,8 @@ async function generateWithLinks(
           Math.max(400, Math.ceil(missingList.length * 220)),
           limit
         );
-        let retryRes = await openai.chat.completions.create({
-          model,
+        let retryRes = await trackUsage(provider, onEvent, 'links').chat({
+          model: draftModel,
           messages: buildMessages(repairPrompt),
           temperature: FACTUAL_TEMPERATURE,
           max_tokens: repairTokens,
@@ -2540,8 +2579,8 @@ async function generateWithLinks(
           repairTokens < limit
         ) {
           repairTokens = limit;
-          retryRes = await openai.chat.completions.create({
-            model,
+          retryRes = await trackUsage(provider, onEvent, 'links', 'length-retry').chat({
+            model: draftModel,
             messages: buildMessages(repairPrompt),
             temperature: FACTUAL_TEMPERATURE,
             max_tokens: repairTokens,
@@ -2562,12 +2601,30 @@ async function generateWithLinks(
     }
   };
 
-  await runLinkAndCitationRepair();
+  await trackGenerationStage(onEvent, 'links', runLinkAndCitationRepair);
 
   if (minWords > 0) {
     let wordCount = countWordsFromHtml(content);
     let attempts = lengthRetryCount;
     const maxAttempts = Math.max(0, LENGTH_EXPANSION_ATTEMPTS - 1);
+    const expansionStartedAt = Date.now();
+    const expansionNeeded = wordCount < minWords && attempts < maxAttempts;
+    if (expansionNeeded) {
+      emitGenerationEvent(onEvent, {
+        type: 'stage',
+        stage: 'expansion',
+        status: 'started',
+      });
+    }
+    const reportExpansion = (headings: string[]) =>
+      emitGenerationEvent(onEvent, {
+        type: 'expansion',
+        attempt: attempts,
+        wordCount,
+        minWords,
+        headings,
+        content,
+      });
 
     while (wordCount < minWords && attempts < maxAttempts) {
       const structure = analyzeArticleStructure(content);
@@ -2621,8 +2678,8 @@ async function generateWithLinks(
         limit
       );
 
-      let expansionRes = await openai.chat.completions.create({
-        model,
+      let expansionRes = await trackUsage(provider, onEvent, 'expansion').chat({
+        model: draftModel,
         messages: buildMessages(expansionPrompt),
         temperature: FACTUAL_TEMPERATURE,
         max_tokens: expansionTokens,
@@ -2633,8 +2690,8 @@ async function generateWithLinks(
         expansionTokens < limit
       ) {
         expansionTokens = limit;
-        expansionRes = await openai.chat.completions.create({
-          model,
+        expansionRes = await trackUsage(provider, onEvent, 'expansion', 'length-retry').chat({
+          model: draftModel,
           messages: buildMessages(expansionPrompt),
           temperature: FACTUAL_TEMPERATURE,
           max_tokens: expansionTokens,
@@ -2653,6 +2710,7 @@ async function generateWithLinks(
           await runLinkAndCitationRepair();
           wordCount = countWordsFromHtml(content);
           attempts += 1;
+          reportExpansion([]);
           continue;
         }
         break;
@@ -2667,6 +2725,16 @@ async function generateWithLinks(
       await runLinkAndCitationRepair();
       wordCount = countWordsFromHtml(content);
       attempts += 1;
+      reportExpansion(expansions.map((item) => item.heading));
+    }
+
+    if (expansionNeeded) {
+      emitGenerationEvent(onEvent, {
+        type: 'stage',
+        stage: 'expansion',
+        status: 'completed',
+        elapsedMs: Date.now() - expansionStartedAt,
+      });
     }
   }
 
@@ -2676,139 +2744,96 @@ async function generateWithLinks(
 interface VerificationResult {
   isAccurate: boolean;
   discrepancies: string[];
+  claims: VerificationClaim[];
   themeCoverageIssue?: ThemeCoverageIssue | null;
 }
 
 interface VerifyOutputOptions {
   themeLabel?: string | null;
   themeCoverageThreshold?: number;
+  onEvent?: GenerationEventHandler;
 }
 
-function truncateField(value: string | null | undefined): string {
-  if (!value) {
-    return '';
-  }
-  const trimmed = value.replace(/\s+/g, ' ').trim();
-  if (trimmed.length <= VERIFICATION_MAX_SOURCE_FIELD_LENGTH) {
-    return trimmed;
-  }
-  return `${trimmed.slice(0, VERIFICATION_MAX_SOURCE_FIELD_LENGTH - 1)}…`;
-}
-
-function normalizeVerificationSources(
-  sources: VerificationSource[]
-): Array<{ url: string; title?: string; summary?: string; publishedAt?: string }> {
-  const seen = new Set<string>();
-  const normalized: Array<{
-    url: string;
-    title?: string;
-    summary?: string;
-    publishedAt?: string;
-  }> = [];
-
-  for (const source of sources) {
-    if (normalized.length >= VERIFICATION_MAX_SOURCES) {
-      break;
-    }
-
-    let url: string | undefined;
-    let title: string | undefined;
-    let summary: string | undefined;
-    let publishedAt: string | undefined;
-
-    if (typeof source === 'string') {
-      url = source;
-    } else if (source) {
-      url = source.url ?? undefined;
-      title = source.title ?? undefined;
-      summary = source.summary ?? undefined;
-      publishedAt = source.publishedAt ?? undefined;
-    }
-
-    const trimmedUrl = url?.trim();
-    if (!trimmedUrl) {
-      continue;
-    }
-
-    const normalizedUrl = trimmedUrl.replace(/\s+/g, ' ');
-    if (seen.has(normalizedUrl)) {
-      continue;
-    }
-
-    seen.add(normalizedUrl);
-    normalized.push({
-      url: normalizedUrl,
-      title,
-      summary,
-      publishedAt,
-    });
-  }
-
-  return normalized;
+// Each configured verification provider (LLM_VERIFICATION_PROVIDERS, Grok by
+// default) gets a retry on 5xx errors before the next one is tried; see
+// requestVerification. Usage is reported as generation events, and
+// onProvider hears about each provider as it is tried, so the last one is the
+// provider that answered.
+async function runVerificationWithRetry(
+  prompt: string,
+  onEvent?: GenerationEventHandler,
+  onProvider?: (provider: LlmProvider) => void
+): Promise<string> {
+  return requestVerification(prompt, (provider) => {
+    onProvider?.(provider);
+    return trackUsage(provider, onEvent, 'verification');
+  });
 }
 
-function isRetriableGrokError(err: unknown): boolean {
-  if (err && typeof err === 'object') {
-    const status = (err as { status?: number }).status;
-    if (typeof status === 'number') {
-      return status >= 500 && status < 600;
-    }
-  }
+const CRITICAL_SEVERITIES = new Set(['critical', 'blocker', 'must-fix']);
+const VERIFICATION_VERDICTS: VerificationVerdict[] = ['supported', 'unsupported', 'contradicted'];
 
-  if (!(err instanceof Error)) {
-    return false;
+function normalizeClaimSeverity(value: unknown): VerificationSeverity {
+  if (typeof value !== 'string') {
+    return 'critical';
   }
-
-  const match = err.message.match(/status\s+(\d{3})/i);
-  if (!match) {
-    return false;
+  const severity = value.toLowerCase();
+  if (CRITICAL_SEVERITIES.has(severity)) {
+    return 'critical';
   }
-  const status = Number.parseInt(match[1], 10);
-  return Number.isFinite(status) && status >= 500 && status < 600;
+  return severity === 'minor' ? 'minor' : 'major';
 }
 
-async function runGrokVerificationWithRetry(prompt: string): Promise<string> {
-  let lastError: unknown;
-
-  for (let attempt = 1; attempt <= 2; attempt += 1) {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), VERIFICATION_TIMEOUT_MS);
-
-    try {
-      const messages: GrokChatCompletionMessage[] = [
-        { role: 'user', content: prompt },
-      ];
-      const response = await runChatCompletion(
-        {
-          model: VERIFICATION_MODEL,
-          temperature: 0,
-          messages,
-          stream: true,
-        },
-        { signal: controller.signal }
-      );
-
-      clearTimeout(timeout);
+// Accepts the claim list the prompt asks for as well as bare discrepancy
+// entries (strings or {description, severity}), which are treated as
+// unsupported claims.
+function normalizeVerificationClaims(parsed: any): VerificationClaim[] {
+  const entries: unknown[] = Array.isArray(parsed?.claims)
+    ? parsed.claims
+    : Array.isArray(parsed?.discrepancies)
+    ? parsed.discrepancies
+    : [];
 
-      const aggregated = response.choices[0]?.message?.content?.trim();
-      if (!aggregated) {
-        throw new Error('Verification response contained no content');
+  return entries
+    .map((item: any): VerificationClaim | null => {
+      if (typeof item === 'string') {
+        const description = item.trim();
+        return description
+          ? {
+              claim: description,
+              sentence: null,
+              sourceUrl: null,
+              verdict: 'unsupported',
+              severity: 'critical',
+              explanation: description,
+              autoCorrected: false,
+            }
+          : null;
       }
-      return aggregated;
-    } catch (err) {
-      clearTimeout(timeout);
-      lastError = err;
-      if (attempt < 2 && isRetriableGrokError(err)) {
-        console.warn('[api/generate] verification attempt failed, retrying', err);
-        continue;
+      if (!item || typeof item !== 'object') {
+        return null;
       }
-      throw err;
-    }
-  }
+      const readString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+      const claim = readString(item.claim) || readString(item.description);
+      if (!claim) {
+        return null;
+      }
+      const verdict = VERIFICATION_VERDICTS.includes(item.verdict) ? item.verdict : 'unsupported';
+      return {
+        claim,
+        sentence: readString(item.sentence) || null,
+        sourceUrl: readString(item.sourceUrl) || null,
+        verdict,
+        severity: verdict === 'supported' ? 'minor' : normalizeClaimSeverity(item.severity),
+        explanation: readString(item.explanation) || readString(item.description),
+        autoCorrected: false,
+      };
+    })
+    .filter((item): item is VerificationClaim => Boolean(item));
+}
 
-  throw lastError instanceof Error
-    ? lastError
-    : new Error('Verification request failed unexpectedly');
+function formatClaimIssue(claim: VerificationClaim): string {
+  return `[${claim.severity.toUpperCase()}] ${claim.explanation || claim.claim}`;
 }
 
 function evaluateVerificationResponse(
@@ -2826,51 +2851,27 @@ function evaluateVerificationResponse(
     }
   }
 
-  if (!parsed || !Array.isArray(parsed.discrepancies)) {
+  if (!parsed || (!Array.isArray(parsed.claims) && !Array.isArray(parsed.discrepancies))) {
     if (themeCoverageIssue) {
       console.warn('Theme coverage issue detected:', themeCoverageIssue);
       return {
         isAccurate: false,
         discrepancies: [formatThemeCoverageIssue(themeCoverageIssue)],
+        claims: [],
         themeCoverageIssue,
       };
     }
-    return { isAccurate: true, discrepancies: [], themeCoverageIssue: null };
+    return { isAccurate: true, discrepancies: [], claims: [], themeCoverageIssue: null };
   }
 
-  const normalizedDiscrepancies = parsed.discrepancies
-    .map((item: any) => {
-      if (!item) {
-        return null;
-      }
-      if (typeof item === 'string') {
-        return { description: item.trim(), severity: 'critical' };
-      }
-      if (typeof item === 'object') {
-        const description = typeof item.description === 'string' ? item.description.trim() : '';
-        if (!description) {
-          return null;
-        }
-        const severity = typeof item.severity === 'string' ? item.severity.toLowerCase() : 'critical';
-        return { description, severity };
-      }
-      return null;
-    })
-    .filter((item: { description: string; severity: string } | null): item is {
-      description: string;
-      severity: string;
-    } => Boolean(item && item.description));
-
-  const criticalSeverities = new Set(['critical', 'blocker', 'must-fix']);
-  const criticalIssues = normalizedDiscrepancies.filter((item) =>
-    criticalSeverities.has((item.severity || '').toLowerCase())
+  const claims = normalizeVerificationClaims(parsed);
+  const criticalIssues = claims.filter(
+    (claim) => claim.verdict !== 'supported' && claim.severity === 'critical'
   );
 
   const discrepancies: string[] = [];
   if (criticalIssues.length > VERIFICATION_DISCREPANCY_THRESHOLD) {
-    const summaries = criticalIssues.map(
-      (item) => `[${(item.severity || 'critical').toUpperCase()}] ${item.description}`
-    );
+    const summaries = criticalIssues.map(formatClaimIssue);
     console.warn('Accuracy issues: ', summaries);
     discrepancies.push(...summaries);
   }
@@ -2881,10 +2882,10 @@ function evaluateVerificationResponse(
   }
 
   if (discrepancies.length > 0) {
-    return { isAccurate: false, discrepancies, themeCoverageIssue };
+    return { isAccurate: false, discrepancies, claims, themeCoverageIssue };
   }
 
-  return { isAccurate: true, discrepancies: [], themeCoverageIssue: null };
+  return { isAccurate: true, discrepancies: [], claims, themeCoverageIssue: null };
 }
 
 async function verifyOutput(
@@ -2894,7 +2895,7 @@ async function verifyOutput(
 ): Promise<VerificationResult> {
   const trimmedContent = content?.trim();
   if (!trimmedContent) {
-    return { isAccurate: true, discrepancies: [], themeCoverageIssue: null };
+    return { isAccurate: true, discrepancies: [], claims: [], themeCoverageIssue: null };
   }
 
   const limitedContent =
@@ -2914,10 +2915,8 @@ async function verifyOutput(
     : null;
 
   const normalizedSources = normalizeVerificationSources(sources);
-  const hasVerificationKey = Boolean(
-    process.env.GROK_API_KEY?.trim() || process.env.OPENAI_API_KEY?.trim()
-  );
-  const shouldRunAccuracyCheck = hasVerificationKey && normalizedSources.length > 0;
+  const hasVerificationProvider = resolveStageProviders('verification').length > 0;
+  const shouldRunAccuracyCheck = hasVerificationProvider && normalizedSources.length > 0;
 
   if (!shouldRunAccuracyCheck) {
     if (themeCoverageIssue) {
@@ -2925,10 +2924,11 @@ async function verifyOutput(
       return {
         isAccurate: false,
         discrepancies: [formatThemeCoverageIssue(themeCoverageIssue)],
+        claims: [],
         themeCoverageIssue,
       };
     }
-    return { isAccurate: true, discrepancies: [], themeCoverageIssue: null };
+    return { isAccurate: true, discrepancies: [], claims: [], themeCoverageIssue: null };
   }
 
   const formattedSources = normalizedSources
@@ -2943,6 +2943,9 @@ async function verifyOutput(
       if (summary) {
         parts.push(`   Summary: ${summary}`);
       }
+      if (item.passages?.length) {
+        parts.push(`   Excerpts:\n${item.passages.map((passage) => `   > ${passage}`).join('\n')}`);
+      }
       if (publishedAt) {
         parts.push(`   Published: ${publishedAt}`);
       }
@@ -2959,8 +2962,9 @@ async function verifyOutput(
     'Check if this article matches sources; list discrepancies.',
     '',
     'You are a post-generation fact-checking assistant. Compare the article HTML to the provided sources and highlight any unsupported or contradictory claims.',
-    'Respond with JSON using this schema: {"discrepancies":[{"description":string,"severity":"minor"|"major"|"critical"}]}.',
-    'Only include discrepancies that materially change the accuracy of the piece. Ignore nitpicks, emphasis changes, or speculative language.',
+    'Respond with JSON using this schema: {"claims":[{"claim":string,"sentence":string,"sourceUrl":string|null,"verdict":"supported"|"unsupported"|"contradicted","severity":"minor"|"major"|"critical","explanation":string}]}.',
+    `List up to ${VERIFICATION_MAX_CLAIMS} of the article's key factual claims. Copy "sentence" word for word from the article text without HTML tags, and set "sourceUrl" to the source you checked the claim against, or null when no source covers it.`,
+    'Only mark a claim "unsupported" or "contradicted" when the problem materially changes the accuracy of the piece. Ignore nitpicks, emphasis changes, or speculative language.',
     'Reserve "critical" severity for issues that would seriously mislead the reader about the core facts. Use "major" for notable but non-critical gaps and "minor" for everything else.',
     '',
     'Article HTML:',
@@ -2970,39 +2974,32 @@ async function verifyOutput(
     limitedSources || 'No sources provided.',
   ].join('\n');
 
-  const hasGrokKey = Boolean(process.env.GROK_API_KEY?.trim());
-
-  if (!hasGrokKey) {
-    if (themeCoverageIssue) {
-      console.warn('Theme coverage issue detected:', themeCoverageIssue);
-      return {
-        isAccurate: false,
-        discrepancies: [formatThemeCoverageIssue(themeCoverageIssue)],
-        themeCoverageIssue,
-      };
-    }
-    return { isAccurate: true, discrepancies: [], themeCoverageIssue: null };
-  }
-
   try {
-    const response = await runGrokVerificationWithRetry(prompt);
+    let verifiedBy = 'unknown';
+    const response = await runVerificationWithRetry(prompt, options.onEvent, (provider) => {
+      verifiedBy = provider.id;
+    });
     const verificationResult = evaluateVerificationResponse(response, themeCoverageIssue);
     if (verificationResult.isAccurate) {
-      console.info('[api/generate] GROK_VERIFICATION_SUCCEEDED – article approved');
+      // The marker keeps its original name so existing log alerts still match.
+      console.info('[api/generate] GROK_VERIFICATION_SUCCEEDED – article approved', {
+        provider: verifiedBy,
+      });
     }
     return verificationResult;
   } catch (err) {
-    console.warn('[api/generate] GROK_REVIEW_FAILED – verification failed', err);
+    console.warn('[api/generate] REVIEW_FAILED – verification failed', err);
     console.warn('[api/generate] Verification fallback unavailable; skipping accuracy review.');
     if (themeCoverageIssue) {
       console.warn('Theme coverage issue detected:', themeCoverageIssue);
       return {
         isAccurate: false,
         discrepancies: [formatThemeCoverageIssue(themeCoverageIssue)],
+        claims: [],
         themeCoverageIssue,
       };
     }
-    return { isAccurate: true, discrepancies: [], themeCoverageIssue: null };
+    return { isAccurate: true, discrepancies: [], claims: [], themeCoverageIssue: null };
   }
 }
 
@@ -3057,21 +3054,29 @@ function applyVerificationIssuesToPrompt(basePrompt: string, issues?: string[]):
 }
 
 
+// Writer-supplied documents have no URL; give them a readable label so the
+// verifier still sees their text as a source.
+function labelUnlinkedSource(source: VerificationSource): VerificationSource {
+  if (typeof source === 'string' || source.url?.trim()) {
+    return source;
+  }
+  return { ...source, url: `Writer-supplied document: ${source.title || 'untitled'}` };
+}
+
 async function generateWithVerification(
   generator: (issues?: string[]) => Promise<string>,
   sources: VerificationSource[],
   fallbackSources: string[] = [],
-  verificationOptions: VerifyOutputOptions = {}
+  verificationOptions: VerifyOutputOptions = {},
+  onEvent?: GenerationEventHandler
 ): Promise<string> {
   const combinedSources = sources.length
-    ? sources
+    ? sources.map(labelUnlinkedSource)
     : fallbackSources.map((url) => ({ url }));
   const hasThemeCheck = Boolean(verificationOptions.themeLabel?.trim());
-  const hasVerificationKey = Boolean(
-    process.env.GROK_API_KEY?.trim() || process.env.OPENAI_API_KEY?.trim()
-  );
+  const hasVerificationProvider = resolveStageProviders('verification').length > 0;
   const shouldVerify =
-    (hasVerificationKey && combinedSources.length > 0) ||
+    (hasVerificationProvider && combinedSources.length > 0) ||
     hasThemeCheck;
 
   const initialContent = await generator();
@@ -3079,11 +3084,22 @@ async function generateWithVerification(
     return initialContent;
   }
 
-  const verification = await verifyOutput(
-    initialContent,
-    combinedSources,
-    verificationOptions
+  const verification = await trackGenerationStage(onEvent, 'verification', () =>
+    verifyOutput(initialContent, combinedSources, { ...verificationOptions, onEvent })
   );
+  const report: VerificationReport = {
+    isAccurate: verification.isAccurate,
+    discrepancies: verification.discrepancies,
+    claims: verification.claims,
+    themeCoverageIssue: verification.themeCoverageIssue ?? null,
+    revised: false,
+  };
+  emitGenerationEvent(onEvent, {
+    type: 'verification',
+    isAccurate: verification.isAccurate,
+    discrepancies: verification.discrepancies,
+    report,
+  });
   if (verification.isAccurate) {
     return initialContent;
   }
@@ -3099,14 +3115,141 @@ async function generateWithVerification(
   console.warn('Revising article once to resolve accuracy issues', issues);
 
   try {
-    return await generator(issues);
+    emitGenerationEvent(onEvent, { type: 'draft', delta: '', reset: true });
+    const revised = await trackGenerationStage(onEvent, 'revision', () => generator(issues));
+    emitGenerationEvent(onEvent, { type: 'revision', previousContent: initialContent });
+    // The revision is not re-verified; a flagged claim counts as corrected
+    // once its sentence is gone from the revised article.
+    emitGenerationEvent(onEvent, {
+      type: 'verification',
+      isAccurate: verification.isAccurate,
+      discrepancies: verification.discrepancies,
+      report: {
+        ...report,
+        revised: true,
+        claims: report.claims.map((claim) => ({
+          ...claim,
+          autoCorrected:
+            issues.includes(formatClaimIssue(claim)) &&
+            Boolean(claim.sentence) &&
+            !findSentenceRange(revised, claim.sentence),
+        })),
+      },
+    });
+    return revised;
   } catch (err) {
     console.warn('Revision attempt failed, returning initial article', err);
     return initialContent;
   }
 }
 
-export async function POST(request: Request) {
+type GenerateRequestBody = {
+  articleType: string;
+  title: string;
+  listNumberingFormat?: string;
+  listItemWordCount?: number;
+  toneOfVoice?: string;
+  customTone?: string;
+  pointOfView?: string;
+  customInstructions?: string;
+  lengthOption?: string;
+  customSections?: number;
+  modelVersion?: string;
+  useSerpApi?: boolean;
+  includeLinks?: boolean;
+  // Append an FAQ answered from Google's "People also ask" questions.
+  includeFaq?: boolean;
+  stream?: boolean;
+  userId?: string;
+  articleId?: string;
+  versionSource?: 'generation' | 'regeneration';
+  sourceDocuments?: SourceDocumentInput[];
+  sourceMode?: SourceDocumentMode;
+  // Extra publisher rules for this request, merged over the site profile's.
+  sourcePolicy?: unknown;
+  // Connected WordPress account whose published posts are linked internally.
+  internalLinkAccountId?: string;
+  // Recipe articles only.
+  servings?: number;
+  unitSystem?: string;
+};
+
+// Recipes skip source search. The model writes a structured recipe, a recipe
+// whose steps leave out an ingredient gets one repair round, and the article
+// HTML is rendered from the result.
+async function generateRecipeArticle(
+  body: GenerateRequestBody,
+  toneInstruction: string,
+  onEvent?: GenerationEventHandler
+): Promise<Response> {
+  const unitSystem: UnitSystem = UNIT_SYSTEMS.includes(body.unitSystem as UnitSystem)
+    ? (body.unitSystem as UnitSystem)
+    : 'imperial';
+  const servings =
+    typeof body.servings === 'number' && body.servings >= 1
+      ? Math.min(Math.round(body.servings), MAX_SERVINGS)
+      : DEFAULT_SERVINGS;
+  const { provider, model } = getStageProvider('draft', body.modelVersion);
+  const messages: LlmChatRequest['messages'] = [
+    {
+      role: 'user',
+      content: buildRecipePrompt({
+        title: body.title,
+        servings,
+        unitSystem,
+        toneInstruction,
+        customInstructions: body.customInstructions?.trim(),
+      }),
+    },
+  ];
+  const requestRecipe = async (stage: GenerationStage) => {
+    const res = await trackUsage(provider, onEvent, stage, 'recipe').chat({
+      model,
+      messages,
+      temperature: FACTUAL_TEMPERATURE,
+      max_tokens: Math.min(RECIPE_MAX_TOKENS, provider.getTokenLimits(model).maxOutputTokens),
+      response_format: { type: 'json_object' },
+    });
+    const raw = res.choices[0]?.message?.content ?? '';
+    return { raw, recipe: parseRecipeResponse(raw, body.title, unitSystem) };
+  };
+
+  const draft = await trackGenerationStage(onEvent, 'draft', () => requestRecipe('draft'));
+  let recipe = draft.recipe;
+  if (!recipe) {
+    return NextResponse.json({ error: 'Model returned no usable recipe' }, { status: 502 });
+  }
+  let unused = findUnusedIngredients(recipe);
+  if (unused.length) {
+    messages.push(
+      { role: 'assistant', content: draft.raw },
+      { role: 'user', content: buildUnusedIngredientFeedback(unused) }
+    );
+    const revised = await trackGenerationStage(onEvent, 'revision', () =>
+      requestRecipe('revision')
+    );
+    if (revised.recipe) {
+      recipe = revised.recipe;
+      unused = findUnusedIngredients(recipe);
+    }
+  }
+
+  return NextResponse.json({
+    content: renderRecipeHtml(recipe),
+    sources: [],
+    recipe,
+    ...(unused.length && {
+      recipeWarnings: unused.map((ingredient) => `${ingredient.name} is not used in any step`),
+    }),
+  });
+}
+
+async function runGeneration(
+  body: GenerateRequestBody,
+  onEvent?: GenerationEventHandler,
+  sourcePolicy: SourcePolicy = EMPTY_SOURCE_POLICY,
+  internalLinks: InternalLink[] = []
+): Promise<Response> {
   try {
     const {
       articleType,
@@ -3122,21 +3265,7 @@ export async function POST(request: Request) {
       modelVersion = 'gpt-4o-mini',
       useSerpApi = true,
       includeLinks = true,
-    }: {
-      articleType: string;
-      title: string;
-      listNumberingFormat?: string;
-      listItemWordCount?: number;
-      toneOfVoice?: string;
-      customTone?: string;
-      pointOfView?: string;
-      customInstructions?: string;
-      lengthOption?: string;
-      customSections?: number;
-      modelVersion?: string;
-      useSerpApi?: boolean;
-      includeLinks?: boolean;
-    } = await request.json();
+    } = body;
 
     if (!title?.trim()) {
       return NextResponse.json({ error: 'Missing title' }, { status: 400 });
@@ -3144,6 +3273,10 @@ export async function POST(request: Request) {
 
     const isListicleMode = articleType === 'Listicle/Gallery';
     const serpEnabled = includeLinks && useSerpApi && !!process.env.SERPAPI_KEY;
+    const sourceDocuments = normalizeSourceDocuments(body.sourceDocuments);
+    const skipSearch = body.sourceMode === 'replace' && sourceDocuments.length > 0;
+    const loadUserSources = async (): Promise<ReportingSource[]> =>
+      sourceDocuments.length ? buildUserReportingSources(sourceDocuments, title) : [];
     const baseMaxTokens = calcMaxTokens(lengthOption, customSections, modelVersion);
     const toneChoice =
       toneOfVoice === 'Custom' && customTone ? customTone : toneOfVoice;
@@ -3153,9 +3286,44 @@ export async function POST(request: Request) {
     const povInstruction = pointOfView
       ? `- Use a ${pointOfView} perspective.\n`
       : '';
+    const internalLinkInstruction = buildInternalLinkInstruction(internalLinks);
+
+    const reportSearch = () =>
+      emitGenerationEvent(onEvent, {
+        type: 'usage',
+        usage: buildSearchUsageEvent('sources', 'google_news'),
+      });
+
+    if (articleType === 'Recipe article') {
+      return await generateRecipeArticle(body, toneInstruction, onEvent);
+    }
 
     if (articleType === 'News article') {
-      const articles = await fetchNewsArticles(title, serpEnabled);
+      const articles = await trackGenerationStage(onEvent, 'sources', async () =>
+        fitReportingSourcesToBudget<ReportingSource>(
+          [
+            ...(await loadUserSources()),
+            ...(skipSearch
+              ? []
+              : await attachSourcePassages(
+                  (await fetchNewsArticles(title, serpEnabled, reportSearch)).filter(
+                    (article) => !isSourceBlocked(article.url, sourcePolicy)
+                  ),
+                  title
+                )),
+          ],
+          modelVersion,
+          baseMaxTokens
+        )
+      );
+      emitGenerationEvent(onEvent, {
+        type: 'sources',
+        sources: articles.map(({ url, title, publishedAt }) => ({
+          url,
+          title,
+          publishedAt,
+        })),
+      });
       if (!articles.length) {
         return NextResponse.json(
           {
@@ -3203,7 +3371,9 @@ export async function POST(request: Request) {
               .join('\n')}`
           : '';
       const groundingInstruction = articles.length
-        ? '- Base every factual statement on the reporting summaries provided and cite the matching URL when referencing them.\n'
+        ? `- Base every factual statement on the reporting summaries provided and cite the matching URL when referencing them.\n${
+            articles.some((item) => item.sourceType === 'user') ? USER_SOURCE_INSTRUCTION : ''
+          }`
         : '';
 
       const reportingContext = reportingBlock ? `${reportingBlock}\n\n` : '';
@@ -3241,7 +3411,8 @@ export async function POST(request: Request) {
         outline = await generateOutlineWithFallback(
           outlinePrompt,
           modelVersion,
-          0.6
+          0.6,
+          onEvent
         );
 
         const [baseMinWords, baseMaxWords] = getWordBounds(
@@ -3287,7 +3458,8 @@ export async function POST(request: Request) {
         outline = await generateOutlineWithFallback(
           baseOutline,
           modelVersion,
-          0.6
+          0.6,
+          onEvent
         );
 
         const [minWords, maxWords] = getWordBounds(lengthOption, customSections);
@@ -3322,6 +3494,7 @@ export async function POST(request: Request) {
             groundingInstruction,
             customInstructionBlock,
             linkInstruction,
+            internalLinkInstruction,
             lengthInstruction,
             numberingInstruction,
             wordCountInstruction,
@@ -3337,6 +3510,7 @@ export async function POST(request: Request) {
             groundingInstruction,
             customInstructionBlock,
             linkInstruction,
+            internalLinkInstruction,
             extraRequirements: newsExtraRequirements,
           });
 
@@ -3355,10 +3529,15 @@ export async function POST(request: Request) {
             minLinks,
             maxTokens,
             minWordsForGeneration,
-            articles
+            articles,
+            true,
+            0,
+            onEvent
           ),
         articles,
-        newsSources
+        newsSources,
+        {},
+        onEvent
       );
 
       return NextResponse.json({
@@ -3368,7 +3547,7 @@ export async function POST(request: Request) {
     }
 
     const reportingContextPromise: Promise<ReportingContext> = (async () => {
-      if (!serpEnabled) {
+      if (!serpEnabled && !sourceDocuments.length) {
         return {
           reportingSources: [],
           reportingBlock: '',
@@ -3380,19 +3559,47 @@ export async function POST(request: Request) {
 
       const needsRelevanceSourcing =
         articleType === 'Listicle/Gallery' || articleType === 'Blog post';
-      const reportingSources = await fetchSources(
-        title,
-        needsRelevanceSourcing
-          ? {
-              maxAgeMs: null,
-              serpParams: { sort_by: 'relevance' },
-            }
-          : undefined
+      const reportingSources = await trackGenerationStage(onEvent, 'sources', async () =>
+        fitReportingSourcesToBudget(
+          [
+            ...(await loadUserSources()),
+            ...(serpEnabled && !skipSearch
+              ? await attachSourcePassages(
+                  await fetchSources(
+                    title,
+                    needsRelevanceSourcing
+                      ? {
+                          maxAgeMs: null,
+                          serpParams: { sort_by: 'relevance' },
+                          onSearch: reportSearch,
+                          sourcePolicy,
+                        }
+                      : { onSearch: reportSearch, sourcePolicy }
+                  ),
+                  title
+                )
+              : []),
+          ],
+          modelVersion,
+          baseMaxTokens
+        )
       );
+      emitGenerationEvent(onEvent, {
+        type: 'sources',
+        sources: reportingSources.map(({ url, title, publishedAt }) => ({
+          url,
+          title,
+          publishedAt,
+        })),
+      });
 
       const reportingBlock = buildRecentReportingBlock(reportingSources);
       const groundingInstruction = reportingSources.length
-        ? '- Use these reporting summaries to enrich your article, weaving their specifics naturally into the story and citing the matching URL for each sourced detail.\n'
+        ? `- Use these reporting summaries to enrich your article, weaving their specifics naturally into the story and citing the matching URL for each sourced detail.\n${
+            reportingSources.some((item) => item.sourceType === 'user')
+              ? USER_SOURCE_INSTRUCTION
+              : ''
+          }`
         : '';
       const linkSources = reportingSources
         .map((item) => item.url)
@@ -3438,7 +3645,8 @@ export async function POST(request: Request) {
       const outline = await generateOutlineWithFallback(
         outlinePrompt,
         modelVersion,
-        0.6
+        0.6,
+        onEvent
       );
 
       const customInstruction = customInstructions?.trim();
@@ -3485,6 +3693,7 @@ export async function POST(request: Request) {
         groundingInstruction,
         customInstructionBlock,
         linkInstruction,
+        internalLinkInstruction,
         lengthInstruction: listicleLength.lengthInstruction,
         numberingInstruction: listicleLength.numberingInstruction,
         wordCountInstruction: listicleLength.wordCountInstruction,
@@ -3492,7 +3701,7 @@ export async function POST(request: Request) {
 
       const desired = count * listicleLength.wordsPerItem + 50;
       let maxTokens = Math.ceil((desired * 1.2) / 0.75); // add 20% buffer
-      const limit = MODEL_CONTEXT_LIMITS[modelVersion] || 8000;
+      const limit = getModelLimits(modelVersion).maxOutputTokens;
       maxTokens = Math.min(maxTokens, limit);
 
       const content = await generateWithVerification(
@@ -3505,10 +3714,15 @@ export async function POST(request: Request) {
             minLinks,
             maxTokens,
             listicleLength.minWords,
-            reportingSources
+            reportingSources,
+            true,
+            0,
+            onEvent
           ),
         reportingSources,
-        linkSources
+        linkSources,
+        {},
+        onEvent
       );
       return NextResponse.json({
         content,
@@ -3559,7 +3773,8 @@ export async function POST(request: Request) {
       outline = await generateOutlineWithFallback(
         outlinePrompt,
         modelVersion,
-        0.6
+        0.6,
+        onEvent
       );
 
       const listicleLength = buildListicleLengthArtifacts({
@@ -3597,7 +3812,9 @@ export async function POST(request: Request) {
 
       outline = await generateOutlineWithFallback(
         baseOutline,
-        modelVersion
+        modelVersion,
+        0.7,
+        onEvent
       );
 
       const minWords = baseMinWords;
@@ -3649,6 +3866,7 @@ export async function POST(request: Request) {
           groundingInstruction,
           customInstructionBlock,
           linkInstruction,
+          internalLinkInstruction,
           lengthInstruction,
           numberingInstruction,
           wordCountInstruction,
@@ -3664,6 +3882,7 @@ export async function POST(request: Request) {
           groundingInstruction,
           customInstructionBlock,
           linkInstruction,
+          internalLinkInstruction,
           extraRequirements: blogExtraRequirements,
         });
 
@@ -3678,10 +3897,15 @@ export async function POST(request: Request) {
             minLinks,
             baseMaxTokens,
             minWordsForGeneration,
-            reportingSources
+            reportingSources,
+            true,
+            0,
+            onEvent
           ),
         reportingSources,
-        linkSources
+        linkSources,
+        {},
+        onEvent
       );
 
     const content = await runArticleGeneration(articlePrompt);
@@ -3698,3 +3922,380 @@ export async function POST(request: Request) {
     );
   }
 }
+
+type GenerationOutcome = {
+  previousContent: string | null;
+  verification: VerificationReport | null;
+};
+
+// Saves the finished article to the library and as a new version. When
+// verification forced a revision, the pre-revision draft is kept as its own
+// version first.
+async function persistGeneratedArticle(
+  body: GenerateRequestBody,
+  response: Response,
+  { previousContent, verification }: GenerationOutcome
+): Promise<void> {
+  if (!response.ok || !body.userId || !body.articleId) {
+    return;
+  }
+  try {
+    const { content, sources, seo, recipe } = await response.clone().json();
+    if (typeof content !== 'string' || !content.trim()) {
+      return;
+    }
+    const {
+      stream: _stream,
+      userId: _userId,
+      articleId: _articleId,
+      versionSource: _versionSource,
+      ...payload
+    } = body;
+    await upsertArticle(body.articleId, body.userId, {
+      title: body.title,
+      content,
+      sources: Array.isArray(sources) ? sources : [],
+      payload,
+      verification,
+      seo: seo ?? null,
+      ...(recipe && { recipe }),
+    });
+
+    const base = {
+      articleId: body.articleId,
+      userId: body.userId,
+      title: body.title,
+      sources: Array.isArray(sources) ? sources : [],
+    };
+    const source = body.versionSource === 'regeneration' ? 'regeneration' : 'generation';
+    if (previousContent) {
+      await createArticleVersion({ ...base, source, content: previousContent });
+      await createArticleVersion({ ...base, source: 'verification', content });
+    } else {
+      await createArticleVersion({ ...base, source, content });
+    }
+  } catch (err) {
+    console.error('[api/generate] failed to save generated article', err);
+  }
+}
+
+// Appends an FAQ for the related questions the article does not answer yet.
+// Questions whose snippet comes from a blocked source are never used.
+async function attachFaqSection(
+  response: Response,
+  body: GenerateRequestBody,
+  policy: SourcePolicy,
+  onEvent?: GenerationEventHandler
+): Promise<Response> {
+  if (!response.ok || !body.includeFaq || !FAQ_ARTICLE_TYPES.includes(body.articleType)) {
+    return response;
+  }
+  try {
+    const json = await response.clone().json();
+    if (typeof json.content !== 'string' || !json.content.trim() || hasFaqSection(json.content)) {
+      return response;
+    }
+    const faqs = await trackGenerationStage(onEvent, 'faq', async () => {
+      const related = await fetchRelatedQuestions(body.title, () =>
+        emitGenerationEvent(onEvent, {
+          type: 'usage',
+          usage: buildSearchUsageEvent('faq', 'google'),
+        })
+      );
+      const questions = selectFaqQuestions(
+        related.filter((item) => !item.url || !isSourceBlocked(item.url, policy)),
+        json.content
+      );
+      if (!questions.length) {
+        return [];
+      }
+      const { provider, model } = getStageProvider('draft', body.modelVersion);
+      const faqRes = await trackUsage(provider, onEvent, 'faq').chat({
+        model,
+        messages: [{ role: 'user', content: buildFaqPrompt(body.title, json.content, questions) }],
+        temperature: FACTUAL_TEMPERATURE,
+        max_tokens: FAQ_MAX_TOKENS,
+        response_format: { type: 'json_object' },
+      });
+      return parseFaqResponse(faqRes.choices[0]?.message?.content, questions);
+    });
+    if (!faqs.length) {
+      return response;
+    }
+    const includeLinks = body.includeLinks !== false;
+    const sources: unknown[] = Array.isArray(json.sources) ? json.sources : [];
+    const cited = includeLinks
+      ? faqs.map((faq) => faq.url).filter((url): url is string => !!url && !sources.includes(url))
+      : [];
+    return NextResponse.json(
+      {
+        ...json,
+        content: `${json.content.trimEnd()}\n${renderFaqSection(faqs, { includeLinks })}`,
+        sources: [...sources, ...new Set(cited)],
+      },
+      { status: response.status }
+    );
+  } catch (err) {
+    console.warn('[api/generate] FAQ section failed, continuing without it', err);
+    return response;
+  }
+}
+
+// Unlinks denied and competitor URLs the model cited anyway and drops them
+// from the returned source list.
+async function applySourcePolicy(response: Response, policy: SourcePolicy): Promise<Response> {
+  if (!response.ok) {
+    return response;
+  }
+  try {
+    const json = await response.clone().json();
+    if (typeof json.content !== 'string') {
+      return response;
+    }
+    const { html, removed } = removeBlockedLinks(json.content, policy);
+    if (!removed.length) {
+      return response;
+    }
+    console.warn(`[api/generate] removed ${removed.length} links blocked by the source policy`);
+    return NextResponse.json(
+      {
+        ...json,
+        content: html,
+        sources: Array.isArray(json.sources)
+          ? json.sources.filter(
+              (source: unknown) => typeof source !== 'string' || !isSourceBlocked(source, policy)
+            )
+          : json.sources,
+      },
+      { status: response.status }
+    );
+  } catch {
+    return response;
+  }
+}
+
+// Picks related posts from the connected WordPress site. Internal linking is
+// best-effort: a missing account or an unreachable site only means no links.
+async function loadInternalLinks(body: GenerateRequestBody): Promise<InternalLink[]> {
+  const accountId = body.internalLinkAccountId?.trim();
+  if (!accountId || !body.userId || !body.title?.trim()) {
+    return [];
+  }
+  try {
+    const credentials = await loadWordPressCredentials(body.userId, accountId);
+    if (!credentials) {
+      console.warn(`[api/generate] WordPress account ${accountId} not found for internal links`);
+      return [];
+    }
+    const posts = await loadInternalLinkIndex(credentials.siteUrl, credentials.authorization);
+    return selectInternalLinks(posts, body.title).map(({ url, title }) => ({ url, title }));
+  } catch (err) {
+    console.error('[api/generate] failed to load internal links', err);
+    return [];
+  }
+}
+
+// Marks the internal links in the finished article, adding any the draft
+// missed, and reports them alongside the external sources.
+async function attachInternalLinks(
+  response: Response,
+  candidates: InternalLink[]
+): Promise<Response> {
+  if (!response.ok || !candidates.length) {
+    return response;
+  }
+  try {
+    const json = await response.clone().json();
+    if (typeof json.content !== 'string') {
+      return response;
+    }
+    const { html, links } = applyInternalLinks(json.content, candidates);
+    return NextResponse.json(
+      { ...json, content: html, internalLinks: links },
+      { status: response.status }
+    );
+  } catch {
+    return response;
+  }
+}
+
+// Writes the SEO package for the finished article. When the request fails the
+// metadata is derived from the title and opening paragraph instead.
+async function generateSeoMetadata(
+  title: string,
+  content: string,
+  model: string | undefined,
+  onEvent?: GenerationEventHandler
+): Promise<SeoMetadata> {
+  try {
+    return await trackGenerationStage(onEvent, 'seo', async () => {
+      const { provider, model: seoModel } = getStageProvider('draft', model);
+      const seoRes = await trackUsage(provider, onEvent, 'seo').chat({
+        model: seoModel,
+        messages: [{ role: 'user', content: buildSeoPrompt(title, content) }],
+        temperature: FACTUAL_TEMPERATURE,
+        max_tokens: SEO_MAX_TOKENS,
+        response_format: { type: 'json_object' },
+      });
+      const seo = parseSeoResponse(seoRes.choices[0]?.message?.content, title);
+      if (!seo) {
+        throw new Error('SEO metadata response was not valid JSON');
+      }
+      return seo;
+    });
+  } catch (err) {
+    console.warn('[api/generate] SEO metadata generation failed, using fallback', err);
+    return buildFallbackSeoMetadata(title, content);
+  }
+}
+
+async function attachSeoMetadata(
+  response: Response,
+  body: GenerateRequestBody,
+  onEvent?: GenerationEventHandler
+): Promise<Response> {
+  if (!response.ok) {
+    return response;
+  }
+  try {
+    const json = await response.clone().json();
+    if (typeof json.content !== 'string' || !json.content.trim()) {
+      return response;
+    }
+    const seo = await generateSeoMetadata(body.title, json.content, body.modelVersion, onEvent);
+    return NextResponse.json({ ...json, seo }, { status: response.status });
+  } catch {
+    return response;
+  }
+}
+
+// Adds a JSON-LD preview for the article type. Publishing rebuilds it from the
+// edited HTML with the site as publisher.
+async function attachStructuredData(
+  response: Response,
+  body: GenerateRequestBody
+): Promise<Response> {
+  if (!response.ok) {
+    return response;
+  }
+  try {
+    const json = await response.clone().json();
+    if (typeof json.content !== 'string' || !json.content.trim()) {
+      return response;
+    }
+    const structuredData = buildStructuredData({
+      articleType: body.articleType,
+      title: body.title,
+      html: json.content,
+      seo: json.seo ?? null,
+      datePublished: new Date().toISOString(),
+    });
+    return NextResponse.json({ ...json, structuredData }, { status: response.status });
+  } catch {
+    return response;
+  }
+}
+
+// Adds the verification report to a successful response so the client can
+// review flagged claims without reloading the article.
+async function attachVerificationReport(
+  response: Response,
+  report: VerificationReport | null
+): Promise<Response> {
+  if (!response.ok || !report) {
+    return response;
+  }
+  try {
+    const json = await response.clone().json();
+    return NextResponse.json({ ...json, verification: report }, { status: response.status });
+  } catch {
+    return response;
+  }
+}
+
+// Usage and the saved article are collected from the event stream so that
+// streamed and plain JSON requests record the same rows once generation settles.
+async function runGenerationWithUsage(
+  body: GenerateRequestBody,
+  forward?: GenerationEventHandler
+): Promise<Response> {
+  const usageEvents: UsageEvent[] = [];
+  const outcome: GenerationOutcome = { previousContent: null, verification: null };
+  const onEvent: GenerationEventHandler = (event) => {
+    if (event.type === 'usage') {
+      usageEvents.push(event.usage);
+    } else if (event.type === 'revision') {
+      outcome.previousContent = event.previousContent;
+    } else if (event.type === 'verification') {
+      outcome.verification = event.report;
+    }
+    forward?.(event);
+  };
+
+  try {
+    const sourcePolicy = mergeSourcePolicies(
+      await loadSourcePolicy(body.userId),
+      normalizeSourcePolicy(body.sourcePolicy)
+    );
+    const internalLinks = await loadInternalLinks(body);
+    const response = await attachStructuredData(
+      await attachSeoMetadata(
+        await attachInternalLinks(
+          await attachFaqSection(
+            await applySourcePolicy(
+              await runGeneration(body, onEvent, sourcePolicy, internalLinks),
+              sourcePolicy
+            ),
+            body,
+            sourcePolicy,
+            onEvent
+          ),
+          internalLinks
+        ),
+        body,
+        onEvent
+      ),
+      body
+    );
+    await persistGeneratedArticle(body, response, outcome);
+    return attachVerificationReport(response, outcome.verification);
+  } finally {
+    await recordUsageEvents(
+      {
+        route: 'generate',
+        userId: body.userId,
+        articleId: body.articleId,
+        articleTitle: body.title,
+      },
+      usageEvents
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  let body: GenerateRequestBody;
+  try {
+    body = await request.json();
+  } catch (err: any) {
+    console.error('[api/generate] error:', err);
+    return NextResponse.json(
+      { error: err.message || 'Internal error' },
+      { status: 500 }
+    );
+  }
+
+  if (body?.stream) {
+    return new Response(
+      createGenerationEventStream((onEvent) => runGenerationWithUsage(body, onEvent)),
+      {
+        headers: {
+          'Content-Type': GENERATION_STREAM_CONTENT_TYPE,
+          'Cache-Control': 'no-cache, no-transform',
+          'X-Accel-Buffering': 'no',
+        },
+      }
+    );
+  }
+
+  return runGenerationWithUsage(body);
+}
@@ -0,0 +1,270 @@
+// src/app/api/generate/section/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStageProvider, type LlmMessage } from '../../../../lib/llm';
+import { serpapiSearch } from '../../../../lib/serpapi';
+import { loadSourcePolicy } from '../../../../lib/siteProfiles';
+import { isSourceBlocked, type SourcePolicy } from '../../../../lib/sourcePolicy';
+import {
+  analyzeArticleStructure,
+  applySectionExpansions,
+  countWordsFromHtml,
+  findSection,
+  parseExpansionResponse,
+  SECTION_ACTIONS,
+  type SectionAction,
+} from '../../../../lib/articleStructure';
+import {
+  buildSearchUsageEvent,
+  recordUsageEvents,
+  withUsageReporting,
+  type UsageEvent,
+} from '../../../../lib/usage';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const FACTUAL_TEMPERATURE = 0.2;
+const SERP_14_DAY_TBS = 'qdr:d14';
+const MAX_FRESH_SOURCES = 3;
+const TOKENS_PER_SECTION_WORD = 4;
+const MIN_SECTION_TOKENS = 800;
+
+type PostBody = {
+  userId?: string;
+  articleId?: string;
+  title?: string;
+  content?: string;
+  heading?: string;
+  action?: string;
+  model?: string;
+};
+
+type FreshSource = { url: string; title: string; summary: string };
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+function extractLinkHrefs(html: string): string[] {
+  const hrefs = Array.from(html.matchAll(/<a\s[^>]*href=["']([^"']+)["']/gi), (match) => match[1]);
+  return Array.from(new Set(hrefs));
+}
+
+function buildActionInstructions(
+  action: SectionAction,
+  wordCount: number,
+  links: string[],
+  freshSources: FreshSource[]
+): string[] {
+  const keepLinks = links.length
+    ? [
+        '- Keep every one of these links, each cited exactly once inside a natural sentence:',
+        ...links.map((href) => `  - ${href}`),
+      ]
+    : ['- Do not add hyperlinks.'];
+
+  switch (action) {
+    case 'expand':
+      return [
+        '- Write 1–2 new paragraphs that add concrete, grounded detail to this section.',
+        '- Do not repeat or rewrite the existing paragraphs; your HTML is appended after them.',
+        '- Reuse the section’s existing source URLs where a citation helps; do not invent new links.',
+      ];
+    case 'shorten':
+      return [
+        `- Rewrite this section in roughly ${Math.max(Math.round(wordCount / 2), 40)} words.`,
+        '- Keep the most important facts, names, dates and figures; cut repetition and filler.',
+        ...keepLinks,
+      ];
+    case 'resource':
+      return [
+        '- Rewrite this section so its claims are grounded in the fresh sources below.',
+        '- Cite each fresh source exactly once as <a href="URL" target="_blank">text</a> inside a natural sentence.',
+        '- Drop statements the fresh sources do not support rather than citing them to the old links.',
+        '- Fresh sources:',
+        ...freshSources.map(
+          (source, index) =>
+            `  ${index + 1}. ${source.url}${source.title ? ` — ${source.title}` : ''}${
+              source.summary ? `\n     ${source.summary}` : ''
+            }`
+        ),
+      ];
+    default:
+      return [
+        `- Rewrite this section from scratch in about ${Math.max(wordCount, 80)} words with fresh wording and structure.`,
+        '- Keep every fact that is in the current version and do not introduce unsupported claims.',
+        ...keepLinks,
+      ];
+  }
+}
+
+async function findFreshSources(
+  query: string,
+  citedLinks: Set<string>,
+  sourcePolicy: SourcePolicy,
+  onSearch: () => void
+): Promise<FreshSource[]> {
+  const results = await serpapiSearch({
+    query,
+    engine: 'google_news',
+    extraParams: { tbs: SERP_14_DAY_TBS },
+    limit: 8,
+    onRequest: onSearch,
+  });
+  const fresh: FreshSource[] = [];
+  for (const result of results) {
+    const url = result.link?.trim();
+    if (
+      !url ||
+      citedLinks.has(url) ||
+      isSourceBlocked(url, sourcePolicy) ||
+      fresh.some((source) => source.url === url)
+    ) {
+      continue;
+    }
+    fresh.push({
+      url,
+      title: result.title?.trim() ?? '',
+      summary: (result.summary ?? result.snippet ?? '').trim(),
+    });
+    if (fresh.length >= MAX_FRESH_SOURCES) {
+      break;
+    }
+  }
+  return fresh;
+}
+
+// Rewrites one <h2> section of an article. Only the chosen section changes;
+// the intro, the other sections and their links are copied through verbatim.
+export async function POST(request: NextRequest) {
+  let body: PostBody;
+  try {
+    body = (await request.json()) as PostBody;
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim();
+  if (userId && !UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+  const articleId = body.articleId?.trim();
+  if (articleId && !UUID_REGEX.test(articleId)) {
+    return jsonError('Invalid articleId format');
+  }
+  const content = typeof body.content === 'string' ? body.content : '';
+  if (!content.trim()) {
+    return jsonError('Missing content');
+  }
+  const heading = body.heading?.trim();
+  if (!heading) {
+    return jsonError('Missing heading');
+  }
+  const action = body.action as SectionAction;
+  if (!SECTION_ACTIONS.includes(action)) {
+    return jsonError(`action must be one of ${SECTION_ACTIONS.join(', ')}`);
+  }
+  const title = body.title?.trim() ?? '';
+
+  const structure = analyzeArticleStructure(content);
+  const section = findSection(structure, heading);
+  if (!section) {
+    return jsonError('Section not found in article', 404);
+  }
+  const sectionHtml = content.slice(section.start, section.end).trim();
+  const sectionLinks = extractLinkHrefs(sectionHtml);
+
+  const usageEvents: UsageEvent[] = [];
+  try {
+    let freshSources: FreshSource[] = [];
+    if (action === 'resource') {
+      freshSources = await findFreshSources(
+        [section.heading, title].filter(Boolean).join(' '),
+        new Set(extractLinkHrefs(content)),
+        await loadSourcePolicy(userId),
+        () => usageEvents.push(buildSearchUsageEvent('section', 'google_news'))
+      );
+      if (freshSources.length === 0) {
+        return jsonError('No new sources found for this section', 502);
+      }
+    }
+
+    const { provider, model } = getStageProvider('draft', body.model);
+    const trackedProvider = withUsageReporting(
+      provider,
+      'section',
+      (event) => usageEvents.push(event),
+      action
+    );
+
+    const prompt = [
+      `You are editing one section of the article "${title || 'Untitled article'}".`,
+      '',
+      'Article outline:',
+      ...structure.sections.map((entry) => `- ${entry.heading}`),
+      '',
+      `Section "${section.heading}" currently reads:`,
+      sectionHtml,
+      '',
+      'Instructions:',
+      ...buildActionInstructions(action, section.wordCount, sectionLinks, freshSources),
+      '- Match the tone and point of view of the rest of the article.',
+      '- Use only <p>, <h3>, <ul>, <ol>, <li>, <strong>, <em> and <a> tags, and do not repeat the <h2> heading.',
+      `- Return valid JSON exactly matching {"expansions":[{"heading":"${section.heading.replace(/"/g, '\\"')}","html":"<p>...</p>"}]} with double quotes.`,
+    ].join('\n');
+
+    const messages: LlmMessage[] = [{ role: 'user', content: prompt }];
+    const limits = provider.getTokenLimits(model);
+    const response = await trackedProvider.chat({
+      model,
+      messages,
+      temperature: FACTUAL_TEMPERATURE,
+      max_tokens: Math.min(
+        Math.max(MIN_SECTION_TOKENS, section.wordCount * TOKENS_PER_SECTION_WORD),
+        limits.maxOutputTokens
+      ),
+    });
+
+    const [expansion] = parseExpansionResponse(response.choices[0]?.message?.content ?? '');
+    if (!expansion) {
+      return jsonError('Model returned no usable section', 502);
+    }
+    const replacement = { heading: section.heading, html: expansion.html };
+    const updatedContent = applySectionExpansions(
+      content,
+      [replacement],
+      action === 'expand' ? 'append' : 'replace'
+    );
+
+    const newSectionLinks = extractLinkHrefs(replacement.html);
+    const droppedLinks =
+      action === 'regenerate' || action === 'shorten'
+        ? sectionLinks.filter((href) => !newSectionLinks.includes(href))
+        : [];
+    const addedSources = freshSources
+      .map((source) => source.url)
+      .filter((url) => newSectionLinks.includes(url));
+
+    return NextResponse.json({
+      content: updatedContent,
+      section: {
+        heading: section.heading,
+        html: replacement.html,
+        wordCount: countWordsFromHtml(replacement.html),
+      },
+      droppedLinks,
+      addedSources,
+    });
+  } catch (err) {
+    console.error('[section] failed to rewrite section', err);
+    return jsonError('Failed to rewrite section', 500);
+  } finally {
+    await recordUsageEvents(
+      { route: 'generate/section', userId, articleId, articleTitle: title },
+      usageEvents
+    );
+  }
+}
@@ -3,6 +3,12 @@ import { XMLParser } from 'fast-xml-parser';
 import he from 'he';
 import { getOpenAI } from '../../../lib/openai';
 import { serpapiSearch, type SerpApiResult } from '../../../lib/serpapi';
+import {
+  buildLlmUsageEvent,
+  buildSearchUsageEvent,
+  recordUsageEvents,
+  type UsageEvent,
+} from '../../../lib/usage';
 
 const MIN_LIMIT = 1;
 const MAX_LIMIT = 250;
@@ -454,6 +460,7 @@ type HeadlinesRequestBody = {
   rssFeeds?: unknown;
   dedupeMode?: unknown;
   mode?: unknown;
+  userId?: unknown;
 };
 
 type OpenAIClient = {
@@ -467,11 +474,17 @@ type OpenAIClient = {
           max_tokens?: number;
         }
       ) => Promise<{
+        model?: string;
         choices?: Array<{
           message?: {
             content?: string | null;
           } | null;
         }>;
+        usage?: {
+          prompt_tokens: number;
+          completion_tokens: number;
+          total_tokens: number;
+        } | null;
       }>;
     };
   };
@@ -482,6 +495,12 @@ type HeadlinesHandlerDependencies = {
   openaiClient?: OpenAIClient;
   logger?: Pick<typeof console, 'error'>;
   rssRequestTimeoutMs?: number;
+  recordUsage?: typeof recordUsageEvents;
+};
+
+type HeadlinesUsage = {
+  userId?: string;
+  events: UsageEvent[];
 };
 
 type TimeoutSignalHandle = {
@@ -839,7 +858,8 @@ function fallbackKeywordsFromDescription(
 async function inferKeywordsFromDescription(
   client: OpenAIClient,
   description: string,
-  requestedLimit: number
+  requestedLimit: number,
+  onUsage?: (event: UsageEvent) => void
 ): Promise<string[]> {
   const keywordTarget = Math.min(
     MAX_FILTER_LIST_ITEMS,
@@ -854,17 +874,26 @@ async function inferKeywordsFromDescription(
     `Return around ${keywordTarget} diverse keywords capturing geographic, topical, and audience angles. ` +
     'Format: {"keywords": [..]}.';
 
-  const response = await client.chat.completions.create({
+  const request = {
     model: 'gpt-4o-mini',
     messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
+      { role: 'system' as const, content: systemPrompt },
+      { role: 'user' as const, content: userPrompt },
     ],
     temperature: 0.5,
     max_tokens: 400,
-  });
+  };
+  const response = await client.chat.completions.create(request);
 
   const content = response.choices?.[0]?.message?.content?.trim() ?? '';
+  onUsage?.(
+    buildLlmUsageEvent('keywords', request, {
+      provider: 'openai',
+      model: response.model || request.model,
+      choices: [{ message: { role: 'assistant', content }, finish_reason: null }],
+      usage: response.usage ?? null,
+    })
+  );
   const parsedKeywords = parseKeywordResponse(content);
 
   let keywords = normalizeStringList(parsedKeywords, {
@@ -1774,6 +1803,7 @@ function createHeadlinesHandler(
     openaiClient,
     logger,
     rssRequestTimeoutMs,
+    recordUsage = recordUsageEvents,
   }: HeadlinesHandlerDependencies = {}
 ) {
   const requester = fetchImpl ?? fetch;
@@ -1783,7 +1813,7 @@ function createHeadlinesHandler(
       ? Math.max(1, Math.trunc(rssRequestTimeoutMs))
       : RSS_FEED_REQUEST_TIMEOUT_MS;
 
-  return async function handler(req: NextRequest) {
+  async function handleRequest(req: NextRequest, usage: HeadlinesUsage) {
     const aiClient = openaiClient ?? getOpenAI();
 
     let body: HeadlinesRequestBody;
@@ -1793,6 +1823,10 @@ function createHeadlinesHandler(
     return badRequest('Invalid JSON body');
   }
 
+  if (typeof body.userId === 'string' && body.userId.trim()) {
+    usage.userId = body.userId.trim();
+  }
+
   const query = typeof body.query === 'string' ? body.query.trim() : '';
 
   let keywords: string[];
@@ -1946,7 +1980,8 @@ function createHeadlinesHandler(
       inferredKeywords = await inferKeywordsFromDescription(
         aiClient,
         description,
-        limit
+        limit,
+        (event) => usage.events.push(event)
       );
       keywords = inferredKeywords;
     } catch (error) {
@@ -2430,6 +2465,7 @@ function createHeadlinesHandler(
           engine,
           extraParams: params,
           limit: serpLimit,
+          onRequest: () => usage.events.push(buildSearchUsageEvent('headlines', engine)),
         });
 
         for (const result of serpResults) {
@@ -2578,6 +2614,15 @@ function createHeadlinesHandler(
   }
 
   return NextResponse.json(payload);
+  }
+
+  return async function handler(req: NextRequest) {
+    const usage: HeadlinesUsage = { events: [] };
+    try {
+      return await handleRequest(req, usage);
+    } finally {
+      await recordUsage({ route: 'headlines', userId: usage.userId }, usage.events);
+    }
   };
 }
 
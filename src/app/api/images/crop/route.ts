@@ -0,0 +1,88 @@
+// src/app/api/images/crop/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadImageAspectRatio } from '../../../../lib/siteProfiles';
+import { cropToSize, readImageSource } from '../../../../lib/imagePipeline';
+import { getImageProvider, isProviderImageUrl } from '../../../../lib/imageProviders';
+import {
+  formatAspectRatio,
+  MAX_SECTION_IMAGES,
+  outputSize,
+  type ImageCandidate,
+} from '../../../../lib/articleImages';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type PostBody = {
+  userId?: string;
+  candidates?: unknown;
+};
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// POST { userId, candidates: ImageCandidate[] }
+// Downloads the chosen candidates and center-crops them to the site's aspect
+// ratio. Remote candidates must come from a configured provider's image host
+// and are read through the guarded image download. Returns one entry per
+// candidate, null where it failed, with the cropped image as a JPEG data URL
+// ready to insert into the article.
+export async function POST(request: NextRequest) {
+  let body: PostBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim() ?? '';
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+  const candidates = body.candidates as ImageCandidate[];
+  if (!Array.isArray(candidates) || !candidates.length) {
+    return jsonError('Missing candidates');
+  }
+  if (candidates.length > MAX_SECTION_IMAGES + 1) {
+    return jsonError(`At most ${MAX_SECTION_IMAGES + 1} images can be cropped at once`);
+  }
+  if (
+    candidates.some(
+      (candidate) =>
+        typeof candidate?.src !== 'string' ||
+        !isProviderImageUrl(getImageProvider(candidate.provider), candidate.src)
+    )
+  ) {
+    return jsonError("Each candidate must be a data:image URL or an image from a configured provider's host");
+  }
+
+  const aspect = await loadImageAspectRatio(userId);
+  const size = outputSize(aspect);
+  const warnings: string[] = [];
+  const images = [];
+  for (const candidate of candidates) {
+    try {
+      const cropped = await cropToSize(await readImageSource(candidate.src), size.width, size.height);
+      await getImageProvider(candidate.provider)?.trackDownload?.(candidate);
+      images.push({
+        src: `data:image/jpeg;base64,${cropped.toString('base64')}`,
+        width: size.width,
+        height: size.height,
+      });
+    } catch (err) {
+      console.error('[images] failed to crop image', err);
+      warnings.push(`Could not prepare an image from ${candidate.credit?.provider ?? 'the provider'}: ${(err as Error).message}`);
+      images.push(null);
+    }
+  }
+
+  return NextResponse.json({ aspectRatio: formatAspectRatio(aspect), images, warnings });
+}
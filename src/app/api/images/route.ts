@@ -0,0 +1,175 @@
+// src/app/api/images/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStageProvider } from '../../../lib/llm';
+import { loadImageAspectRatio } from '../../../lib/siteProfiles';
+import { cropToSize } from '../../../lib/imagePipeline';
+import { getImageProvider, listImageProviders } from '../../../lib/imageProviders';
+import {
+  buildImagePlanPrompt,
+  formatAspectRatio,
+  MAX_SECTION_IMAGES,
+  outputSize,
+  parseImagePlanResponse,
+  planImageSlots,
+  type AspectRatio,
+  type ImageCandidate,
+  type ImageSlot,
+} from '../../../lib/articleImages';
+import { recordUsageEvents, withUsageReporting, type UsageEvent } from '../../../lib/usage';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+export const maxDuration = 300;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const STOCK_CANDIDATES_PER_SLOT = 4;
+const IMAGE_PLAN_TEMPERATURE = 0.4;
+const IMAGE_PLAN_TOKENS_PER_SLOT = 200;
+
+type PostBody = {
+  userId?: string;
+  articleId?: string;
+  title?: string;
+  html?: string;
+  providerId?: string;
+  featured?: boolean;
+  maxSections?: unknown;
+  model?: string;
+};
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// One model call turns the planned slots into search queries, generation
+// prompts, alt text and captions.
+async function writeImagePlan(
+  title: string,
+  slots: ImageSlot[],
+  requestedModel: string | undefined,
+  onUsage: (event: UsageEvent) => void
+): Promise<ImageSlot[]> {
+  const { provider, model } = getStageProvider('draft', requestedModel);
+  const response = await withUsageReporting(provider, 'images', onUsage, 'image-plan').chat({
+    model,
+    messages: [{ role: 'user', content: buildImagePlanPrompt(title, slots) }],
+    temperature: IMAGE_PLAN_TEMPERATURE,
+    max_tokens: Math.min(
+      200 + slots.length * IMAGE_PLAN_TOKENS_PER_SLOT,
+      provider.getTokenLimits(model).maxOutputTokens
+    ),
+    response_format: { type: 'json_object' },
+  });
+  return parseImagePlanResponse(response.choices[0]?.message?.content, slots);
+}
+
+// Generated images come back as large PNGs, so they are cropped here rather
+// than sent to the browser and back.
+async function cropGenerated(candidate: ImageCandidate, aspect: AspectRatio): Promise<ImageCandidate> {
+  const size = outputSize(aspect);
+  const [, payload = ''] = candidate.src.split(',', 2);
+  const cropped = await cropToSize(Buffer.from(payload, 'base64'), size.width, size.height);
+  const src = `data:image/jpeg;base64,${cropped.toString('base64')}`;
+  return { ...candidate, src, previewUrl: src, width: size.width, height: size.height };
+}
+
+// GET /api/images?userId=
+// The configured image providers and the site's image aspect ratio.
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId')?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+  const aspect = await loadImageAspectRatio(userId);
+  return NextResponse.json({
+    providers: listImageProviders(),
+    aspectRatio: formatAspectRatio(aspect),
+  });
+}
+
+// POST { userId, title, html, providerId, featured?, maxSections?, articleId?, model? }
+// Proposes a featured image and one image per section that has none. Stock
+// providers return several candidates per slot; generated images are drawn
+// once and cropped to the site's aspect ratio. Slots whose search or
+// generation fails come back empty and are listed under warnings.
+export async function POST(request: NextRequest) {
+  let body: PostBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim() ?? '';
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+  if (typeof body.html !== 'string' || !body.html.trim()) {
+    return jsonError('Missing html');
+  }
+  const maxSections = body.maxSections === undefined ? MAX_SECTION_IMAGES : Number(body.maxSections);
+  if (!Number.isInteger(maxSections) || maxSections < 0 || maxSections > MAX_SECTION_IMAGES) {
+    return jsonError(`maxSections must be an integer from 0 to ${MAX_SECTION_IMAGES}`);
+  }
+  const imageProvider = getImageProvider(body.providerId?.trim() ?? '');
+  if (!imageProvider) {
+    return jsonError('Image provider is not configured');
+  }
+  const title = body.title?.trim() ?? '';
+
+  const aspect = await loadImageAspectRatio(userId);
+  let slots = planImageSlots(body.html, title, { featured: body.featured !== false, maxSections });
+  if (!slots.length) {
+    return NextResponse.json({ aspectRatio: formatAspectRatio(aspect), slots: [], warnings: [] });
+  }
+
+  const warnings: string[] = [];
+  const usageEvents: UsageEvent[] = [];
+  try {
+    try {
+      slots = await writeImagePlan(title, slots, body.model, (event) => usageEvents.push(event));
+    } catch (err) {
+      console.error('[images] failed to plan images', err);
+      warnings.push('Image searches were taken from the headings');
+    }
+
+    // One slot at a time keeps generation within provider rate limits.
+    const proposals = [];
+    for (const slot of slots) {
+      const label = slot.kind === 'featured' ? 'the featured image' : `"${slot.heading}"`;
+      let candidates: ImageCandidate[] = [];
+      try {
+        candidates = await imageProvider.findImages({
+          slot,
+          aspect,
+          count: imageProvider.kind === 'stock' ? STOCK_CANDIDATES_PER_SLOT : 1,
+        });
+        if (imageProvider.kind === 'generated') {
+          candidates = await Promise.all(candidates.map((candidate) => cropGenerated(candidate, aspect)));
+        }
+        if (!candidates.length) {
+          warnings.push(`No images found for ${label}`);
+        }
+      } catch (err) {
+        console.error('[images] failed to find images', err);
+        warnings.push(`Could not get images for ${label}: ${(err as Error).message}`);
+      }
+      proposals.push({ ...slot, candidates });
+    }
+
+    return NextResponse.json({ aspectRatio: formatAspectRatio(aspect), slots: proposals, warnings });
+  } finally {
+    await recordUsageEvents(
+      { route: 'images', userId, articleId: body.articleId, articleTitle: title },
+      usageEvents
+    );
+  }
+}
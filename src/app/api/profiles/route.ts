@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getOpenAI } from '../../../lib/openai';
 import { supabaseAdmin } from '../../../lib/supabaseAdmin';
+import {
+  buildLlmUsageEvent,
+  recordUsageEvents,
+  type UsageEvent,
+} from '../../../lib/usage';
 import {
   buildProfileHeadlineQuery,
   getProfileQuotaTotal,
@@ -8,6 +13,8 @@ import {
   normalizeSiteUrl,
 } from '../../../utils/profile';
 import { NormalizedSiteProfile } from '../../../types/profile';
+import { normalizeSourcePolicy } from '../../../lib/sourcePolicy';
+import { DEFAULT_ASPECT_RATIO, formatAspectRatio, parseAspectRatio } from '../../../lib/articleImages';
 
 const EXTRACTION_PROMPT =
   'From the following user text, extract: language, taxonomy (IAB/IPTC-like tags), must_include_keywords, nice_to_have_keywords, must_exclude_keywords, entities_focus, audience, tone, and a per-category quota summing to 100 headlines. Return valid JSON.';
@@ -20,6 +27,12 @@ type PostBody = {
   rawText?: string;
 };
 
+type PatchBody = {
+  userId?: string;
+  sourcePolicy?: unknown;
+  imageAspectRatio?: unknown;
+};
+
 const UUID_REGEX =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -51,26 +64,43 @@ function mapSupabaseError(code: string | undefined) {
   }
 }
 
-async function extractProfile(rawText: string): Promise<NormalizedSiteProfile> {
+async function extractProfile(
+  rawText: string,
+  onUsage?: (event: UsageEvent) => void
+): Promise<NormalizedSiteProfile> {
   const openai = getOpenAI();
-  const response = await openai.chat.completions.create({
+  const request = {
     model: MODEL,
     temperature: 0,
-    response_format: { type: 'json_object' },
+    response_format: { type: 'json_object' as const },
     messages: [
       {
-        role: 'system',
+        role: 'system' as const,
         content:
           'You turn unstructured editorial briefs into consistent JSON site profiles that downstream services can consume.',
       },
       {
-        role: 'user',
+        role: 'user' as const,
         content: `${EXTRACTION_PROMPT}\n\n${rawText}`,
       },
     ],
-  });
+  };
+  const response = await openai.chat.completions.create(request);
 
   const content = response.choices[0]?.message?.content;
+  onUsage?.(
+    buildLlmUsageEvent('profile', request, {
+      provider: 'openai',
+      model: response.model || MODEL,
+      choices: [
+        {
+          message: { role: 'assistant', content: content ?? null },
+          finish_reason: response.choices[0]?.finish_reason ?? null,
+        },
+      ],
+      usage: response.usage ?? null,
+    })
+  );
   if (!content) {
     throw new Error('Model returned no content');
   }
@@ -96,7 +126,7 @@ export async function GET(request: NextRequest) {
 
   const { data, error } = await supabaseAdmin
     .from('site_profiles')
-    .select('site_url, raw_text, profile')
+    .select('site_url, raw_text, profile, source_policy, image_aspect_ratio')
     .eq('user_id', userId)
     .maybeSingle();
 
@@ -123,6 +153,8 @@ export async function GET(request: NextRequest) {
     rawText: data.raw_text,
     headlineQuery: buildProfileHeadlineQuery(normalizedProfile),
     quotaTotal: getProfileQuotaTotal(normalizedProfile),
+    sourcePolicy: normalizeSourcePolicy(data.source_policy),
+    imageAspectRatio: data.image_aspect_ratio ?? DEFAULT_ASPECT_RATIO,
   });
 }
 
@@ -133,6 +165,7 @@ type ProfilesDependencies = {
   normalizeProfile: typeof normalizeProfile;
   buildProfileHeadlineQuery: typeof buildProfileHeadlineQuery;
   getProfileQuotaTotal: typeof getProfileQuotaTotal;
+  recordUsageEvents: typeof recordUsageEvents;
 };
 
 function createProfilesPostHandler(
@@ -145,6 +178,7 @@ function createProfilesPostHandler(
     normalizeProfile: profileNormalizer = normalizeProfile,
     buildProfileHeadlineQuery: headlineQueryBuilder = buildProfileHeadlineQuery,
     getProfileQuotaTotal: quotaCalculator = getProfileQuotaTotal,
+    recordUsageEvents: usageRecorder = recordUsageEvents,
   } = overrides;
 
   return async function POST(request: NextRequest) {
@@ -200,14 +234,17 @@ function createProfilesPostHandler(
     }
 
     let profile: NormalizedSiteProfile;
+    const usageEvents: UsageEvent[] = [];
     try {
-      profile = await profileExtractor(rawText);
+      profile = await profileExtractor(rawText, (event) => usageEvents.push(event));
     } catch (error) {
       console.error('[profiles] extraction failed', error);
       return jsonError(
         error instanceof Error ? error.message : 'Failed to normalize profile',
         502
       );
+    } finally {
+      await usageRecorder({ route: 'profiles', userId }, usageEvents);
     }
 
     const payload = {
@@ -221,7 +258,7 @@ function createProfilesPostHandler(
     const { data, error } = await supabaseClient
       .from('site_profiles')
       .upsert(payload, { onConflict: 'user_id' })
-      .select('site_url, raw_text, profile')
+      .select('site_url, raw_text, profile, source_policy, image_aspect_ratio')
       .single();
 
     if (error) {
@@ -261,8 +298,75 @@ function createProfilesPostHandler(
       rawText: data.raw_text,
       headlineQuery: headlineQueryBuilder(normalizedProfile),
       quotaTotal: quotaCalculator(normalizedProfile),
+      sourcePolicy: normalizeSourcePolicy(data.source_policy),
+      imageAspectRatio: data.image_aspect_ratio ?? DEFAULT_ASPECT_RATIO,
     });
   };
 }
 
 export const POST = createProfilesPostHandler();
+
+// Updates only the publisher rules and image settings, so editing them does
+// not re-run the profile extraction.
+export async function PATCH(request: NextRequest) {
+  let body: PatchBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+  if (body.sourcePolicy === undefined && body.imageAspectRatio === undefined) {
+    return jsonError('Missing sourcePolicy or imageAspectRatio');
+  }
+  if (body.sourcePolicy !== undefined && (!body.sourcePolicy || typeof body.sourcePolicy !== 'object')) {
+    return jsonError('Missing sourcePolicy');
+  }
+  const aspect = body.imageAspectRatio === undefined ? null : parseAspectRatio(body.imageAspectRatio);
+  if (body.imageAspectRatio !== undefined && !aspect) {
+    return jsonError('imageAspectRatio must look like 16:9 and be no wider than 3:1');
+  }
+
+  const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (body.sourcePolicy !== undefined) {
+    const sourcePolicy = normalizeSourcePolicy(body.sourcePolicy);
+    update.source_policy = {
+      allowlist: sourcePolicy.allowlist,
+      allowlist_only: sourcePolicy.allowlistOnly,
+      denylist: sourcePolicy.denylist,
+      competitors: sourcePolicy.competitors,
+      never_link_competitors: sourcePolicy.neverLinkCompetitors,
+      trust_tiers: sourcePolicy.trustTiers,
+    };
+  }
+  if (aspect) {
+    update.image_aspect_ratio = formatAspectRatio(aspect);
+  }
+  const { data, error } = await supabaseAdmin
+    .from('site_profiles')
+    .update(update)
+    .eq('user_id', userId)
+    .select('source_policy, image_aspect_ratio')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[profiles] failed to store profile settings', error);
+    const mapped = mapSupabaseError(error.code);
+    return jsonError(mapped?.message ?? 'Failed to store profile settings', mapped?.status ?? 500);
+  }
+  if (!data) {
+    return jsonError('Create a site profile before changing its settings', 404);
+  }
+
+  return NextResponse.json({
+    sourcePolicy: normalizeSourcePolicy(data.source_policy),
+    imageAspectRatio: data.image_aspect_ratio ?? DEFAULT_ASPECT_RATIO,
+  });
+}
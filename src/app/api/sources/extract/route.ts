@@ -0,0 +1,77 @@
+// src/app/api/sources/extract/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { detectDocumentKind, extractDocumentText } from '../../../../lib/documentText';
+import { MAX_SOURCE_DOCUMENT_LENGTH, MAX_SOURCE_DOCUMENTS } from '../../../../lib/sourceDocuments';
+
+export const runtime = 'nodejs';
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// Converts uploaded PDF, DOCX, HTML or text files to plain text so the
+// generate form can send them as sourceDocuments. Files are not stored.
+export async function POST(request: NextRequest) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return jsonError('Expected a multipart form upload');
+  }
+
+  const files = form.getAll('file').filter((value): value is File => value instanceof File);
+  if (!files.length) {
+    return jsonError('Attach at least one file');
+  }
+  if (files.length > MAX_SOURCE_DOCUMENTS) {
+    return jsonError(`Upload at most ${MAX_SOURCE_DOCUMENTS} files at a time`);
+  }
+
+  const documents = [];
+  const errors = [];
+  for (const file of files) {
+    if (!detectDocumentKind(file.name, file.type)) {
+      errors.push({
+        fileName: file.name,
+        error: 'Unsupported file type. Upload a PDF, DOCX, HTML or text file.',
+      });
+      continue;
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      errors.push({ fileName: file.name, error: 'File is larger than 10 MB' });
+      continue;
+    }
+    try {
+      const extracted = extractDocumentText(
+        Buffer.from(await file.arrayBuffer()),
+        file.name,
+        file.type
+      );
+      if (!extracted.text) {
+        errors.push({ fileName: file.name, error: 'No text found in this file' });
+        continue;
+      }
+      documents.push({
+        fileName: file.name,
+        kind: extracted.kind,
+        title: extracted.title || file.name.replace(/\.[a-z0-9]+$/i, ''),
+        text: extracted.text.slice(0, MAX_SOURCE_DOCUMENT_LENGTH),
+        truncated: extracted.text.length > MAX_SOURCE_DOCUMENT_LENGTH,
+      });
+    } catch (err) {
+      console.error('[sources/extract] extraction failed', err);
+      errors.push({
+        fileName: file.name,
+        error: err instanceof Error ? err.message : 'Could not read this file',
+      });
+    }
+  }
+
+  if (!documents.length) {
+    return NextResponse.json({ error: errors[0]?.error ?? 'No text found', errors }, { status: 422 });
+  }
+  return NextResponse.json({ documents, errors });
+}
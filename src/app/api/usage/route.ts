@@ -0,0 +1,64 @@
+// src/app/api/usage/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../lib/supabaseAdmin';
+import { summarizeUsage, type UsageEventRow } from '../../../lib/usage';
+
+export const runtime = 'nodejs';
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DEFAULT_WINDOW_DAYS = 30;
+const MAX_WINDOW_DAYS = 365;
+const MAX_ROWS = 5000;
+
+const USAGE_EVENT_COLUMNS =
+  'article_id, article_title, kind, provider, model, stage, purpose, prompt_tokens, completion_tokens, requests, cost_usd, created_at';
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const userId = searchParams.get('userId')?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  const articleId = searchParams.get('articleId')?.trim();
+  if (articleId && !UUID_REGEX.test(articleId)) {
+    return jsonError('Invalid articleId format');
+  }
+
+  const daysParam = Number.parseInt(searchParams.get('days') ?? '', 10);
+  const days = Number.isFinite(daysParam)
+    ? Math.min(Math.max(daysParam, 1), MAX_WINDOW_DAYS)
+    : DEFAULT_WINDOW_DAYS;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  let query = supabaseAdmin
+    .from('usage_events')
+    .select(USAGE_EVENT_COLUMNS)
+    .eq('user_id', userId)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(MAX_ROWS);
+  if (articleId) {
+    query = query.eq('article_id', articleId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[usage] failed to load usage events', error);
+    return jsonError('Failed to load usage', 500);
+  }
+
+  return NextResponse.json({
+    since,
+    ...summarizeUsage((data ?? []) as UsageEventRow[]),
+  });
+}
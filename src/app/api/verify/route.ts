@@ -0,0 +1,111 @@
+// src/app/api/verify/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveStageProviders } from '../../../lib/llm';
+import {
+  buildClaimAuditPrompt,
+  parseClaimAudit,
+  prepareClaimAuditSources,
+  requestVerification,
+  summarizeClaimAudit,
+  type ClaimAuditSourceInput,
+} from '../../../lib/verification';
+import { fetchSourceText, isSourceIngestionEnabled } from '../../../lib/sourceIngestion';
+import { recordUsageEvents, withUsageReporting, type UsageEvent } from '../../../lib/usage';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_ARTICLE_HTML_LENGTH = 80_000;
+const MAX_REQUEST_SOURCES = 16;
+
+type PostBody = {
+  userId?: string;
+  articleId?: string;
+  title?: string;
+  html?: string;
+  sources?: ClaimAuditSourceInput[];
+};
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// URL sources sent without pasted text get the fetched article text, so the
+// verifier can quote passages instead of judging from the address alone.
+async function fillSourceText(input: ClaimAuditSourceInput): Promise<ClaimAuditSourceInput> {
+  const source = typeof input === 'string' ? { url: input.trim() } : input;
+  const url = source?.url?.trim();
+  if (!url || !/^https?:\/\//i.test(url) || source.text?.trim()) {
+    return input;
+  }
+  const article = await fetchSourceText(url);
+  return article ? { ...source, title: source.title || article.title, text: article.text } : input;
+}
+
+// Audits any article HTML, generated or not, claim by claim against the
+// sources supplied with the request.
+export async function POST(request: NextRequest) {
+  let body: PostBody;
+  try {
+    body = (await request.json()) as PostBody;
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim();
+  if (userId && !UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+  const articleId = body.articleId?.trim();
+  if (articleId && !UUID_REGEX.test(articleId)) {
+    return jsonError('Invalid articleId format');
+  }
+  const html = typeof body.html === 'string' ? body.html.trim() : '';
+  if (!html) {
+    return jsonError('Missing html');
+  }
+  if (html.length > MAX_ARTICLE_HTML_LENGTH) {
+    return jsonError(`html must be at most ${MAX_ARTICLE_HTML_LENGTH} characters`, 413);
+  }
+  if (!Array.isArray(body.sources)) {
+    return jsonError('sources must be an array of URLs or pasted text');
+  }
+  if (body.sources.length > MAX_REQUEST_SOURCES) {
+    return jsonError(`Provide at most ${MAX_REQUEST_SOURCES} sources`);
+  }
+  if (resolveStageProviders('verification').length === 0) {
+    return jsonError('No verification provider is configured', 503);
+  }
+
+  const inputs = isSourceIngestionEnabled()
+    ? await Promise.all(body.sources.map(fillSourceText))
+    : body.sources;
+  const sources = prepareClaimAuditSources(inputs);
+  if (sources.length === 0) {
+    return jsonError('Provide at least one source URL or pasted text');
+  }
+
+  const usageEvents: UsageEvent[] = [];
+  try {
+    const response = await requestVerification(buildClaimAuditPrompt(html, sources), (provider) =>
+      withUsageReporting(provider, 'verify', (event) => usageEvents.push(event))
+    );
+    const claims = parseClaimAudit(response, sources);
+    return NextResponse.json({
+      claims,
+      summary: summarizeClaimAudit(claims),
+      sources: sources.map(({ id, url, title }) => ({ id, url, title })),
+    });
+  } catch (err) {
+    console.error('[verify] claim audit failed', err);
+    return jsonError('Verification failed', 502);
+  } finally {
+    await recordUsageEvents(
+      { route: 'verify', userId, articleId, articleTitle: body.title },
+      usageEvents
+    );
+  }
+}
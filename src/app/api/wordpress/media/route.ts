@@ -0,0 +1,267 @@
+// src/app/api/wordpress/media/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+import { getStageProvider } from '../../../../lib/llm';
+import { loadWordPressCredentials } from '../../../../lib/wordpressAccounts';
+import { uploadWordPressMedia } from '../../../../lib/wordpressMedia';
+import {
+  buildImageTextPrompt,
+  findArticleImages,
+  hashImage,
+  mediaFileName,
+  parseImageTextResponse,
+  processImage,
+  readImageSource,
+  rewriteImageTags,
+  type ArticleImage,
+  type ImageRewrite,
+  type ImageText,
+} from '../../../../lib/imagePipeline';
+import { parseImagePipelineOptions } from '../../../../lib/imagePipelineOptions';
+import { recordUsageEvents, withUsageReporting, type UsageEvent } from '../../../../lib/usage';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const IMAGE_TEXT_TEMPERATURE = 0.3;
+const IMAGE_TEXT_TOKENS_PER_IMAGE = 120;
+
+type PostBody = {
+  userId?: string;
+  accountId?: string;
+  articleId?: string;
+  title?: string;
+  html?: string;
+  maxWidth?: unknown;
+  quality?: unknown;
+  format?: unknown;
+  insertCaptions?: unknown;
+  model?: string;
+};
+
+type UploadedMedia = {
+  id: number;
+  url: string;
+  alt: string;
+  caption: string;
+};
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+function describeSource(src: string): string {
+  return src.startsWith('data:') ? 'an inline image' : src;
+}
+
+// One model call writes alt text and a caption for every image that needs them.
+async function generateImageText(
+  title: string,
+  images: ArticleImage[],
+  requestedModel: string | undefined,
+  onUsage: (event: UsageEvent) => void
+): Promise<Map<ArticleImage, ImageText>> {
+  const texts = new Map<ArticleImage, ImageText>();
+  if (!images.length) {
+    return texts;
+  }
+  const { provider, model } = getStageProvider('draft', requestedModel);
+  const response = await withUsageReporting(provider, 'images', onUsage, 'alt-text').chat({
+    model,
+    messages: [{ role: 'user', content: buildImageTextPrompt(title, images) }],
+    temperature: IMAGE_TEXT_TEMPERATURE,
+    max_tokens: Math.min(
+      200 + images.length * IMAGE_TEXT_TOKENS_PER_IMAGE,
+      provider.getTokenLimits(model).maxOutputTokens
+    ),
+    response_format: { type: 'json_object' },
+  });
+  const byId = parseImageTextResponse(response.choices[0]?.message?.content);
+  images.forEach((image, index) => {
+    const text = byId.get(index + 1);
+    if (text) texts.set(image, text);
+  });
+  return texts;
+}
+
+// POST { userId, accountId, html, title?, maxWidth?, quality?, format?, insertCaptions? }
+// Uploads the article's remote and inline images to the site's media library
+// and returns the HTML pointing at them. An image already uploaded to the
+// site (same bytes) is reused. Images that fail are left as they were and
+// listed under warnings.
+export async function POST(request: NextRequest) {
+  let body: PostBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = body.userId?.trim() ?? '';
+  const accountId = body.accountId?.trim() ?? '';
+  if (!userId || !accountId) {
+    return jsonError('Missing userId or accountId');
+  }
+  if (!UUID_REGEX.test(userId) || !UUID_REGEX.test(accountId)) {
+    return jsonError('Invalid userId or accountId format');
+  }
+  if (typeof body.html !== 'string' || !body.html.trim()) {
+    return jsonError('Missing html');
+  }
+  const options = parseImagePipelineOptions(body);
+  if (typeof options === 'string') {
+    return jsonError(options);
+  }
+  const html = body.html;
+  const title = body.title?.trim() ?? '';
+
+  const credentials = await loadWordPressCredentials(userId, accountId);
+  if (!credentials) {
+    return jsonError('WordPress account not found', 404);
+  }
+  const images = findArticleImages(html, credentials.siteUrl);
+  if (!images.length) {
+    return NextResponse.json({ html, images: [], warnings: [] });
+  }
+
+  const warnings: string[] = [];
+  const usageEvents: UsageEvent[] = [];
+  try {
+    // 1) Read each distinct source once
+    const sources = new Map<string, { data: Buffer; hash: string } | null>();
+    for (const image of images) {
+      if (sources.has(image.src)) continue;
+      try {
+        const data = await readImageSource(image.src);
+        sources.set(image.src, { data, hash: hashImage(data) });
+      } catch (err) {
+        warnings.push(`Could not read ${describeSource(image.src)}: ${(err as Error).message}`);
+        sources.set(image.src, null);
+      }
+    }
+    const readable = images.filter((image) => sources.get(image.src));
+    const hashOf = (image: ArticleImage) => sources.get(image.src)?.hash as string;
+
+    // 2) Media uploaded to this site before
+    const uploaded = new Map<string, UploadedMedia>();
+    const hashes = Array.from(new Set(readable.map(hashOf)));
+    if (hashes.length) {
+      const { data: known, error } = await supabaseAdmin
+        .from('wordpress_media')
+        .select('content_hash, media_id, media_url, alt_text, caption')
+        .eq('user_id', userId)
+        .eq('wordpress_account_id', accountId)
+        .in('content_hash', hashes);
+      if (error) {
+        console.error('[media] failed to load uploaded media', error);
+      }
+      for (const row of known ?? []) {
+        uploaded.set(row.content_hash, {
+          id: row.media_id,
+          url: row.media_url,
+          alt: row.alt_text,
+          caption: row.caption,
+        });
+      }
+    }
+
+    // 3) Alt text and captions for new uploads and for images missing them
+    const needsText = readable.filter((image) => {
+      const media = uploaded.get(hashOf(image));
+      return !media || (!image.alt && !media.alt) || (options.insertCaptions && !media.caption);
+    });
+    let texts = new Map<ArticleImage, ImageText>();
+    try {
+      texts = await generateImageText(title, needsText, body.model, (event) => usageEvents.push(event));
+    } catch (err) {
+      console.error('[media] failed to write alt text', err);
+      warnings.push('Alt text and captions could not be generated');
+    }
+
+    // 4) Resize, re-encode and upload each new image once
+    const fresh = new Set<string>();
+    for (const image of readable) {
+      const source = sources.get(image.src);
+      if (uploaded.has(source.hash)) continue;
+      const text = texts.get(image);
+      const alt = image.alt || text?.alt || '';
+      const caption = text?.caption ?? '';
+      try {
+        const processed = await processImage(source.data, options);
+        const upload = await uploadWordPressMedia(credentials.siteUrl, credentials.authorization, {
+          data: processed.data,
+          fileName: mediaFileName(image.src, title, processed.extension),
+          mimeType: processed.mimeType,
+          altText: alt,
+          caption,
+        });
+        if (upload.ok === false || !upload.url) {
+          const reason = upload.ok === false ? upload.error : 'no media URL returned';
+          warnings.push(`Could not upload ${describeSource(image.src)}: ${reason}`);
+          continue;
+        }
+        uploaded.set(source.hash, { id: upload.id, url: upload.url, alt, caption });
+        fresh.add(source.hash);
+      } catch (err) {
+        warnings.push(`Could not convert ${describeSource(image.src)}: ${(err as Error).message}`);
+      }
+    }
+    if (fresh.size) {
+      const { error } = await supabaseAdmin.from('wordpress_media').upsert(
+        Array.from(fresh, (hash) => {
+          const media = uploaded.get(hash);
+          return {
+            user_id: userId,
+            wordpress_account_id: accountId,
+            content_hash: hash,
+            media_id: media.id,
+            media_url: media.url,
+            alt_text: media.alt,
+            caption: media.caption,
+          };
+        }),
+        { onConflict: 'wordpress_account_id,content_hash' }
+      );
+      if (error) {
+        console.error('[media] failed to record uploaded media', error);
+      }
+    }
+
+    // 5) Point the article at the media library copies
+    const rewrites: ImageRewrite[] = readable.flatMap((image) => {
+      const media = uploaded.get(hashOf(image));
+      if (!media) return [];
+      const text = texts.get(image);
+      return [
+        {
+          image,
+          url: media.url,
+          mediaId: media.id,
+          alt: text?.alt || media.alt,
+          caption: text?.caption || media.caption,
+        },
+      ];
+    });
+
+    return NextResponse.json({
+      html: rewriteImageTags(html, rewrites, options.insertCaptions),
+      images: rewrites.map((rewrite) => ({
+        src: rewrite.image.src.startsWith('data:') ? null : rewrite.image.src,
+        mediaId: rewrite.mediaId,
+        url: rewrite.url,
+        alt: rewrite.image.alt || rewrite.alt,
+        caption: rewrite.caption,
+        reused: !fresh.has(hashOf(rewrite.image)),
+      })),
+      warnings,
+    });
+  } finally {
+    await recordUsageEvents(
+      { route: 'wordpress/media', userId, articleId: body.articleId, articleTitle: title },
+      usageEvents
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
 import { decrypt } from '../../../../utils/encryption';
+import { parsePublishOptions } from '../../../../lib/wordpressPublishing';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -57,8 +58,16 @@ async function handleRequest(req: NextRequest, method: string) {
           if (postData.content) {
             postData.content += account.footer_html || '';  // append footer HTML if any
           }
-          if (!postData.status) {
-            postData.status = 'draft';  // ensure the post is saved as draft (same as original behavior)
+          // Posts are drafts unless a status is given; `future` needs a
+          // scheduledAt or date_gmt
+          const publishOptions = parsePublishOptions(postData);
+          if (typeof publishOptions === 'string') {
+            return NextResponse.json({ error: publishOptions }, { status: 400 });
+          }
+          delete postData.scheduledAt;
+          postData.status = publishOptions.status;
+          if (publishOptions.dateGmt) {
+            postData.date_gmt = publishOptions.dateGmt;
           }
           // Replace the request body with the updated content including footer
           contentType = 'application/json';
@@ -3,19 +3,100 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin }  from '../../../../lib/supabaseAdmin';
 import { decrypt }         from '../../../../utils/encryption';
+import { normalizeSeoMetadata } from '../../../../lib/seoMetadata';
+import { buildStructuredData, renderJsonLd, stripJsonLd } from '../../../../lib/structuredData';
+import {
+  buildSeoPostFields,
+  readRestIndex,
+  seoPluginsFromIndex,
+  siteIdentityFromIndex,
+  updateRankMathMeta,
+} from '../../../../lib/wordpressSeo';
+import { fromWordPressDateGmt, parsePublishOptions } from '../../../../lib/wordpressPublishing';
+import { findPublication, recordPublication } from '../../../../lib/publishingSchedule';
+import {
+  CONFLICT_RESOLUTIONS,
+  fetchWordPressPost,
+  isEditedSince,
+  mergeHtml,
+  stripFooter,
+  type ConflictResolution,
+  type HtmlMerge,
+  type RemotePost,
+} from '../../../../lib/wordpressSync';
+import { createWordPressTag } from '../../../../lib/wordpressTaxonomy';
+import { uploadFeaturedImage } from '../../../../lib/wordpressMedia';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Term and user ids must be positive integers; a missing list is empty.
+function readIds(value: unknown): number[] | null {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) && value.every((id) => Number.isInteger(id) && id > 0) ? value : null;
+}
+
 export async function POST(req: Request) {
-  // 1) Pull accountId, title & content from the request body
-  const { userId, accountId, title, content } = await req.json();
+  // 1) Pull accountId, title, content, optional SEO metadata, article type,
+  // post status, schedule, conflict resolution, taxonomy, author and featured
+  // image from the request body
+  const body = await req.json();
+  const {
+    userId,
+    accountId,
+    title,
+    content,
+    seo: rawSeo,
+    articleType,
+    articleId,
+    onConflict,
+    author,
+    featuredImage,
+  } = body;
   if (!userId || !accountId || !title || !content) {
     return NextResponse.json(
       { error: 'Missing userId, accountId, title or content' },
       { status: 400 }
     );
   }
+  const publishOptions = parsePublishOptions(body);
+  if (typeof publishOptions === 'string') {
+    return NextResponse.json({ error: publishOptions }, { status: 400 });
+  }
+  if (onConflict !== undefined && !CONFLICT_RESOLUTIONS.includes(onConflict)) {
+    return NextResponse.json(
+      { error: `onConflict must be one of ${CONFLICT_RESOLUTIONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  const isLibraryArticle = typeof articleId === 'string' && UUID_REGEX.test(articleId);
+  const categories = readIds(body.categories);
+  const tags = readIds(body.tags);
+  if (!categories || !tags) {
+    return NextResponse.json(
+      { error: 'categories and tags must be arrays of term ids' },
+      { status: 400 }
+    );
+  }
+  const newTags: string[] = Array.isArray(body.newTags)
+    ? body.newTags
+        .filter((name: unknown) => typeof name === 'string' && name.trim())
+        .map((name: string) => name.trim())
+    : [];
+  if (author !== undefined && (!Number.isInteger(author) || author <= 0)) {
+    return NextResponse.json({ error: 'author must be a user id' }, { status: 400 });
+  }
+  if (
+    featuredImage !== undefined &&
+    (typeof featuredImage !== 'string' || !/^(https?:|data:image\/)/i.test(featuredImage))
+  ) {
+    return NextResponse.json({ error: 'featuredImage must be an image URL' }, { status: 400 });
+  }
 
   // 2) Fetch stored WP credentials
   const { data: account, error } = await supabaseAdmin
@@ -45,15 +126,130 @@ export async function POST(req: Request) {
 
   // ← DEBUG: log out the header we’ll send
 
-  // Append any saved footer HTML
-  const finalContent = content + (account.footer_html || '');
+  const siteUrl = account.site_url.replace(/\/$/, '');
 
-  // 5) POST to WP as a draft
-  const apiUrl = account.site_url.replace(/\/$/, '') + '/wp-json/wp/v2/posts';
+  // Library articles already on this site update their post. A post that was
+  // deleted or trashed in WordPress is created again.
+  let previous: Awaited<ReturnType<typeof findPublication>> = null;
+  if (isLibraryArticle) {
+    try {
+      previous = await findPublication(userId, articleId, accountId);
+    } catch (err) {
+      console.error('[publish] failed to load the published post', err);
+      return NextResponse.json({ error: 'Failed to load the published post' }, { status: 500 });
+    }
+  }
+  let existingPost: RemotePost | null = null;
+  if (previous) {
+    const remote = await fetchWordPressPost(siteUrl, `Basic ${basicAuth}`, previous.entry.wordpress_post_id);
+    if (remote.ok === false && remote.httpStatus !== 404 && remote.httpStatus !== 410) {
+      return NextResponse.json({ error: remote.error }, { status: remote.httpStatus });
+    }
+    existingPost = remote.ok && remote.post.status !== 'trash' ? remote.post : null;
+  }
+
+  // Edits made in WordPress since our last publish need a decision: overwrite
+  // them, or merge them into the editor's version
+  let articleHtml = stripJsonLd(content);
+  let merge: HtmlMerge | null = null;
+  if (
+    existingPost &&
+    isEditedSince(
+      existingPost.modifiedAt,
+      previous.entry.wordpress_modified_at ?? previous.entry.updated_at
+    )
+  ) {
+    const canMerge = previous.syncedContent !== null;
+    const resolution = onConflict as ConflictResolution | undefined;
+    if (!resolution || (resolution === 'merge' && !canMerge)) {
+      return NextResponse.json(
+        {
+          error: 'The post was edited in WordPress since it was last published from here',
+          conflict: {
+            postId: existingPost.id,
+            postUrl: existingPost.link,
+            modifiedAt: existingPost.modifiedAt,
+            canMerge,
+          },
+        },
+        { status: 409 }
+      );
+    }
+    if (resolution === 'merge') {
+      const remoteHtml = stripJsonLd(stripFooter(existingPost.content, account.footer_html || ''));
+      merge = mergeHtml(previous.syncedContent, articleHtml, remoteHtml);
+      articleHtml = merge.html;
+    }
+  }
+  // Updates without a status keep the post's current one
+  const status =
+    existingPost && body.status === undefined && existingPost.status !== 'trash'
+      ? existingPost.status
+      : publishOptions.status;
+  const datePublished =
+    publishOptions.dateGmt !== undefined
+      ? fromWordPressDateGmt(publishOptions.dateGmt)
+      : existingPost && (status === 'publish' || status === 'future')
+        ? existingPost.dateGmt
+        : null;
+
+  // SEO metadata becomes the slug and excerpt, plus plugin meta when Yoast or
+  // Rank Math is installed
+  const seo = normalizeSeoMetadata(rawSeo, title);
+  const restIndex = await readRestIndex(siteUrl, `Basic ${basicAuth}`);
+  const seoPlugins = seo ? seoPluginsFromIndex(restIndex) : { yoast: false, rankMath: false };
+
+  // JSON-LD is rebuilt from the final HTML, replacing any from an earlier
+  // publish, and the site itself is the publisher
+  const structuredData = buildStructuredData({
+    articleType: typeof articleType === 'string' ? articleType : null,
+    title,
+    html: articleHtml,
+    seo,
+    datePublished: datePublished ?? new Date().toISOString(),
+    publisher: siteIdentityFromIndex(restIndex, siteUrl),
+  });
+
+  // Append the structured data and any saved footer HTML
+  const finalContent = [articleHtml, renderJsonLd(structuredData.schemas)]
+    .filter(Boolean)
+    .join('\n') + (account.footer_html || '');
+
+  // New tags are created first, and the featured image is cropped to 16:9 and
+  // uploaded. Either failing leaves the post without them rather than failing
+  // the publish.
+  const warnings: string[] = [];
+  for (const name of newTags) {
+    const id = await createWordPressTag(siteUrl, `Basic ${basicAuth}`, name);
+    if (id === null) {
+      warnings.push(`Tag "${name}" could not be created`);
+    } else if (!tags.includes(id)) {
+      tags.push(id);
+    }
+  }
+  let featuredMedia: number | null = null;
+  if (featuredImage) {
+    const upload = await uploadFeaturedImage(siteUrl, `Basic ${basicAuth}`, featuredImage, title);
+    if (upload.ok === false) {
+      warnings.push(upload.error);
+    } else {
+      featuredMedia = upload.id;
+    }
+  }
+
+  // An update sends the term lists the client provided even when they are
+  // empty, so removing every category or tag also removes it from the post. A
+  // new post leaves empty lists out and gets the site's defaults.
+  const sendCategories = categories.length > 0 || (Boolean(existingPost) && Array.isArray(body.categories));
+  const sendTags = tags.length > 0 || (Boolean(existingPost) && Array.isArray(body.tags));
+
+  // 5) Create the post, or PUT the update, with the chosen status: a draft
+  // unless told otherwise
+  const apiUrl = siteUrl + '/wp-json/wp/v2/posts' + (existingPost ? `/${existingPost.id}` : '');
   let wpRes: Response;
   try {
     wpRes = await fetch(apiUrl, {
-      method: 'POST',
+      method: existingPost ? 'PUT' : 'POST',
       headers: {
         'Content-Type': 'application/json',
         Authorization: `Basic ${basicAuth}`,
@@ -61,7 +257,13 @@ export async function POST(req: Request) {
       body: JSON.stringify({
         title, // user-supplied title
         content: finalContent, // full HTML body
-        status: 'draft',
+        status,
+        ...(publishOptions.dateGmt && { date_gmt: publishOptions.dateGmt }),
+        ...(seo && buildSeoPostFields(seo, seoPlugins)),
+        ...(sendCategories && { categories }),
+        ...(sendTags && { tags }),
+        ...(author && { author }),
+        ...(featuredMedia && { featured_media: featuredMedia }),
       }),
     });
   } catch (err) {
@@ -80,5 +282,44 @@ export async function POST(req: Request) {
       { status: wpRes.status }
     );
   }
-  return NextResponse.json({ post: data });
+  if (seo && seoPlugins.rankMath && Number.isInteger(data?.id)) {
+    const updated = await updateRankMathMeta(siteUrl, `Basic ${basicAuth}`, data.id, seo);
+    if (!updated) {
+      console.warn(`[publish] Rank Math meta was not saved for post ${data.id}`);
+    }
+  }
+
+  // Articles from the library go on the publishing calendar
+  const schedule =
+    isLibraryArticle && Number.isInteger(data?.id)
+      ? await recordPublication({
+          userId,
+          articleId,
+          accountId,
+          postId: data.id,
+          postUrl: data.link ?? null,
+          title,
+          status: data.status ?? status,
+          publishAt:
+            data.status === 'future' || data.status === 'publish'
+              ? fromWordPressDateGmt(data.date_gmt)
+              : null,
+          modifiedAt: fromWordPressDateGmt(data.modified_gmt),
+          syncedContent: articleHtml,
+        })
+      : null;
+
+  return NextResponse.json({
+    post: data,
+    updated: Boolean(existingPost),
+    ...(merge && { merge: { content: merge.html, conflicts: merge.conflicts } }),
+    schedule,
+    featuredMedia,
+    ...(warnings.length && { warnings }),
+    seoPlugins,
+    structuredData: {
+      types: structuredData.schemas.map((schema) => schema['@type']),
+      warnings: structuredData.warnings,
+    },
+  });
 }
@@ -0,0 +1,117 @@
+// src/app/api/wordpress/schedule/[entryId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../../lib/supabaseAdmin';
+import {
+  SCHEDULE_ENTRY_COLUMNS,
+  serializeScheduleEntry,
+  type ScheduleEntryRow,
+} from '../../../../../lib/publishingSchedule';
+import { loadWordPressCredentials } from '../../../../../lib/wordpressAccounts';
+import {
+  parseScheduleTime,
+  toWordPressDateGmt,
+  updateWordPressPostStatus,
+  type PublishOptions,
+} from '../../../../../lib/wordpressPublishing';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type RouteContext = { params: Promise<{ entryId: string }> };
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// PATCH { userId, scheduledAt } moves a scheduled post to a new time.
+// PATCH { userId, status: 'draft' } takes it off the schedule.
+// WordPress is updated first, so the calendar never shows a time the site
+// does not have.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { entryId } = await params;
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError('Invalid JSON body');
+  }
+
+  const userId = typeof body.userId === 'string' ? body.userId.trim() : '';
+  if (!UUID_REGEX.test(entryId)) {
+    return jsonError('Invalid entry id');
+  }
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  let options: PublishOptions;
+  if (body.status === 'draft') {
+    options = { status: 'draft' };
+  } else if (body.scheduledAt !== undefined) {
+    const date = parseScheduleTime(body.scheduledAt);
+    if (typeof date === 'string') {
+      return jsonError(date);
+    }
+    options = { status: 'future', dateGmt: toWordPressDateGmt(date) };
+  } else {
+    return jsonError("Send scheduledAt, or status 'draft' to unschedule");
+  }
+
+  const { data: entry, error: loadError } = await supabaseAdmin
+    .from('publishing_schedule')
+    .select(SCHEDULE_ENTRY_COLUMNS)
+    .eq('id', entryId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (loadError) {
+    console.error('[schedule] failed to load entry', loadError);
+    return jsonError('Failed to load the schedule entry', 500);
+  }
+  if (!entry) {
+    return jsonError('Schedule entry not found', 404);
+  }
+  const row = entry as ScheduleEntryRow;
+  if (row.status !== 'future' || (row.publish_at && new Date(row.publish_at) <= new Date())) {
+    return jsonError('Only posts that are still scheduled can be changed', 409);
+  }
+
+  const credentials = await loadWordPressCredentials(userId, row.wordpress_account_id);
+  if (!credentials) {
+    return jsonError('WordPress account not found', 404);
+  }
+  const update = await updateWordPressPostStatus(
+    credentials.siteUrl,
+    credentials.authorization,
+    row.wordpress_post_id,
+    options
+  );
+  if (update.ok === false) {
+    return jsonError(update.error, update.httpStatus);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('publishing_schedule')
+    .update({
+      status: update.status,
+      publish_at: update.status === 'draft' ? null : update.dateGmt,
+      wordpress_modified_at: update.modifiedAt,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', entryId)
+    .eq('user_id', userId)
+    .select(SCHEDULE_ENTRY_COLUMNS)
+    .single();
+  if (error) {
+    console.error('[schedule] failed to update entry', error);
+    return jsonError('WordPress was updated but the calendar was not', 500);
+  }
+
+  return NextResponse.json({ entry: serializeScheduleEntry(data as ScheduleEntryRow) });
+}
@@ -0,0 +1,74 @@
+// src/app/api/wordpress/schedule/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+import {
+  SCHEDULE_ENTRY_COLUMNS,
+  serializeScheduleEntry,
+  type ScheduleEntryRow,
+} from '../../../../lib/publishingSchedule';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Wide enough for a month view padded with the weeks either side.
+const MAX_RANGE_DAYS = 62;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+function readDate(value: string | null): Date | null {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+// GET /api/wordpress/schedule?userId=&from=&to=&accountId=
+// Lists posts with a publish time in [from, to), oldest first.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const userId = searchParams.get('userId')?.trim();
+  if (!userId) {
+    return jsonError('Missing userId');
+  }
+  if (!UUID_REGEX.test(userId)) {
+    return jsonError('Invalid userId format');
+  }
+
+  const from = readDate(searchParams.get('from'));
+  const to = readDate(searchParams.get('to'));
+  if (!from || !to) {
+    return jsonError('from and to must be ISO dates');
+  }
+  if (to <= from || to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return jsonError(`The range must be positive and at most ${MAX_RANGE_DAYS} days`);
+  }
+
+  let query = supabaseAdmin
+    .from('publishing_schedule')
+    .select(SCHEDULE_ENTRY_COLUMNS)
+    .eq('user_id', userId)
+    .gte('publish_at', from.toISOString())
+    .lt('publish_at', to.toISOString());
+
+  const accountId = searchParams.get('accountId')?.trim();
+  if (accountId) {
+    if (!UUID_REGEX.test(accountId)) {
+      return jsonError('Invalid accountId format');
+    }
+    query = query.eq('wordpress_account_id', accountId);
+  }
+
+  const { data, error } = await query.order('publish_at', { ascending: true });
+  if (error) {
+    console.error('[schedule] failed to list entries', error);
+    return jsonError('Failed to load the publishing calendar', 500);
+  }
+
+  return NextResponse.json({
+    entries: (data as ScheduleEntryRow[]).map(serializeScheduleEntry),
+  });
+}
@@ -0,0 +1,53 @@
+// src/app/api/wordpress/taxonomy/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '../../../../lib/supabaseAdmin';
+import { loadWordPressCredentials } from '../../../../lib/wordpressAccounts';
+import { fetchWordPressTaxonomy } from '../../../../lib/wordpressTaxonomy';
+import { normalizeProfile } from '../../../../utils/profile';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function jsonError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// GET /api/wordpress/taxonomy?userId=&accountId=
+// The site's categories, tags and authors, plus the site profile's taxonomy
+// for suggesting terms.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const userId = searchParams.get('userId')?.trim();
+  const accountId = searchParams.get('accountId')?.trim();
+  if (!userId || !accountId) {
+    return jsonError('Missing userId or accountId');
+  }
+  if (!UUID_REGEX.test(userId) || !UUID_REGEX.test(accountId)) {
+    return jsonError('Invalid userId or accountId format');
+  }
+
+  const credentials = await loadWordPressCredentials(userId, accountId);
+  if (!credentials) {
+    return jsonError('WordPress account not found', 404);
+  }
+
+  const [taxonomy, { data: profileRow, error: profileError }] = await Promise.all([
+    fetchWordPressTaxonomy(credentials.siteUrl, credentials.authorization),
+    supabaseAdmin.from('site_profiles').select('profile').eq('user_id', userId).maybeSingle(),
+  ]);
+  if (!taxonomy) {
+    return jsonError('Failed to load categories and tags from WordPress', 502);
+  }
+  if (profileError) {
+    console.error('[taxonomy] failed to load site profile', profileError);
+  }
+
+  return NextResponse.json({
+    ...taxonomy,
+    profileTaxonomy: profileRow?.profile ? normalizeProfile(profileRow.profile).taxonomy : [],
+  });
+}
@@ -0,0 +1,267 @@
+// src/app/articles/page.tsx
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '../../lib/supabase';
+import type { Article, ArticleStatus } from '../../lib/articles';
+
+type WordPressFilter = '' | 'linked' | 'unlinked';
+
+const ARTICLE_TYPES = ['Blog post', 'Listicle/Gallery', 'Recipe article', 'News article'];
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_STYLES: Record<ArticleStatus, string> = {
+  draft: 'text-gray-600 dark:text-gray-300',
+  published: 'text-green-600 dark:text-green-400',
+  archived: 'text-amber-600 dark:text-amber-400',
+};
+
+export default function ArticlesPage() {
+  const router = useRouter();
+  const [userId, setUserId] = useState('');
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [status, setStatus] = useState<'' | ArticleStatus>('');
+  const [articleType, setArticleType] = useState('');
+  const [wordpress, setWordpress] = useState<WordPressFilter>('');
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const saved = localStorage.getItem('theme');
+    document.documentElement.classList.toggle('dark', saved === 'dark');
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data, error }) => {
+      if (error || !data.user) router.push('/auth');
+      else setUserId(data.user.id);
+    });
+  }, [router]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [debouncedSearch, status, articleType, wordpress]);
+
+  const loadArticles = useCallback(async () => {
+    if (!userId) return;
+    const params = new URLSearchParams({
+      userId,
+      limit: String(PAGE_SIZE),
+      offset: String(page * PAGE_SIZE),
+    });
+    if (debouncedSearch) params.set('q', debouncedSearch);
+    if (status) params.set('status', status);
+    if (articleType) params.set('articleType', articleType);
+    if (wordpress) params.set('wordpress', wordpress);
+
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/articles?${params.toString()}`);
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to load articles');
+        return;
+      }
+      setArticles(Array.isArray(json.articles) ? json.articles : []);
+      setTotal(typeof json.total === 'number' ? json.total : 0);
+      setError(null);
+    } catch (err) {
+      console.error('[articles] failed to load articles', err);
+      setError('Failed to load articles');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, page, debouncedSearch, status, articleType, wordpress]);
+
+  useEffect(() => {
+    loadArticles();
+  }, [loadArticles]);
+
+  const updateStatus = async (article: Article, nextStatus: ArticleStatus) => {
+    const res = await fetch(`/api/articles/${article.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, status: nextStatus }),
+    });
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      alert(json.error || 'Failed to update article');
+      return;
+    }
+    loadArticles();
+  };
+
+  const deleteArticle = async (article: Article) => {
+    if (!confirm(`Delete "${article.title || 'Untitled article'}" and its version history?`)) {
+      return;
+    }
+    const res = await fetch(`/api/articles/${article.id}?userId=${userId}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      alert(json.error || 'Failed to delete article');
+      return;
+    }
+    loadArticles();
+  };
+
+  const openArticle = (article: Article) => {
+    router.push(`/editor?title=${encodeURIComponent(article.title)}&id=${article.id}`);
+  };
+
+  const inputClasses =
+    'border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-black dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  if (!userId) return <p className="p-4">Redirecting…</p>;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-black dark:text-white">
+      <div className="w-full px-6 py-4 flex justify-between items-center bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <h1 className="text-xl font-semibold">Article Library</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => router.push('/calendar')}
+            className="border border-gray-400 dark:border-gray-600 px-4 py-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Publishing Calendar
+          </button>
+          <button
+            onClick={() => router.push('/generate')}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded"
+          >
+            Generate New Article
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 max-w-6xl mx-auto space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search titles"
+            className={`${inputClasses} min-w-[16rem] flex-1`}
+          />
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as '' | ArticleStatus)}
+            className={inputClasses}
+          >
+            <option value="">All statuses</option>
+            <option value="draft">Drafts</option>
+            <option value="published">Published</option>
+            <option value="archived">Archived</option>
+          </select>
+          <select
+            value={articleType}
+            onChange={(e) => setArticleType(e.target.value)}
+            className={inputClasses}
+          >
+            <option value="">All types</option>
+            {ARTICLE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <select
+            value={wordpress}
+            onChange={(e) => setWordpress(e.target.value as WordPressFilter)}
+            className={inputClasses}
+          >
+            <option value="">Any WordPress state</option>
+            <option value="linked">Sent to WordPress</option>
+            <option value="unlinked">Not sent to WordPress</option>
+          </select>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {!loading && !error && articles.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No articles match these filters.</p>
+        )}
+
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+          {articles.map((article) => (
+            <li key={article.id} className="flex flex-wrap items-center justify-between gap-4 p-4">
+              <button onClick={() => openArticle(article)} className="min-w-0 flex-1 text-left">
+                <p className="truncate font-medium text-gray-900 dark:text-gray-100">
+                  {article.title || 'Untitled article'}
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  <span className={STATUS_STYLES[article.status]}>{article.status}</span>
+                  {article.articleType ? ` · ${article.articleType}` : ''}
+                  {` · ${article.wordCount.toLocaleString()} words`}
+                  {article.verification && !article.verification.isAccurate
+                    ? ` · ${article.verification.discrepancies.length} verification issues`
+                    : ''}
+                  {` · updated ${new Date(article.updatedAt).toLocaleString()}`}
+                </p>
+              </button>
+              <div className="flex shrink-0 items-center gap-2 text-sm">
+                {article.wordpress?.postUrl && (
+                  <a
+                    href={article.wordpress.postUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 underline"
+                  >
+                    WordPress #{article.wordpress.postId}
+                  </a>
+                )}
+                <select
+                  value={article.status}
+                  onChange={(e) => updateStatus(article, e.target.value as ArticleStatus)}
+                  className={inputClasses}
+                >
+                  <option value="draft">Draft</option>
+                  <option value="published">Published</option>
+                  <option value="archived">Archived</option>
+                </select>
+                <button
+                  onClick={() => deleteArticle(article)}
+                  className="rounded bg-red-500 px-3 py-1 text-white hover:bg-red-600"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm">
+            <button
+              onClick={() => setPage((current) => Math.max(current - 1, 0))}
+              disabled={page === 0}
+              className="border border-gray-400 dark:border-gray-600 px-3 py-1 rounded disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage((current) => Math.min(current + 1, pageCount - 1))}
+              disabled={page + 1 >= pageCount}
+              className="border border-gray-400 dark:border-gray-600 px-3 py-1 rounded disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
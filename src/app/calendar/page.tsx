@@ -0,0 +1,303 @@
+// src/app/calendar/page.tsx
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import clsx from 'clsx';
+import { supabase } from '../../lib/supabase';
+import type { ScheduleEntry } from '../../lib/publishingSchedule';
+import {
+  buildCalendarWeeks,
+  toDateKey,
+  toDateTimeLocalValue,
+} from '../../lib/wordpressPublishing';
+
+type Account = { id: string; site_url: string };
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// WordPress publishes scheduled posts itself, so a scheduled time that has
+// passed is shown as published.
+function entryState(entry: ScheduleEntry): 'scheduled' | 'published' {
+  return entry.status === 'future' && entry.publishAt && new Date(entry.publishAt) > new Date()
+    ? 'scheduled'
+    : 'published';
+}
+
+export default function CalendarPage() {
+  const router = useRouter();
+  const [userId, setUserId] = useState('');
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [entries, setEntries] = useState<ScheduleEntry[]>([]);
+  const [selected, setSelected] = useState<ScheduleEntry | null>(null);
+  const [rescheduleAt, setRescheduleAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const weeks = buildCalendarWeeks(month.year, month.month);
+
+  useEffect(() => {
+    const saved = localStorage.getItem('theme');
+    document.documentElement.classList.toggle('dark', saved === 'dark');
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data, error }) => {
+      if (error || !data.user) router.push('/auth');
+      else setUserId(data.user.id);
+    });
+  }, [router]);
+
+  useEffect(() => {
+    if (!userId) return;
+    fetch(`/api/wordpress/accounts?userId=${userId}`)
+      .then((res) => res.json())
+      .then((json) => setAccounts(Array.isArray(json.accounts) ? json.accounts : []))
+      .catch((err) => console.error('[calendar] failed to load accounts', err));
+  }, [userId]);
+
+  const loadEntries = useCallback(async () => {
+    if (!userId) return;
+    const monthWeeks = buildCalendarWeeks(month.year, month.month);
+    const firstDay = monthWeeks[0][0];
+    const lastDay = monthWeeks[monthWeeks.length - 1][6];
+    const params = new URLSearchParams({
+      userId,
+      from: firstDay.toISOString(),
+      to: new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1).toISOString(),
+    });
+    if (accountId) params.set('accountId', accountId);
+    try {
+      const res = await fetch(`/api/wordpress/schedule?${params.toString()}`);
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to load the publishing calendar');
+        return;
+      }
+      setEntries(Array.isArray(json.entries) ? json.entries : []);
+      setError(null);
+    } catch (err) {
+      console.error('[calendar] failed to load entries', err);
+      setError('Failed to load the publishing calendar');
+    }
+  }, [userId, accountId, month]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const selectEntry = (entry: ScheduleEntry) => {
+    setSelected(entry);
+    setRescheduleAt(entry.publishAt ? toDateTimeLocalValue(new Date(entry.publishAt)) : '');
+  };
+
+  const updateEntry = async (change: { scheduledAt: string } | { status: 'draft' }) => {
+    if (!selected) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/wordpress/schedule/${selected.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, ...change }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(json.error || 'Failed to update the schedule');
+        return;
+      }
+      setSelected(null);
+      loadEntries();
+    } catch (err) {
+      console.error('[calendar] failed to update entry', err);
+      alert('Failed to update the schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const reschedule = () => {
+    const date = new Date(rescheduleAt);
+    if (Number.isNaN(date.getTime()) || date <= new Date()) {
+      alert('Pick a publish time in the future');
+      return;
+    }
+    updateEntry({ scheduledAt: date.toISOString() });
+  };
+
+  const unschedule = () => {
+    if (!confirm('Move this post back to drafts in WordPress?')) return;
+    updateEntry({ status: 'draft' });
+  };
+
+  const shiftMonth = (delta: number) => {
+    setMonth(({ year, month: current }) => {
+      const date = new Date(year, current + delta, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+  };
+
+  const siteName = (id: string) =>
+    accounts.find((account) => account.id === id)?.site_url.replace(/^https?:\/\//, '') ?? 'Unknown site';
+
+  const entriesByDay = new Map<string, ScheduleEntry[]>();
+  for (const entry of entries) {
+    if (!entry.publishAt) continue;
+    const key = toDateKey(new Date(entry.publishAt));
+    entriesByDay.set(key, [...(entriesByDay.get(key) ?? []), entry]);
+  }
+  const todayKey = toDateKey(new Date());
+  const inputClasses =
+    'border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-black dark:text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  if (!userId) return <p className="p-4">Redirecting…</p>;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-black dark:text-white">
+      <div className="w-full px-6 py-4 flex justify-between items-center bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <h1 className="text-xl font-semibold">Publishing Calendar</h1>
+        <button
+          onClick={() => router.push('/articles')}
+          className="border border-gray-400 dark:border-gray-600 px-4 py-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          Article Library
+        </button>
+      </div>
+
+      <div className="p-6 max-w-6xl mx-auto space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <button onClick={() => shiftMonth(-1)} className={inputClasses}>
+            ←
+          </button>
+          <span className="min-w-[10rem] text-center font-medium">
+            {new Date(month.year, month.month, 1).toLocaleDateString(undefined, {
+              month: 'long',
+              year: 'numeric',
+            })}
+          </span>
+          <button onClick={() => shiftMonth(1)} className={inputClasses}>
+            →
+          </button>
+          <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClasses}>
+            <option value="">All sites</option>
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.site_url}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="grid grid-cols-7 gap-px overflow-hidden rounded-lg border border-gray-200 bg-gray-200 text-sm dark:border-gray-700 dark:bg-gray-700">
+          {WEEKDAYS.map((weekday) => (
+            <div key={weekday} className="bg-gray-100 px-2 py-1 font-medium dark:bg-gray-800">
+              {weekday}
+            </div>
+          ))}
+          {weeks.flat().map((day) => {
+            const key = toDateKey(day);
+            return (
+              <div
+                key={key}
+                className={clsx(
+                  'min-h-[6rem] space-y-1 bg-white p-1 dark:bg-gray-900',
+                  day.getMonth() !== month.month && 'opacity-50'
+                )}
+              >
+                <p className={clsx('text-xs', key === todayKey && 'font-bold text-blue-600')}>
+                  {day.getDate()}
+                </p>
+                {(entriesByDay.get(key) ?? []).map((entry) => (
+                  <button
+                    key={entry.id}
+                    onClick={() => selectEntry(entry)}
+                    className={clsx(
+                      'block w-full truncate rounded px-1 text-left text-xs',
+                      entryState(entry) === 'scheduled'
+                        ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+                        : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                    )}
+                    title={`${entry.title} · ${siteName(entry.accountId)}`}
+                  >
+                    {new Date(entry.publishAt as string).toLocaleTimeString(undefined, {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}{' '}
+                    {entry.title || 'Untitled article'}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {selected && (
+          <div className="space-y-3 rounded-lg bg-white p-4 shadow-sm dark:bg-gray-800">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div>
+                <p className="font-medium">{selected.title || 'Untitled article'}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {siteName(selected.accountId)} ·{' '}
+                  {entryState(selected) === 'scheduled' ? 'scheduled for' : 'published'}{' '}
+                  {new Date(selected.publishAt as string).toLocaleString()}
+                </p>
+              </div>
+              <button onClick={() => setSelected(null)} className="text-sm text-gray-500 hover:underline">
+                Close
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {entryState(selected) === 'scheduled' && (
+                <>
+                  <input
+                    type="datetime-local"
+                    value={rescheduleAt}
+                    onChange={(e) => setRescheduleAt(e.target.value)}
+                    className={inputClasses}
+                  />
+                  <button
+                    onClick={reschedule}
+                    disabled={saving}
+                    className="rounded bg-blue-600 px-3 py-2 text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? 'Saving…' : 'Reschedule'}
+                  </button>
+                  <button
+                    onClick={unschedule}
+                    disabled={saving}
+                    className="rounded border border-gray-400 px-3 py-2 hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:hover:bg-gray-700"
+                  >
+                    Unschedule
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => router.push(`/editor?title=${encodeURIComponent(selected.title)}&id=${selected.articleId}`)}
+                className="rounded border border-gray-400 px-3 py-2 hover:bg-gray-100 dark:border-gray-600 dark:hover:bg-gray-700"
+              >
+                Open in editor
+              </button>
+              {selected.postUrl && (
+                <a
+                  href={selected.postUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 underline"
+                >
+                  WordPress #{selected.postId}
+                </a>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
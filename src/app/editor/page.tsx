@@ -2,11 +2,28 @@
 'use client';
 export const dynamic = 'force-dynamic';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { supabase } from '../../lib/supabase';
 import { Editor } from '@tinymce/tinymce-react';
-import WordPressIntegration from '../../components/WordPressIntegration';
+import WordPressIntegration, {
+  type PublishedPost,
+} from '../../components/WordPressIntegration';
+import ArticleVersionHistory from '../../components/ArticleVersionHistory';
+import SectionRewriter from '../../components/SectionRewriter';
+import VerificationReportPanel from '../../components/VerificationReportPanel';
+import SeoMetadataPanel from '../../components/SeoMetadataPanel';
+import SeoAuditPanel from '../../components/SeoAuditPanel';
+import StructuredDataPreview from '../../components/StructuredDataPreview';
+import RecipePanel from '../../components/RecipePanel';
+import ArticleImagesPanel from '../../components/ArticleImagesPanel';
+import type { ArticleVersion } from '../../lib/articleVersions';
+import type { ArticleVerification } from '../../lib/articles';
+import { clearClaimHighlights, highlightClaimSentences } from '../../lib/verificationReport';
+import { extractInternalLinks } from '../../lib/internalLinks';
+import type { Recipe } from '../../lib/recipes';
+import type { ArticleImageRecord } from '../../lib/articleImages';
+import type { SeoMetadata } from '../../lib/seoMetadata';
 
 export default function EditorPage() {
   const router       = useRouter();
@@ -36,38 +53,148 @@ export default function EditorPage() {
 
   const [originalPrompt, setOriginalPrompt] = useState<any>(null);
   const [regenerating, setRegenerating] = useState(false);
+  const [articleId, setArticleId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [versionsRefreshKey, setVersionsRefreshKey] = useState(0);
+  const [verification, setVerification] = useState<ArticleVerification | null>(null);
+  const [seo, setSeo] = useState<SeoMetadata | null>(null);
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [images, setImages] = useState<ArticleImageRecord[]>([]);
 
-  useEffect(() => {
-    const stored = localStorage.getItem('lastPrompt');
-    if (stored) {
-      try {
-        setOriginalPrompt(JSON.parse(stored));
-      } catch {}
-    }
-  }, []);
-
-  // Load initial content & sources from localStorage
-  useEffect(() => {
-    const savedContent = localStorage.getItem('lastArticleContent');
-    if (!savedContent) {
-      alert('No article data found. Please generate an article first.');
-      router.push('/generate');
-      return;
-    }
-    setContent(savedContent);
+  const applyContent = (nextContent: string) => {
+    setContent(nextContent);
     setWordCount(
-      savedContent
+      nextContent
         .replace(/<[^>]+>/g, ' ')
         .split(/\s+/)
         .filter(Boolean).length
     );
-    try {
-      const s = localStorage.getItem('lastArticleSources');
-      setSources(s ? JSON.parse(s) : []);
-    } catch {
-      setSources([]);
+  };
+
+  // Flagged claim sentences are marked inside the editor copy only. Everything
+  // that leaves the editor (saves, versions, publishing, the panels) reads
+  // articleHtml, which has the marks removed.
+  const flaggedClaims = useMemo(
+    () => (verification?.claims ?? []).filter((claim) => claim.verdict !== 'supported'),
+    [verification]
+  );
+  const articleHtml = clearClaimHighlights(content);
+  const highlightFlaggedClaims = (html: string) =>
+    highlightClaimSentences(clearClaimHighlights(html), flaggedClaims).html;
+
+  useEffect(() => {
+    setContent((current) => highlightFlaggedClaims(current));
+  }, [flaggedClaims]);
+
+  // Content from a panel or a restored version is marked again; typing
+  // in the editor leaves the existing marks alone so the cursor stays put.
+  const applyHighlightedContent = (nextContent: string) => {
+    applyContent(highlightFlaggedClaims(nextContent));
+  };
+
+  // Opens the library article named in the URL. Without one, the editor falls
+  // back to the copy the Generate page left in localStorage, and articles from
+  // before ids existed get a fresh id so their edits are tracked from here on.
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const loadFromLocalStorage = () => {
+      const savedContent = localStorage.getItem('lastArticleContent');
+      if (!savedContent) {
+        alert('No article data found. Please generate an article first.');
+        router.push('/generate');
+        return;
+      }
+      let id = localStorage.getItem('lastArticleId');
+      if (!id) {
+        id = crypto.randomUUID();
+        try {
+          localStorage.setItem('lastArticleId', id);
+        } catch {}
+      }
+      setArticleId(id);
+      applyContent(savedContent);
+      try {
+        const s = localStorage.getItem('lastArticleSources');
+        setSources(s ? JSON.parse(s) : []);
+      } catch {
+        setSources([]);
+      }
+      try {
+        const stored = localStorage.getItem('lastPrompt');
+        if (stored) setOriginalPrompt(JSON.parse(stored));
+      } catch {}
+      try {
+        const storedVerification = localStorage.getItem('lastArticleVerification');
+        setVerification(storedVerification ? JSON.parse(storedVerification) : null);
+      } catch {
+        setVerification(null);
+      }
+      try {
+        const storedSeo = localStorage.getItem('lastArticleSeo');
+        setSeo(storedSeo ? JSON.parse(storedSeo) : null);
+      } catch {
+        setSeo(null);
+      }
+      try {
+        const storedRecipe = localStorage.getItem('lastArticleRecipe');
+        setRecipe(storedRecipe ? JSON.parse(storedRecipe) : null);
+      } catch {
+        setRecipe(null);
+      }
+      try {
+        const storedImages = localStorage.getItem('lastArticleImages');
+        setImages(storedImages ? JSON.parse(storedImages) : []);
+      } catch {
+        setImages([]);
+      }
+    };
+
+    const requestedId = searchParams.get('id');
+    if (!requestedId) {
+      loadFromLocalStorage();
+      return;
     }
-  }, [router]);
+
+    fetch(`/api/articles/${requestedId}?userId=${user.id}`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (cancelled) return;
+        if (!res.ok || !json.article?.content) {
+          loadFromLocalStorage();
+          return;
+        }
+        const article = json.article;
+        setArticleId(article.id);
+        applyContent(article.content);
+        setSources(article.sources.filter((source: unknown) => typeof source === 'string'));
+        if (article.title) setEditableTitle(article.title);
+        setOriginalPrompt(article.payload);
+        setVerification(article.verification);
+        setSeo(article.seo);
+        setRecipe(article.recipe);
+        setImages(article.images ?? []);
+        try {
+          localStorage.setItem('lastArticleId', article.id);
+          localStorage.setItem('lastArticleContent', article.content);
+          localStorage.setItem('lastArticleSources', JSON.stringify(article.sources));
+          if (article.payload) localStorage.setItem('lastPrompt', JSON.stringify(article.payload));
+          localStorage.setItem('lastArticleVerification', JSON.stringify(article.verification));
+          localStorage.setItem('lastArticleSeo', JSON.stringify(article.seo));
+          localStorage.setItem('lastArticleRecipe', JSON.stringify(article.recipe));
+          localStorage.setItem('lastArticleImages', JSON.stringify(article.images ?? []));
+        } catch {}
+      })
+      .catch((err) => {
+        console.error('[editor] failed to load article', err);
+        if (!cancelled) loadFromLocalStorage();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, router, searchParams]);
 
   // Auth guard
   useEffect(() => {
@@ -78,9 +205,145 @@ export default function EditorPage() {
   }, [router]);
 
   const handleEditorChange = (value: string) => {
-    setContent(value);
-    const text = value.replace(/<[^>]+>/g, ' ');
-    setWordCount(text.split(/\s+/).filter(Boolean).length);
+    applyContent(value);
+  };
+
+  const storeArticle = (nextContent: string, nextSources: string[]) => {
+    try {
+      localStorage.setItem('lastArticleContent', nextContent);
+      localStorage.setItem('lastArticleSources', JSON.stringify(nextSources));
+    } catch {}
+  };
+
+  // Saves the article to the library and keeps the saved HTML as a version.
+  const handleSave = async () => {
+    if (!user || !articleId) return;
+    setSaving(true);
+    try {
+      const articleRes = await fetch('/api/articles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: articleId,
+          userId: user.id,
+          title: editableTitle,
+          content: articleHtml,
+          sources,
+          ...(seo && { seo }),
+          ...(recipe && { recipe }),
+          images,
+          ...(originalPrompt && { payload: originalPrompt }),
+        }),
+      });
+      const versionRes = articleRes.ok
+        ? await fetch(`/api/articles/${articleId}/versions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ userId: user.id, title: editableTitle, content: articleHtml, sources }),
+          })
+        : articleRes;
+      if (!versionRes.ok) {
+        const json = await versionRes.json().catch(() => ({}));
+        alert(json.error || 'Failed to save article');
+        return;
+      }
+      storeArticle(articleHtml, sources);
+      setVersionsRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error(err);
+      alert('Failed to save article');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWordPressPublished = async (post: PublishedPost) => {
+    if (!user || !articleId) return;
+    try {
+      await fetch(`/api/articles/${articleId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: user.id, wordpress: post }),
+      });
+    } catch (err) {
+      console.error('[editor] failed to link WordPress post', err);
+    }
+  };
+
+  const handleRestoreVersion = async (version: ArticleVersion) => {
+    const restoredSources = version.sources.filter(
+      (source): source is string => typeof source === 'string'
+    );
+    applyHighlightedContent(version.content);
+    setSources(restoredSources);
+    if (version.title) setEditableTitle(version.title);
+    storeArticle(version.content, restoredSources);
+    try {
+      const res = await fetch('/api/articles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: articleId,
+          userId: user.id,
+          title: version.title || editableTitle,
+          content: version.content,
+          sources: restoredSources,
+        }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        alert(json.error || 'Failed to save restored article');
+      }
+    } catch (err) {
+      console.error('[editor] failed to save restored article', err);
+      alert('Failed to save restored article');
+    }
+  };
+
+  // Section rewrites only touch the editor copy; Save records them as a version.
+  const handleSectionRewrite = (nextContent: string, addedSources: string[]) => {
+    const nextSources = [
+      ...sources,
+      ...addedSources.filter((source) => !sources.includes(source)),
+    ];
+    applyHighlightedContent(nextContent);
+    setSources(nextSources);
+    storeArticle(nextContent, nextSources);
+  };
+
+  // SEO edits are kept locally until the next Save.
+  const handleSeoChange = (nextSeo: SeoMetadata) => {
+    setSeo(nextSeo);
+    try {
+      localStorage.setItem('lastArticleSeo', JSON.stringify(nextSeo));
+    } catch {}
+  };
+
+  // Audit fixes behave like section rewrites: editor copy only until Save.
+  const handleAuditFix = (nextContent: string, nextTitle: string) => {
+    applyHighlightedContent(nextContent);
+    setEditableTitle(nextTitle);
+    storeArticle(nextContent, sources);
+  };
+
+  // Scaling or converting a recipe re-renders the article from the recipe.
+  const handleRecipeChange = (nextRecipe: Recipe, nextContent: string) => {
+    setRecipe(nextRecipe);
+    applyHighlightedContent(nextContent);
+    storeArticle(nextContent, sources);
+    try {
+      localStorage.setItem('lastArticleRecipe', JSON.stringify(nextRecipe));
+    } catch {}
+  };
+
+  // Inserted images, like section rewrites, stay in the editor copy until Save.
+  const handleImagesChange = (nextContent: string, nextImages: ArticleImageRecord[]) => {
+    setImages(nextImages);
+    applyHighlightedContent(nextContent);
+    storeArticle(nextContent, sources);
+    try {
+      localStorage.setItem('lastArticleImages', JSON.stringify(nextImages));
+    } catch {}
   };
 
   const handleRegenerate = async () => {
@@ -94,14 +357,28 @@ export default function EditorPage() {
       const res = await fetch('/api/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
+        body: JSON.stringify({
+          ...payload,
+          userId: user?.id,
+          articleId,
+          versionSource: 'regeneration',
+        }),
       });
       const data = await res.json();
       if (data.content) {
-        setContent(data.content);
-        const text = data.content.replace(/<[^>]+>/g, ' ');
-        setWordCount(text.split(/\s+/).filter(Boolean).length);
+        // Mark the new draft against its own report; flaggedClaims still
+        // holds the previous one until the next render.
+        const regeneratedFlags = (data.verification?.claims ?? []).filter(
+          (claim) => claim.verdict !== 'supported'
+        );
+        applyContent(highlightClaimSentences(data.content, regeneratedFlags).html);
         setSources(Array.isArray(data.sources) ? data.sources : []);
+        setVerification(data.verification ?? null);
+        setSeo(data.seo ?? null);
+        setRecipe(data.recipe ?? null);
+        // Section images went with the old body; the featured image still fits
+        const keptImages = images.filter((record) => record.slot === 'featured');
+        setImages(keptImages);
 
         // Persist regeneration payload and results
         try {
@@ -111,8 +388,16 @@ export default function EditorPage() {
             'lastArticleSources',
             JSON.stringify(data.sources || [])
           );
+          localStorage.setItem(
+            'lastArticleVerification',
+            JSON.stringify(data.verification ?? null)
+          );
+          localStorage.setItem('lastArticleSeo', JSON.stringify(data.seo ?? null));
+          localStorage.setItem('lastArticleRecipe', JSON.stringify(data.recipe ?? null));
+          localStorage.setItem('lastArticleImages', JSON.stringify(keptImages));
         } catch {}
         setOriginalPrompt(payload);
+        setVersionsRefreshKey((key) => key + 1);
       } else {
         alert('Regeneration failed');
       }
@@ -132,6 +417,8 @@ export default function EditorPage() {
 
   if (!user) return <p className="p-4">Redirecting…</p>;
 
+  const internalLinks = extractInternalLinks(articleHtml);
+
   return (
     <div className="min-h-screen bg-white dark:bg-gray-900 text-black dark:text-white">
       <div className="p-4 max-w-6xl mx-auto space-y-6">
@@ -173,6 +460,20 @@ export default function EditorPage() {
             </ul>
           </div>
         )}
+        {internalLinks.length > 0 && (
+          <div className="text-sm text-gray-600 dark:text-gray-300">
+            <h3 className="font-semibold mb-1">Internal links</h3>
+            <ul className="list-disc list-inside space-y-1">
+              {internalLinks.map((link) => (
+                <li key={link.url}>
+                  <a href={link.url} className="text-green-700 dark:text-green-400 underline" target="_blank" rel="noopener noreferrer">
+                    {link.title || link.url}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
 
         <div>
           {/* Editor */}
@@ -191,6 +492,14 @@ export default function EditorPage() {
                     background-color: ${theme === 'dark' ? '#1f2937' : '#ffffff'};
                     color: ${theme === 'dark' ? '#f9fafb' : '#000000'};
                   }
+                  a[data-link-type="internal"] {
+                    color: ${theme === 'dark' ? '#4ade80' : '#15803d'};
+                    text-decoration-style: dashed;
+                  }
+                  mark.verification-flag {
+                    background-color: ${theme === 'dark' ? 'rgba(120, 53, 15, 0.6)' : '#fef3c7'};
+                    color: inherit;
+                  }
                 `,
                 height: 700,
                 menubar: true,
@@ -215,6 +524,19 @@ export default function EditorPage() {
           >
             {regenerating ? 'Regenerating…' : 'Regenerate Article'}
           </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !articleId}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+          <button
+            onClick={() => router.push('/articles')}
+            className="border border-gray-400 dark:border-gray-600 px-4 py-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Article Library
+          </button>
           <button
             onClick={handleNewArticle}
             className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded"
@@ -223,7 +545,68 @@ export default function EditorPage() {
           </button>
         </div>
 
-        <WordPressIntegration title={editableTitle} content={content} />
+        {recipe && <RecipePanel recipe={recipe} content={articleHtml} onApply={handleRecipeChange} />}
+
+        <ArticleImagesPanel
+          userId={user.id}
+          articleId={articleId}
+          title={editableTitle}
+          content={articleHtml}
+          images={images}
+          model={originalPrompt?.modelVersion}
+          onApply={handleImagesChange}
+        />
+
+        <SectionRewriter
+          userId={user.id}
+          articleId={articleId}
+          title={editableTitle}
+          content={articleHtml}
+          model={originalPrompt?.modelVersion}
+          onApply={handleSectionRewrite}
+        />
+
+        <VerificationReportPanel verification={verification} content={articleHtml} />
+
+        {articleId && (
+          <ArticleVersionHistory
+            userId={user.id}
+            articleId={articleId}
+            currentContent={articleHtml}
+            refreshKey={versionsRefreshKey}
+            onRestore={handleRestoreVersion}
+          />
+        )}
+
+        <SeoMetadataPanel seo={seo} title={editableTitle} onChange={handleSeoChange} />
+
+        <StructuredDataPreview
+          articleType={originalPrompt?.articleType}
+          title={editableTitle}
+          content={articleHtml}
+          seo={seo}
+        />
+
+        <SeoAuditPanel
+          userId={user.id}
+          articleId={articleId}
+          title={editableTitle}
+          content={articleHtml}
+          focusKeyphrase={seo?.focusKeyphrase ?? ''}
+          model={originalPrompt?.modelVersion}
+          onApply={handleAuditFix}
+        />
+
+        <WordPressIntegration
+          title={editableTitle}
+          content={articleHtml}
+          seo={seo}
+          articleType={originalPrompt?.articleType}
+          articleId={articleId}
+          onPublished={handleWordPressPublished}
+          onMerged={applyHighlightedContent}
+          featuredImage={images.find((record) => record.slot === 'featured')?.src}
+        />
       </div>
     </div>
   );
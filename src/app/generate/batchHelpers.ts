@@ -0,0 +1,64 @@
+import type { HeadlineItem } from './types';
+
+export type BatchJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type BatchSummary = {
+  total: number;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  isComplete: boolean;
+};
+
+export const MAX_BATCH_SIZE = 25;
+
+export function getHeadlineSelectionKey(headline: HeadlineItem, index: number): string {
+  const url = headline.url?.trim();
+  if (url) {
+    return url;
+  }
+  return `${index}:${headline.title?.trim() ?? ''}`;
+}
+
+export function buildBatchPayloads(
+  headlines: HeadlineItem[],
+  settings: Record<string, unknown>
+): Record<string, unknown>[] {
+  const seenTitles = new Set<string>();
+  const payloads: Record<string, unknown>[] = [];
+
+  for (const headline of headlines) {
+    const title = headline.title?.replace(/\s+/g, ' ').trim();
+    if (!title) {
+      continue;
+    }
+    const normalizedTitle = title.toLowerCase();
+    if (seenTitles.has(normalizedTitle)) {
+      continue;
+    }
+    seenTitles.add(normalizedTitle);
+    payloads.push({ ...settings, title });
+  }
+
+  return payloads.slice(0, MAX_BATCH_SIZE);
+}
+
+export function summarizeBatchJobs(jobs: { status: BatchJobStatus }[]): BatchSummary {
+  const summary: BatchSummary = {
+    total: jobs.length,
+    queued: 0,
+    running: 0,
+    succeeded: 0,
+    failed: 0,
+    isComplete: false,
+  };
+
+  for (const job of jobs) {
+    summary[job.status] += 1;
+  }
+
+  summary.isComplete =
+    summary.total > 0 && summary.queued === 0 && summary.running === 0;
+  return summary;
+}
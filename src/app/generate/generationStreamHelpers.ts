@@ -0,0 +1,167 @@
+import type {
+  GenerationEvent,
+  GenerationSourceSummary,
+  GenerationStage,
+} from '../../lib/generationEvents';
+
+type GenerationTerminalEvent = Extract<GenerationEvent, { type: 'complete' | 'error' }>;
+
+export const GENERATION_STAGE_LABELS: Record<GenerationStage, string> = {
+  sources: 'Fetching sources',
+  outline: 'Building outline',
+  draft: 'Drafting article',
+  links: 'Checking citations',
+  expansion: 'Expanding thin sections',
+  verification: 'Verifying facts',
+  revision: 'Revising flagged issues',
+  faq: 'Answering related questions',
+  seo: 'Writing SEO metadata',
+};
+
+export type GenerationStageProgress = {
+  stage: GenerationStage;
+  status: 'started' | 'completed' | 'failed';
+  elapsedMs?: number;
+};
+
+export type GenerationProgress = {
+  stages: GenerationStageProgress[];
+  sources: GenerationSourceSummary[];
+  outline: string;
+  draft: string;
+  discrepancies: string[];
+};
+
+export const INITIAL_GENERATION_PROGRESS: GenerationProgress = {
+  stages: [],
+  sources: [],
+  outline: '',
+  draft: '',
+  discrepancies: [],
+};
+
+export function applyGenerationEvent(
+  progress: GenerationProgress,
+  event: GenerationEvent
+): GenerationProgress {
+  switch (event.type) {
+    case 'stage': {
+      const stages = [...progress.stages];
+      let index = -1;
+      for (let i = stages.length - 1; i >= 0; i -= 1) {
+        if (stages[i].stage === event.stage) {
+          index = i;
+          break;
+        }
+      }
+      const entry: GenerationStageProgress = {
+        stage: event.stage,
+        status: event.status,
+        elapsedMs: event.elapsedMs,
+      };
+      if (event.status === 'started' || index === -1) {
+        stages.push(entry);
+      } else {
+        stages[index] = entry;
+      }
+      return { ...progress, stages };
+    }
+    case 'sources':
+      return { ...progress, sources: event.sources };
+    case 'outline':
+      return { ...progress, outline: event.outline };
+    case 'draft':
+      return {
+        ...progress,
+        draft: event.reset ? event.delta : `${progress.draft}${event.delta}`,
+      };
+    case 'expansion':
+      return { ...progress, draft: event.content };
+    case 'verification':
+      return { ...progress, discrepancies: event.discrepancies };
+    default:
+      return progress;
+  }
+}
+
+export function parseGenerationStreamChunk(buffer: string): {
+  events: GenerationEvent[];
+  rest: string;
+} {
+  const lines = buffer.split('\n');
+  const rest = lines.pop() ?? '';
+  const events: GenerationEvent[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && typeof parsed.type === 'string') {
+        events.push(parsed as GenerationEvent);
+      }
+    } catch {
+      console.warn('[generate] skipping malformed stream line:', trimmed);
+    }
+  }
+
+  return { events, rest };
+}
+
+// Consumes an NDJSON generation stream, forwarding progress events, and
+// resolves with a plain JSON Response rebuilt from the terminal event so
+// callers can reuse their regular response handling.
+export async function readGenerationStream(
+  response: Response,
+  onEvent: (event: GenerationEvent) => void
+): Promise<Response> {
+  if (!response.body) {
+    throw new Error('Generation stream is empty.');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let terminal: GenerationTerminalEvent | null = null;
+
+  const handleEvents = (events: GenerationEvent[]) => {
+    for (const event of events) {
+      if (event.type === 'complete' || event.type === 'error') {
+        terminal = event as GenerationTerminalEvent;
+      } else {
+        onEvent(event);
+      }
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const { events, rest } = parseGenerationStreamChunk(buffer);
+    buffer = rest;
+    handleEvents(events);
+  }
+
+  buffer += decoder.decode();
+  handleEvents(parseGenerationStreamChunk(`${buffer}\n`).events);
+
+  const finalEvent = terminal as GenerationTerminalEvent | null;
+  if (!finalEvent) {
+    throw new Error('Generation stream ended before the article was ready.');
+  }
+
+  const body =
+    finalEvent.type === 'complete'
+      ? finalEvent.body
+      : finalEvent.body ?? { error: finalEvent.error };
+
+  return new Response(JSON.stringify(body ?? {}), {
+    status: finalEvent.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
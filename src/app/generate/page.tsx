@@ -16,7 +16,25 @@ import {
   type HeadlineClipboardColumn,
   type HeadlineClipboardFormat,
 } from './headlineClipboardHelpers';
+import {
+  applyGenerationEvent,
+  GENERATION_STAGE_LABELS,
+  INITIAL_GENERATION_PROGRESS,
+  readGenerationStream,
+  type GenerationProgress,
+} from './generationStreamHelpers';
 import { HEADLINE_SITES, type HeadlineSiteKey } from '../../constants/headlineSites';
+import GenerationJobsPanel from '../../components/GenerationJobsPanel';
+import UsageSummaryPanel from '../../components/UsageSummaryPanel';
+import BatchDashboard from '../../components/BatchDashboard';
+import SourceDocumentsInput, { type SourceDocument } from '../../components/SourceDocumentsInput';
+import InternalLinkAccountSelect from '../../components/InternalLinkAccountSelect';
+import type { SourceDocumentMode } from '../../lib/sourceDocuments';
+import {
+  buildBatchPayloads,
+  getHeadlineSelectionKey,
+  MAX_BATCH_SIZE,
+} from './batchHelpers';
 import type {
   HeadlineItem,
   RelatedArticle,
@@ -176,6 +194,13 @@ export default function GeneratePage() {
     router.push('/auth');
   };
 
+  const [userId, setUserId] = useState('');
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => {
+      if (data.user) setUserId(data.user.id);
+    });
+  }, []);
+
   const [title, setTitle] = useState('');
   const [articleType, setArticleType] = useState<
     | 'Blog post'
@@ -184,6 +209,7 @@ export default function GeneratePage() {
     | 'News article'
   >('Blog post');
   const isListicleMode = articleType === 'Listicle/Gallery';
+  const supportsFaq = articleType === 'Blog post' || articleType === 'News article';
 
   // for blog posts
   const [lengthOption, setLengthOption] = useState<
@@ -221,6 +247,11 @@ export default function GeneratePage() {
   const [toDate, setToDate] = useState('');
   const searchIn: string[] = [];
   const [generateError, setGenerateError] = useState<string | null>(null);
+  const [generationProgress, setGenerationProgress] =
+    useState<GenerationProgress | null>(null);
+  const [queueing, setQueueing] = useState(false);
+  const [jobsRefreshKey, setJobsRefreshKey] = useState(0);
+  const [usageRefreshKey, setUsageRefreshKey] = useState(0);
   const [selectedCopyColumn, setSelectedCopyColumn] =
     useState<HeadlineClipboardColumn>('all');
   const [copyFeedback, setCopyFeedback] = useState<
@@ -282,6 +313,107 @@ export default function GeneratePage() {
     }
   };
 
+  const [selectedHeadlineKeys, setSelectedHeadlineKeys] = useState<Set<string>>(
+    new Set()
+  );
+  const [batchArticleType, setBatchArticleType] = useState<
+    'News article' | 'Blog post'
+  >('News article');
+  const [batchSubmitting, setBatchSubmitting] = useState(false);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedHeadlineKeys((previous) => {
+      if (previous.size === 0) {
+        return previous;
+      }
+      const available = new Set(
+        headlineResults.map((headline, index) =>
+          getHeadlineSelectionKey(headline, index)
+        )
+      );
+      return new Set([...previous].filter((key) => available.has(key)));
+    });
+  }, [headlineResults]);
+
+  const toggleHeadlineSelection = (key: string) => {
+    setSelectedHeadlineKeys((previous) => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const allHeadlinesSelected =
+    headlineResults.length > 0 &&
+    selectedHeadlineKeys.size === headlineResults.length;
+
+  const toggleAllHeadlines = () => {
+    setSelectedHeadlineKeys(
+      allHeadlinesSelected
+        ? new Set()
+        : new Set(
+            headlineResults.map((headline, index) =>
+              getHeadlineSelectionKey(headline, index)
+            )
+          )
+    );
+  };
+
+  const handleGenerateBatch = async () => {
+    const selectedHeadlines = headlineResults.filter((headline, index) =>
+      selectedHeadlineKeys.has(getHeadlineSelectionKey(headline, index))
+    );
+    if (selectedHeadlines.length === 0) {
+      return;
+    }
+    if (selectedHeadlines.length > MAX_BATCH_SIZE) {
+      setBatchError(`Select at most ${MAX_BATCH_SIZE} headlines per batch.`);
+      return;
+    }
+
+    const {
+      title: _title,
+      listNumberingFormat: _numbering,
+      listItemWordCount: _itemWords,
+      ...sharedSettings
+    } = buildGeneratePayload();
+    const payloads = buildBatchPayloads(selectedHeadlines, {
+      ...sharedSettings,
+      articleType: batchArticleType,
+      lengthOption,
+      customSections: lengthOption === 'custom' ? customSections : undefined,
+    });
+
+    setBatchSubmitting(true);
+    setBatchError(null);
+    try {
+      const res = await fetch('/api/generate/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, payloads }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.batchId) {
+        setBatchError(json.error || 'Failed to start batch generation.');
+        return;
+      }
+      setActiveBatchId(json.batchId);
+      setSelectedHeadlineKeys(new Set());
+      setJobsRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('[generate] batch error:', err);
+      setBatchError('Failed to start batch generation.');
+    } finally {
+      setBatchSubmitting(false);
+    }
+  };
+
   const handleRemoveHeadline = (headline: HeadlineItem, index: number) => {
     setHeadlineResults((previous) =>
       previous.filter((item, itemIndex) =>
@@ -341,13 +473,20 @@ export default function GeneratePage() {
     | 'None'
   >('1), 2), 3)');
   const [itemWordCount, setItemWordCount] = useState<number>(100);
-  const [recipeQuery, setRecipeQuery] = useState<string>('');
+
+  // Recipe fields
+  const [servings, setServings] = useState<number>(4);
+  const [unitSystem, setUnitSystem] = useState<'metric' | 'imperial'>('imperial');
 
   // ─── NEW: MODEL VERSION ───────────────────────────────────────────────────────
-  const models = ['gpt-4', 'gpt-4o', 'gpt-4o-mini', 'gpt-3.5-turbo'];
+  const models = ['gpt-4', 'gpt-4o', 'gpt-4o-mini', 'gpt-3.5-turbo', 'gpt-4.1', 'gpt-4.1-mini'];
   const [modelVersion, setModelVersion] = useState<string>(models[0]);
   const [useSerpApi, setUseSerpApi] = useState<boolean>(true);
+  const [includeFaq, setIncludeFaq] = useState<boolean>(false);
   const [includeLinks, setIncludeLinks] = useState<boolean>(true);
+  const [sourceDocuments, setSourceDocuments] = useState<SourceDocument[]>([]);
+  const [sourceMode, setSourceMode] = useState<SourceDocumentMode>('merge');
+  const [internalLinkAccountId, setInternalLinkAccountId] = useState('');
 
   useEffect(() => {
     if (activeTab !== 'headlines') {
@@ -454,94 +593,123 @@ export default function GeneratePage() {
     });
   };
 
-  const handleRecipeGenerate = async () => {
-    if (!recipeQuery.trim()) {
-      alert('Enter a recipe query first');
+  const buildGeneratePayload = () => {
+    const instructions = customInstructions.trim();
+
+    const payload: any = {
+      title,
+      articleType,
+      ...(instructions && { customInstructions: instructions }),
+      toneOfVoice,
+      ...(toneOfVoice === 'Custom' && { customTone }),
+      pointOfView,
+      modelVersion,
+      useSerpApi,
+      includeLinks,
+      ...(includeFaq && supportsFaq && { includeFaq }),
+      ...(sourceDocuments.length > 0 && { sourceDocuments, sourceMode }),
+      ...(internalLinkAccountId && { internalLinkAccountId }),
+    };
+
+    if (articleType === 'Listicle/Gallery') {
+      payload.listNumberingFormat = numberingFormat;
+      payload.listItemWordCount = itemWordCount;
+    } else if (articleType === 'Recipe article') {
+      payload.servings = servings;
+      payload.unitSystem = unitSystem;
+    } else {
+      payload.lengthOption = lengthOption;
+      payload.customSections =
+        lengthOption === 'custom' ? customSections : undefined;
+    }
+
+    return payload;
+  };
+
+  const validateGenerateForm = () => {
+    if (!title.trim()) {
+      alert('Enter a title first');
+      return false;
+    }
+    if (articleType === 'Blog post' && lengthOption === 'custom' && customSections < 1) {
+      alert('Enter a valid number of sections');
+      return false;
+    }
+    if (articleType === 'Recipe article' && (!Number.isFinite(servings) || servings < 1)) {
+      alert('Enter a valid number of servings');
+      return false;
+    }
+    return true;
+  };
+
+  const handleQueueGenerate = async () => {
+    if (!validateGenerateForm()) {
       return;
     }
 
-    setLoading(true);
+    setQueueing(true);
     setGenerateError(null);
     try {
-      const response = await fetch('https://web-production-0dac.up.railway.app/api/recipe-query', {
+      const res = await fetch('/api/generate/jobs', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: recipeQuery,
-        }),
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, payload: buildGeneratePayload() }),
       });
-
-      if (!response.ok) {
-        throw new Error(`Recipe API error: ${response.status}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setGenerateError(json.error || 'Failed to queue article');
+        return;
       }
-
-      const recipeData = await response.json();
-      
-      // Store the generated content
-      try {
-        localStorage.setItem('lastArticleContent', recipeData.content || recipeData.article || JSON.stringify(recipeData, null, 2));
-        localStorage.setItem('lastArticleSources', JSON.stringify(recipeData.sources || []));
-      } catch {}
-
-      // Redirect to editor
-      router.push(`/editor?title=${encodeURIComponent(recipeQuery)}`);
-      setGenerateError(null);
-    } catch (error) {
-      console.error('Recipe generation error:', error);
-      setGenerateError(error instanceof Error ? error.message : 'Failed to generate recipe article');
-      setLoading(false);
+      setJobsRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('[generate] queue error:', err);
+      setGenerateError('Failed to queue article');
+    } finally {
+      setQueueing(false);
     }
   };
 
   const handleGenerate = async () => {
-    if (!title.trim()) {
-      alert('Enter a title first');
-      return;
-    }
-    if (articleType === 'Blog post' && lengthOption === 'custom' && customSections < 1) {
-      alert('Enter a valid number of sections');
+    if (!validateGenerateForm()) {
       return;
     }
 
     setLoading(true);
     setGenerateError(null);
+    setGenerationProgress(INITIAL_GENERATION_PROGRESS);
     try {
-      const instructions = customInstructions.trim();
-
-      const payload: any = {
-        title,
-        articleType,
-        ...(instructions && { customInstructions: instructions }),
-        toneOfVoice,
-        ...(toneOfVoice === 'Custom' && { customTone }),
-        pointOfView,
-        modelVersion,
-        useSerpApi,
-        includeLinks,
-      };
-
-      if (articleType === 'Listicle/Gallery') {
-        payload.listNumberingFormat = numberingFormat;
-        payload.listItemWordCount = itemWordCount;
-      } else {
-        payload.lengthOption = lengthOption;
-        payload.customSections =
-          lengthOption === 'custom' ? customSections : undefined;
-      }
+      const payload = buildGeneratePayload();
+      // Usage rows are grouped per article, so each generation gets its own id.
+      const articleId = crypto.randomUUID();
 
       // Save payload for future regeneration
       try {
         localStorage.setItem('lastPrompt', JSON.stringify(payload));
+        localStorage.setItem('lastArticleId', articleId);
       } catch {}
 
       const url = '/api/generate';
-      const res = await fetch(url, {
+      const streamRes = await fetch(url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
+        body: JSON.stringify({
+          ...payload,
+          ...(userId && { userId }),
+          articleId,
+          stream: true,
+        }),
       });
+      const isEventStream = (streamRes.headers.get('content-type') ?? '').includes(
+        'application/x-ndjson'
+      );
+      const res =
+        streamRes.ok && isEventStream
+          ? await readGenerationStream(streamRes, (event) =>
+              setGenerationProgress((prev) =>
+                applyGenerationEvent(prev ?? INITIAL_GENERATION_PROGRESS, event)
+              )
+            )
+          : streamRes;
       const contentType = res.headers.get('content-type') ?? '';
 
       const defaultFriendlyMessage =
@@ -682,15 +850,33 @@ export default function GeneratePage() {
           'lastArticleSources',
           JSON.stringify(data.sources || [])
         );
+        if (data.verification) {
+          localStorage.setItem('lastArticleVerification', JSON.stringify(data.verification));
+        } else {
+          localStorage.removeItem('lastArticleVerification');
+        }
+        if (data.seo) {
+          localStorage.setItem('lastArticleSeo', JSON.stringify(data.seo));
+        } else {
+          localStorage.removeItem('lastArticleSeo');
+        }
+        if (data.recipe) {
+          localStorage.setItem('lastArticleRecipe', JSON.stringify(data.recipe));
+        } else {
+          localStorage.removeItem('lastArticleRecipe');
+        }
+        localStorage.removeItem('lastArticleImages');
       } catch {}
 
-      router.push(`/editor?title=${encodeURIComponent(title)}`);
+      setGenerationProgress(null);
+      router.push(`/editor?title=${encodeURIComponent(title)}&id=${articleId}`);
       setGenerateError(null);
     } catch (err) {
       console.error('[generate] fetch error:', err);
       alert('Error generating article — check console');
     } finally {
       setLoading(false);
+      setUsageRefreshKey((key) => key + 1);
     }
   };
 
@@ -798,7 +984,7 @@ export default function GeneratePage() {
       const response = await fetch('/api/headlines', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(buildResult.payload),
+        body: JSON.stringify({ ...buildResult.payload, ...(userId && { userId }) }),
       });
       const contentType = response.headers.get('content-type') ?? '';
       let data: any = null;
@@ -1034,6 +1220,12 @@ export default function GeneratePage() {
       <div className="w-full px-6 py-4 flex justify-between items-center bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
         <h1 className="text-xl font-semibold">Generate New Article</h1>
         <div className="flex space-x-2">
+          <button
+            onClick={() => router.push('/articles')}
+            className="text-sm border border-gray-400 dark:border-gray-600 px-3 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Article Library
+          </button>
           <button
             onClick={toggleTheme}
             className="text-sm border border-gray-400 dark:border-gray-600 px-3 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -1080,21 +1272,19 @@ export default function GeneratePage() {
         {activeTab === 'writing' ? (
           <div className="space-y-6 bg-white dark:bg-gray-800 shadow-md rounded-lg p-6">
           {/* TITLE */}
-          {articleType !== 'Recipe article' && (
-            <div>
-              <label className={labelStyle} htmlFor="generate-title">
-                Title
-              </label>
-              <input
-                type="text"
-                className={inputStyle}
-                placeholder="Enter article title"
-                value={title}
-                id="generate-title"
-                onChange={(e) => setTitle(e.target.value)}
-              />
-            </div>
-          )}
+          <div>
+            <label className={labelStyle} htmlFor="generate-title">
+              Title
+            </label>
+            <input
+              type="text"
+              className={inputStyle}
+              placeholder={articleType === 'Recipe article' ? 'e.g., Classic Chicken Parmesan' : 'Enter article title'}
+              value={title}
+              id="generate-title"
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
 
           {/* ARTICLE TYPE */}
           <div>
@@ -1122,18 +1312,16 @@ export default function GeneratePage() {
           </div>
 
           {/* CUSTOM INSTRUCTIONS */}
-          {articleType !== 'Recipe article' && (
-            <div>
-              <label className={labelStyle}>Custom Instructions (optional)</label>
-              <textarea
-                className={inputStyle}
-                rows={3}
-                placeholder="Any additional guidance for the article"
-                value={customInstructions}
-                onChange={(e) => setCustomInstructions(e.target.value)}
-              />
-            </div>
-          )}
+          <div>
+            <label className={labelStyle}>Custom Instructions (optional)</label>
+            <textarea
+              className={inputStyle}
+              rows={3}
+              placeholder="Any additional guidance for the article"
+              value={customInstructions}
+              onChange={(e) => setCustomInstructions(e.target.value)}
+            />
+          </div>
 
           {/* NUMBERING FORMAT */}
           {isListicleMode && (
@@ -1167,15 +1355,35 @@ export default function GeneratePage() {
               </div>
             </div>
           ) : articleType === 'Recipe article' ? (
-            <div>
-              <label className={labelStyle}>Recipe Query</label>
-              <input
-                type="text"
-                className={inputStyle}
-                placeholder="e.g., '12 italian dinners you don't wanna miss'"
-                value={recipeQuery}
-                onChange={(e) => setRecipeQuery(e.target.value)}
-              />
+            <div className="flex items-end gap-4">
+              <div>
+                <label className={labelStyle} htmlFor="generate-servings">
+                  Servings
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  id="generate-servings"
+                  className={inputStyle + ' w-24'}
+                  value={servings}
+                  onChange={(e) => setServings(Number(e.target.value))}
+                />
+              </div>
+              <div className="flex-1">
+                <label className={labelStyle} htmlFor="generate-unit-system">
+                  Units
+                </label>
+                <select
+                  id="generate-unit-system"
+                  className={inputStyle}
+                  value={unitSystem}
+                  onChange={(e) => setUnitSystem(e.target.value as 'metric' | 'imperial')}
+                >
+                  <option value="imperial">US (cups, ounces, °F)</option>
+                  <option value="metric">Metric (grams, millilitres, °C)</option>
+                </select>
+              </div>
             </div>
           ) : (
             <div>
@@ -1221,9 +1429,8 @@ export default function GeneratePage() {
           )}
 
           {/* TONE OF VOICE */}
-          {articleType !== 'Recipe article' && (
-            <div>
-              <label className={labelStyle}>Tone of Voice</label>
+          <div>
+            <label className={labelStyle}>Tone of Voice</label>
             <select
               className={clsx(inputStyle, 'mb-2')}
               value={toneOfVoice}
@@ -1249,8 +1456,7 @@ export default function GeneratePage() {
                 onChange={(e) => setCustomTone(e.target.value)}
               />
             )}
-            </div>
-          )}
+          </div>
 
           {/* POINT OF VIEW */}
           {articleType !== 'Recipe article' && (
@@ -1294,12 +1500,40 @@ export default function GeneratePage() {
                   Include links in article
                 </label>
               </div>
+              {supportsFaq && (
+                <div className="flex items-center">
+                  <input
+                    id="include-faq"
+                    type="checkbox"
+                    checked={includeFaq}
+                    onChange={(e) => setIncludeFaq(e.target.checked)}
+                    className="mr-2 h-4 w-4"
+                  />
+                  <label htmlFor="include-faq" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Add FAQ from &quot;People also ask&quot;
+                  </label>
+                </div>
+              )}
             </>
           )}
-          {/* ─── MODEL VERSION ─────────────────────────────────────────────────────── */}
           {articleType !== 'Recipe article' && (
-            <div>
-              <label className={labelStyle}>Model Version</label>
+            <SourceDocumentsInput
+              documents={sourceDocuments}
+              mode={sourceMode}
+              onChange={setSourceDocuments}
+              onModeChange={setSourceMode}
+            />
+          )}
+          {articleType !== 'Recipe article' && (
+            <InternalLinkAccountSelect
+              userId={userId}
+              value={internalLinkAccountId}
+              onChange={setInternalLinkAccountId}
+            />
+          )}
+          {/* ─── MODEL VERSION ─────────────────────────────────────────────────────── */}
+          <div>
+            <label className={labelStyle}>Model Version</label>
             <div className="flex space-x-2">
               {models.map((m) => (
                 <button
@@ -1316,24 +1550,96 @@ export default function GeneratePage() {
                 </button>
               ))}
             </div>
-            </div>
-          )}
+          </div>
 
           {/* GENERATE BUTTON */}
           <div className="pt-4">
             <button
-              onClick={articleType === 'Recipe article' ? handleRecipeGenerate : handleGenerate}
+              onClick={handleGenerate}
               disabled={loading}
               className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded shadow"
             >
               {loading ? 'Generating…' : 'Generate & Edit'}
             </button>
+            <button
+              onClick={handleQueueGenerate}
+              disabled={queueing || !userId}
+              className="mt-2 w-full border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-gray-700 font-medium py-2 px-4 rounded"
+            >
+              {queueing ? 'Queueing…' : 'Queue in background'}
+            </button>
             {generateError && (
               <p className="mt-2 text-sm text-red-600 dark:text-red-400">
                 {generateError}
               </p>
             )}
+            {loading && generationProgress && (
+              <div className="mt-4 space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-4 text-sm">
+                <ul className="space-y-1">
+                  {generationProgress.stages.length === 0 && (
+                    <li className="text-gray-500 dark:text-gray-400">Starting…</li>
+                  )}
+                  {generationProgress.stages.map((entry, index) => (
+                    <li
+                      key={`${entry.stage}-${index}`}
+                      className="flex items-center justify-between text-gray-700 dark:text-gray-300"
+                    >
+                      <span>
+                        {entry.status === 'completed'
+                          ? '✓'
+                          : entry.status === 'failed'
+                            ? '✗'
+                            : '…'}{' '}
+                        {GENERATION_STAGE_LABELS[entry.stage] ?? entry.stage}
+                      </span>
+                      {typeof entry.elapsedMs === 'number' && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {(entry.elapsedMs / 1000).toFixed(1)}s
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {generationProgress.sources.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {generationProgress.sources.length} sources found
+                  </p>
+                )}
+                {generationProgress.outline && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 dark:text-gray-100">Outline</h3>
+                    <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap text-xs text-gray-700 dark:text-gray-300">
+                      {generationProgress.outline}
+                    </pre>
+                  </div>
+                )}
+                {generationProgress.draft && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 dark:text-gray-100">Draft</h3>
+                    <div
+                      className="max-h-64 overflow-y-auto space-y-2 text-gray-700 dark:text-gray-300"
+                      dangerouslySetInnerHTML={{ __html: generationProgress.draft }}
+                    />
+                  </div>
+                )}
+                {generationProgress.discrepancies.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                      Verification flagged
+                    </h3>
+                    <ul className="list-disc pl-5 text-xs text-amber-700 dark:text-amber-400">
+                      {generationProgress.discrepancies.map((issue, index) => (
+                        <li key={index}>{issue}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
+
+          <GenerationJobsPanel userId={userId} refreshKey={jobsRefreshKey} />
+          <UsageSummaryPanel userId={userId} refreshKey={usageRefreshKey} />
           </div>
         ) : (
             <div className="space-y-6 bg-white dark:bg-gray-800 shadow-md rounded-lg p-6">
@@ -1634,6 +1940,54 @@ export default function GeneratePage() {
                         {copyFeedback.message}
                       </p>
                     )}
+                    <div className="flex flex-col gap-3 rounded-md border border-gray-200 p-3 dark:border-gray-700 sm:flex-row sm:items-center sm:justify-between">
+                      <p className="text-sm text-gray-700 dark:text-gray-300">
+                        {selectedHeadlineKeys.size > 0
+                          ? `${selectedHeadlineKeys.size} selected. Articles use the tone, length and model from the Writing tab.`
+                          : 'Select headlines to generate them as a batch.'}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <select
+                          value={batchArticleType}
+                          onChange={(event) =>
+                            setBatchArticleType(
+                              event.target.value as 'News article' | 'Blog post'
+                            )
+                          }
+                          className="block rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 shadow-sm dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100"
+                          aria-label="Batch article type"
+                        >
+                          <option value="News article">News article</option>
+                          <option value="Blog post">Blog post</option>
+                        </select>
+                        <button
+                          type="button"
+                          onClick={handleGenerateBatch}
+                          disabled={
+                            batchSubmitting ||
+                            !userId ||
+                            selectedHeadlineKeys.size === 0
+                          }
+                          className="inline-flex items-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          {batchSubmitting
+                            ? 'Queueing…'
+                            : `Generate ${selectedHeadlineKeys.size || ''} articles`}
+                        </button>
+                      </div>
+                    </div>
+                    {batchError && (
+                      <p className="text-sm text-red-500 dark:text-red-400" role="alert">
+                        {batchError}
+                      </p>
+                    )}
+                    {activeBatchId && (
+                      <BatchDashboard
+                        userId={userId}
+                        batchId={activeBatchId}
+                        onClose={() => setActiveBatchId(null)}
+                      />
+                    )}
                     <div className="overflow-x-auto">
                       <table className="min-w-full table-auto divide-y divide-gray-200 dark:divide-gray-700">
                         <thead className="bg-gray-100 dark:bg-gray-800">
@@ -1642,7 +1996,15 @@ export default function GeneratePage() {
                               scope="col"
                               className="px-4 py-2 text-left text-sm font-semibold text-gray-900 dark:text-gray-100"
                             >
-                              Actions
+                              <div className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={allHeadlinesSelected}
+                                  onChange={toggleAllHeadlines}
+                                  aria-label="Select all headlines"
+                                />
+                                Actions
+                              </div>
                             </th>
                             <th
                               scope="col"
@@ -1734,16 +2096,32 @@ export default function GeneratePage() {
                                 className="odd:bg-white even:bg-gray-50 dark:odd:bg-gray-900 dark:even:bg-gray-800"
                               >
                                 <td className="px-4 py-2 align-top text-sm">
-                                  <button
-                                    type="button"
-                                    onClick={() => handleRemoveHeadline(headline, index)}
-                                    className="inline-flex items-center rounded-md border border-red-600 px-3 py-1 text-sm font-semibold text-red-600 transition hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 dark:border-red-500 dark:text-red-300 dark:hover:bg-red-900/40 dark:focus:ring-offset-gray-900"
-                                    aria-label={`Remove headline ${
-                                      headline.title || `#${index + 1}`
-                                    }`}
-                                  >
-                                    Remove
-                                  </button>
+                                  <div className="flex items-center gap-2">
+                                    <input
+                                      type="checkbox"
+                                      checked={selectedHeadlineKeys.has(
+                                        getHeadlineSelectionKey(headline, index)
+                                      )}
+                                      onChange={() =>
+                                        toggleHeadlineSelection(
+                                          getHeadlineSelectionKey(headline, index)
+                                        )
+                                      }
+                                      aria-label={`Select headline ${
+                                        headline.title || `#${index + 1}`
+                                      }`}
+                                    />
+                                    <button
+                                      type="button"
+                                      onClick={() => handleRemoveHeadline(headline, index)}
+                                      className="inline-flex items-center rounded-md border border-red-600 px-3 py-1 text-sm font-semibold text-red-600 transition hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 dark:border-red-500 dark:text-red-300 dark:hover:bg-red-900/40 dark:focus:ring-offset-gray-900"
+                                      aria-label={`Remove headline ${
+                                        headline.title || `#${index + 1}`
+                                      }`}
+                                    >
+                                      Remove
+                                    </button>
+                                  </div>
                                 </td>
                                 <td className="min-w-[14rem] align-top px-4 py-2 text-sm text-gray-900 dark:text-gray-100 sm:w-[30%]">
                                   <div className="max-h-32 overflow-y-auto pr-2">
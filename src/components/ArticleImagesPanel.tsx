@@ -0,0 +1,293 @@
+// src/components/ArticleImagesPanel.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import {
+  insertSectionImages,
+  MAX_SECTION_IMAGES,
+  mergeImageRecords,
+  renderImageFigure,
+  type ArticleImageRecord,
+  type ImageCandidate,
+  type ImageSlot,
+  type ImageSourceKind,
+} from '../lib/articleImages';
+import { MAX_ALT_TEXT_LENGTH } from '../lib/seoAuditFixes';
+
+interface Props {
+  userId: string;
+  articleId: string;
+  title: string;
+  content: string;
+  images: ArticleImageRecord[];
+  model?: string;
+  onApply: (content: string, images: ArticleImageRecord[]) => void;
+}
+
+type ProviderOption = { id: string; label: string; kind: ImageSourceKind };
+type Proposal = ImageSlot & { candidates: ImageCandidate[] };
+
+export default function ArticleImagesPanel({
+  userId,
+  articleId,
+  title,
+  content,
+  images,
+  model,
+  onApply,
+}: Props) {
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [providerId, setProviderId] = useState('');
+  const [aspectRatio, setAspectRatio] = useState('');
+  const [featured, setFeatured] = useState(true);
+  const [maxSections, setMaxSections] = useState(3);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  // Chosen candidate per slot; -1 skips the slot.
+  const [choices, setChoices] = useState<number[]>([]);
+  const [pending, setPending] = useState<'propose' | 'insert' | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/images?userId=${userId}`)
+      .then((res) => res.json())
+      .then((json) => {
+        const options: ProviderOption[] = Array.isArray(json.providers) ? json.providers : [];
+        setProviders(options);
+        setProviderId((current) => current || options[0]?.id || '');
+        setAspectRatio(json.aspectRatio ?? '');
+      })
+      .catch((err) => console.error('[images] failed to load image providers', err));
+  }, [userId]);
+
+  const propose = async () => {
+    setPending('propose');
+    setNotice(null);
+    setError(null);
+    try {
+      const res = await fetch('/api/images', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, articleId, title, html: content, providerId, featured, maxSections, model }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to propose images');
+        return;
+      }
+      const slots: Proposal[] = Array.isArray(json.slots) ? json.slots : [];
+      setProposals(slots);
+      setChoices(slots.map((slot) => (slot.candidates.length ? 0 : -1)));
+      if (json.aspectRatio) setAspectRatio(json.aspectRatio);
+      const warnings: string[] = Array.isArray(json.warnings) ? json.warnings : [];
+      setNotice(
+        [slots.length ? '' : 'Every section already has an image.', ...warnings].filter(Boolean).join(' ') ||
+          null
+      );
+    } catch (err) {
+      console.error('[images] failed to propose images', err);
+      setError('Failed to propose images');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  // Crops the chosen candidates on the server, then puts section images under
+  // their headings and keeps the featured image with the article's records.
+  const insert = async () => {
+    const chosen = proposals
+      .map((slot, index) => ({ slot, candidate: slot.candidates[choices[index]] }))
+      .filter((choice) => choice.candidate);
+    if (!chosen.length) return;
+    setPending('insert');
+    setNotice(null);
+    setError(null);
+    try {
+      const res = await fetch('/api/images/crop', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, candidates: chosen.map((choice) => choice.candidate) }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to prepare images');
+        return;
+      }
+      const addedAt = new Date().toISOString();
+      const records: ArticleImageRecord[] = [];
+      const placements: Array<{ heading: string; figure: string }> = [];
+      chosen.forEach(({ slot, candidate }, index) => {
+        const cropped = json.images?.[index];
+        if (!cropped?.src) return;
+        const record: ArticleImageRecord = {
+          slot: slot.kind,
+          heading: slot.heading,
+          kind: candidate.kind,
+          // A stock photo's own description beats the planned one.
+          alt: ((candidate.kind === 'stock' && candidate.alt) || slot.alt).slice(0, MAX_ALT_TEXT_LENGTH),
+          caption: slot.caption,
+          credit: candidate.credit,
+          license: candidate.license,
+          width: cropped.width,
+          height: cropped.height,
+          addedAt,
+          ...(slot.kind === 'featured' && { src: cropped.src }),
+        };
+        records.push(record);
+        if (slot.kind === 'section') {
+          placements.push({ heading: slot.heading, figure: renderImageFigure(cropped.src, record) });
+        }
+      });
+      onApply(insertSectionImages(content, placements), mergeImageRecords(images, records));
+      setProposals([]);
+      setChoices([]);
+      const warnings: string[] = Array.isArray(json.warnings) ? json.warnings : [];
+      setNotice(
+        [`Added ${records.length} ${records.length === 1 ? 'image' : 'images'}.`, ...warnings].join(' ')
+      );
+    } catch (err) {
+      console.error('[images] failed to insert images', err);
+      setError('Failed to insert images');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const featuredImage = images.find((record) => record.slot === 'featured');
+
+  return (
+    <div className="space-y-3 rounded border border-gray-300 p-4 dark:border-gray-600">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Images</h2>
+      {providers.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No image provider is configured. Set UNSPLASH_ACCESS_KEY, PEXELS_API_KEY or OPENAI_API_KEY.
+        </p>
+      ) : (
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="flex flex-col gap-1">
+            Source
+            <select
+              value={providerId}
+              onChange={(e) => setProviderId(e.target.value)}
+              disabled={pending !== null}
+              className="rounded-md border border-gray-300 bg-white px-3 py-2 text-black dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+            >
+              {providers.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.label} ({provider.kind === 'stock' ? 'stock photos' : 'generated'})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Section images
+            <input
+              type="number"
+              min={0}
+              max={MAX_SECTION_IMAGES}
+              value={maxSections}
+              onChange={(e) => setMaxSections(Number(e.target.value))}
+              disabled={pending !== null}
+              className="w-24 rounded-md border border-gray-300 bg-white px-3 py-2 text-black dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+            />
+          </label>
+          <label className="flex items-center gap-2 py-2">
+            <input type="checkbox" checked={featured} onChange={(e) => setFeatured(e.target.checked)} />
+            Featured image
+          </label>
+          <button
+            onClick={propose}
+            disabled={pending !== null || !providerId || !content.trim()}
+            className="rounded border border-gray-400 px-3 py-2 hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:hover:bg-gray-700"
+          >
+            {pending === 'propose' ? 'Finding images…' : 'Propose images'}
+          </button>
+          {aspectRatio && (
+            <span className="py-2 text-gray-500 dark:text-gray-400">Cropped to {aspectRatio}</span>
+          )}
+        </div>
+      )}
+
+      {proposals.length > 0 && (
+        <div className="space-y-3">
+          {proposals.map((slot, slotIndex) => (
+            <div key={`${slot.kind}-${slot.heading}`} className="space-y-1 text-sm">
+              <p className="font-semibold">
+                {slot.kind === 'featured' ? 'Featured image' : slot.heading}
+                <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{slot.caption}</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {slot.candidates.map((candidate, index) => (
+                  <button
+                    key={candidate.id}
+                    type="button"
+                    onClick={() =>
+                      setChoices((current) => current.map((choice, i) => (i === slotIndex ? index : choice)))
+                    }
+                    title={candidate.credit.author ? `${candidate.credit.author} (${candidate.credit.provider})` : candidate.credit.provider}
+                    className={clsx(
+                      'rounded border-2',
+                      choices[slotIndex] === index ? 'border-blue-600' : 'border-transparent'
+                    )}
+                  >
+                    <img src={candidate.previewUrl} alt={candidate.alt} className="h-20 w-32 object-cover" />
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setChoices((current) => current.map((choice, i) => (i === slotIndex ? -1 : choice)))
+                  }
+                  className={clsx(
+                    'h-20 w-32 rounded border-2 text-gray-500',
+                    choices[slotIndex] === -1 ? 'border-blue-600' : 'border-gray-300 dark:border-gray-600'
+                  )}
+                >
+                  No image
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={insert}
+            disabled={pending !== null || choices.every((choice) => choice < 0)}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded disabled:opacity-50"
+          >
+            {pending === 'insert' ? 'Cropping…' : 'Insert selected images'}
+          </button>
+        </div>
+      )}
+
+      {images.length > 0 && (
+        <div className="space-y-1 text-sm text-gray-600 dark:text-gray-300">
+          <h3 className="font-semibold">Image credits and licenses</h3>
+          {featuredImage?.src && (
+            <img src={featuredImage.src} alt={featuredImage.alt} className="h-24 rounded object-cover" />
+          )}
+          <ul className="list-disc list-inside space-y-1">
+            {images.map((record) => (
+              <li key={`${record.slot}-${record.heading}`}>
+                {record.slot === 'featured' ? 'Featured image' : record.heading}:{' '}
+                {record.kind === 'generated'
+                  ? `generated with ${record.credit.provider}`
+                  : `${record.credit.author ? `${record.credit.author} on ` : ''}${record.credit.provider}`}
+                {' — '}
+                {record.license.url ? (
+                  <a href={record.license.url} className="text-blue-600 underline" target="_blank" rel="noopener noreferrer">
+                    {record.license.name}
+                  </a>
+                ) : (
+                  record.license.name
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {notice && <p className="text-sm text-amber-600 dark:text-amber-400">{notice}</p>}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+// src/components/ArticleVersionHistory.tsx
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { ArticleVersion, ArticleVersionSource } from '../lib/articleVersions';
+import { diffHtml, renderHtmlDiff, summarizeHtmlDiff } from '../utils/htmlDiff';
+
+interface Props {
+  userId: string;
+  articleId: string;
+  currentContent: string;
+  refreshKey?: number;
+  onRestore: (version: ArticleVersion) => void;
+}
+
+const SOURCE_LABELS: Record<ArticleVersionSource, string> = {
+  generation: 'Generated',
+  regeneration: 'Regenerated',
+  verification: 'Verification fix',
+  manual: 'Saved',
+  restore: 'Restored',
+};
+
+const DIFF_PANE_CLASSES =
+  'max-h-[32rem] overflow-y-auto space-y-2 rounded border border-gray-200 p-3 text-sm ' +
+  'text-gray-700 dark:border-gray-700 dark:text-gray-300 ' +
+  '[&_del]:bg-red-100 [&_del]:text-red-800 dark:[&_del]:bg-red-900/40 dark:[&_del]:text-red-200 ' +
+  '[&_ins]:bg-green-100 [&_ins]:text-green-800 [&_ins]:no-underline dark:[&_ins]:bg-green-900/40 dark:[&_ins]:text-green-200';
+
+export default function ArticleVersionHistory({
+  userId,
+  articleId,
+  currentContent,
+  refreshKey = 0,
+  onRestore,
+}: Props) {
+  const [versions, setVersions] = useState<ArticleVersion[]>([]);
+  const [selected, setSelected] = useState<ArticleVersion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    if (!userId || !articleId) return;
+    try {
+      const res = await fetch(`/api/articles/${articleId}/versions?userId=${userId}`);
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to load version history');
+        return;
+      }
+      setVersions(Array.isArray(json.versions) ? json.versions : []);
+      setError(null);
+    } catch (err) {
+      console.error('[versions] failed to load versions', err);
+      setError('Failed to load version history');
+    }
+  }, [userId, articleId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, refreshKey]);
+
+  const diff = useMemo(() => {
+    if (!selected) return null;
+    const parts = diffHtml(selected.content, currentContent);
+    return { ...renderHtmlDiff(parts), stats: summarizeHtmlDiff(parts) };
+  }, [selected, currentContent]);
+
+  const handleRestore = async (version: ArticleVersion) => {
+    setRestoring(true);
+    try {
+      const res = await fetch(`/api/articles/${articleId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, restoreVersion: version.version }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to restore version');
+        return;
+      }
+      onRestore(json.version);
+      setSelected(null);
+      await loadVersions();
+    } catch (err) {
+      console.error('[versions] failed to restore version', err);
+      setError('Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[16rem_1fr]">
+      <aside className="space-y-2">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Version history
+        </h2>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {versions.length === 0 && !error && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No saved versions yet.</p>
+        )}
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          {versions.map((version) => (
+            <li key={version.id}>
+              <button
+                onClick={() => setSelected(selected?.id === version.id ? null : version)}
+                className={`w-full py-2 text-left ${
+                  selected?.id === version.id ? 'font-semibold text-blue-600 dark:text-blue-400' : ''
+                }`}
+              >
+                v{version.version} · {SOURCE_LABELS[version.source] ?? version.source}
+                {version.restoredFrom ? ` from v${version.restoredFrom}` : ''}
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(version.createdAt).toLocaleString()}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </aside>
+
+      {selected && diff && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              v{selected.version} compared with the editor: +{diff.stats.insertedWords} / −
+              {diff.stats.deletedWords} words
+            </p>
+            <button
+              onClick={() => handleRestore(selected)}
+              disabled={restoring}
+              className="rounded bg-blue-600 px-3 py-1 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {restoring ? 'Restoring…' : `Restore v${selected.version}`}
+            </button>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <h3 className="mb-1 text-sm font-semibold">v{selected.version}</h3>
+              <div
+                className={DIFF_PANE_CLASSES}
+                dangerouslySetInnerHTML={{ __html: diff.before }}
+              />
+            </div>
+            <div>
+              <h3 className="mb-1 text-sm font-semibold">Current</h3>
+              <div
+                className={DIFF_PANE_CLASSES}
+                dangerouslySetInnerHTML={{ __html: diff.after }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
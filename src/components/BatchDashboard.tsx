@@ -0,0 +1,163 @@
+// src/components/BatchDashboard.tsx
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  JOB_STATUS_STYLES,
+  storeGenerationJobForEditor,
+  type GenerationJob,
+} from './GenerationJobsPanel';
+import { summarizeBatchJobs } from '../app/generate/batchHelpers';
+
+interface Props {
+  userId: string;
+  batchId: string;
+  onClose?: () => void;
+}
+
+const POLL_INTERVAL_MS = 4000;
+
+export default function BatchDashboard({ userId, batchId, onClose }: Props) {
+  const router = useRouter();
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState<Set<string>>(new Set());
+
+  const loadJobs = useCallback(async () => {
+    if (!userId || !batchId) return;
+    try {
+      const res = await fetch(
+        `/api/generate/jobs?userId=${userId}&batchId=${batchId}`
+      );
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to load batch');
+        return;
+      }
+      setJobs(Array.isArray(json.jobs) ? json.jobs : []);
+      setError(null);
+    } catch (err) {
+      console.error('[batch] failed to load batch', err);
+      setError('Failed to load batch');
+    }
+  }, [userId, batchId]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const summary = summarizeBatchJobs(jobs);
+
+  useEffect(() => {
+    if (summary.isComplete) return;
+    const timer = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [summary.isComplete, loadJobs]);
+
+  const retryJobs = async (jobIds: string[]) => {
+    setRetrying((previous) => new Set([...previous, ...jobIds]));
+    try {
+      const results = await Promise.all(
+        jobIds.map((id) =>
+          fetch(`/api/generate/jobs/${id}/retry`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ userId }),
+          })
+        )
+      );
+      if (results.some((res) => !res.ok)) {
+        setError('Some articles could not be retried');
+      }
+      await loadJobs();
+    } catch (err) {
+      console.error('[batch] retry failed', err);
+      setError('Retry failed');
+    } finally {
+      setRetrying((previous) => {
+        const next = new Set(previous);
+        jobIds.forEach((id) => next.delete(id));
+        return next;
+      });
+    }
+  };
+
+  const failedIds = jobs.filter((job) => job.status === 'failed').map((job) => job.id);
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+            Batch progress
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {summary.succeeded} of {summary.total} done
+            {summary.running > 0 && ` · ${summary.running} running`}
+            {summary.queued > 0 && ` · ${summary.queued} queued`}
+            {summary.failed > 0 && ` · ${summary.failed} failed`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {failedIds.length > 0 && (
+            <button
+              type="button"
+              onClick={() => retryJobs(failedIds)}
+              className="rounded-md border border-blue-600 px-3 py-1 text-sm font-semibold text-blue-600 hover:bg-blue-50 dark:border-blue-500 dark:text-blue-300 dark:hover:bg-blue-900/40"
+            >
+              Retry failed
+            </button>
+          )}
+          {onClose && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-md border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        {jobs.map((job) => (
+          <li key={job.id} className="flex items-center justify-between gap-4 py-2">
+            <div className="min-w-0">
+              <p className="truncate font-medium text-gray-900 dark:text-gray-100">
+                {job.title || 'Untitled article'}
+              </p>
+              <p className={JOB_STATUS_STYLES[job.status]}>
+                {job.status}
+                {job.status === 'running' && job.stage ? ` · ${job.stage}` : ''}
+                {job.status === 'failed' && job.error ? ` · ${job.error}` : ''}
+              </p>
+            </div>
+            <div className="flex shrink-0 gap-2">
+              {job.status === 'failed' && (
+                <button
+                  type="button"
+                  onClick={() => retryJobs([job.id])}
+                  disabled={retrying.has(job.id)}
+                  className="rounded border border-blue-600 px-3 py-1 text-blue-600 hover:bg-blue-50 dark:text-blue-300 dark:hover:bg-blue-900/40"
+                >
+                  {retrying.has(job.id) ? 'Retrying…' : 'Retry'}
+                </button>
+              )}
+              {job.status === 'succeeded' && job.content && (
+                <button
+                  type="button"
+                  onClick={() => router.push(storeGenerationJobForEditor(job))}
+                  className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700"
+                >
+                  Open in editor
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
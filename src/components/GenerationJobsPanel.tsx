@@ -0,0 +1,129 @@
+// src/components/GenerationJobsPanel.tsx
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+export type GenerationJob = {
+  id: string;
+  batchId: string | null;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  stage: string | null;
+  title: string;
+  payload: Record<string, unknown>;
+  content: string | null;
+  sources: string[];
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface Props {
+  userId: string;
+  refreshKey?: number;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+export const JOB_STATUS_STYLES: Record<GenerationJob['status'], string> = {
+  queued: 'text-gray-600 dark:text-gray-300',
+  running: 'text-blue-600 dark:text-blue-400',
+  succeeded: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+};
+
+// Hands a finished job to the editor, which reads the last article from
+// localStorage, and returns the editor URL to navigate to.
+export function storeGenerationJobForEditor(job: GenerationJob): string {
+  const articleId = job.id;
+  try {
+    localStorage.setItem('lastArticleId', articleId);
+    localStorage.setItem('lastArticleContent', job.content ?? '');
+    localStorage.setItem('lastArticleSources', JSON.stringify(job.sources || []));
+    localStorage.setItem('lastPrompt', JSON.stringify(job.payload));
+    localStorage.removeItem('lastArticleVerification');
+    localStorage.removeItem('lastArticleSeo');
+    localStorage.removeItem('lastArticleRecipe');
+    localStorage.removeItem('lastArticleImages');
+  } catch {}
+  return `/editor?title=${encodeURIComponent(job.title)}&id=${articleId}`;
+}
+
+export default function GenerationJobsPanel({ userId, refreshKey = 0 }: Props) {
+  const router = useRouter();
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const res = await fetch(`/api/generate/jobs?userId=${userId}`);
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to load queued articles');
+        return;
+      }
+      setJobs(Array.isArray(json.jobs) ? json.jobs : []);
+      setError(null);
+    } catch (err) {
+      console.error('[jobs] failed to load jobs', err);
+      setError('Failed to load queued articles');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs, refreshKey]);
+
+  const hasActiveJobs = jobs.some(
+    (job) => job.status === 'queued' || job.status === 'running'
+  );
+
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, loadJobs]);
+
+  const openInEditor = (job: GenerationJob) => {
+    if (!job.content) return;
+    router.push(storeGenerationJobForEditor(job));
+  };
+
+  if (!userId || (jobs.length === 0 && !error)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+        Queued articles
+      </h2>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        {jobs.map((job) => (
+          <li key={job.id} className="flex items-center justify-between gap-4 py-2">
+            <div className="min-w-0">
+              <p className="truncate font-medium text-gray-900 dark:text-gray-100">
+                {job.title || 'Untitled article'}
+              </p>
+              <p className={JOB_STATUS_STYLES[job.status]}>
+                {job.status}
+                {job.status === 'running' && job.stage ? ` · ${job.stage}` : ''}
+                {job.status === 'failed' && job.error ? ` · ${job.error}` : ''}
+              </p>
+            </div>
+            {job.status === 'succeeded' && job.content && (
+              <button
+                onClick={() => openInEditor(job)}
+                className="shrink-0 rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700"
+              >
+                Open in editor
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
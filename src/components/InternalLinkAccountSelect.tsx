@@ -0,0 +1,56 @@
+// src/components/InternalLinkAccountSelect.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+type Account = { id: string; site_url: string };
+
+interface Props {
+  userId: string;
+  value: string;
+  onChange: (accountId: string) => void;
+}
+
+export default function InternalLinkAccountSelect({ userId, value, onChange }: Props) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    fetch(`/api/wordpress/accounts?userId=${userId}`)
+      .then((res) => res.json())
+      .then((json) => {
+        if (!cancelled && Array.isArray(json.accounts)) setAccounts(json.accounts);
+      })
+      .catch((err) => console.error('[internal-links] failed to load accounts', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  if (!accounts.length) return null;
+
+  return (
+    <div className="space-y-1">
+      <label
+        htmlFor="internal-link-account"
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        Internal links
+      </label>
+      <select
+        id="internal-link-account"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full rounded border border-gray-300 p-2 text-sm dark:border-gray-600 dark:bg-gray-800"
+      >
+        <option value="">Don&apos;t add internal links</option>
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            Link to related posts on {account.site_url}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
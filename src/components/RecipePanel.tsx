@@ -0,0 +1,95 @@
+// src/components/RecipePanel.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  convertRecipe,
+  findUnusedIngredients,
+  MAX_SERVINGS,
+  renderRecipeHtml,
+  scaleRecipe,
+  type Recipe,
+  type UnitSystem,
+} from '../lib/recipes';
+
+interface Props {
+  recipe: Recipe;
+  content: string;
+  onApply: (recipe: Recipe, content: string) => void;
+}
+
+// TinyMCE reformats markup, so edits are detected on the visible text only.
+function visibleText(html: string): string {
+  return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export default function RecipePanel({ recipe, content, onApply }: Props) {
+  const [servings, setServings] = useState(recipe.servings);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(recipe.unitSystem);
+
+  useEffect(() => {
+    setServings(recipe.servings);
+    setUnitSystem(recipe.unitSystem);
+  }, [recipe]);
+
+  const unused = findUnusedIngredients(recipe);
+  const unchanged = servings === recipe.servings && unitSystem === recipe.unitSystem;
+  const validServings = Number.isInteger(servings) && servings >= 1 && servings <= MAX_SERVINGS;
+
+  // Re-rendering replaces the article body, so manual edits need a confirm.
+  const apply = () => {
+    const edited = visibleText(content) !== visibleText(renderRecipeHtml(recipe));
+    if (edited && !confirm('This replaces the article with the re-rendered recipe and drops your manual edits. Continue?')) {
+      return;
+    }
+    const next = convertRecipe(scaleRecipe(recipe, servings), unitSystem);
+    onApply(next, renderRecipeHtml(next));
+  };
+
+  return (
+    <div className="space-y-3 rounded border border-gray-300 p-4 dark:border-gray-600">
+      <h2 className="text-xl font-bold">Recipe</h2>
+      <div className="flex flex-wrap items-end gap-4 text-sm">
+        <label className="flex flex-col gap-1">
+          Servings
+          <input
+            type="number"
+            min={1}
+            max={MAX_SERVINGS}
+            value={servings}
+            onChange={(e) => setServings(Number(e.target.value))}
+            className="w-24 rounded border border-gray-300 p-1 dark:border-gray-600 dark:bg-gray-800"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Units
+          <select
+            value={unitSystem}
+            onChange={(e) => setUnitSystem(e.target.value as UnitSystem)}
+            className="rounded border border-gray-300 p-1 dark:border-gray-600 dark:bg-gray-800"
+          >
+            <option value="imperial">US (cups, ounces, °F)</option>
+            <option value="metric">Metric (grams, millilitres, °C)</option>
+          </select>
+        </label>
+        <button
+          onClick={apply}
+          disabled={unchanged || !validServings}
+          className="rounded border border-gray-400 px-3 py-1 hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:hover:bg-gray-700"
+        >
+          Update recipe
+        </button>
+      </div>
+      {unused.length > 0 && (
+        <div className="text-sm text-amber-600 dark:text-amber-400">
+          <p>These ingredients are not used in any step:</p>
+          <ul className="list-disc list-inside">
+            {unused.map((ingredient) => (
+              <li key={ingredient.name}>{ingredient.name}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// src/components/SectionRewriter.tsx
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { analyzeArticleStructure, type SectionAction } from '../lib/articleStructure';
+
+interface Props {
+  userId: string;
+  articleId: string;
+  title: string;
+  content: string;
+  model?: string;
+  onApply: (content: string, addedSources: string[]) => void;
+}
+
+const ACTION_LABELS: Record<SectionAction, string> = {
+  regenerate: 'Regenerate',
+  expand: 'Expand',
+  shorten: 'Shorten',
+  resource: 'Re-source',
+};
+
+export default function SectionRewriter({
+  userId,
+  articleId,
+  title,
+  content,
+  model,
+  onApply,
+}: Props) {
+  const sections = useMemo(() => analyzeArticleStructure(content).sections, [content]);
+  const [heading, setHeading] = useState('');
+  const [pendingAction, setPendingAction] = useState<SectionAction | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the selection valid while the article is edited.
+  useEffect(() => {
+    if (!sections.some((section) => section.heading === heading)) {
+      setHeading(sections[0]?.heading ?? '');
+    }
+  }, [sections, heading]);
+
+  const runAction = async (action: SectionAction) => {
+    if (!heading) return;
+    setPendingAction(action);
+    setNotice(null);
+    setError(null);
+    try {
+      const res = await fetch('/api/generate/section', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, articleId, title, content, heading, action, model }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to rewrite section');
+        return;
+      }
+      onApply(json.content, Array.isArray(json.addedSources) ? json.addedSources : []);
+      if (Array.isArray(json.droppedLinks) && json.droppedLinks.length > 0) {
+        setNotice(`The new version dropped ${json.droppedLinks.join(', ')}.`);
+      }
+    } catch (err) {
+      console.error('[section] failed to rewrite section', err);
+      setError('Failed to rewrite section');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Rewrite a section</h2>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={heading}
+          onChange={(e) => setHeading(e.target.value)}
+          disabled={pendingAction !== null}
+          className="max-w-md flex-1 rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-black dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+        >
+          {sections.map((section, index) => (
+            <option key={`${index}-${section.heading}`} value={section.heading}>
+              {section.heading || 'Untitled section'} ({section.wordCount} words)
+            </option>
+          ))}
+        </select>
+        {(Object.keys(ACTION_LABELS) as SectionAction[]).map((action) => (
+          <button
+            key={action}
+            onClick={() => runAction(action)}
+            disabled={pendingAction !== null}
+            className="rounded border border-gray-400 px-3 py-2 text-sm hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:hover:bg-gray-700"
+          >
+            {pendingAction === action ? 'Working…' : ACTION_LABELS[action]}
+          </button>
+        ))}
+      </div>
+      {notice && <p className="text-sm text-amber-600 dark:text-amber-400">{notice}</p>}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+// src/components/SeoAuditPanel.tsx
+'use client';
+
+import React, { useState } from 'react';
+import type { AuditCheckId, AuditStatus, SeoAudit } from '../lib/seoAudit';
+
+interface Props {
+  userId: string;
+  articleId: string;
+  title: string;
+  content: string;
+  focusKeyphrase: string;
+  model?: string;
+  onApply: (content: string, title: string) => void;
+}
+
+const STATUS_STYLES: Record<AuditStatus, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-green-600 dark:text-green-400' },
+  warning: { icon: '!', className: 'text-amber-600 dark:text-amber-400' },
+  fail: { icon: '✗', className: 'text-red-600 dark:text-red-400' },
+};
+
+export default function SeoAuditPanel({
+  userId,
+  articleId,
+  title,
+  content,
+  focusKeyphrase,
+  model,
+  onApply,
+}: Props) {
+  const [audit, setAudit] = useState<SeoAudit | null>(null);
+  const [auditedDraft, setAuditedDraft] = useState('');
+  const [running, setRunning] = useState(false);
+  const [fixing, setFixing] = useState<AuditCheckId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const draftKey = `${focusKeyphrase}\n${title}\n${content}`;
+
+  const runAudit = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title, content, focusKeyphrase }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to audit the draft');
+        return;
+      }
+      setAudit(json.audit);
+      setAuditedDraft(draftKey);
+    } catch (err) {
+      console.error('[audit] failed to audit the draft', err);
+      setError('Failed to audit the draft');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const runFix = async (checkId: AuditCheckId) => {
+    setFixing(checkId);
+    setError(null);
+    try {
+      const res = await fetch('/api/audit/fix', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, articleId, title, content, focusKeyphrase, checkId, model }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to apply fix');
+        return;
+      }
+      onApply(json.content, json.title);
+      setAudit(json.audit);
+      setAuditedDraft(`${focusKeyphrase}\n${json.title}\n${json.content}`);
+    } catch (err) {
+      console.error('[audit] failed to apply fix', err);
+      setError('Failed to apply fix');
+    } finally {
+      setFixing(null);
+    }
+  };
+
+  const busy = running || fixing !== null;
+
+  return (
+    <div className="space-y-3 rounded border border-gray-300 p-4 dark:border-gray-600">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-bold">
+          SEO audit{audit && <span className="ml-2 text-base font-normal text-gray-500">{audit.score}/100</span>}
+        </h2>
+        <button
+          onClick={runAudit}
+          disabled={busy || !content.trim()}
+          className="rounded border border-gray-400 px-3 py-1 text-sm hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:hover:bg-gray-700"
+        >
+          {running ? 'Auditing…' : audit ? 'Re-run audit' : 'Run audit'}
+        </button>
+      </div>
+      {audit && auditedDraft !== draftKey && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          The draft changed since this audit. Re-run it before applying fixes.
+        </p>
+      )}
+      {audit && (
+        <ul className="space-y-2 text-sm">
+          {audit.checks.map((check) => (
+            <li key={check.id} className="flex items-start gap-2">
+              <span className={`w-4 font-bold ${STATUS_STYLES[check.status].className}`}>
+                {STATUS_STYLES[check.status].icon}
+              </span>
+              <div className="flex-1">
+                <p>
+                  <span className="font-medium">{check.label}:</span> {check.message}
+                </p>
+                {check.details && (
+                  <ul className="list-disc list-inside text-gray-500 dark:text-gray-400">
+                    {check.details.map((detail, index) => (
+                      <li key={index}>{detail}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {check.fixable && (
+                <button
+                  onClick={() => runFix(check.id)}
+                  disabled={busy || auditedDraft !== draftKey}
+                  className="rounded border border-gray-400 px-2 py-1 text-xs hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:hover:bg-gray-700"
+                >
+                  {fixing === check.id ? 'Fixing…' : 'Fix'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+// src/components/SeoMetadataPanel.tsx
+'use client';
+
+import React from 'react';
+import {
+  estimateTitlePixelWidth,
+  META_DESCRIPTION_MAX_LENGTH,
+  META_DESCRIPTION_MIN_LENGTH,
+  META_TITLE_MAX_PIXELS,
+  slugify,
+  type SeoMetadata,
+} from '../lib/seoMetadata';
+
+interface Props {
+  seo: SeoMetadata | null;
+  title: string;
+  onChange: (seo: SeoMetadata) => void;
+}
+
+const INPUT_CLASSES =
+  'w-full rounded border border-gray-300 p-2 text-sm bg-white dark:border-gray-600 dark:bg-gray-800';
+
+const EMPTY_SEO: SeoMetadata = {
+  metaTitle: '',
+  metaDescription: '',
+  slug: '',
+  focusKeyphrase: '',
+  secondaryKeywords: [],
+};
+
+export default function SeoMetadataPanel({ seo, title, onChange }: Props) {
+  const current = seo ?? { ...EMPTY_SEO, metaTitle: title, slug: slugify(title) };
+  const update = (fields: Partial<SeoMetadata>) => onChange({ ...current, ...fields });
+
+  const titlePixels = estimateTitlePixelWidth(current.metaTitle);
+  const descriptionLength = current.metaDescription.length;
+  const keyphrase = current.focusKeyphrase.trim().toLowerCase();
+  const keyphraseInTitle = keyphrase && current.metaTitle.toLowerCase().includes(keyphrase);
+
+  return (
+    <div className="space-y-3 rounded border border-gray-300 p-4 dark:border-gray-600">
+      <h2 className="text-xl font-bold">SEO</h2>
+      <label className="block space-y-1 text-sm">
+        <span className="flex justify-between">
+          <span className="font-medium">Meta title</span>
+          <span className={titlePixels > META_TITLE_MAX_PIXELS ? 'text-red-600' : 'text-gray-500'}>
+            {titlePixels} / {META_TITLE_MAX_PIXELS}px
+          </span>
+        </span>
+        <input
+          value={current.metaTitle}
+          onChange={(e) => update({ metaTitle: e.target.value })}
+          className={INPUT_CLASSES}
+        />
+      </label>
+      <label className="block space-y-1 text-sm">
+        <span className="flex justify-between">
+          <span className="font-medium">Meta description</span>
+          <span
+            className={
+              descriptionLength > META_DESCRIPTION_MAX_LENGTH ||
+              descriptionLength < META_DESCRIPTION_MIN_LENGTH
+                ? 'text-amber-600'
+                : 'text-gray-500'
+            }
+          >
+            {descriptionLength} / {META_DESCRIPTION_MIN_LENGTH}–{META_DESCRIPTION_MAX_LENGTH} characters
+          </span>
+        </span>
+        <textarea
+          value={current.metaDescription}
+          onChange={(e) => update({ metaDescription: e.target.value })}
+          rows={3}
+          className={INPUT_CLASSES}
+        />
+      </label>
+      <label className="block space-y-1 text-sm">
+        <span className="font-medium">URL slug</span>
+        <input
+          value={current.slug}
+          onChange={(e) => update({ slug: e.target.value })}
+          onBlur={(e) => update({ slug: slugify(e.target.value) })}
+          className={INPUT_CLASSES}
+        />
+      </label>
+      <label className="block space-y-1 text-sm">
+        <span className="flex justify-between">
+          <span className="font-medium">Focus keyphrase</span>
+          {keyphrase && !keyphraseInTitle && (
+            <span className="text-amber-600">Not in the meta title</span>
+          )}
+        </span>
+        <input
+          value={current.focusKeyphrase}
+          onChange={(e) => update({ focusKeyphrase: e.target.value })}
+          className={INPUT_CLASSES}
+        />
+      </label>
+      <label className="block space-y-1 text-sm">
+        <span className="font-medium">Secondary keywords (comma separated)</span>
+        <input
+          value={current.secondaryKeywords.join(', ')}
+          onChange={(e) =>
+            update({
+              secondaryKeywords: e.target.value.split(',').map((keyword) => keyword.trimStart()),
+            })
+          }
+          className={INPUT_CLASSES}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// src/components/SourceDocumentsInput.tsx
+'use client';
+
+import React, { useState } from 'react';
+import {
+  MAX_SOURCE_DOCUMENTS,
+  MAX_SOURCE_DOCUMENT_LENGTH,
+  type SourceDocumentMode,
+} from '../lib/sourceDocuments';
+
+export type SourceDocument = {
+  title: string;
+  url?: string;
+  text?: string;
+  fileName?: string;
+};
+
+interface Props {
+  documents: SourceDocument[];
+  mode: SourceDocumentMode;
+  onChange: (documents: SourceDocument[]) => void;
+  onModeChange: (mode: SourceDocumentMode) => void;
+}
+
+export default function SourceDocumentsInput({ documents, mode, onChange, onModeChange }: Props) {
+  const [pasted, setPasted] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const remaining = MAX_SOURCE_DOCUMENTS - documents.length;
+
+  const handleUpload = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).slice(0, remaining);
+    if (!files.length) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      files.forEach((file) => form.append('file', file));
+      const res = await fetch('/api/sources/extract', { method: 'POST', body: form });
+      const json = await res.json();
+      if (Array.isArray(json.documents)) {
+        onChange([
+          ...documents,
+          ...json.documents.map((doc: { title: string; text: string; fileName: string }) => ({
+            title: doc.title,
+            text: doc.text,
+            fileName: doc.fileName,
+          })),
+        ]);
+      }
+      const failures = Array.isArray(json.errors) ? json.errors : [];
+      if (!res.ok || failures.length) {
+        setError(
+          failures.length
+            ? failures
+                .map((item: { fileName: string; error: string }) => `${item.fileName}: ${item.error}`)
+                .join(' ')
+            : json.error || 'Failed to read the file'
+        );
+      }
+    } catch (err) {
+      console.error('[sources] upload failed', err);
+      setError('Failed to read the file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleAddPasted = () => {
+    const value = pasted.trim();
+    if (!value || remaining <= 0) return;
+    const isUrl = /^https?:\/\/\S+$/i.test(value);
+    onChange([
+      ...documents,
+      isUrl
+        ? { title: value, url: value }
+        : {
+            title: `Pasted text ${documents.length + 1}`,
+            text: value.slice(0, MAX_SOURCE_DOCUMENT_LENGTH),
+          },
+    ]);
+    setPasted('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Source documents (optional)
+      </label>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Upload a press release, PDF or notes, or paste text or a URL. The article is grounded on
+        these first.
+      </p>
+      <input
+        type="file"
+        multiple
+        accept=".pdf,.docx,.html,.htm,.txt,.md"
+        disabled={uploading || remaining <= 0}
+        onChange={(e) => {
+          handleUpload(e.target.files);
+          e.target.value = '';
+        }}
+        className="block text-sm"
+      />
+      <div className="flex gap-2">
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          rows={3}
+          placeholder="Paste text or a URL"
+          className="flex-1 rounded border border-gray-300 p-2 text-sm dark:border-gray-600 dark:bg-gray-800"
+        />
+        <button
+          type="button"
+          onClick={handleAddPasted}
+          disabled={!pasted.trim() || remaining <= 0}
+          className="self-start rounded border border-gray-300 px-3 py-1 text-sm disabled:opacity-50 dark:border-gray-600"
+        >
+          Add
+        </button>
+      </div>
+      {uploading && <p className="text-xs text-gray-500">Reading files…</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {documents.length > 0 && (
+        <>
+          <ul className="divide-y divide-gray-200 text-sm dark:divide-gray-700">
+            {documents.map((doc, index) => (
+              <li key={index} className="flex items-center justify-between gap-2 py-1">
+                <span className="truncate">
+                  {doc.title}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {doc.text
+                      ? `${doc.text.length.toLocaleString()} characters`
+                      : 'fetched when generating'}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onChange(documents.filter((_, i) => i !== index))}
+                  className="text-xs text-red-600 underline"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={mode === 'replace'}
+              onChange={(e) => onModeChange(e.target.checked ? 'replace' : 'merge')}
+              className="h-4 w-4"
+            />
+            Use only these documents (skip web search)
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// src/components/StructuredDataPreview.tsx
+'use client';
+
+import React, { useMemo } from 'react';
+import { buildStructuredData } from '../lib/structuredData';
+import type { SeoMetadata } from '../lib/seoMetadata';
+
+interface Props {
+  articleType?: string | null;
+  title: string;
+  content: string;
+  seo: SeoMetadata | null;
+}
+
+// Shows the JSON-LD that publishing will add. The publisher and date are
+// filled in from the WordPress site at publish time.
+export default function StructuredDataPreview({ articleType, title, content, seo }: Props) {
+  const { schemas, warnings } = useMemo(
+    () => buildStructuredData({ articleType, title, html: content, seo }),
+    [articleType, title, content, seo]
+  );
+
+  return (
+    <div className="space-y-2 rounded border border-gray-300 p-4 text-sm dark:border-gray-600">
+      <h2 className="text-xl font-bold">Structured data</h2>
+      <p>
+        {schemas.length
+          ? `Publishing adds ${schemas.map((schema) => schema['@type']).join(' and ')} JSON-LD.`
+          : 'No structured data will be added.'}
+      </p>
+      {warnings.length > 0 && (
+        <ul className="list-disc list-inside text-amber-600 dark:text-amber-400">
+          {warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+      {schemas.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-gray-600 dark:text-gray-300">Show JSON-LD</summary>
+          <pre className="mt-2 max-h-80 overflow-auto rounded bg-gray-100 p-2 text-xs dark:bg-gray-800">
+            {JSON.stringify(schemas, null, 2)}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// src/components/UsageSummaryPanel.tsx
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ArticleUsage, UsageBreakdown, UsageTotals } from '../lib/usage';
+
+type UsageResponse = {
+  since: string;
+  totals: UsageTotals;
+  byStage: UsageBreakdown[];
+  articles: ArticleUsage[];
+};
+
+interface Props {
+  userId: string;
+  refreshKey?: number;
+  days?: number;
+}
+
+const MAX_ARTICLE_ROWS = 10;
+
+function formatUsd(value: number): string {
+  return value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(totals: UsageTotals): string {
+  return (totals.promptTokens + totals.completionTokens).toLocaleString();
+}
+
+export default function UsageSummaryPanel({ userId, refreshKey = 0, days = 30 }: Props) {
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const res = await fetch(`/api/usage?userId=${userId}&days=${days}`);
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error || 'Failed to load usage');
+        return;
+      }
+      setUsage(json);
+      setError(null);
+    } catch (err) {
+      console.error('[usage] failed to load usage', err);
+      setError('Failed to load usage');
+    }
+  }, [userId, days]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage, refreshKey]);
+
+  if (!userId || (!usage && !error)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+        Usage (last {days} days)
+      </h2>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {usage && (
+        <>
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {formatUsd(usage.totals.costUsd)} estimated · {formatTokens(usage.totals)} tokens ·{' '}
+            {usage.totals.llmRequests} model calls · {usage.totals.searches} searches
+          </p>
+          {usage.byStage.length > 0 && (
+            <table className="w-full text-left text-xs text-gray-700 dark:text-gray-300">
+              <thead className="text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-1 font-medium">Stage</th>
+                  <th className="py-1 font-medium">Model</th>
+                  <th className="py-1 text-right font-medium">Calls</th>
+                  <th className="py-1 text-right font-medium">Tokens</th>
+                  <th className="py-1 text-right font-medium">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {usage.byStage.map((row) => (
+                  <tr key={`${row.stage}-${row.purpose}-${row.provider}-${row.model}`}>
+                    <td className="py-1">
+                      {row.stage}
+                      {row.purpose ? ` · ${row.purpose}` : ''}
+                    </td>
+                    <td className="py-1">
+                      {row.provider}
+                      {row.model ? ` · ${row.model}` : ''}
+                    </td>
+                    <td className="py-1 text-right">{row.llmRequests + row.searches}</td>
+                    <td className="py-1 text-right">{formatTokens(row)}</td>
+                    <td className="py-1 text-right">{formatUsd(row.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {usage.articles.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              {usage.articles.slice(0, MAX_ARTICLE_ROWS).map((article) => (
+                <li key={article.articleId} className="flex items-center justify-between gap-4 py-2">
+                  <span className="min-w-0 truncate text-gray-900 dark:text-gray-100">
+                    {article.title || 'Untitled article'}
+                  </span>
+                  <span className="shrink-0 text-gray-600 dark:text-gray-300">
+                    {formatUsd(article.costUsd)} · {article.llmRequests} calls ·{' '}
+                    {article.searches} searches
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// src/components/VerificationReportPanel.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { ArticleVerification } from '../lib/articles';
+import {
+  findSentenceRange,
+  type VerificationClaim,
+  type VerificationVerdict,
+} from '../lib/verificationReport';
+
+interface Props {
+  verification: ArticleVerification | null;
+  content: string;
+}
+
+const VERDICT_STYLES: Record<VerificationVerdict, string> = {
+  supported: 'text-green-600 dark:text-green-400',
+  unsupported: 'text-amber-600 dark:text-amber-400',
+  contradicted: 'text-red-600 dark:text-red-400',
+};
+
+export default function VerificationReportPanel({ verification, content }: Props) {
+  const [showSupported, setShowSupported] = useState(false);
+  const claims = useMemo(() => verification?.claims ?? [], [verification]);
+  const flagged = useMemo(
+    () => claims.filter((claim) => claim.verdict !== 'supported'),
+    [claims]
+  );
+  const visible = showSupported ? claims : flagged;
+
+  // Sentences are matched against the live article HTML, so a claim whose
+  // sentence was rewritten is reported as no longer in the article.
+  const located = useMemo(
+    () => visible.map((claim) => Boolean(claim.sentence && findSentenceRange(content, claim.sentence))),
+    [content, visible]
+  );
+
+  if (!verification) return null;
+
+  const corrected = claims.filter((claim) => claim.autoCorrected).length;
+  const otherIssues =
+    claims.length === 0
+      ? verification.discrepancies
+      : verification.themeCoverageIssue
+      ? [verification.themeCoverageIssue.message]
+      : [];
+
+  const renderClaim = (claim: VerificationClaim, index: number) => (
+    <li key={index} className="py-2">
+      <p className="font-medium text-gray-900 dark:text-gray-100">{claim.claim}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        <span className={VERDICT_STYLES[claim.verdict]}>{claim.verdict}</span>
+        {claim.verdict !== 'supported' ? ` · ${claim.severity}` : ''}
+        {claim.autoCorrected ? ' · auto-corrected' : ''}
+        {claim.sentence && !located[index] ? ' · no longer in the article' : ''}
+      </p>
+      {claim.explanation && claim.explanation !== claim.claim && (
+        <p className="text-gray-600 dark:text-gray-300">{claim.explanation}</p>
+      )}
+      {claim.sourceUrl ? (
+        <a
+          href={claim.sourceUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="break-all text-xs text-blue-600 underline"
+        >
+          {claim.sourceUrl}
+        </a>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No source covers this claim.</p>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Verification report
+        </h2>
+        {claims.length > flagged.length && (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={showSupported}
+              onChange={(e) => setShowSupported(e.target.checked)}
+            />
+            Show supported claims
+          </label>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        {claims.length > 0
+          ? `${claims.length} claims checked · ${flagged.length} flagged`
+          : verification.isAccurate
+          ? 'No issues found.'
+          : 'Issues found.'}
+        {verification.revised ? ` · article revised automatically, ${corrected} corrected` : ''}
+      </p>
+      {otherIssues.length > 0 && (
+        <ul className="list-disc list-inside text-sm text-amber-700 dark:text-amber-300">
+          {otherIssues.map((issue, index) => (
+            <li key={index}>{issue}</li>
+          ))}
+        </ul>
+      )}
+      {flagged.length > 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Flagged sentences are highlighted in the editor.
+        </p>
+      )}
+      {visible.length > 0 && (
+        <ul className="divide-y divide-gray-200 text-sm dark:divide-gray-700">
+          {visible.map(renderClaim)}
+        </ul>
+      )}
+    </div>
+  );
+}
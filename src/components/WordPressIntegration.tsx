@@ -3,15 +3,112 @@
 
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import type { SeoMetadata } from '../lib/seoMetadata';
+import {
+  toDateTimeLocalValue,
+  WORDPRESS_POST_STATUSES,
+  WORDPRESS_POST_STATUS_LABELS,
+  type WordPressPostStatus,
+} from '../lib/wordpressPublishing';
+import type { ConflictResolution } from '../lib/wordpressSync';
+import {
+  DEFAULT_IMAGE_OPTIONS,
+  IMAGE_FORMATS,
+  MAX_IMAGE_WIDTH,
+  MIN_IMAGE_WIDTH,
+  type ImageFormat,
+} from '../lib/imagePipelineOptions';
+import {
+  suggestTaxonomy,
+  type WordPressAuthor,
+  type WordPressTerm,
+} from '../lib/wordpressTaxonomy';
 
 type Account = { id: string; site_url: string; username: string };
 
+export type PublishedPost = {
+  accountId: string;
+  postId: number;
+  postUrl: string | null;
+};
+
+// '' keeps the status of a post that is being updated; new posts are drafts.
+type PostStatusChoice = WordPressPostStatus | '';
+
+type PublishConflict = {
+  postId: number;
+  postUrl: string | null;
+  modifiedAt: string | null;
+  canMerge: boolean;
+};
+
+const PUBLISH_BUTTON_LABELS: Record<PostStatusChoice, string> = {
+  '': 'Send to WordPress',
+  draft: 'Draft Article',
+  pending: 'Submit for Review',
+  private: 'Publish Privately',
+  publish: 'Publish Now',
+  future: 'Schedule Article',
+};
+
+const PUBLISH_SUCCESS_MESSAGES: Record<PostStatusChoice, string> = {
+  '': 'Sent!',
+  draft: 'Draft saved!',
+  pending: 'Submitted for review!',
+  private: 'Published privately!',
+  publish: 'Published!',
+  future: 'Scheduled!',
+};
+
+type SiteTaxonomy = {
+  categories: WordPressTerm[];
+  tags: WordPressTerm[];
+  authors: WordPressAuthor[];
+  profileTaxonomy: string[];
+};
+
+// Image sources in document order. Uploading images rewrites them in place,
+// so an index still points at the same image afterwards.
+function listImageSources(html: string): string[] {
+  return Array.from(html.matchAll(/<img\b[^>]*?\bsrc=["']([^"']+)["']/gi), (match) =>
+    match[1].replace(/&amp;/g, '&')
+  );
+}
+
+const toggleId = (ids: number[], id: number) =>
+  ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+// The schedule picker starts an hour from now, on the hour.
+function defaultScheduleValue(): string {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(0, 0, 0);
+  return toDateTimeLocalValue(date);
+}
+
 interface Props {
   title: string;
   content: string;
+  seo?: SeoMetadata | null;
+  articleType?: string | null;
+  // Library article id; publishing with it puts the post on the calendar.
+  articleId?: string;
+  onPublished?: (post: PublishedPost) => void;
+  // Called with the merged HTML when WordPress edits were merged in.
+  onMerged?: (html: string) => void;
+  // The article's own featured image, offered ahead of the body's images.
+  featuredImage?: string;
 }
 
-export default function WordPressIntegration({ title, content }: Props) {
+export default function WordPressIntegration({
+  title,
+  content,
+  seo,
+  articleType,
+  articleId,
+  onPublished,
+  onMerged,
+  featuredImage: articleFeaturedImage,
+}: Props) {
   const [accounts, setAccounts]     = useState<Account[]>([]);
   const [userId, setUserId]         = useState<string>('');
   const [selectedId, setSelectedId] = useState<string>('');
@@ -22,6 +119,21 @@ export default function WordPressIntegration({ title, content }: Props) {
   const [msg, setMsg]               = useState<string>('');
   const [msgType, setMsgType]       = useState<'info' | 'error' | 'success'>('info');
   const [publishing, setPublishing] = useState<boolean>(false);
+  const [postStatus, setPostStatus] = useState<PostStatusChoice>('');
+  const [scheduleAt, setScheduleAt] = useState<string>(defaultScheduleValue);
+  const [conflict, setConflict]     = useState<PublishConflict | null>(null);
+  const [taxonomy, setTaxonomy]     = useState<SiteTaxonomy | null>(null);
+  const [categoryIds, setCategoryIds] = useState<number[]>([]);
+  const [tagIds, setTagIds]         = useState<number[]>([]);
+  const [newTags, setNewTags]       = useState<string[]>([]);
+  const [newTagName, setNewTagName] = useState<string>('');
+  const [authorId, setAuthorId]     = useState<number | ''>('');
+  // Index into the article's images; -1 sends no featured image.
+  const [featuredIndex, setFeaturedIndex] = useState<number>(0);
+  const [imageMaxWidth, setImageMaxWidth] = useState<number>(DEFAULT_IMAGE_OPTIONS.maxWidth);
+  const [imageQuality, setImageQuality] = useState<number>(DEFAULT_IMAGE_OPTIONS.quality);
+  const [imageFormat, setImageFormat] = useState<ImageFormat>(DEFAULT_IMAGE_OPTIONS.format);
+  const [insertCaptions, setInsertCaptions] = useState<boolean>(DEFAULT_IMAGE_OPTIONS.insertCaptions);
 
   useEffect(() => {
     supabase.auth.getUser().then(({ data }) => {
@@ -67,6 +179,51 @@ export default function WordPressIntegration({ title, content }: Props) {
     loadPromo();
   }, [selectedId, userId]);
 
+  const applySuggestions = (site: SiteTaxonomy) => {
+    const suggestion = suggestTaxonomy({ title, html: content }, site, site.profileTaxonomy);
+    setCategoryIds(suggestion.categories);
+    setTagIds(suggestion.tags);
+    setNewTags(suggestion.newTags);
+  };
+
+  // Load the site's categories, tags and authors, and preselect the terms
+  // suggested for the article
+  useEffect(() => {
+    setTaxonomy(null);
+    setCategoryIds([]);
+    setTagIds([]);
+    setNewTags([]);
+    setAuthorId('');
+    if (!userId || !selectedId) return;
+    fetch(`/api/wordpress/taxonomy?userId=${userId}&accountId=${selectedId}`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) {
+          console.error('Taxonomy load error:', json.error);
+          return;
+        }
+        setTaxonomy(json);
+        applySuggestions(json);
+      })
+      .catch((err) => console.error('Taxonomy load error:', err));
+  }, [selectedId, userId]);
+
+  const addNewTag = () => {
+    const name = newTagName.trim();
+    if (!name || !taxonomy) return;
+    const existing = taxonomy.tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      setTagIds((ids) => (ids.includes(existing.id) ? ids : [...ids, existing.id]));
+    } else if (!newTags.includes(name)) {
+      setNewTags((names) => [...names, name]);
+    }
+    setNewTagName('');
+  };
+
+  const withFeatured = (sources: string[]) =>
+    articleFeaturedImage ? [articleFeaturedImage, ...sources] : sources;
+  const articleImages = withFeatured(listImageSources(content));
+
   // 2) Add a new WP account
   const addAccount = async () => {
     setMsg('');
@@ -141,122 +298,37 @@ export default function WordPressIntegration({ title, content }: Props) {
     }
   };
 
-  // Convert a data URL to a Blob
-  const dataUrlToBlob = (dataUrl: string): Blob => {
-    const [header, data] = dataUrl.split(',');
-    const mime = header.match(/:(.*?);/)?.[1] || 'image/jpeg';
-    const binary = atob(data);
-    const array = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) array[i] = binary.charCodeAt(i);
-    return new Blob([array], { type: mime });
-  };
-
-  // Resize/crop an image Blob using a canvas
-  const getCroppedImg = async (blob: Blob): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onerror = () => reject(new Error('Failed to read image'));
-      reader.onload = () => {
-        const img = new Image();
-        img.onerror = () => reject(new Error('Failed to load image'));
-        img.onload = () => {
-          const maxWidth = 1200;
-          let { width, height } = img;
-          if (width > maxWidth) {
-            height = (height * maxWidth) / width;
-            width = maxWidth;
-          }
-          const canvas = document.createElement('canvas');
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            reject(new Error('Canvas context not available'));
-            return;
-          }
-          ctx.drawImage(img, 0, 0, width, height);
-          canvas.toBlob(
-            (b) => {
-              if (b) resolve(b);
-              else reject(new Error('Canvas is empty'));
-            },
-            blob.type || 'image/jpeg',
-            0.9
-          );
-        };
-        img.src = reader.result as string;
-      };
-      reader.readAsDataURL(blob);
+  // Upload the article's remote and inline images on the server, which
+  // resizes and converts them and writes missing alt text
+  const uploadImages = async (html: string): Promise<{ html: string; warnings: string[] }> => {
+    const res = await fetch('/api/wordpress/media', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        userId,
+        accountId: selectedId,
+        ...(articleId && { articleId }),
+        title,
+        html,
+        maxWidth: imageMaxWidth,
+        quality: imageQuality,
+        format: imageFormat,
+        insertCaptions,
+      }),
     });
-  };
-
-  // Upload any data/external images in the content to WordPress media library
-  const replaceImageSources = async (
-    html: string,
-    account: Account
-  ): Promise<string> => {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-    const imgs = Array.from(doc.querySelectorAll('img'));
-    const cache: Record<string, string> = {};
-
-    for (const img of imgs) {
-      const src = img.getAttribute('src') || '';
-      const isData = src.startsWith('data:');
-      const isExternal = /^https?:\/\//i.test(src);
-      if (!isData && !isExternal) continue;
-
-      if (cache[src]) {
-        img.setAttribute('src', cache[src]);
-        continue;
-      }
-
-      try {
-        let blob: Blob;
-        if (isData) {
-          blob = dataUrlToBlob(src);
-        } else {
-          // Use proxy to fetch external images to avoid CORS issues
-          const proxyUrl = `/api/wordpress/proxy?userId=${userId}&accountId=${selectedId}&url=${encodeURIComponent(src)}`;
-          const fetched = await fetch(proxyUrl);
-          if (!fetched.ok) throw new Error('Failed to fetch image');
-          const original = await fetched.blob();
-          blob = await getCroppedImg(original);
-        }
-
-        const formData = new FormData();
-        formData.append('file', blob, `image-${Date.now()}.jpg`);
-
-        const mediaUrl =
-          account.site_url.replace(/\/$/, '') + '/wp-json/wp/v2/media';
-        const uploadRes = await fetch(
-          `/api/wordpress/proxy?userId=${userId}&accountId=${selectedId}&url=${encodeURIComponent(mediaUrl)}`,
-          {
-            method: 'POST',
-            body: formData,
-          }
-        );
-        const uploadJson = await uploadRes.json();
-        if (!uploadRes.ok) {
-          throw new Error(uploadJson.error || uploadRes.statusText);
-        }
-        const newUrl = uploadJson.source_url || uploadJson.guid?.rendered;
-        if (!newUrl) throw new Error('No media URL returned');
-
-        img.setAttribute('src', newUrl);
-        cache[src] = newUrl;
-      } catch (err: any) {
-        throw new Error(err?.message || 'Image upload failed');
-      }
+    const json = await res.json();
+    if (!res.ok) {
+      throw new Error(json.error || 'Image upload failed');
     }
-
-    return doc.body.innerHTML;
+    return { html: json.html, warnings: json.warnings ?? [] };
   };
 
-  // 4) Publish the article
-  const publish = async () => {
+  // 4) Publish the article, or update the post it was published as. After a
+  // conflict the user picks how WordPress edits are handled.
+  const publish = async (onConflict?: ConflictResolution) => {
     setMsg('');
     setMsgType('info');
+    setConflict(null);
     setPublishing(true);
     if (!selectedId) {
       setMsg('Please select a site');
@@ -276,43 +348,85 @@ export default function WordPressIntegration({ title, content }: Props) {
       setPublishing(false);
       return;
     }
+    // datetime-local values are in the browser's time zone
+    const scheduledDate = postStatus === 'future' ? new Date(scheduleAt) : null;
+    if (scheduledDate && (Number.isNaN(scheduledDate.getTime()) || scheduledDate <= new Date())) {
+      setMsg('Pick a publish time in the future');
+      setMsgType('error');
+      setPublishing(false);
+      return;
+    }
   
     console.log('WP proxy publish payload:', { accountId: selectedId, title, content });
 
     try {
-      const account = accounts.find((a) => a.id === selectedId);
-      if (!account) {
-        throw new Error('Selected account not found');
-      }
-
       // Replace image sources with uploaded media URLs
-      let updatedContent = content;
-      try {
-        updatedContent = await replaceImageSources(content, account);
-      } catch (imgErr: any) {
-        throw new Error(imgErr?.message || 'Image upload failed');
-      }
-
-      const postsUrl = account.site_url.replace(/\/$/, '') + '/wp-json/wp/v2/posts';
-
-      const res = await fetch(
-        `/api/wordpress/proxy?userId=${userId}&accountId=${selectedId}&url=${encodeURIComponent(postsUrl)}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ title, content: updatedContent }),
-        }
-      );
+      const { html: updatedContent, warnings: imageWarnings } = await uploadImages(content);
+
+      // The publish route adds the footer and JSON-LD, pushes the SEO metadata
+      // and crops the featured image
+      const featuredImage =
+        featuredIndex >= 0 ? withFeatured(listImageSources(updatedContent))[featuredIndex] : undefined;
+      const res = await fetch('/api/wordpress/publish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId,
+          accountId: selectedId,
+          title,
+          content: updatedContent,
+          ...(seo && { seo }),
+          ...(articleType && { articleType }),
+          ...(articleId && { articleId }),
+          ...(postStatus && { status: postStatus }),
+          ...(onConflict && { onConflict }),
+          ...(scheduledDate && { scheduledAt: scheduledDate.toISOString() }),
+          // Sent even when empty so an update can clear the post's terms; left
+          // out when the site's terms never loaded
+          ...(taxonomy && { categories: categoryIds, tags: tagIds }),
+          ...(newTags.length && { newTags }),
+          ...(authorId && { author: authorId }),
+          ...(featuredImage && { featuredImage }),
+        }),
+      });
 
       const json = await res.json();
 
-      if (!res.ok) {
+      if (res.status === 409 && json.conflict) {
+        setConflict(json.conflict);
+        setMsg(json.error);
+        setMsgType('error');
+      } else if (!res.ok) {
         console.error('Proxy publish error:', json.error);
         setMsg('Publish failed: ' + (json.error || res.status));
         setMsgType('error');
       } else {
-        setMsg(`Draft saved! Post ID: ${json.id || json.post?.id}`);
+        const postId = json.id || json.post?.id;
+        const schemaTypes: string[] = json.structuredData?.types ?? [];
+        if (json.merge) {
+          onMerged?.(json.merge.content);
+        }
+        setMsg(
+          `${json.updated ? 'Post updated!' : PUBLISH_SUCCESS_MESSAGES[postStatus]} Post ID: ${postId}` +
+            (json.merge
+              ? ` (merged with WordPress edits${
+                  json.merge.conflicts ? `; kept the editor's version in ${json.merge.conflicts} conflicting place(s)` : ''
+                })`
+              : '') +
+            (scheduledDate ? ` (goes live ${scheduledDate.toLocaleString()})` : '') +
+            (schemaTypes.length ? ` (structured data: ${schemaTypes.join(', ')})` : '') +
+            (imageWarnings.length || json.warnings?.length
+              ? ` Warnings: ${[...imageWarnings, ...(json.warnings ?? [])].join('; ')}`
+              : '')
+        );
         setMsgType('success');
+        if (Number.isInteger(postId)) {
+          onPublished?.({
+            accountId: selectedId,
+            postId,
+            postUrl: json.link || json.post?.link || null,
+          });
+        }
       }
     } catch (err: any) {
       console.error('Publish request failed:', err);
@@ -350,7 +464,10 @@ export default function WordPressIntegration({ title, content }: Props) {
               name="wpAccount"
               value={a.id}
               checked={selectedId === a.id}
-              onChange={() => setSelectedId(a.id)}
+              onChange={() => {
+                setSelectedId(a.id);
+                setConflict(null);
+              }}
               className="mr-2"
             />
             {a.site_url} ({a.username})
@@ -382,8 +499,246 @@ export default function WordPressIntegration({ title, content }: Props) {
         </div>
       )}
 
+      {selectedId && taxonomy && (
+        <div className="space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <p className="font-semibold">Categories</p>
+            <button
+              onClick={() => applySuggestions(taxonomy)}
+              className="text-blue-600 hover:underline dark:text-blue-400"
+            >
+              Suggest from article
+            </button>
+          </div>
+          {taxonomy.categories.length ? (
+            <div className="max-h-32 space-y-1 overflow-y-auto rounded border border-gray-300 p-2 dark:border-gray-600">
+              {taxonomy.categories.map((category) => (
+                <label key={category.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={categoryIds.includes(category.id)}
+                    onChange={() => setCategoryIds((ids) => toggleId(ids, category.id))}
+                  />
+                  {category.name}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400">The site has no categories.</p>
+          )}
+
+          <p className="font-semibold">Tags</p>
+          <div className="flex flex-wrap gap-1">
+            {tagIds.map((id) => (
+              <button
+                key={id}
+                onClick={() => setTagIds((ids) => ids.filter((existing) => existing !== id))}
+                className="rounded bg-gray-200 px-2 py-0.5 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+                title="Remove tag"
+              >
+                {taxonomy.tags.find((tag) => tag.id === id)?.name ?? `#${id}`} ×
+              </button>
+            ))}
+            {newTags.map((name) => (
+              <button
+                key={name}
+                onClick={() => setNewTags((names) => names.filter((existing) => existing !== name))}
+                className="rounded bg-green-100 px-2 py-0.5 hover:bg-green-200 dark:bg-green-900 dark:hover:bg-green-800"
+                title="New tag, created on publish. Click to remove."
+              >
+                {name} (new) ×
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <select
+              value=""
+              onChange={(e) => setTagIds((ids) => [...ids, Number(e.target.value)])}
+              className="flex-1 border border-gray-300 dark:border-gray-600 p-2 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+            >
+              <option value="">Add a tag…</option>
+              {taxonomy.tags
+                .filter((tag) => !tagIds.includes(tag.id))
+                .map((tag) => (
+                  <option key={tag.id} value={tag.id}>
+                    {tag.name}
+                  </option>
+                ))}
+            </select>
+            <input
+              type="text"
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addNewTag();
+              }}
+              placeholder="New tag"
+              className="flex-1 border border-gray-300 dark:border-gray-600 p-2 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+            />
+          </div>
+
+          {taxonomy.authors.length > 0 && (
+            <select
+              value={authorId}
+              onChange={(e) => setAuthorId(e.target.value ? Number(e.target.value) : '')}
+              className="w-full border border-gray-300 dark:border-gray-600 p-2 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+            >
+              <option value="">Default author</option>
+              {taxonomy.authors.map((author) => (
+                <option key={author.id} value={author.id}>
+                  {author.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <p className="font-semibold">Featured image (cropped to 1280×720)</p>
+          {articleImages.length ? (
+            <div className="flex flex-wrap gap-2">
+              {articleImages.map((src, index) => (
+                <button
+                  key={`${index}-${src}`}
+                  onClick={() => setFeaturedIndex(index)}
+                  className={`h-16 w-28 overflow-hidden rounded border-2 ${
+                    featuredIndex === index ? 'border-blue-600' : 'border-transparent'
+                  }`}
+                >
+                  <img src={src} alt="" className="h-full w-full object-cover" />
+                </button>
+              ))}
+              <button
+                onClick={() => setFeaturedIndex(-1)}
+                className={`h-16 w-28 rounded border-2 text-xs ${
+                  featuredIndex === -1 ? 'border-blue-600' : 'border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                None
+              </button>
+            </div>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400">The article has no images.</p>
+          )}
+        </div>
+      )}
+
+      {selectedId && (
+        <details className="text-sm">
+          <summary className="cursor-pointer font-semibold">Image settings</summary>
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-1">
+              Max width
+              <input
+                type="number"
+                min={MIN_IMAGE_WIDTH}
+                max={MAX_IMAGE_WIDTH}
+                step={10}
+                value={imageMaxWidth}
+                onChange={(e) => setImageMaxWidth(Number(e.target.value))}
+                className="w-24 border border-gray-300 dark:border-gray-600 p-1 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Quality
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={imageQuality}
+                onChange={(e) => setImageQuality(Number(e.target.value))}
+                className="w-20 border border-gray-300 dark:border-gray-600 p-1 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+              />
+            </label>
+            <select
+              value={imageFormat}
+              onChange={(e) => setImageFormat(e.target.value as ImageFormat)}
+              className="border border-gray-300 dark:border-gray-600 p-1 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+            >
+              {IMAGE_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {format.toUpperCase()}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={insertCaptions}
+                onChange={(e) => setInsertCaptions(e.target.checked)}
+              />
+              Add captions under images
+            </label>
+          </div>
+        </details>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={postStatus}
+          onChange={(e) => setPostStatus(e.target.value as PostStatusChoice)}
+          className="flex-1 border border-gray-300 dark:border-gray-600 p-2 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+        >
+          <option value="">Keep current status (new posts as draft)</option>
+          {WORDPRESS_POST_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {WORDPRESS_POST_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        {postStatus === 'future' && (
+          <input
+            type="datetime-local"
+            value={scheduleAt}
+            onChange={(e) => setScheduleAt(e.target.value)}
+            className="flex-1 border border-gray-300 dark:border-gray-600 p-2 rounded bg-white dark:bg-gray-700 text-black dark:text-white"
+          />
+        )}
+      </div>
+
+      {conflict && (
+        <div className="space-y-2 rounded border border-yellow-400 bg-yellow-50 p-3 text-sm dark:border-yellow-600 dark:bg-yellow-900/30">
+          <p>
+            {conflict.postUrl ? (
+              <a href={conflict.postUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                Post #{conflict.postId}
+              </a>
+            ) : (
+              `Post #${conflict.postId}`
+            )}{' '}
+            was changed in WordPress
+            {conflict.modifiedAt ? ` on ${new Date(conflict.modifiedAt).toLocaleString()}` : ''}.
+            {!conflict.canMerge && ' It was published before edits were tracked, so it cannot be merged.'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => publish('overwrite')}
+              className="rounded bg-red-600 px-3 py-1 text-white hover:bg-red-700"
+            >
+              Overwrite
+            </button>
+            {conflict.canMerge && (
+              <button
+                onClick={() => publish('merge')}
+                className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700"
+              >
+                Merge
+              </button>
+            )}
+            <button
+              onClick={() => {
+                setConflict(null);
+                setMsg('Publish cancelled');
+                setMsgType('info');
+              }}
+              className="rounded border border-gray-400 px-3 py-1 hover:bg-gray-100 dark:border-gray-600 dark:hover:bg-gray-700"
+            >
+              Abort
+            </button>
+          </div>
+        </div>
+      )}
+
       <button
-        onClick={publish}
+        onClick={() => publish()}
         disabled={!selectedId || publishing}
         className="w-full bg-green-600 text-white py-2 rounded hover:bg-green-700 disabled:opacity-50 flex items-center justify-center"
       >
@@ -409,7 +764,7 @@ export default function WordPressIntegration({ title, content }: Props) {
             ></path>
           </svg>
         )}
-        {publishing ? 'Drafting…' : 'Draft Article'}
+        {publishing ? 'Sending…' : PUBLISH_BUTTON_LABELS[postStatus]}
       </button>
 
       <hr className="border-gray-200 dark:border-gray-700" />
@@ -0,0 +1,307 @@
+// Images proposed for an article: a featured image and one per H2 section,
+// either stock photos or generated images. These helpers are shared by the
+// image routes and the editor panel; the providers live in imageProviders.ts.
+
+import { findHeadings, htmlToPlainText } from './seoAudit';
+import { MAX_ALT_TEXT_LENGTH } from './seoAuditFixes';
+import { FAQ_HEADING } from './structuredData';
+
+export type ImageSourceKind = 'stock' | 'generated';
+export type ImageSlotKind = 'featured' | 'section';
+
+export type AspectRatio = { width: number; height: number };
+
+export const DEFAULT_ASPECT_RATIO = '16:9';
+export const IMAGE_OUTPUT_WIDTH = 1200;
+export const MAX_SECTION_IMAGES = 6;
+export const MAX_IMAGE_CAPTION_LENGTH = 160;
+
+const MAX_QUERY_WORDS = 5;
+const QUERY_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'best', 'by', 'can', 'do', 'does', 'for', 'from',
+  'guide', 'how', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'the', 'their',
+  'this', 'to', 'top', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+export type ImageLicense = { name: string; url: string | null };
+
+// Who to credit. Generated images have no author or source page.
+export type ImageCredit = {
+  provider: string;
+  author: string | null;
+  authorUrl: string | null;
+  sourceUrl: string | null;
+};
+
+export type ImageCandidate = {
+  id: string;
+  provider: string;
+  kind: ImageSourceKind;
+  // Full-size image: a remote URL for stock photos, a data URL once generated.
+  src: string;
+  previewUrl: string;
+  width: number;
+  height: number;
+  alt: string;
+  credit: ImageCredit;
+  license: ImageLicense;
+  // Stock sites that count downloads are pinged here when the image is used.
+  downloadUrl?: string;
+};
+
+export type ImageSlot = {
+  kind: ImageSlotKind;
+  // The section's H2 text; empty for the featured image.
+  heading: string;
+  query: string;
+  prompt: string;
+  alt: string;
+  caption: string;
+};
+
+// Stored with the article so each image's license and credit stay on record.
+export type ArticleImageRecord = {
+  slot: ImageSlotKind;
+  heading: string;
+  kind: ImageSourceKind;
+  alt: string;
+  caption: string;
+  credit: ImageCredit;
+  license: ImageLicense;
+  width: number;
+  height: number;
+  addedAt: string;
+  // Only set on the featured image, which is not part of the body.
+  src?: string;
+};
+
+// Accepts "16:9", "4x3" or "1.91:1". Anything wider than 3:1 or taller than
+// 1:3 is rejected.
+export function parseAspectRatio(value: unknown): AspectRatio | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)$/i);
+  if (!match) {
+    return null;
+  }
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  if (!width || !height || width / height > 3 || height / width > 3) {
+    return null;
+  }
+  return { width, height };
+}
+
+export function formatAspectRatio(aspect: AspectRatio): string {
+  return `${aspect.width}:${aspect.height}`;
+}
+
+export function outputSize(aspect: AspectRatio, width = IMAGE_OUTPUT_WIDTH): AspectRatio {
+  return { width, height: Math.round((width * aspect.height) / aspect.width) };
+}
+
+// A short stock search query: the content words of the text, in order.
+export function searchQuery(text: string): string {
+  return htmlToPlainText(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00c0-\u024f\s'-]+/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !/^\d+$/.test(word) && !QUERY_STOP_WORDS.has(word))
+    .slice(0, MAX_QUERY_WORDS)
+    .join(' ');
+}
+
+function defaultSlot(kind: ImageSlotKind, heading: string, title: string): ImageSlot {
+  const subject = heading || title;
+  return {
+    kind,
+    heading,
+    query: searchQuery(subject) || searchQuery(title),
+    prompt: heading
+      ? `Editorial photograph illustrating "${heading}" for an article titled "${title}". Natural light, no text, no logos, no watermarks.`
+      : `Editorial photograph for an article titled "${title}". Natural light, no text, no logos, no watermarks.`,
+    alt: subject.slice(0, MAX_ALT_TEXT_LENGTH),
+    caption: '',
+  };
+}
+
+// The featured image plus one slot per H2 section, skipping the FAQ and
+// sections that already have an image.
+export function planImageSlots(
+  html: string,
+  title: string,
+  { featured = true, maxSections = MAX_SECTION_IMAGES } = {}
+): ImageSlot[] {
+  const slots: ImageSlot[] = featured ? [defaultSlot('featured', '', title)] : [];
+  const sections = findHeadings(html).filter((heading) => heading.level === 2);
+  sections.forEach((heading, index) => {
+    const sectionEnd = sections[index + 1]?.start ?? html.length;
+    const sectionSlots = slots.length - (featured ? 1 : 0);
+    if (sectionSlots >= maxSections) return;
+    if (!heading.text || FAQ_HEADING.test(heading.text)) return;
+    if (/<img\b/i.test(html.slice(heading.end, sectionEnd))) return;
+    slots.push(defaultSlot('section', heading.text, title));
+  });
+  return slots;
+}
+
+export function buildImagePlanPrompt(title: string, slots: ImageSlot[]): string {
+  return [
+    `You are choosing images for the article "${title || 'Untitled article'}".`,
+    '',
+    'For each image write:',
+    '- "query": a 2-5 word stock photo search for a concrete, photographable subject.',
+    '- "prompt": one or two sentences for an image generator describing an editorial photo. No text, logos or real people\'s faces.',
+    `- "alt": a plain description of the intended image, under ${MAX_ALT_TEXT_LENGTH} characters.`,
+    `- "caption": one short sentence to show under the image, under ${MAX_IMAGE_CAPTION_LENGTH} characters.`,
+    `Return valid JSON exactly matching {"images":[{"id":1,"query":"...","prompt":"...","alt":"...","caption":"..."}]} with ${slots.length} ${slots.length === 1 ? 'entry' : 'entries'}, using double quotes.`,
+    '',
+    'Images:',
+    ...slots.map((slot, index) =>
+      slot.kind === 'featured'
+        ? `${index + 1}. Featured image for the whole article`
+        : `${index + 1}. Section "${slot.heading}"`
+    ),
+  ].join('\n');
+}
+
+// Fills in the model's wording, keeping the defaults for anything it skipped.
+export function parseImagePlanResponse(raw: string | null | undefined, slots: ImageSlot[]): ImageSlot[] {
+  const json = raw?.match(/\{[\s\S]*\}/)?.[0];
+  let entries: unknown[] = [];
+  try {
+    const images = json ? JSON.parse(json)?.images : null;
+    entries = Array.isArray(images) ? images : [];
+  } catch {
+    entries = [];
+  }
+  const text = (value: unknown, max: number) =>
+    typeof value === 'string' ? htmlToPlainText(value).slice(0, max) : '';
+  return slots.map((slot, index) => {
+    const entry = entries.find((item: any) => item?.id === index + 1) as Record<string, unknown>;
+    if (!entry) return slot;
+    return {
+      ...slot,
+      query: searchQuery(text(entry.query, 100)) || slot.query,
+      prompt: text(entry.prompt, 1000) || slot.prompt,
+      alt: text(entry.alt, MAX_ALT_TEXT_LENGTH) || slot.alt,
+      caption: text(entry.caption, MAX_IMAGE_CAPTION_LENGTH) || slot.caption,
+    };
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function link(text: string, url: string | null): string {
+  return url
+    ? `<a href="${escapeHtml(url)}" rel="noopener nofollow" target="_blank">${escapeHtml(text)}</a>`
+    : escapeHtml(text);
+}
+
+// "Photo by Jane Doe on Unsplash" for stock photos, with the links the
+// provider asks for; generated images name the generator.
+export function renderImageCredit(kind: ImageSourceKind, credit: ImageCredit): string {
+  if (kind === 'generated') {
+    return `Image generated with ${escapeHtml(credit.provider)}`;
+  }
+  const provider = link(credit.provider, credit.sourceUrl);
+  return credit.author
+    ? `Photo by ${link(credit.author, credit.authorUrl)} on ${provider}`
+    : `Photo from ${provider}`;
+}
+
+export function renderImageFigure(src: string, record: ArticleImageRecord): string {
+  const caption = [
+    record.caption ? escapeHtml(record.caption) : '',
+    `<span class="image-credit">${renderImageCredit(record.kind, record.credit)}</span>`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return (
+    `<figure class="article-image">` +
+    `<img src="${escapeHtml(src)}" alt="${escapeHtml(record.alt)}" width="${record.width}" height="${record.height}">` +
+    `<figcaption>${caption}</figcaption></figure>`
+  );
+}
+
+// Puts each figure directly under its section's H2. Headings are matched by
+// text, so edits made since the images were proposed do not misplace them.
+export function insertSectionImages(
+  html: string,
+  placements: Array<{ heading: string; figure: string }>
+): string {
+  const headings = findHeadings(html).filter((heading) => heading.level === 2);
+  const inserts: Array<{ at: number; figure: string }> = [];
+  for (const { heading, figure } of placements) {
+    const key = heading.trim().toLowerCase();
+    const target = headings.find(
+      (candidate) =>
+        candidate.text.trim().toLowerCase() === key && !inserts.some((insert) => insert.at === candidate.end)
+    );
+    if (target) inserts.push({ at: target.end, figure });
+  }
+  return inserts
+    .sort((a, b) => b.at - a.at)
+    .reduce((result, { at, figure }) => result.slice(0, at) + figure + result.slice(at), html);
+}
+
+// A new image replaces the record for the same slot.
+export function mergeImageRecords(
+  existing: ArticleImageRecord[],
+  added: ArticleImageRecord[]
+): ArticleImageRecord[] {
+  const key = (record: ArticleImageRecord) => `${record.slot}:${record.heading.toLowerCase()}`;
+  const replaced = new Set(added.map(key));
+  return [...existing.filter((record) => !replaced.has(key(record))), ...added];
+}
+
+function readText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// Validates image records sent by the editor. Returns null when any record
+// lacks a license, so an image is never stored without one.
+export function normalizeImageRecords(value: unknown): ArticleImageRecord[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const records: ArticleImageRecord[] = [];
+  for (const item of value) {
+    const license = item?.license;
+    const credit = item?.credit;
+    if (
+      (item?.slot !== 'featured' && item?.slot !== 'section') ||
+      (item?.kind !== 'stock' && item?.kind !== 'generated') ||
+      !readText(license?.name) ||
+      !readText(credit?.provider)
+    ) {
+      return null;
+    }
+    records.push({
+      slot: item.slot,
+      heading: readText(item.heading) ?? '',
+      kind: item.kind,
+      alt: readText(item.alt) ?? '',
+      caption: readText(item.caption) ?? '',
+      credit: {
+        provider: readText(credit.provider),
+        author: readText(credit.author),
+        authorUrl: readText(credit.authorUrl),
+        sourceUrl: readText(credit.sourceUrl),
+      },
+      license: { name: readText(license.name), url: readText(license.url) },
+      width: Number.isInteger(item.width) ? item.width : 0,
+      height: Number.isInteger(item.height) ? item.height : 0,
+      addedAt: readText(item.addedAt) ?? new Date().toISOString(),
+      ...(item.slot === 'featured' && readText(item.src) && { src: readText(item.src) }),
+    });
+  }
+  return records;
+}
@@ -0,0 +1,200 @@
+function stripHtmlTags(value: string): string {
+  if (!value) {
+    return '';
+  }
+  return value.replace(/<[^>]*>/g, ' ');
+}
+
+export function countWordsFromHtml(html: string): number {
+  if (!html) {
+    return 0;
+  }
+  const withoutTags = html
+    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(nbsp|#160);/gi, ' ');
+  const normalized = withoutTags.replace(/\s+/g, ' ').trim();
+  if (!normalized) {
+    return 0;
+  }
+  return normalized.split(' ').length;
+}
+
+export interface SectionStats {
+  heading: string;
+  start: number;
+  end: number;
+  paragraphCount: number;
+  wordCount: number;
+}
+
+export interface ArticleStructure {
+  intro: {
+    paragraphCount: number;
+    wordCount: number;
+  };
+  sections: SectionStats[];
+}
+
+export const MIN_PARAGRAPHS_PER_SECTION = 2;
+export const UNDER_DEVELOPED_WORD_THRESHOLD = 120;
+
+export type SectionAction = 'regenerate' | 'expand' | 'shorten' | 'resource';
+
+export const SECTION_ACTIONS: SectionAction[] = ['regenerate', 'expand', 'shorten', 'resource'];
+
+// Stands in for a heading when an expansion targets the text before the first <h2>.
+export const INTRO_SECTION_HEADING = '__INTRO__';
+
+export function analyzeArticleStructure(html: string): ArticleStructure {
+  const headingRegex = /<h2[^>]*>([\s\S]*?)<\/h2>/gi;
+  const matches: Array<{ heading: string; index: number; endOfHeading: number }> = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = headingRegex.exec(html)) !== null) {
+    const headingHtml = match[1] ?? '';
+    const headingText = stripHtmlTags(headingHtml).replace(/\s+/g, ' ').trim();
+    matches.push({
+      heading: headingText,
+      index: match.index,
+      endOfHeading: match.index + match[0].length,
+    });
+  }
+
+  const firstHeadingIndex = matches.length > 0 ? matches[0].index : html.length;
+  const introHtml = html.slice(0, firstHeadingIndex);
+  const introParagraphCount = (introHtml.match(/<p\b[^>]*>[\s\S]*?<\/p>/gi) ?? []).length;
+  const introWordCount = countWordsFromHtml(introHtml);
+
+  const sections: SectionStats[] = [];
+  for (let i = 0; i < matches.length; i += 1) {
+    const current = matches[i];
+    const nextStart = i + 1 < matches.length ? matches[i + 1].index : html.length;
+    const sectionHtml = html.slice(current.endOfHeading, nextStart);
+    const paragraphCount = (sectionHtml.match(/<p\b[^>]*>[\s\S]*?<\/p>/gi) ?? []).length;
+    const wordCount = countWordsFromHtml(sectionHtml);
+    sections.push({
+      heading: current.heading,
+      start: current.endOfHeading,
+      end: nextStart,
+      paragraphCount,
+      wordCount,
+    });
+  }
+
+  return {
+    intro: {
+      paragraphCount: introParagraphCount,
+      wordCount: introWordCount,
+    },
+    sections,
+  };
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Matches headings the way the model echoes them back: case and whitespace
+// differences are ignored, and the first section with that heading wins.
+export function findSection(
+  structure: ArticleStructure,
+  heading: string
+): SectionStats | undefined {
+  const normalizedTarget = normalizeHeading(heading);
+  return structure.sections.find(
+    (section) => normalizeHeading(section.heading) === normalizedTarget
+  );
+}
+
+export interface SectionExpansion {
+  heading: string;
+  html: string;
+}
+
+export function parseExpansionResponse(raw: string): SectionExpansion[] {
+  if (!raw) {
+    return [];
+  }
+
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!parsed || !Array.isArray(parsed.expansions)) {
+      return [];
+    }
+
+    return parsed.expansions
+      .map((entry: any) => {
+        if (!entry) {
+          return null;
+        }
+        const heading = typeof entry.heading === 'string' ? entry.heading.trim() : '';
+        const html = typeof entry.html === 'string' ? entry.html.trim() : '';
+        if (!heading || !html) {
+          return null;
+        }
+        return { heading, html } as SectionExpansion;
+      })
+      .filter((entry: SectionExpansion | null): entry is SectionExpansion => Boolean(entry));
+  } catch {
+    return [];
+  }
+}
+
+// `append` adds each expansion after its section's existing paragraphs;
+// `replace` swaps out the section body and keeps the <h2> itself. Replacements
+// for headings that are not in the article are dropped rather than appended.
+export type SectionExpansionMode = 'append' | 'replace';
+
+export function applySectionExpansions(
+  originalContent: string,
+  expansions: SectionExpansion[],
+  mode: SectionExpansionMode = 'append'
+): string {
+  let content = originalContent;
+
+  for (const expansion of expansions) {
+    const addition = expansion.html?.trim();
+    const heading = expansion.heading?.trim();
+    if (!addition || !heading) {
+      continue;
+    }
+
+    if (heading === INTRO_SECTION_HEADING) {
+      const firstHeadingMatch = content.match(/<h2[^>]*>/i);
+      const insertIndex = firstHeadingMatch?.index ?? content.length;
+      const before = mode === 'replace' ? '' : content.slice(0, insertIndex);
+      const after = content.slice(insertIndex);
+      const joiner = before.endsWith('\n') || addition.startsWith('<') ? '' : '\n';
+      content = `${before}${joiner}${addition}${after}`;
+      continue;
+    }
+
+    const targetSection = findSection(analyzeArticleStructure(content), heading);
+
+    if (!targetSection) {
+      if (mode === 'replace') {
+        continue;
+      }
+      const joiner = content.endsWith('\n') || addition.startsWith('<') ? '' : '\n';
+      content = `${content}${joiner}${addition}`;
+      continue;
+    }
+
+    const before =
+      mode === 'replace'
+        ? content.slice(0, targetSection.start)
+        : content.slice(0, targetSection.end);
+    const after = content.slice(targetSection.end);
+    const joiner = before.endsWith('\n') || addition.startsWith('<') ? '' : '\n';
+    content = `${before}${joiner}${addition}${after}`;
+  }
+
+  return content;
+}
@@ -0,0 +1,124 @@
+import { supabaseAdmin } from './supabaseAdmin';
+
+export type ArticleVersionSource =
+  | 'generation'
+  | 'regeneration'
+  | 'verification'
+  | 'manual'
+  | 'restore';
+
+export const ARTICLE_VERSION_SOURCES: ArticleVersionSource[] = [
+  'generation',
+  'regeneration',
+  'verification',
+  'manual',
+  'restore',
+];
+
+export type ArticleVersionRow = {
+  id: string;
+  article_id: string;
+  user_id: string;
+  version: number;
+  source: ArticleVersionSource;
+  title: string;
+  content: string;
+  sources: unknown[] | null;
+  restored_from: number | null;
+  created_at: string;
+};
+
+export type NewArticleVersion = {
+  articleId: string;
+  userId: string;
+  source: ArticleVersionSource;
+  title?: string | null;
+  content: string;
+  sources?: unknown[] | null;
+  restoredFrom?: number | null;
+};
+
+export const ARTICLE_VERSION_COLUMNS =
+  'id, article_id, user_id, version, source, title, content, sources, restored_from, created_at';
+
+// Two writers can race for the same version number; the unique index rejects
+// the loser, which then retries with the next number.
+const MAX_INSERT_ATTEMPTS = 3;
+const UNIQUE_VIOLATION = '23505';
+
+export function serializeArticleVersion(row: ArticleVersionRow) {
+  return {
+    id: row.id,
+    articleId: row.article_id,
+    version: row.version,
+    source: row.source,
+    title: row.title,
+    content: row.content,
+    sources: Array.isArray(row.sources) ? row.sources : [],
+    restoredFrom: row.restored_from,
+    createdAt: row.created_at,
+  };
+}
+
+export type ArticleVersion = ReturnType<typeof serializeArticleVersion>;
+
+async function nextVersionNumber(articleId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('article_versions')
+    .select('version')
+    .eq('article_id', articleId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return (data?.version ?? 0) + 1;
+}
+
+export async function createArticleVersion(
+  input: NewArticleVersion
+): Promise<ArticleVersionRow> {
+  let lastError: unknown = null;
+  for (let attempt = 0; attempt < MAX_INSERT_ATTEMPTS; attempt += 1) {
+    const version = await nextVersionNumber(input.articleId);
+    const { data, error } = await supabaseAdmin
+      .from('article_versions')
+      .insert({
+        article_id: input.articleId,
+        user_id: input.userId,
+        version,
+        source: input.source,
+        title: input.title?.trim() ?? '',
+        content: input.content,
+        sources: input.sources ?? [],
+        restored_from: input.restoredFrom ?? null,
+      })
+      .select(ARTICLE_VERSION_COLUMNS)
+      .single();
+    if (!error) {
+      return data as ArticleVersionRow;
+    }
+    lastError = error;
+    if (error.code !== UNIQUE_VIOLATION) {
+      break;
+    }
+  }
+  throw lastError;
+}
+
+export async function listArticleVersions(
+  articleId: string,
+  userId: string
+): Promise<ArticleVersionRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from('article_versions')
+    .select(ARTICLE_VERSION_COLUMNS)
+    .eq('article_id', articleId)
+    .eq('user_id', userId)
+    .order('version', { ascending: false });
+  if (error) {
+    throw error;
+  }
+  return (data ?? []) as ArticleVersionRow[];
+}
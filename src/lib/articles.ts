@@ -0,0 +1,244 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import type { VerificationReport } from './verificationReport';
+import { normalizeSeoMetadata, type SeoMetadata } from './seoMetadata';
+import { normalizeRecipe, type Recipe } from './recipes';
+import { normalizeImageRecords, type ArticleImageRecord } from './articleImages';
+
+export type ArticleStatus = 'draft' | 'published' | 'archived';
+
+export const ARTICLE_STATUSES: ArticleStatus[] = ['draft', 'published', 'archived'];
+
+// Articles saved before verification reports existed only carry the summary.
+export type ArticleVerification = Pick<VerificationReport, 'isAccurate' | 'discrepancies'> &
+  Partial<Omit<VerificationReport, 'isAccurate' | 'discrepancies'>>;
+
+export type ArticleRow = {
+  id: string;
+  user_id: string;
+  title: string;
+  content: string;
+  sources: unknown[] | null;
+  payload: Record<string, unknown> | null;
+  article_type: string | null;
+  status: ArticleStatus;
+  word_count: number;
+  verification: ArticleVerification | null;
+  seo: SeoMetadata | null;
+  recipe: Recipe | null;
+  images: ArticleImageRecord[] | null;
+  wordpress_account_id: string | null;
+  wordpress_post_id: number | null;
+  wordpress_post_url: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const ARTICLE_COLUMNS =
+  'id, user_id, title, content, sources, payload, article_type, status, word_count, verification, seo, recipe, images, wordpress_account_id, wordpress_post_id, wordpress_post_url, created_at, updated_at';
+
+// The library list skips the HTML body, which can run to tens of kilobytes.
+export const ARTICLE_SUMMARY_COLUMNS =
+  'id, user_id, title, sources, article_type, status, word_count, verification, wordpress_post_id, wordpress_post_url, created_at, updated_at';
+
+export type ArticleFields = {
+  title?: string;
+  content?: string;
+  sources?: unknown[];
+  payload?: Record<string, unknown> | null;
+  status?: ArticleStatus;
+  verification?: ArticleVerification | null;
+  seo?: SeoMetadata | null;
+  recipe?: Recipe | null;
+  images?: ArticleImageRecord[];
+  wordpressAccountId?: string | null;
+  wordpressPostId?: number | null;
+  wordpressPostUrl?: string | null;
+};
+
+export function countHtmlWords(html: string): number {
+  return html.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+}
+
+export function serializeArticle(row: Partial<ArticleRow> & { id: string }) {
+  return {
+    id: row.id,
+    title: row.title ?? '',
+    content: row.content,
+    sources: Array.isArray(row.sources) ? row.sources : [],
+    payload: row.payload ?? null,
+    articleType: row.article_type ?? null,
+    status: row.status ?? 'draft',
+    wordCount: row.word_count ?? 0,
+    verification: row.verification ?? null,
+    seo: row.seo ?? null,
+    recipe: row.recipe ?? null,
+    images: Array.isArray(row.images) ? row.images : [],
+    wordpress: row.wordpress_post_id
+      ? {
+          accountId: row.wordpress_account_id ?? null,
+          postId: row.wordpress_post_id,
+          postUrl: row.wordpress_post_url ?? null,
+        }
+      : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export type Article = ReturnType<typeof serializeArticle>;
+
+// Maps camelCase request fields to columns, leaving out anything not given so
+// partial updates never clear other fields.
+export function toArticleColumns(fields: ArticleFields): Partial<ArticleRow> {
+  const columns: Partial<ArticleRow> = {};
+  if (fields.title !== undefined) columns.title = fields.title.trim();
+  if (fields.content !== undefined) {
+    columns.content = fields.content;
+    columns.word_count = countHtmlWords(fields.content);
+  }
+  if (fields.sources !== undefined) columns.sources = fields.sources;
+  if (fields.payload !== undefined) {
+    columns.payload = fields.payload;
+    columns.article_type =
+      typeof fields.payload?.articleType === 'string' ? fields.payload.articleType : null;
+  }
+  if (fields.status !== undefined) columns.status = fields.status;
+  if (fields.verification !== undefined) columns.verification = fields.verification;
+  if (fields.seo !== undefined) columns.seo = fields.seo;
+  if (fields.recipe !== undefined) columns.recipe = fields.recipe;
+  if (fields.images !== undefined) columns.images = fields.images;
+  if (fields.wordpressAccountId !== undefined) {
+    columns.wordpress_account_id = fields.wordpressAccountId;
+  }
+  if (fields.wordpressPostId !== undefined) columns.wordpress_post_id = fields.wordpressPostId;
+  if (fields.wordpressPostUrl !== undefined) columns.wordpress_post_url = fields.wordpressPostUrl;
+  return columns;
+}
+
+// Thrown by upsertArticle when the id is already taken by another user's row.
+export class ArticleOwnershipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArticleOwnershipError';
+  }
+}
+
+export async function upsertArticle(
+  articleId: string,
+  userId: string,
+  fields: ArticleFields
+): Promise<ArticleRow> {
+  // Ids come from the client, so never let an upsert move another user's row.
+  const { data: existing, error: lookupError } = await supabaseAdmin
+    .from('articles')
+    .select('user_id')
+    .eq('id', articleId)
+    .maybeSingle();
+  if (lookupError) {
+    throw lookupError;
+  }
+  if (existing && existing.user_id !== userId) {
+    throw new ArticleOwnershipError('Article belongs to another user');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('articles')
+    .upsert(
+      {
+        id: articleId,
+        user_id: userId,
+        ...toArticleColumns(fields),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'id' }
+    )
+    .select(ARTICLE_COLUMNS)
+    .single();
+  if (error) {
+    throw error;
+  }
+  return data as ArticleRow;
+}
+
+// Validates the editable fields of a create or update request. Returns an
+// error message for the first invalid field.
+export function parseArticleFields(body: Record<string, unknown>): ArticleFields | string {
+  const fields: ArticleFields = {};
+  if (body.title !== undefined) {
+    if (typeof body.title !== 'string') return 'title must be a string';
+    fields.title = body.title;
+  }
+  if (body.content !== undefined) {
+    if (typeof body.content !== 'string') return 'content must be a string';
+    fields.content = body.content;
+  }
+  if (body.sources !== undefined) {
+    if (!Array.isArray(body.sources)) return 'sources must be an array';
+    fields.sources = body.sources;
+  }
+  if (body.payload !== undefined) {
+    if (body.payload !== null && (typeof body.payload !== 'object' || Array.isArray(body.payload))) {
+      return 'payload must be an object';
+    }
+    fields.payload = body.payload as Record<string, unknown> | null;
+  }
+  if (body.status !== undefined) {
+    if (!ARTICLE_STATUSES.includes(body.status as ArticleStatus)) {
+      return `status must be one of ${ARTICLE_STATUSES.join(', ')}`;
+    }
+    fields.status = body.status as ArticleStatus;
+  }
+  if (body.verification !== undefined) {
+    const verification = body.verification as ArticleVerification | null;
+    if (
+      verification !== null &&
+      (typeof verification !== 'object' ||
+        typeof verification.isAccurate !== 'boolean' ||
+        !Array.isArray(verification.discrepancies))
+    ) {
+      return 'verification must include isAccurate and discrepancies';
+    }
+    fields.verification = verification;
+  }
+  if (body.seo !== undefined) {
+    const seo = body.seo === null ? null : normalizeSeoMetadata(body.seo);
+    if (body.seo !== null && !seo) {
+      return 'seo must include a metaTitle or metaDescription';
+    }
+    fields.seo = seo;
+  }
+  if (body.recipe !== undefined) {
+    const recipe = body.recipe === null ? null : normalizeRecipe(body.recipe);
+    if (body.recipe !== null && !recipe) {
+      return 'recipe must include ingredients and steps';
+    }
+    fields.recipe = recipe;
+  }
+  if (body.images !== undefined) {
+    const images = normalizeImageRecords(body.images);
+    if (!images) {
+      return 'images must be an array of image records, each with a license';
+    }
+    fields.images = images;
+  }
+  if (body.wordpress !== undefined) {
+    const wordpress = body.wordpress as {
+      accountId?: unknown;
+      postId?: unknown;
+      postUrl?: unknown;
+    } | null;
+    if (wordpress === null) {
+      fields.wordpressAccountId = null;
+      fields.wordpressPostId = null;
+      fields.wordpressPostUrl = null;
+    } else if (typeof wordpress !== 'object' || !Number.isInteger(wordpress.postId)) {
+      return 'wordpress.postId must be an integer';
+    } else {
+      fields.wordpressPostId = wordpress.postId as number;
+      fields.wordpressAccountId =
+        typeof wordpress.accountId === 'string' ? wordpress.accountId : null;
+      fields.wordpressPostUrl = typeof wordpress.postUrl === 'string' ? wordpress.postUrl : null;
+    }
+  }
+  return fields;
+}
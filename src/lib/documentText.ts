@@ -0,0 +1,346 @@
+import { inflateRawSync, inflateSync } from 'zlib';
+import he from 'he';
+import { extractMainText } from './sourceIngestion';
+
+// Text extraction for uploaded source documents. Node-only: it relies on zlib
+// to read DOCX archives and compressed PDF content streams.
+
+export type DocumentKind = 'pdf' | 'docx' | 'html' | 'text';
+
+export type ExtractedDocument = {
+  kind: DocumentKind;
+  title: string | null;
+  text: string;
+};
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+  md: 'text',
+  markdown: 'text',
+};
+
+const MIME_KINDS: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+};
+
+export function detectDocumentKind(fileName: string, mimeType = ''): DocumentKind | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? '';
+  return EXTENSION_KINDS[extension] ?? MIME_KINDS[mimeType.split(';')[0].trim().toLowerCase()] ?? null;
+}
+
+// Compressed entries and streams share this budget, so a small upload cannot
+// inflate into an unbounded amount of memory.
+const MAX_EXTRACTED_BYTES = 50 * 1024 * 1024;
+
+type InflateBudget = { remaining: number };
+
+class DocumentTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentTooLargeError';
+  }
+}
+
+function inflateWithinBudget(
+  inflate: typeof inflateSync,
+  data: Buffer,
+  budget: InflateBudget,
+  label: string
+): Buffer {
+  let output: Buffer;
+  try {
+    output = inflate(data, { maxOutputLength: Math.max(1, budget.remaining) });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new DocumentTooLargeError(
+        `${label} decompresses past the ${MAX_EXTRACTED_BYTES / 1024 / 1024} MB limit for one file`
+      );
+    }
+    throw err;
+  }
+  budget.remaining -= output.length;
+  return output;
+}
+
+function normalizeParagraphs(paragraphs: string[]): string {
+  return paragraphs
+    .map((paragraph) => paragraph.replace(/[ \t\f\v]+/g, ' ').replace(/ *\n */g, '\n').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// ─── DOCX ────────────────────────────────────────────────────────────────────
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Reads the named entries out of a ZIP archive using its central directory.
+function readZipEntries(buffer: Buffer, names: string[]): Map<string, string> {
+  const entries = new Map<string, string>();
+  const budget: InflateBudget = { remaining: MAX_EXTRACTED_BYTES };
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65_557); offset -= 1) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('The file is not a valid DOCX archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  for (let index = 0; index < entryCount; index += 1) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_ENTRY_SIGNATURE) {
+      break;
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!names.includes(name) || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      continue;
+    }
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.set(name, data.toString('utf8'));
+    } else if (method === 8) {
+      entries.set(
+        name,
+        inflateWithinBudget(inflateRawSync, data, budget, `The DOCX entry ${name}`).toString('utf8')
+      );
+    }
+  }
+  return entries;
+}
+
+function extractDocx(buffer: Buffer): ExtractedDocument {
+  const entries = readZipEntries(buffer, ['word/document.xml', 'docProps/core.xml']);
+  const documentXml = entries.get('word/document.xml');
+  if (!documentXml) {
+    throw new Error('The DOCX file has no document body');
+  }
+
+  const paragraphs = (documentXml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? []).map((paragraph) =>
+    he.decode(
+      paragraph
+        .replace(/<w:tab\/>/g, ' ')
+        .replace(/<w:br\/>/g, '\n')
+        .replace(/<w:t(?: [^>]*)?>([\s\S]*?)<\/w:t>|<[^>]+>/g, (_match, text) => text ?? '')
+    )
+  );
+  const title = entries.get('docProps/core.xml')?.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1];
+  return {
+    kind: 'docx',
+    title: title ? he.decode(title).trim() || null : null,
+    text: normalizeParagraphs(paragraphs),
+  };
+}
+
+// ─── PDF ─────────────────────────────────────────────────────────────────────
+
+const PDF_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  '(': '(',
+  ')': ')',
+  '\\': '\\',
+};
+
+// Reads a literal string starting at the "(" at `start`; returns the decoded
+// text and the index just past the closing parenthesis.
+function readLiteralString(source: string, start: number): [string, number] {
+  let depth = 0;
+  let text = '';
+  let index = start;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === '\\') {
+      const next = source[index + 1];
+      const octal = source.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)?.[0];
+      if (octal) {
+        text += String.fromCharCode(Number.parseInt(octal, 8));
+        index += 1 + octal.length;
+        continue;
+      }
+      text += PDF_ESCAPES[next] ?? (next === '\n' || next === '\r' ? '' : next);
+      index += 2;
+      continue;
+    }
+    if (char === '(') {
+      depth += 1;
+      if (depth > 1) text += char;
+    } else if (char === ')') {
+      depth -= 1;
+      if (depth === 0) return [text, index + 1];
+      text += char;
+    } else {
+      text += char;
+    }
+    index += 1;
+  }
+  return [text, index];
+}
+
+function decodePdfBytes(bytes: string): string {
+  if (bytes.startsWith('þÿ')) {
+    let text = '';
+    for (let index = 2; index + 1 < bytes.length; index += 2) {
+      text += String.fromCharCode((bytes.charCodeAt(index) << 8) | bytes.charCodeAt(index + 1));
+    }
+    return text;
+  }
+  return bytes;
+}
+
+function decodeHexString(hex: string): string {
+  const clean = hex.replace(/\s+/g, '');
+  let bytes = '';
+  for (let index = 0; index < clean.length; index += 2) {
+    bytes += String.fromCharCode(Number.parseInt(clean.slice(index, index + 2).padEnd(2, '0'), 16));
+  }
+  return decodePdfBytes(bytes);
+}
+
+const CONTENT_TOKEN_PATTERN = /\(|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/\[\]()<>]+|[A-Za-z'"*]+/g;
+
+// Walks the text operators of a page content stream. Text positioning
+// operators start a new line; large negative TJ offsets become spaces.
+function extractContentStreamText(content: string): string {
+  let output = '';
+  let inArray = false;
+  let pending: string[] = [];
+  CONTENT_TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = CONTENT_TOKEN_PATTERN.exec(content))) {
+    const token = match[0];
+    if (token === '(') {
+      const [text, end] = readLiteralString(content, match.index);
+      pending.push(decodePdfBytes(text));
+      CONTENT_TOKEN_PATTERN.lastIndex = end;
+    } else if (token.startsWith('<')) {
+      pending.push(decodeHexString(token.slice(1, -1)));
+    } else if (token === '[') {
+      inArray = true;
+    } else if (token === ']') {
+      inArray = false;
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      if (inArray && Number(token) < -200) pending.push(' ');
+    } else if (token === 'Tj' || token === 'TJ') {
+      output += pending.join('');
+      pending = [];
+    } else if (token === "'" || token === '"') {
+      output += `\n${pending.join('')}`;
+      pending = [];
+    } else if (token === 'Td' || token === 'TD' || token === 'T*' || token === 'Tm') {
+      if (!output.endsWith('\n')) output += '\n';
+    } else if (token === 'ET') {
+      output += '\n';
+    } else if (!inArray) {
+      pending = [];
+    }
+  }
+  return output;
+}
+
+function extractPdf(buffer: Buffer): ExtractedDocument {
+  const raw = buffer.toString('latin1');
+  if (!raw.startsWith('%PDF')) {
+    throw new Error('The file is not a valid PDF');
+  }
+
+  const pages: string[] = [];
+  const budget: InflateBudget = { remaining: MAX_EXTRACTED_BYTES };
+  const streamPattern = />>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(raw))) {
+    // The stream dictionary runs from the enclosing "obj" keyword to "stream".
+    const dictionary = raw.slice(Math.max(0, raw.lastIndexOf('obj', match.index)), match.index);
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+    if (/\/Subtype\s*\/(Image|Form|XML)|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) {
+      continue;
+    }
+    const filter = dictionary.match(/\/Filter\s*\[?\s*\/(\w+)/)?.[1];
+    if (filter && filter !== 'FlateDecode') {
+      continue;
+    }
+    let content: string;
+    try {
+      const bytes = buffer.subarray(start, end);
+      content = filter
+        ? inflateWithinBudget(inflateSync, bytes, budget, 'The PDF content').toString('latin1')
+        : bytes.toString('latin1');
+    } catch (err) {
+      if (err instanceof DocumentTooLargeError) throw err;
+      continue;
+    }
+    if (/\bBT\b/.test(content)) {
+      pages.push(extractContentStreamText(content));
+    }
+  }
+
+  const text = normalizeParagraphs(pages.join('\n').split(/\n{2,}/));
+  if (!text) {
+    throw new Error(
+      'No text could be extracted from this PDF. Scanned PDFs need OCR; paste the text instead.'
+    );
+  }
+  const title = raw.match(/\/Title\s*\(/);
+  return {
+    kind: 'pdf',
+    title: title ? readLiteralString(raw, title.index! + title[0].length - 1)[0].trim() || null : null,
+    text,
+  };
+}
+
+// ─── Entry point ─────────────────────────────────────────────────────────────
+
+export function extractDocumentText(
+  buffer: Buffer,
+  fileName: string,
+  mimeType = ''
+): ExtractedDocument {
+  const kind = detectDocumentKind(fileName, mimeType);
+  if (kind === 'pdf') {
+    return extractPdf(buffer);
+  }
+  if (kind === 'docx') {
+    return extractDocx(buffer);
+  }
+  if (kind === 'html') {
+    const article = extractMainText(buffer.toString('utf8'));
+    return { kind, title: article.title, text: article.text };
+  }
+  if (kind === 'text') {
+    return {
+      kind,
+      title: null,
+      text: normalizeParagraphs(buffer.toString('utf8').split(/\r?\n\s*\r?\n/)),
+    };
+  }
+  throw new Error('Unsupported file type. Upload a PDF, DOCX, HTML or text file.');
+}
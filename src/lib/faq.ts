@@ -0,0 +1,210 @@
+// FAQ sections built from Google's "People also ask" questions. Each answer is
+// written from the snippet SerpAPI returns with the question and cites the
+// page that snippet came from.
+
+import { serpapiSearch } from './serpapi';
+import { FAQ_HEADING } from './structuredData';
+
+export type FaqQuestion = {
+  question: string;
+  snippet: string;
+  url?: string;
+  source?: string;
+};
+
+export type FaqAnswer = FaqQuestion & { answer: string };
+
+export const MAX_FAQ_ITEMS = 5;
+
+const MAX_RELATED_QUESTIONS = 10;
+const MAX_ANSWER_WORDS = 60;
+const MAX_PROMPT_ARTICLE_LENGTH = 6_000;
+const HEADING_COVERAGE = 0.6;
+const MIN_PARAGRAPH_KEYWORDS = 3;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'these', 'those', 'into', 'about',
+  'your', 'you', 'our', 'are', 'was', 'were', 'has', 'have', 'how', 'what', 'why', 'when',
+  'where', 'who', 'which', 'will', 'can', 'its', 'their', 'than', 'then', 'does', 'did',
+  'should', 'there', 'much', 'many', 'long', 'any', 'get', 'use',
+]);
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<\/(p|h[1-6]|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function keywords(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+        .map((word) => (word.length > 4 ? word.replace(/s$/, '') : word))
+    )
+  );
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export function hasFaqSection(html: string): boolean {
+  return Array.from(html.matchAll(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]>/gi)).some((match) =>
+    FAQ_HEADING.test(htmlToText(match[1]))
+  );
+}
+
+// A question counts as answered when a heading covers most of its keywords or
+// one paragraph mentions all of them. The model skips any others the article
+// already answers.
+export function isQuestionAnswered(question: string, html: string): boolean {
+  const words = keywords(question);
+  if (words.length === 0) {
+    return true;
+  }
+  const headings = Array.from(html.matchAll(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]>/gi)).map(
+    (match) => new Set(keywords(htmlToText(match[1])))
+  );
+  if (
+    headings.some(
+      (heading) => words.filter((word) => heading.has(word)).length / words.length >= HEADING_COVERAGE
+    )
+  ) {
+    return true;
+  }
+  if (words.length < MIN_PARAGRAPH_KEYWORDS) {
+    return false;
+  }
+  return Array.from(html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)).some((match) => {
+    const paragraph = new Set(keywords(htmlToText(match[1])));
+    return words.every((word) => paragraph.has(word));
+  });
+}
+
+export async function fetchRelatedQuestions(
+  query: string,
+  onRequest?: () => void
+): Promise<FaqQuestion[]> {
+  const results = await serpapiSearch({
+    query,
+    engine: 'google',
+    relatedQuestions: true,
+    limit: MAX_RELATED_QUESTIONS,
+    onRequest,
+  });
+  return results
+    .map((result) => ({
+      question: (result.question ?? '').replace(/\s+/g, ' ').trim(),
+      snippet: (result.snippet ?? '').replace(/\s+/g, ' ').trim(),
+      ...(result.link && { url: result.link }),
+      ...((result.source || result.link) && { source: result.source || hostname(result.link ?? '') }),
+    }))
+    .filter((item) => item.question && item.snippet);
+}
+
+// Drops questions the draft already answers and repeats, keeping SerpAPI's order.
+export function selectFaqQuestions(
+  questions: FaqQuestion[],
+  html: string,
+  limit = MAX_FAQ_ITEMS
+): FaqQuestion[] {
+  const seen = new Set<string>();
+  return questions
+    .filter((item) => {
+      const key = keywords(item.question).sort().join(' ');
+      if (!key || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return !isQuestionAnswered(item.question, html);
+    })
+    .slice(0, limit);
+}
+
+export function buildFaqPrompt(title: string, html: string, questions: FaqQuestion[]): string {
+  const article = htmlToText(html).slice(0, MAX_PROMPT_ARTICLE_LENGTH);
+  return `
+You are adding a short FAQ to the article "${title}".
+
+Article:
+${article}
+
+Questions, each with the search snippet that answers it:
+${questions
+  .map((item, index) => `${index + 1}. ${item.question}\n   Snippet${item.source ? ` (${item.source})` : ''}: ${item.snippet}`)
+  .join('\n')}
+
+Instructions:
+- Answer each question in 1–3 sentences and under ${MAX_ANSWER_WORDS} words.
+- Use only facts from its snippet that do not contradict the article. Do not add numbers, names or dates the snippet does not give.
+- Skip a question if the article already answers it, it is off topic, or the snippet does not support an answer.
+- Write plain text without links or markdown.
+
+Return a JSON object exactly matching {"answers":[{"id":1,"answer":"..."}]}, where "id" is the question number.
+
+Respond with JSON only.
+`.trim();
+}
+
+export function parseFaqResponse(raw: string | null | undefined, questions: FaqQuestion[]): FaqAnswer[] {
+  const json = raw?.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    return [];
+  }
+  try {
+    const answers = JSON.parse(json)?.answers;
+    if (!Array.isArray(answers)) {
+      return [];
+    }
+    const byIndex = new Map<number, string>();
+    for (const entry of answers) {
+      const index = Number(entry?.id) - 1;
+      const answer = typeof entry?.answer === 'string' ? entry.answer.replace(/\s+/g, ' ').trim() : '';
+      if (Number.isInteger(index) && questions[index] && answer && !byIndex.has(index)) {
+        byIndex.set(index, answer);
+      }
+    }
+    return questions.flatMap((question, index) =>
+      byIndex.has(index) ? [{ ...question, answer: byIndex.get(index) as string }] : []
+    );
+  } catch {
+    return [];
+  }
+}
+
+// The H2/H3 layout is what the FAQPage JSON-LD reader looks for.
+export function renderFaqSection(faqs: FaqAnswer[], { includeLinks = true } = {}): string {
+  if (faqs.length === 0) {
+    return '';
+  }
+  return [
+    '<h2>FAQ</h2>',
+    ...faqs.flatMap((faq) => {
+      const citation =
+        includeLinks && faq.url
+          ? ` (<a href="${escapeHtml(faq.url)}" target="_blank">${escapeHtml(faq.source || hostname(faq.url) || 'Source')}</a>)`
+          : '';
+      return [`<h3>${escapeHtml(faq.question)}</h3>`, `<p>${escapeHtml(faq.answer)}${citation}</p>`];
+    }),
+  ].join('\n');
+}
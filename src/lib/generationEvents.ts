@@ -0,0 +1,160 @@
+import type { UsageEvent } from './usage';
+import type { VerificationReport } from './verificationReport';
+
+export type GenerationStage =
+  | 'sources'
+  | 'outline'
+  | 'draft'
+  | 'links'
+  | 'expansion'
+  | 'verification'
+  | 'revision'
+  | 'faq'
+  | 'seo';
+
+export type GenerationSourceSummary = {
+  url: string;
+  title?: string;
+  publishedAt?: string;
+};
+
+export type GenerationEvent =
+  | {
+      type: 'stage';
+      stage: GenerationStage;
+      status: 'started' | 'completed' | 'failed';
+      elapsedMs?: number;
+    }
+  | { type: 'sources'; sources: GenerationSourceSummary[] }
+  | { type: 'outline'; outline: string }
+  | { type: 'draft'; delta: string; reset?: boolean }
+  | {
+      type: 'expansion';
+      attempt: number;
+      wordCount: number;
+      minWords: number;
+      headings: string[];
+      content: string;
+    }
+  | {
+      type: 'verification';
+      isAccurate: boolean;
+      discrepancies: string[];
+      report: VerificationReport;
+    }
+  | { type: 'revision'; previousContent: string }
+  | { type: 'usage'; usage: UsageEvent }
+  | { type: 'complete'; status: number; body: any }
+  | { type: 'error'; status: number; error: string; body?: any };
+
+export type GenerationEventHandler = (event: GenerationEvent) => void;
+
+export const GENERATION_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export function emitGenerationEvent(
+  onEvent: GenerationEventHandler | undefined,
+  event: GenerationEvent
+): void {
+  if (!onEvent) {
+    return;
+  }
+  try {
+    onEvent(event);
+  } catch (err) {
+    console.warn('[generationEvents] event handler failed', err);
+  }
+}
+
+export async function trackGenerationStage<T>(
+  onEvent: GenerationEventHandler | undefined,
+  stage: GenerationStage,
+  task: () => Promise<T>
+): Promise<T> {
+  if (!onEvent) {
+    return task();
+  }
+
+  const startedAt = Date.now();
+  emitGenerationEvent(onEvent, { type: 'stage', stage, status: 'started' });
+  try {
+    const result = await task();
+    emitGenerationEvent(onEvent, {
+      type: 'stage',
+      stage,
+      status: 'completed',
+      elapsedMs: Date.now() - startedAt,
+    });
+    return result;
+  } catch (err) {
+    emitGenerationEvent(onEvent, {
+      type: 'stage',
+      stage,
+      status: 'failed',
+      elapsedMs: Date.now() - startedAt,
+    });
+    throw err;
+  }
+}
+
+// Runs a generation pipeline and streams every emitted event as one JSON line.
+// The pipeline's final Response is forwarded as a terminal `complete` or
+// `error` event carrying the original status code and JSON body.
+export function createGenerationEventStream(
+  run: (onEvent: GenerationEventHandler) => Promise<Response>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (event: GenerationEvent) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        const response = await run(write);
+        let body: any = null;
+        try {
+          body = await response.json();
+        } catch {
+          body = null;
+        }
+
+        if (response.ok) {
+          write({ type: 'complete', status: response.status, body });
+        } else {
+          write({
+            type: 'error',
+            status: response.status,
+            error:
+              (body && typeof body.error === 'string' && body.error) ||
+              `Request failed with status ${response.status}`,
+            body,
+          });
+        }
+      } catch (err: any) {
+        write({
+          type: 'error',
+          status: 500,
+          error: err?.message || 'Internal error',
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // The consumer already cancelled the stream.
+          }
+        }
+      }
+    },
+  });
+}
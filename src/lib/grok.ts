@@ -9,7 +9,10 @@ interface GrokChatCompletionRequest {
   model: string;
   messages: GrokChatCompletionMessage[];
   temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: 'json_object' | 'text' };
   stream?: boolean;
+  stream_options?: { include_usage?: boolean };
 }
 
 interface GrokChatCompletionChoice {
@@ -17,10 +20,18 @@ interface GrokChatCompletionChoice {
     role?: string;
     content?: string;
   };
+  finish_reason?: string | null;
+}
+
+export interface GrokChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
 }
 
 export interface GrokChatCompletionResponse {
   choices: GrokChatCompletionChoice[];
+  usage?: GrokChatCompletionUsage;
   [key: string]: unknown;
 }
 
@@ -49,7 +60,7 @@ function getHeaders(): HeadersInit {
 
 export async function runChatCompletion(
   request: GrokChatCompletionRequest,
-  init: { signal?: AbortSignal } = {}
+  init: { signal?: AbortSignal; onDelta?: (delta: string) => void } = {}
 ): Promise<GrokChatCompletionResponse> {
   const headers = getHeaders();
   const response = await fetch(GROK_ENDPOINT, {
@@ -88,6 +99,8 @@ export async function runChatCompletion(
     let buffer = '';
     let role: string | undefined;
     let aggregatedContent = '';
+    let finishReason: string | null = null;
+    let usage: GrokChatCompletionUsage | undefined;
 
     const processEvent = (event: string) => {
       const lines = event.split(/\r?\n/);
@@ -107,6 +120,10 @@ export async function runChatCompletion(
           throw new Error('Failed to parse Grok streaming payload');
         }
 
+        if (parsed?.usage && typeof parsed.usage === 'object') {
+          usage = parsed.usage;
+        }
+
         const choices = Array.isArray(parsed?.choices) ? parsed.choices : [];
         for (const choice of choices) {
           const delta = choice?.delta ?? {};
@@ -115,6 +132,12 @@ export async function runChatCompletion(
           }
           if (typeof delta.content === 'string') {
             aggregatedContent += delta.content;
+            if (delta.content) {
+              init.onDelta?.(delta.content);
+            }
+          }
+          if (typeof choice?.finish_reason === 'string') {
+            finishReason = choice.finish_reason;
           }
         }
       }
@@ -178,8 +201,10 @@ export async function runChatCompletion(
             role: role || 'assistant',
             content: aggregatedContent,
           },
+          finish_reason: finishReason,
         },
       ],
+      ...(usage ? { usage } : {}),
     } satisfies GrokChatCompletionResponse;
   }
 
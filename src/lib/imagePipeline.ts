@@ -0,0 +1,226 @@
+// Server-side image handling for WordPress uploads: reads the article's remote
+// and inline images, resizes and re-encodes them with sharp (which drops EXIF
+// and other metadata), and rewrites the HTML to point at the uploaded media.
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { getCenterCropRegion, getCroppedImg } from '../utils/imageCrop';
+import { fetchPublicUrl, readLimitedBody, type PublicFetchOptions } from './safeFetch';
+import { findImages, htmlToPlainText, readAttribute } from './seoAudit';
+import { describeImage, MAX_ALT_TEXT_LENGTH, setAltAttribute } from './seoAuditFixes';
+import type { ImageFormat, ImagePipelineOptions } from './imagePipelineOptions';
+
+export const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+export const MAX_CAPTION_LENGTH = 160;
+
+const MIME_TYPES: Record<ImageFormat, string> = { webp: 'image/webp', jpeg: 'image/jpeg' };
+
+export type ArticleImage = {
+  start: number;
+  end: number;
+  tag: string;
+  src: string;
+  alt: string;
+  // File name and nearby text, for writing alt text and captions.
+  context: string;
+  // Already inside a <figure>, which keeps its own caption.
+  inFigure: boolean;
+};
+
+// Images that still need uploading: remote URLs and data URLs. Images already
+// in the site's media library are left alone.
+export function findArticleImages(html: string, siteUrl: string): ArticleImage[] {
+  const uploads = `${siteUrl.replace(/\/+$/, '')}/wp-content/uploads/`;
+  return findImages(html)
+    .map((image) => {
+      const src = (readAttribute(image.html, 'src') ?? '').replace(/&amp;/g, '&').trim();
+      return {
+        start: image.start,
+        end: image.end,
+        tag: image.html,
+        src,
+        alt: htmlToPlainText(readAttribute(image.html, 'alt') ?? ''),
+        context: describeImage(html, image.start, image.end, image.html),
+        inFigure: html.lastIndexOf('<figure', image.start) > html.lastIndexOf('</figure', image.start),
+      };
+    })
+    .filter((image) => /^(https?:\/\/|data:image\/)/i.test(image.src) && !image.src.startsWith(uploads));
+}
+
+// Reads a data URL or downloads a remote image, refusing private hosts and
+// anything too large to be a sensible article image.
+export async function readImageSource(src: string, options: PublicFetchOptions = {}): Promise<Buffer> {
+  let data: Buffer;
+  if (src.startsWith('data:')) {
+    const [header, payload = ''] = src.split(',', 2);
+    data = header.endsWith(';base64')
+      ? Buffer.from(payload, 'base64')
+      : Buffer.from(decodeURIComponent(payload));
+  } else {
+    const res = await fetchPublicUrl(src, options);
+    if (!res.ok) {
+      throw new Error(`Download failed (${res.status})`);
+    }
+    if (Number(res.headers.get('content-length')) > MAX_IMAGE_BYTES) {
+      throw new Error('Image is too large');
+    }
+    const body = await readLimitedBody(res, MAX_IMAGE_BYTES);
+    if (body.truncated) {
+      throw new Error('Image is too large');
+    }
+    data = body.data;
+  }
+  if (!data.length || data.length > MAX_IMAGE_BYTES) {
+    throw new Error(data.length ? 'Image is too large' : 'Image is empty');
+  }
+  return data;
+}
+
+// Identifies an image by its original bytes, so the same picture is uploaded
+// to a site only once.
+export function hashImage(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export type ProcessedImage = {
+  data: Buffer;
+  width: number;
+  height: number;
+  mimeType: string;
+  extension: string;
+};
+
+// Applies the EXIF orientation, then resizes and re-encodes. sharp writes no
+// metadata unless asked to, so EXIF data such as GPS position is stripped.
+export async function processImage(data: Buffer, options: ImagePipelineOptions): Promise<ProcessedImage> {
+  const pipeline = sharp(data, { failOn: 'error' })
+    .rotate()
+    .resize({ width: options.maxWidth, withoutEnlargement: true });
+  const encoded =
+    options.format === 'webp'
+      ? pipeline.webp({ quality: options.quality })
+      : pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: options.quality, mozjpeg: true });
+  const { data: output, info } = await encoded.toBuffer({ resolveWithObject: true });
+  return {
+    data: output,
+    width: info.width,
+    height: info.height,
+    mimeType: MIME_TYPES[options.format],
+    extension: options.format === 'jpeg' ? 'jpg' : 'webp',
+  };
+}
+
+// Center-crops to an exact size, e.g. a site's featured image or aspect ratio.
+// The EXIF orientation is applied first so the crop is taken on the image as
+// it is displayed. The result is a JPEG.
+export async function cropToSize(image: Buffer, width: number, height: number): Promise<Buffer> {
+  const { data: upright, info } = await sharp(image, { failOn: 'error' })
+    .rotate()
+    .toBuffer({ resolveWithObject: true });
+  if (!info.width || !info.height) {
+    throw new Error('Could not read the image size');
+  }
+  const region = getCenterCropRegion(info.width, info.height, width, height);
+  return getCroppedImg(upright, region, width, height);
+}
+
+// A readable file name from the source URL, falling back to the article.
+export function mediaFileName(src: string, fallback: string, extension: string): string {
+  const fromUrl = src.startsWith('data:') ? '' : src.split(/[?#]/)[0].split('/').pop() ?? '';
+  const base = (fromUrl.replace(/\.[a-z0-9]+$/i, '') || fallback)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${base || 'image'}.${extension}`;
+}
+
+export type ImageText = { alt: string; caption: string };
+
+export function buildImageTextPrompt(title: string, images: ArticleImage[]): string {
+  return [
+    `You are writing image text for the article "${title || 'Untitled article'}".`,
+    '',
+    'For each image write:',
+    `- "alt": a plain description of what it most likely shows, under ${MAX_ALT_TEXT_LENGTH} characters. Do not start with "image of" or "picture of".`,
+    `- "caption": one short sentence to show under the image, under ${MAX_CAPTION_LENGTH} characters, tying it to the article.`,
+    'Use the file name, any existing alt text and the nearby text as clues. Do not add facts.',
+    `Return valid JSON exactly matching {"images":[{"id":1,"alt":"...","caption":"..."}]} with ${images.length} ${images.length === 1 ? 'entry' : 'entries'}, using double quotes.`,
+    '',
+    'Images:',
+    ...images.map(
+      (image, index) =>
+        `${index + 1}. ${image.context}${image.alt ? `\nExisting alt text: "${image.alt}"` : ''}`
+    ),
+  ].join('\n');
+}
+
+// Returns the text by image id (1-based). Entries the model skipped or left
+// blank are missing from the map.
+export function parseImageTextResponse(raw: string | null | undefined): Map<number, ImageText> {
+  const texts = new Map<number, ImageText>();
+  const json = raw?.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    return texts;
+  }
+  try {
+    const images = JSON.parse(json)?.images;
+    for (const entry of Array.isArray(images) ? images : []) {
+      const alt =
+        typeof entry?.alt === 'string' ? htmlToPlainText(entry.alt).slice(0, MAX_ALT_TEXT_LENGTH) : '';
+      const caption =
+        typeof entry?.caption === 'string'
+          ? htmlToPlainText(entry.caption).slice(0, MAX_CAPTION_LENGTH)
+          : '';
+      if (Number.isInteger(entry?.id) && (alt || caption)) {
+        texts.set(entry.id, { alt, caption });
+      }
+    }
+  } catch {
+    return texts;
+  }
+  return texts;
+}
+
+export type ImageRewrite = {
+  image: ArticleImage;
+  url: string;
+  mediaId: number;
+  alt: string;
+  caption: string;
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function setAttribute(tag: string, name: string, value: string): string {
+  const attribute = `${name}="${escapeHtml(value).replace(/"/g, '&quot;')}"`;
+  const pattern = new RegExp(`(\\s)${name}\\s*=\\s*("[^"]*"|'[^']*'|[^\\s>]+)`, 'i');
+  return pattern.test(tag)
+    ? tag.replace(pattern, `$1${attribute}`)
+    : tag.replace(/^<img\b/i, `<img ${attribute}`);
+}
+
+// Points each image at its uploaded copy. srcset and sizes still name the old
+// files, so they are dropped. Images without a caption get a <figure> when
+// captions are inserted.
+export function rewriteImageTags(html: string, rewrites: ImageRewrite[], insertCaptions = false): string {
+  let result = html;
+  const ordered = [...rewrites].sort((a, b) => b.image.start - a.image.start);
+  for (const { image, url, mediaId, alt, caption } of ordered) {
+    let tag = setAttribute(image.tag, 'src', url)
+      .replace(/\s(srcset|sizes)\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '');
+    if (!image.alt && alt) {
+      tag = setAltAttribute(tag, alt);
+    }
+    const classes = (readAttribute(tag, 'class') ?? '')
+      .split(/\s+/)
+      .filter((name) => name && !/^wp-image-\d+$/.test(name));
+    tag = setAttribute(tag, 'class', [...classes, `wp-image-${mediaId}`].join(' '));
+    if (insertCaptions && caption && !image.inFigure) {
+      tag = `<figure class="wp-caption">${tag}<figcaption>${escapeHtml(caption)}</figcaption></figure>`;
+    }
+    result = result.slice(0, image.start) + tag + result.slice(image.end);
+  }
+  return result;
+}
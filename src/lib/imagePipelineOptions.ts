@@ -0,0 +1,54 @@
+// Settings for the server-side image pipeline. Kept apart from the pipeline
+// itself so the publish panel can use them without bundling sharp.
+
+export type ImageFormat = 'webp' | 'jpeg';
+
+export const IMAGE_FORMATS: ImageFormat[] = ['webp', 'jpeg'];
+
+export type ImagePipelineOptions = {
+  maxWidth: number;
+  quality: number;
+  format: ImageFormat;
+  // Wrap images in a <figure> with the generated caption.
+  insertCaptions: boolean;
+};
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxWidth: 1200,
+  quality: 82,
+  format: 'webp',
+  insertCaptions: false,
+};
+
+export const MIN_IMAGE_WIDTH = 320;
+export const MAX_IMAGE_WIDTH = 4000;
+
+export function parseImagePipelineOptions(body: {
+  maxWidth?: unknown;
+  quality?: unknown;
+  format?: unknown;
+  insertCaptions?: unknown;
+}): ImagePipelineOptions | string {
+  const maxWidth = body.maxWidth ?? DEFAULT_IMAGE_OPTIONS.maxWidth;
+  if (
+    !Number.isInteger(maxWidth) ||
+    (maxWidth as number) < MIN_IMAGE_WIDTH ||
+    (maxWidth as number) > MAX_IMAGE_WIDTH
+  ) {
+    return `maxWidth must be a whole number from ${MIN_IMAGE_WIDTH} to ${MAX_IMAGE_WIDTH}`;
+  }
+  const quality = body.quality ?? DEFAULT_IMAGE_OPTIONS.quality;
+  if (!Number.isInteger(quality) || (quality as number) < 1 || (quality as number) > 100) {
+    return 'quality must be a whole number from 1 to 100';
+  }
+  const format = body.format ?? DEFAULT_IMAGE_OPTIONS.format;
+  if (!IMAGE_FORMATS.includes(format as ImageFormat)) {
+    return `format must be one of ${IMAGE_FORMATS.join(', ')}`;
+  }
+  return {
+    maxWidth: maxWidth as number,
+    quality: quality as number,
+    format: format as ImageFormat,
+    insertCaptions: body.insertCaptions === true,
+  };
+}
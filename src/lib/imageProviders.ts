@@ -0,0 +1,227 @@
+// Where article images come from. Stock providers search a photo library and
+// return several candidates per slot; generation providers draw one image
+// from the slot's prompt. A provider is offered once its API key is set.
+
+import { getOpenAI } from './openai';
+import type { AspectRatio, ImageCandidate, ImageSourceKind, ImageSlot } from './articleImages';
+
+export type ImageProviderId = 'unsplash' | 'pexels' | 'openai';
+
+export type ImageRequest = {
+  slot: ImageSlot;
+  aspect: AspectRatio;
+  count: number;
+};
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  kind: ImageSourceKind;
+  // Hosts the provider serves full-size images from. Only these are downloaded.
+  imageHosts: string[];
+  isConfigured(): boolean;
+  findImages(request: ImageRequest, fetchImpl?: typeof fetch): Promise<ImageCandidate[]>;
+  // Called when a candidate is inserted, for providers that count downloads.
+  trackDownload?(candidate: ImageCandidate, fetchImpl?: typeof fetch): Promise<void>;
+}
+
+const DEFAULT_IMAGE_GENERATION_MODEL = 'gpt-image-1';
+const STOCK_DOWNLOAD_WIDTH = 2400;
+
+function orientation(aspect: AspectRatio): 'landscape' | 'portrait' | 'square' {
+  const ratio = aspect.width / aspect.height;
+  return ratio > 1.1 ? 'landscape' : ratio < 0.9 ? 'portrait' : 'square';
+}
+
+function unsplashReferral(url: string): string {
+  const app = process.env.UNSPLASH_APP_NAME?.trim() || 'article_generator';
+  return `${url}${url.includes('?') ? '&' : '?'}utm_source=${encodeURIComponent(app)}&utm_medium=referral`;
+}
+
+// Unsplash asks for the photographer and Unsplash to be credited with
+// referral links, and for each use to be reported to download_location.
+const unsplashProvider: ImageProvider = {
+  id: 'unsplash',
+  label: 'Unsplash',
+  kind: 'stock',
+  imageHosts: ['images.unsplash.com'],
+  isConfigured: () => Boolean(process.env.UNSPLASH_ACCESS_KEY?.trim()),
+  async findImages({ slot, aspect, count }, fetchImpl = fetch) {
+    const params = new URLSearchParams({
+      query: slot.query,
+      per_page: String(count),
+      orientation: orientation(aspect) === 'square' ? 'squarish' : orientation(aspect),
+      content_filter: 'high',
+    });
+    const res = await fetchImpl(`https://api.unsplash.com/search/photos?${params}`, {
+      headers: {
+        Authorization: `Client-ID ${process.env.UNSPLASH_ACCESS_KEY?.trim()}`,
+        'Accept-Version': 'v1',
+      },
+    });
+    if (!res.ok) {
+      throw new Error(`Unsplash search failed (${res.status})`);
+    }
+    const data = await res.json();
+    return (Array.isArray(data?.results) ? data.results : [])
+      .filter((photo: any) => photo?.urls?.raw)
+      .map(
+        (photo: any): ImageCandidate => ({
+          id: String(photo.id),
+          provider: 'unsplash',
+          kind: 'stock',
+          src: `${photo.urls.raw}${photo.urls.raw.includes('?') ? '&' : '?'}w=${STOCK_DOWNLOAD_WIDTH}&fm=jpg&q=85`,
+          previewUrl: photo.urls.small ?? photo.urls.thumb ?? photo.urls.raw,
+          width: photo.width ?? 0,
+          height: photo.height ?? 0,
+          alt: photo.alt_description ?? photo.description ?? '',
+          credit: {
+            provider: 'Unsplash',
+            author: photo.user?.name ?? null,
+            authorUrl: photo.user?.links?.html ? unsplashReferral(photo.user.links.html) : null,
+            sourceUrl: unsplashReferral(photo.links?.html ?? 'https://unsplash.com/'),
+          },
+          license: { name: 'Unsplash License', url: 'https://unsplash.com/license' },
+          ...(photo.links?.download_location && { downloadUrl: photo.links.download_location }),
+        })
+      );
+  },
+  async trackDownload(candidate, fetchImpl = fetch) {
+    if (!candidate.downloadUrl?.startsWith('https://api.unsplash.com/')) return;
+    try {
+      await fetchImpl(candidate.downloadUrl, {
+        headers: { Authorization: `Client-ID ${process.env.UNSPLASH_ACCESS_KEY?.trim()}` },
+      });
+    } catch (err) {
+      console.warn('[images] failed to report Unsplash download', err);
+    }
+  },
+};
+
+const pexelsProvider: ImageProvider = {
+  id: 'pexels',
+  label: 'Pexels',
+  kind: 'stock',
+  imageHosts: ['images.pexels.com'],
+  isConfigured: () => Boolean(process.env.PEXELS_API_KEY?.trim()),
+  async findImages({ slot, aspect, count }, fetchImpl = fetch) {
+    const params = new URLSearchParams({
+      query: slot.query,
+      per_page: String(count),
+      orientation: orientation(aspect),
+    });
+    const res = await fetchImpl(`https://api.pexels.com/v1/search?${params}`, {
+      headers: { Authorization: process.env.PEXELS_API_KEY?.trim() ?? '' },
+    });
+    if (!res.ok) {
+      throw new Error(`Pexels search failed (${res.status})`);
+    }
+    const data = await res.json();
+    return (Array.isArray(data?.photos) ? data.photos : [])
+      .filter((photo: any) => photo?.src?.large2x || photo?.src?.original)
+      .map(
+        (photo: any): ImageCandidate => ({
+          id: String(photo.id),
+          provider: 'pexels',
+          kind: 'stock',
+          src: photo.src.large2x ?? photo.src.original,
+          previewUrl: photo.src.medium ?? photo.src.large2x ?? photo.src.original,
+          width: photo.width ?? 0,
+          height: photo.height ?? 0,
+          alt: photo.alt ?? '',
+          credit: {
+            provider: 'Pexels',
+            author: photo.photographer ?? null,
+            authorUrl: photo.photographer_url ?? null,
+            sourceUrl: photo.url ?? 'https://www.pexels.com/',
+          },
+          license: { name: 'Pexels License', url: 'https://www.pexels.com/license/' },
+        })
+      );
+  },
+};
+
+// The closest size the model can draw; the result is cropped afterwards.
+function generationSize(model: string, aspect: AspectRatio) {
+  const shape = orientation(aspect);
+  if (shape === 'square') return '1024x1024';
+  if (model.startsWith('dall-e')) return shape === 'landscape' ? '1792x1024' : '1024x1792';
+  return shape === 'landscape' ? '1536x1024' : '1024x1536';
+}
+
+const openaiImageProvider: ImageProvider = {
+  id: 'openai',
+  label: 'OpenAI image generation',
+  kind: 'generated',
+  // Generated images arrive as data URLs
+  imageHosts: [],
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY?.trim()),
+  async findImages({ slot, aspect }) {
+    const model = process.env.IMAGE_GENERATION_MODEL?.trim() || DEFAULT_IMAGE_GENERATION_MODEL;
+    const size = generationSize(model, aspect);
+    const response = await getOpenAI().images.generate({
+      model,
+      prompt: slot.prompt,
+      n: 1,
+      size,
+      // gpt-image models always return base64 and reject response_format
+      ...(model.startsWith('dall-e') && { response_format: 'b64_json' as const }),
+    });
+    const [width, height] = size.split('x').map(Number);
+    return (response.data ?? [])
+      .filter((image) => image.b64_json)
+      .map(
+        (image, index): ImageCandidate => {
+          const src = `data:image/png;base64,${image.b64_json}`;
+          return {
+            id: `openai-${Date.now()}-${index}`,
+            provider: 'openai',
+            kind: 'generated',
+            src,
+            previewUrl: src,
+            width,
+            height,
+            alt: slot.alt,
+            credit: { provider: 'OpenAI', author: null, authorUrl: null, sourceUrl: null },
+            license: {
+              name: `AI-generated with ${model}`,
+              url: 'https://openai.com/policies/terms-of-use',
+            },
+          };
+        }
+      );
+  },
+};
+
+export const IMAGE_PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+  unsplash: unsplashProvider,
+  pexels: pexelsProvider,
+  openai: openaiImageProvider,
+};
+
+export function getImageProvider(id: string): ImageProvider | null {
+  const provider = Object.prototype.hasOwnProperty.call(IMAGE_PROVIDERS, id)
+    ? IMAGE_PROVIDERS[id as ImageProviderId]
+    : null;
+  return provider?.isConfigured() ? provider : null;
+}
+
+// True for a data:image URL or an https URL on one of the provider's image
+// hosts, so candidates sent back by the browser cannot point anywhere else.
+export function isProviderImageUrl(provider: ImageProvider | null, src: string): boolean {
+  if (/^data:image\//i.test(src)) {
+    return true;
+  }
+  try {
+    const url = new URL(src);
+    return url.protocol === 'https:' && Boolean(provider?.imageHosts.includes(url.hostname));
+  } catch {
+    return false;
+  }
+}
+
+export function listImageProviders(): Array<Pick<ImageProvider, 'id' | 'label' | 'kind'>> {
+  return Object.values(IMAGE_PROVIDERS)
+    .filter((provider) => provider.isConfigured())
+    .map(({ id, label, kind }) => ({ id, label, kind }));
+}
@@ -0,0 +1,359 @@
+import he from 'he';
+
+// Internal linking against the connected WordPress site: an in-memory index of
+// its published posts, relevance selection for an article, and the pass that
+// marks or inserts the internal links in the generated HTML.
+
+export type InternalLinkCandidate = {
+  url: string;
+  title: string;
+  slug: string;
+  excerpt: string;
+};
+
+export type InternalLink = {
+  url: string;
+  title: string;
+};
+
+export type InternalLinkFetchOptions = {
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+};
+
+export const MIN_INTERNAL_LINKS = 2;
+export const MAX_INTERNAL_LINKS = 5;
+export const INTERNAL_LINK_ATTRIBUTE = 'data-link-type="internal"';
+
+const POSTS_PER_PAGE = 100;
+const MAX_INDEX_PAGES = 3;
+const FETCH_TIMEOUT_MS = 10_000;
+const INDEX_TTL_MS = 60 * 60 * 1000;
+const FAILURE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_SITES = 50;
+const MAX_EXCERPT_LENGTH = 300;
+const MAX_ANCHOR_WORDS = 5;
+const RELATED_READING_LABEL = 'Related reading:';
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'these', 'those', 'into', 'about',
+  'your', 'you', 'our', 'are', 'was', 'were', 'has', 'have', 'how', 'what', 'why', 'when',
+  'where', 'who', 'which', 'will', 'can', 'its', 'their', 'than', 'then', 'over', 'after',
+  'before', 'more', 'most', 'best', 'new', 'all', 'not', 'but', 'out', 'get', 'top',
+]);
+
+const ANCHOR_PATTERN = /<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi;
+
+const indexCache = new Map<string, { posts: InternalLinkCandidate[]; expiresAt: number }>();
+
+function stripHtml(html: string): string {
+  return he.decode(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length >= 3 && !STOPWORDS.has(token))
+  );
+}
+
+// Compares links by host and path so trailing slashes, "www." and query
+// strings added by the model do not hide a match.
+function normalizeLinkUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function toCandidate(post: any): InternalLinkCandidate | null {
+  const url = typeof post?.link === 'string' ? post.link.trim() : '';
+  const title = stripHtml(post?.title?.rendered ?? '');
+  if (!url || !title) {
+    return null;
+  }
+  return {
+    url,
+    title,
+    slug: typeof post.slug === 'string' ? post.slug : '',
+    excerpt: stripHtml(post?.excerpt?.rendered ?? '').slice(0, MAX_EXCERPT_LENGTH),
+  };
+}
+
+// Lists published posts through the WordPress REST API, newest first, up to
+// MAX_INDEX_PAGES pages. Only the fields needed for linking are requested.
+export async function fetchWordPressPosts(
+  siteUrl: string,
+  authorization: string | null,
+  { fetchImpl, timeoutMs = FETCH_TIMEOUT_MS }: InternalLinkFetchOptions = {}
+): Promise<InternalLinkCandidate[]> {
+  const requester = fetchImpl ?? fetch;
+  const base = siteUrl.replace(/\/+$/, '');
+  const posts: InternalLinkCandidate[] = [];
+
+  for (let page = 1; page <= MAX_INDEX_PAGES; page += 1) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await requester(
+        `${base}/wp-json/wp/v2/posts?status=publish&per_page=${POSTS_PER_PAGE}&page=${page}&_fields=link,slug,title,excerpt`,
+        {
+          signal: controller.signal,
+          headers: {
+            Accept: 'application/json',
+            ...(authorization && { Authorization: authorization }),
+          },
+        }
+      );
+      if (!response.ok) {
+        if (page === 1) {
+          throw new Error(`WordPress returned ${response.status} when listing posts`);
+        }
+        break;
+      }
+      const items = await response.json();
+      if (!Array.isArray(items)) {
+        break;
+      }
+      for (const item of items) {
+        const candidate = toCandidate(item);
+        if (candidate) {
+          posts.push(candidate);
+        }
+      }
+      const totalPages = Number(response.headers.get('x-wp-totalpages'));
+      if (items.length < POSTS_PER_PAGE || (totalPages > 0 && page >= totalPages)) {
+        break;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  return posts;
+}
+
+// Returns the cached post index for a site, rebuilding it once it expires. A
+// site that cannot be listed yields an empty index for a few minutes instead
+// of failing generation.
+export async function loadInternalLinkIndex(
+  siteUrl: string,
+  authorization: string | null,
+  options: InternalLinkFetchOptions = {}
+): Promise<InternalLinkCandidate[]> {
+  const cached = indexCache.get(siteUrl);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.posts;
+  }
+
+  let posts: InternalLinkCandidate[] = [];
+  let ttl = INDEX_TTL_MS;
+  try {
+    posts = await fetchWordPressPosts(siteUrl, authorization, options);
+  } catch (err) {
+    console.warn(`[internal-links] failed to index ${siteUrl}`, err);
+    ttl = FAILURE_TTL_MS;
+  }
+
+  indexCache.delete(siteUrl);
+  if (indexCache.size >= MAX_CACHED_SITES) {
+    const oldest = indexCache.keys().next().value;
+    if (oldest !== undefined) {
+      indexCache.delete(oldest);
+    }
+  }
+  indexCache.set(siteUrl, { posts, expiresAt: Date.now() + ttl });
+  return posts;
+}
+
+export function clearInternalLinkIndex() {
+  indexCache.clear();
+}
+
+// Ranks posts by how many topic terms their title shares (weighted double)
+// plus terms shared by the excerpt or slug. Posts with no title overlap are
+// never suggested.
+export function selectInternalLinks(
+  posts: InternalLinkCandidate[],
+  query: string,
+  { maxLinks = MAX_INTERNAL_LINKS, excludeUrls = [] as string[] } = {}
+): InternalLinkCandidate[] {
+  const queryTokens = tokenize(query);
+  const excluded = new Set(excludeUrls.map(normalizeLinkUrl));
+  const seen = new Set<string>();
+  const scored: Array<{ post: InternalLinkCandidate; score: number; index: number }> = [];
+
+  posts.forEach((post, index) => {
+    const key = normalizeLinkUrl(post.url);
+    if (excluded.has(key) || seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    const titleTokens = tokenize(post.title);
+    const bodyTokens = tokenize(`${post.excerpt} ${post.slug.replace(/-/g, ' ')}`);
+    let titleOverlap = 0;
+    let bodyOverlap = 0;
+    for (const token of queryTokens) {
+      if (titleTokens.has(token)) {
+        titleOverlap += 1;
+      } else if (bodyTokens.has(token)) {
+        bodyOverlap += 1;
+      }
+    }
+    if (titleOverlap > 0) {
+      scored.push({ post, score: titleOverlap * 2 + bodyOverlap, index });
+    }
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, maxLinks)
+    .map((item) => item.post);
+}
+
+export function buildInternalLinkInstruction(links: InternalLink[]): string {
+  if (!links.length) {
+    return '';
+  }
+  const minLinks = Math.min(MIN_INTERNAL_LINKS, links.length);
+  const maxLinks = Math.min(MAX_INTERNAL_LINKS, links.length);
+  const range = minLinks === maxLinks ? `${maxLinks}` : `${minLinks}–${maxLinks}`;
+  return `- Add internal links to ${range} of these related articles from the publisher's own site where they fit naturally, using descriptive anchor text. Link each at most once, without target="_blank", and do not treat them as reporting sources:\n${links
+    .map((link) => `    - ${link.url} (${link.title})`)
+    .join('\n')}`;
+}
+
+function markInternal(attributes: string): string {
+  const cleaned = attributes.replace(/\s+(?:target|rel)\s*=\s*(["'])[^"']*\1/gi, '');
+  return /\bdata-link-type\s*=/.test(cleaned) ? cleaned : `${cleaned} ${INTERNAL_LINK_ATTRIBUTE}`;
+}
+
+function buildAnchorPhrases(title: string): string[] {
+  const words = title
+    .split(/\s+/)
+    .map((word) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter(Boolean);
+  const isEdgeWord = (word: string) => word.length >= 3 && !STOPWORDS.has(word.toLowerCase());
+  const phrases: string[] = [];
+  for (let size = Math.min(MAX_ANCHOR_WORDS, words.length); size >= 2; size -= 1) {
+    for (let start = 0; start + size <= words.length; start += 1) {
+      const window = words.slice(start, start + size);
+      if (isEdgeWord(window[0]) && isEdgeWord(window[window.length - 1])) {
+        phrases.push(window.join(' '));
+      }
+    }
+  }
+  return Array.from(new Set(phrases));
+}
+
+// Links the first paragraph or list item text that contains a phrase from the
+// post title. Headings and existing links are left alone.
+function insertAnchor(html: string, link: InternalLink): string | null {
+  const segments = html.split(/(<a\b[\s\S]*?<\/a\s*>|<[^>]+>)/i);
+  for (const phrase of buildAnchorPhrases(link.title)) {
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${escapeRegExp(phrase)})(?=$|[^\\p{L}\\p{N}])`, 'iu');
+    let inBody = false;
+    for (let index = 0; index < segments.length; index += 1) {
+      const segment = segments[index];
+      if (segment.startsWith('<')) {
+        if (/^<(p|li)\b/i.test(segment)) inBody = true;
+        else if (/^<\/(p|li)\b/i.test(segment)) inBody = false;
+        continue;
+      }
+      if (!inBody || !pattern.test(segment)) {
+        continue;
+      }
+      segments[index] = segment.replace(
+        pattern,
+        (_match, prefix: string, text: string) =>
+          `${prefix}<a href="${escapeHtml(link.url)}" ${INTERNAL_LINK_ATTRIBUTE}>${text}</a>`
+      );
+      return segments.join('');
+    }
+  }
+  return null;
+}
+
+// Marks links to the selected posts as internal and, when the draft has fewer
+// than MIN_INTERNAL_LINKS of them, links matching title phrases in the body.
+// Posts that still have no natural anchor go into a closing "Related reading"
+// line. Returns the updated HTML and the internal links it now contains.
+export function applyInternalLinks(
+  html: string,
+  candidates: InternalLink[],
+  minLinks = MIN_INTERNAL_LINKS
+): { html: string; links: InternalLink[] } {
+  if (!candidates.length) {
+    return { html, links: [] };
+  }
+  const byUrl = new Map(candidates.map((link) => [normalizeLinkUrl(link.url), link]));
+  const linked = new Map<string, InternalLink>();
+
+  let result = html.replace(ANCHOR_PATTERN, (anchor, attributes: string, text: string) => {
+    const href = attributes.match(/\bhref\s*=\s*(["'])([^"']*)\1/i)?.[2];
+    const link = href ? byUrl.get(normalizeLinkUrl(href.replace(/&amp;/g, '&'))) : undefined;
+    if (!link) {
+      return anchor;
+    }
+    linked.set(link.url, { url: link.url, title: link.title });
+    return `<a${markInternal(attributes)}>${text}</a>`;
+  });
+
+  const target = Math.min(minLinks, candidates.length);
+  const unlinked: InternalLink[] = [];
+  for (const link of candidates) {
+    if (linked.size >= target) break;
+    if (linked.has(link.url)) continue;
+    const updated = insertAnchor(result, link);
+    if (updated) {
+      result = updated;
+      linked.set(link.url, { url: link.url, title: link.title });
+    } else {
+      unlinked.push(link);
+    }
+  }
+
+  const related = unlinked.slice(0, Math.max(target - linked.size, 0));
+  if (related.length) {
+    const anchors = related.map(
+      (link) => `<a href="${escapeHtml(link.url)}" ${INTERNAL_LINK_ATTRIBUTE}>${escapeHtml(link.title)}</a>`
+    );
+    result = `${result.trimEnd()}\n<p>${RELATED_READING_LABEL} ${anchors.join(', ')}</p>`;
+    for (const link of related) {
+      linked.set(link.url, { url: link.url, title: link.title });
+    }
+  }
+
+  return { html: result, links: Array.from(linked.values()) };
+}
+
+// Lists the links marked as internal, for the editor.
+export function extractInternalLinks(html: string): InternalLink[] {
+  const links: InternalLink[] = [];
+  for (const match of html.matchAll(ANCHOR_PATTERN)) {
+    const [, attributes, text] = match;
+    if (!/\bdata-link-type\s*=\s*(["'])internal\1/i.test(attributes)) {
+      continue;
+    }
+    const href = attributes.match(/\bhref\s*=\s*(["'])([^"']*)\1/i)?.[2];
+    if (href && !links.some((link) => link.url === href)) {
+      links.push({ url: href, title: stripHtml(text) });
+    }
+  }
+  return links;
+}
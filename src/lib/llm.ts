@@ -0,0 +1,146 @@
+import { LLM_PROVIDERS } from './llmProviders';
+
+export type LlmProviderId = 'openai' | 'grok' | 'local';
+
+export type LlmStage = 'outline' | 'draft' | 'verification';
+
+export type LlmMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type LlmChatRequest = {
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: 'json_object' | 'text' };
+};
+
+export type LlmUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+};
+
+// Mirrors the subset of the OpenAI chat completion shape the route reads, so
+// every provider can be swapped in without touching response handling.
+export type LlmChatResponse = {
+  provider: LlmProviderId;
+  model: string;
+  choices: Array<{
+    message: { role: 'assistant'; content: string | null };
+    finish_reason: string | null;
+  }>;
+  usage: LlmUsage | null;
+};
+
+export type LlmRequestOptions = {
+  signal?: AbortSignal;
+  onDelta?: (delta: string) => void;
+};
+
+export type LlmTokenLimits = {
+  contextTokens: number;
+  maxOutputTokens: number;
+};
+
+export type LlmCostMetadata = {
+  currency: 'USD';
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+};
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  isConfigured(): boolean;
+  resolveModel(stage: LlmStage, requestedModel?: string): string;
+  chat(request: LlmChatRequest, options?: LlmRequestOptions): Promise<LlmChatResponse>;
+  streamChat(request: LlmChatRequest, options?: LlmRequestOptions): Promise<LlmChatResponse>;
+  getTokenLimits(model: string): LlmTokenLimits;
+  getCostMetadata(model: string): LlmCostMetadata | null;
+}
+
+export type StageProvider = {
+  provider: LlmProvider;
+  model: string;
+};
+
+const DEFAULT_STAGE_PROVIDERS: Record<LlmStage, string> = {
+  outline: 'grok,openai',
+  draft: 'openai',
+  verification: 'grok',
+};
+
+function isProviderId(value: string): value is LlmProviderId {
+  return Object.prototype.hasOwnProperty.call(LLM_PROVIDERS, value);
+}
+
+// Reads LLM_<STAGE>_PROVIDERS, a comma-separated fallback list where each
+// entry is "provider" or "provider:model", e.g. "local:llama3.1,openai".
+function readStageConfig(stage: LlmStage): Array<{ id: LlmProviderId; model?: string }> {
+  const raw =
+    process.env[`LLM_${stage.toUpperCase()}_PROVIDERS`]?.trim() ||
+    DEFAULT_STAGE_PROVIDERS[stage];
+  const entries: Array<{ id: LlmProviderId; model?: string }> = [];
+
+  for (const part of raw.split(',')) {
+    const [rawId, ...modelParts] = part.trim().split(':');
+    const id = rawId?.trim().toLowerCase();
+    if (!id) {
+      continue;
+    }
+    if (!isProviderId(id)) {
+      console.warn(`[llm] ignoring unknown provider "${id}" for the ${stage} stage`);
+      continue;
+    }
+    const model = modelParts.join(':').trim();
+    entries.push(model ? { id, model } : { id });
+  }
+
+  return entries;
+}
+
+export function getLlmProvider(id: LlmProviderId): LlmProvider {
+  return LLM_PROVIDERS[id];
+}
+
+// Returns the configured providers for a stage in fallback order, skipping any
+// that lack credentials. `requestedModel` is the model picked in the UI; only
+// providers that serve that model family use it.
+export function resolveStageProviders(
+  stage: LlmStage,
+  requestedModel?: string
+): StageProvider[] {
+  return readStageConfig(stage)
+    .map(({ id, model }) => {
+      const provider = LLM_PROVIDERS[id];
+      return { provider, model: model || provider.resolveModel(stage, requestedModel) };
+    })
+    .filter(({ provider }) => provider.isConfigured());
+}
+
+export function getStageProvider(stage: LlmStage, requestedModel?: string): StageProvider {
+  const [first] = resolveStageProviders(stage, requestedModel);
+  if (!first) {
+    throw new Error(`No LLM provider is configured for the ${stage} stage`);
+  }
+  return first;
+}
+
+export function estimateLlmCost(
+  provider: LlmProvider,
+  model: string,
+  usage: LlmUsage | null
+): number | null {
+  const pricing = provider.getCostMetadata(model);
+  if (!pricing || !usage) {
+    return null;
+  }
+  return (
+    (usage.prompt_tokens * pricing.inputPerMillionTokens +
+      usage.completion_tokens * pricing.outputPerMillionTokens) /
+    1_000_000
+  );
+}
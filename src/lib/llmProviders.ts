@@ -0,0 +1,219 @@
+import OpenAI from 'openai';
+import { getOpenAI } from './openai';
+import {
+  DEFAULT_GROK_MODEL,
+  DEFAULT_GROK_OUTLINE_MODEL,
+  runChatCompletion,
+  type GrokChatCompletionUsage,
+} from './grok';
+import { getModelLimits, getModelSpec, UNKNOWN_MODEL_LIMITS } from './modelRegistry';
+import type {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmCostMetadata,
+  LlmProvider,
+  LlmProviderId,
+  LlmRequestOptions,
+  LlmUsage,
+} from './llm';
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+function lookupCost(model: string): LlmCostMetadata | null {
+  const spec = getModelSpec(model);
+  return spec
+    ? {
+        currency: 'USD',
+        inputPerMillionTokens: spec.inputPerMillionTokens,
+        outputPerMillionTokens: spec.outputPerMillionTokens,
+      }
+    : null;
+}
+
+function normalizeUsage(usage: GrokChatCompletionUsage | null | undefined): LlmUsage | null {
+  if (!usage) {
+    return null;
+  }
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usage.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+function buildResponse(
+  provider: LlmProviderId,
+  model: string,
+  content: string | null,
+  finishReason: string | null,
+  usage: LlmUsage | null
+): LlmChatResponse {
+  return {
+    provider,
+    model,
+    choices: [{ message: { role: 'assistant', content }, finish_reason: finishReason }],
+    usage,
+  };
+}
+
+// OpenAI and local servers (Ollama, llama.cpp, vLLM) share the OpenAI wire
+// format, so both go through the SDK and differ only in client and models.
+function createOpenAICompatibleProvider(config: {
+  id: LlmProviderId;
+  label: string;
+  getClient: () => OpenAI;
+  isConfigured: () => boolean;
+  resolveModel: LlmProvider['resolveModel'];
+  getTokenLimits: LlmProvider['getTokenLimits'];
+  getCostMetadata: LlmProvider['getCostMetadata'];
+}): LlmProvider {
+  return {
+    id: config.id,
+    label: config.label,
+    isConfigured: config.isConfigured,
+    resolveModel: config.resolveModel,
+    getTokenLimits: config.getTokenLimits,
+    getCostMetadata: config.getCostMetadata,
+
+    async chat(request: LlmChatRequest, options: LlmRequestOptions = {}) {
+      const completion = await config
+        .getClient()
+        .chat.completions.create(request, { signal: options.signal });
+      const choice = completion.choices[0];
+      return buildResponse(
+        config.id,
+        completion.model || request.model,
+        choice?.message?.content ?? null,
+        choice?.finish_reason ?? null,
+        normalizeUsage(completion.usage)
+      );
+    },
+
+    async streamChat(request: LlmChatRequest, options: LlmRequestOptions = {}) {
+      const stream = await config.getClient().chat.completions.create(
+        { ...request, stream: true, stream_options: { include_usage: true } },
+        { signal: options.signal }
+      );
+      let content = '';
+      let finishReason: string | null = null;
+      let usage: LlmUsage | null = null;
+      for await (const chunk of stream) {
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          options.onDelta?.(delta);
+        }
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        if (chunk.usage) {
+          usage = normalizeUsage(chunk.usage);
+        }
+      }
+      return buildResponse(config.id, request.model, content, finishReason, usage);
+    },
+  };
+}
+
+const openaiProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  getClient: getOpenAI,
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY?.trim()),
+  resolveModel: (_stage, requestedModel) => requestedModel || DEFAULT_OPENAI_MODEL,
+  getTokenLimits: getModelLimits,
+  getCostMetadata: lookupCost,
+});
+
+let cachedLocalClient: OpenAI | null = null;
+
+function getLocalClient(): OpenAI {
+  if (cachedLocalClient) {
+    return cachedLocalClient;
+  }
+  const baseURL = process.env.LOCAL_LLM_BASE_URL?.trim();
+  if (!baseURL) {
+    throw new Error('Missing LOCAL_LLM_BASE_URL environment variable');
+  }
+  // Local servers usually ignore the key, but the SDK requires one.
+  cachedLocalClient = new OpenAI({
+    baseURL,
+    apiKey: process.env.LOCAL_LLM_API_KEY?.trim() || 'local',
+  });
+  return cachedLocalClient;
+}
+
+function readPositiveInt(raw: string | undefined, fallback: number): number {
+  const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const localProvider = createOpenAICompatibleProvider({
+  id: 'local',
+  label: 'Local model',
+  getClient: getLocalClient,
+  isConfigured: () => Boolean(process.env.LOCAL_LLM_BASE_URL?.trim()),
+  resolveModel: () => process.env.LOCAL_LLM_MODEL?.trim() || DEFAULT_LOCAL_MODEL,
+  getTokenLimits: () => {
+    const contextTokens = readPositiveInt(
+      process.env.LOCAL_LLM_CONTEXT_TOKENS,
+      UNKNOWN_MODEL_LIMITS.contextTokens
+    );
+    return {
+      contextTokens,
+      maxOutputTokens: readPositiveInt(process.env.LOCAL_LLM_MAX_OUTPUT_TOKENS, contextTokens),
+    };
+  },
+  getCostMetadata: () => ({
+    currency: 'USD',
+    inputPerMillionTokens: 0,
+    outputPerMillionTokens: 0,
+  }),
+});
+
+const grokProvider: LlmProvider = {
+  id: 'grok',
+  label: 'Grok',
+  isConfigured: () => Boolean(process.env.GROK_API_KEY?.trim()),
+  resolveModel: (stage) =>
+    stage === 'outline' ? DEFAULT_GROK_OUTLINE_MODEL : DEFAULT_GROK_MODEL,
+  getTokenLimits: getModelLimits,
+  getCostMetadata: lookupCost,
+
+  async chat(request, options = {}) {
+    const response = await runChatCompletion(request, { signal: options.signal });
+    const choice = response.choices[0];
+    return buildResponse(
+      'grok',
+      request.model,
+      choice?.message?.content ?? null,
+      choice?.finish_reason ?? null,
+      normalizeUsage(response.usage)
+    );
+  },
+
+  async streamChat(request, options = {}) {
+    const response = await runChatCompletion(
+      { ...request, stream: true, stream_options: { include_usage: true } },
+      { signal: options.signal, onDelta: options.onDelta }
+    );
+    const choice = response.choices[0];
+    return buildResponse(
+      'grok',
+      request.model,
+      choice?.message?.content ?? '',
+      choice?.finish_reason ?? null,
+      normalizeUsage(response.usage)
+    );
+  },
+};
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  openai: openaiProvider,
+  grok: grokProvider,
+  local: localProvider,
+};
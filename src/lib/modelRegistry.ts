@@ -0,0 +1,139 @@
+import type { LlmProviderId, LlmTokenLimits } from './llm';
+
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+export type ModelSpec = LlmTokenLimits & {
+  provider: LlmProviderId;
+  encoding: TokenizerEncoding;
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+};
+
+// Context windows, output caps and list prices (USD per million tokens) as
+// published by each vendor. xAI does not publish a tokenizer, so Grok models
+// are counted with o200k_base, which tracks it closely for English prose.
+export const MODEL_REGISTRY: Record<string, ModelSpec> = {
+  'gpt-4.1': {
+    provider: 'openai',
+    encoding: 'o200k_base',
+    contextTokens: 1_047_576,
+    maxOutputTokens: 32_768,
+    inputPerMillionTokens: 2,
+    outputPerMillionTokens: 8,
+  },
+  'gpt-4.1-mini': {
+    provider: 'openai',
+    encoding: 'o200k_base',
+    contextTokens: 1_047_576,
+    maxOutputTokens: 32_768,
+    inputPerMillionTokens: 0.4,
+    outputPerMillionTokens: 1.6,
+  },
+  'gpt-4.1-nano': {
+    provider: 'openai',
+    encoding: 'o200k_base',
+    contextTokens: 1_047_576,
+    maxOutputTokens: 32_768,
+    inputPerMillionTokens: 0.1,
+    outputPerMillionTokens: 0.4,
+  },
+  'gpt-4o': {
+    provider: 'openai',
+    encoding: 'o200k_base',
+    contextTokens: 128_000,
+    maxOutputTokens: 16_384,
+    inputPerMillionTokens: 2.5,
+    outputPerMillionTokens: 10,
+  },
+  'gpt-4o-mini': {
+    provider: 'openai',
+    encoding: 'o200k_base',
+    contextTokens: 128_000,
+    maxOutputTokens: 16_384,
+    inputPerMillionTokens: 0.15,
+    outputPerMillionTokens: 0.6,
+  },
+  'gpt-4-turbo': {
+    provider: 'openai',
+    encoding: 'cl100k_base',
+    contextTokens: 128_000,
+    maxOutputTokens: 4_096,
+    inputPerMillionTokens: 10,
+    outputPerMillionTokens: 30,
+  },
+  'gpt-4': {
+    provider: 'openai',
+    encoding: 'cl100k_base',
+    contextTokens: 8_192,
+    maxOutputTokens: 8_192,
+    inputPerMillionTokens: 30,
+    outputPerMillionTokens: 60,
+  },
+  'gpt-3.5-turbo': {
+    provider: 'openai',
+    encoding: 'cl100k_base',
+    contextTokens: 16_385,
+    maxOutputTokens: 4_096,
+    inputPerMillionTokens: 0.5,
+    outputPerMillionTokens: 1.5,
+  },
+  'grok-4': {
+    provider: 'grok',
+    encoding: 'o200k_base',
+    contextTokens: 256_000,
+    maxOutputTokens: 32_768,
+    inputPerMillionTokens: 3,
+    outputPerMillionTokens: 15,
+  },
+  'grok-4-fast': {
+    provider: 'grok',
+    encoding: 'o200k_base',
+    contextTokens: 2_000_000,
+    maxOutputTokens: 32_768,
+    inputPerMillionTokens: 0.2,
+    outputPerMillionTokens: 0.5,
+  },
+  'grok-3': {
+    provider: 'grok',
+    encoding: 'o200k_base',
+    contextTokens: 131_072,
+    maxOutputTokens: 16_384,
+    inputPerMillionTokens: 3,
+    outputPerMillionTokens: 15,
+  },
+  'grok-3-mini': {
+    provider: 'grok',
+    encoding: 'o200k_base',
+    contextTokens: 131_072,
+    maxOutputTokens: 16_384,
+    inputPerMillionTokens: 0.3,
+    outputPerMillionTokens: 0.5,
+  },
+};
+
+export const UNKNOWN_MODEL_LIMITS: LlmTokenLimits = {
+  contextTokens: 8_000,
+  maxOutputTokens: 4_096,
+};
+
+const MODEL_IDS_BY_LENGTH = Object.keys(MODEL_REGISTRY).sort((a, b) => b.length - a.length);
+
+// Resolves dated snapshots such as "gpt-4o-2024-08-06" to their base entry.
+export function getModelSpec(model: string | undefined): ModelSpec | null {
+  if (!model) {
+    return null;
+  }
+  const normalized = model.trim().toLowerCase();
+  if (MODEL_REGISTRY[normalized]) {
+    return MODEL_REGISTRY[normalized];
+  }
+  const baseId = MODEL_IDS_BY_LENGTH.find((id) => normalized.startsWith(`${id}-`));
+  return baseId ? MODEL_REGISTRY[baseId] : null;
+}
+
+export function getModelLimits(model: string | undefined): LlmTokenLimits {
+  const spec = getModelSpec(model);
+  return spec
+    ? { contextTokens: spec.contextTokens, maxOutputTokens: spec.maxOutputTokens }
+    : UNKNOWN_MODEL_LIMITS;
+}
@@ -0,0 +1,108 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import type { WordPressPostStatus } from './wordpressPublishing';
+
+export type ScheduleEntryRow = {
+  id: string;
+  user_id: string;
+  article_id: string;
+  wordpress_account_id: string;
+  wordpress_post_id: number;
+  wordpress_post_url: string | null;
+  title: string;
+  status: WordPressPostStatus;
+  publish_at: string | null;
+  wordpress_modified_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const SCHEDULE_ENTRY_COLUMNS =
+  'id, user_id, article_id, wordpress_account_id, wordpress_post_id, wordpress_post_url, title, status, publish_at, wordpress_modified_at, created_at, updated_at';
+
+export function serializeScheduleEntry(row: ScheduleEntryRow) {
+  return {
+    id: row.id,
+    articleId: row.article_id,
+    accountId: row.wordpress_account_id,
+    postId: row.wordpress_post_id,
+    postUrl: row.wordpress_post_url,
+    title: row.title,
+    status: row.status,
+    publishAt: row.publish_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export type ScheduleEntry = ReturnType<typeof serializeScheduleEntry>;
+
+export type Publication = {
+  userId: string;
+  articleId: string;
+  accountId: string;
+  postId: number;
+  postUrl: string | null;
+  title: string;
+  status: WordPressPostStatus;
+  publishAt: string | null;
+  // WordPress's modified_gmt after our write, and the article HTML we sent.
+  modifiedAt: string | null;
+  syncedContent: string;
+};
+
+export type PublishedPostRecord = {
+  entry: ScheduleEntryRow;
+  syncedContent: string | null;
+};
+
+// The post an article was last published as on a site, if any.
+export async function findPublication(
+  userId: string,
+  articleId: string,
+  accountId: string
+): Promise<PublishedPostRecord | null> {
+  const { data, error } = await supabaseAdmin
+    .from('publishing_schedule')
+    .select(`${SCHEDULE_ENTRY_COLUMNS}, synced_content`)
+    .eq('user_id', userId)
+    .eq('article_id', articleId)
+    .eq('wordpress_account_id', accountId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+  const { synced_content, ...entry } = data as ScheduleEntryRow & { synced_content: string | null };
+  return { entry, syncedContent: synced_content };
+}
+
+// One entry per article and site: publishing the article to the same site
+// again points the entry at the newest post.
+export async function recordPublication(publication: Publication): Promise<ScheduleEntry | null> {
+  const { data, error } = await supabaseAdmin
+    .from('publishing_schedule')
+    .upsert(
+      {
+        user_id: publication.userId,
+        article_id: publication.articleId,
+        wordpress_account_id: publication.accountId,
+        wordpress_post_id: publication.postId,
+        wordpress_post_url: publication.postUrl,
+        title: publication.title,
+        status: publication.status,
+        publish_at: publication.publishAt,
+        wordpress_modified_at: publication.modifiedAt,
+        synced_content: publication.syncedContent,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'article_id,wordpress_account_id' }
+    )
+    .select(SCHEDULE_ENTRY_COLUMNS)
+    .single();
+  if (error) {
+    console.error('[schedule] failed to record publication', error);
+    return null;
+  }
+  return serializeScheduleEntry(data as ScheduleEntryRow);
+}
@@ -0,0 +1,525 @@
+// The typed recipe model behind Recipe articles. The model writes it as JSON;
+// the article HTML is always rendered from it, so scaling servings or
+// switching units re-renders the same recipe.
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type RecipeIngredient = {
+  quantity: number | null;
+  unit: string | null;
+  name: string;
+  note?: string;
+};
+
+export type RecipeNutrition = {
+  calories?: number;
+  proteinGrams?: number;
+  carbohydrateGrams?: number;
+  fatGrams?: number;
+  fiberGrams?: number;
+  sugarGrams?: number;
+  sodiumMilligrams?: number;
+};
+
+export type Recipe = {
+  title: string;
+  description: string;
+  servings: number;
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  ingredients: RecipeIngredient[];
+  steps: string[];
+  notes: string[];
+  nutrition: RecipeNutrition | null;
+  unitSystem: UnitSystem;
+};
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+export const DEFAULT_SERVINGS = 4;
+export const MAX_SERVINGS = 100;
+
+const MAX_INGREDIENTS = 40;
+const MAX_STEPS = 30;
+const MAX_NOTES = 8;
+
+type UnitKind = 'mass' | 'volume';
+
+// Base units are grams and millilitres. Spoons are used in both systems, so
+// they are never converted.
+const UNITS: Record<string, { kind: UnitKind; toBase: number; system: UnitSystem | 'both' }> = {
+  g: { kind: 'mass', toBase: 1, system: 'metric' },
+  kg: { kind: 'mass', toBase: 1000, system: 'metric' },
+  oz: { kind: 'mass', toBase: 28.3495, system: 'imperial' },
+  lb: { kind: 'mass', toBase: 453.592, system: 'imperial' },
+  ml: { kind: 'volume', toBase: 1, system: 'metric' },
+  l: { kind: 'volume', toBase: 1000, system: 'metric' },
+  tsp: { kind: 'volume', toBase: 4.92892, system: 'both' },
+  tbsp: { kind: 'volume', toBase: 14.7868, system: 'both' },
+  cup: { kind: 'volume', toBase: 236.588, system: 'imperial' },
+  'fl oz': { kind: 'volume', toBase: 29.5735, system: 'imperial' },
+  pint: { kind: 'volume', toBase: 473.176, system: 'imperial' },
+  quart: { kind: 'volume', toBase: 946.353, system: 'imperial' },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g', grams: 'g', gr: 'g',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsps: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp', tbsps: 'tbsp', tbl: 'tbsp',
+  cups: 'cup', c: 'cup',
+  'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz', 'fl. oz': 'fl oz', 'fl. oz.': 'fl oz',
+  pints: 'pint', pt: 'pint',
+  quarts: 'quart', qt: 'quart',
+};
+
+const VULGAR_FRACTIONS: Record<string, string> = {
+  '¼': '1/4', '½': '1/2', '¾': '3/4', '⅓': '1/3', '⅔': '2/3', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+const DISPLAY_FRACTIONS: Array<[number, string]> = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+  [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8'],
+];
+
+// Words that describe an ingredient rather than name it, ignored when checking
+// that the steps use every ingredient.
+const DESCRIPTOR_WORDS = new Set([
+  'fresh', 'freshly', 'large', 'small', 'medium', 'chopped', 'minced', 'diced', 'sliced',
+  'ground', 'dried', 'whole', 'boneless', 'skinless', 'extra', 'virgin', 'unsalted', 'salted',
+  'kosher', 'fine', 'finely', 'coarse', 'coarsely', 'roughly', 'thinly', 'optional', 'taste',
+  'and', 'or', 'for', 'the', 'of', 'to', 'with', 'plus', 'more', 'about', 'room', 'temperature',
+  'all', 'purpose', 'packed', 'softened', 'melted', 'cold', 'warm', 'hot', 'peeled', 'grated',
+  'juiced', 'zested', 'beaten', 'cooked', 'uncooked', 'raw', 'ripe', 'low', 'sodium', 'free',
+]);
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function normalizeUnit(unit: unknown): string | null {
+  if (typeof unit !== 'string') {
+    return null;
+  }
+  const trimmed = collapseWhitespace(unit);
+  if (!trimmed) {
+    return null;
+  }
+  // "T" and "t" are the only aliases where case matters.
+  if (trimmed === 'T') return 'tbsp';
+  if (trimmed === 't') return 'tsp';
+  const key = trimmed.toLowerCase();
+  return UNITS[key] ? key : UNIT_ALIASES[key] ?? key;
+}
+
+// Reads "1 1/2", "1½", "3/4", "0.5" or the first number of a "2-3" range.
+export function parseQuantity(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const text = value
+    .replace(/[¼½¾⅓⅔⅛⅜⅝⅞]/g, (char) => ` ${VULGAR_FRACTIONS[char]}`)
+    .trim();
+  const fraction = text.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)/);
+  const quantity = fraction
+    ? Number(fraction[1] ?? 0) + (Number(fraction[3]) ? Number(fraction[2]) / Number(fraction[3]) : 0)
+    : Number(text.match(/^\d+(?:\.\d+)?/)?.[0] ?? 0);
+  return quantity > 0 ? quantity : null;
+}
+
+// "2 1/2 cups all-purpose flour, sifted" as quantity, unit, name and note.
+export function parseIngredientLine(line: string): RecipeIngredient | null {
+  const text = collapseWhitespace(line);
+  if (!text) {
+    return null;
+  }
+  const quantityMatch = text.match(
+    /^((?:\d+\s+)?\d+\/\d+|\d+(?:\.\d+)?\s*[¼½¾⅓⅔⅛⅜⅝⅞]?|[¼½¾⅓⅔⅛⅜⅝⅞])?\s*(.*)$/
+  );
+  const quantity = parseQuantity(quantityMatch?.[1] ?? '');
+  let rest = quantity === null ? text : quantityMatch?.[2] ?? text;
+  let unit: string | null = null;
+  const unitMatch = rest.match(/^(fl\.? oz\.?|fluid ounces?|[A-Za-z]+\.?)\s+(.+)$/);
+  if (quantity !== null && unitMatch) {
+    const candidate = normalizeUnit(unitMatch[1].replace(/\.$/, ''));
+    if (candidate && UNITS[candidate]) {
+      unit = candidate;
+      rest = unitMatch[2];
+    }
+  }
+  const [name, ...noteParts] = rest.split(',');
+  const note = collapseWhitespace(noteParts.join(','));
+  return {
+    quantity,
+    unit,
+    name: collapseWhitespace(name.replace(/^of\s+/i, '')),
+    ...(note && { note }),
+  };
+}
+
+function readNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : Number.parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * 10) / 10 : undefined;
+}
+
+// Minutes from a number, "PT1H15M" or "1 hour 15 minutes".
+function readMinutes(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  const text = value.toLowerCase();
+  const hours = Number(text.match(/(\d+(?:\.\d+)?)\s*(?:h|hours?|hrs?)(?![a-z])/)?.[1] ?? 0);
+  const minutes = Number(text.match(/(\d+)\s*(?:m|minutes?|mins?)(?![a-z])/)?.[1] ?? 0);
+  const total = Math.round(hours * 60 + minutes) || (/^\d+$/.test(text.trim()) ? Number(text) : 0);
+  return total > 0 ? total : null;
+}
+
+function readStringList(value: unknown, limit: number): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((entry) =>
+      typeof entry === 'string'
+        ? entry
+        : typeof entry?.text === 'string'
+        ? entry.text
+        : ''
+    )
+    .map((entry) => collapseWhitespace(entry).replace(/^\d+[.)]\s*/, ''))
+    .filter(Boolean)
+    .slice(0, limit);
+}
+
+function readIngredient(entry: unknown): RecipeIngredient | null {
+  if (typeof entry === 'string') {
+    return parseIngredientLine(entry);
+  }
+  if (!entry || typeof entry !== 'object') {
+    return null;
+  }
+  const source = entry as Record<string, unknown>;
+  const name = collapseWhitespace(String(source.name ?? source.item ?? source.ingredient ?? ''));
+  if (!name) {
+    return null;
+  }
+  const note = typeof source.note === 'string' ? collapseWhitespace(source.note) : '';
+  return {
+    quantity: parseQuantity(source.quantity ?? source.amount),
+    unit: normalizeUnit(source.unit),
+    name,
+    ...(note && { note }),
+  };
+}
+
+function readNutrition(value: unknown): RecipeNutrition | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  const source = value as Record<string, unknown>;
+  const nutrition: RecipeNutrition = {
+    calories: readNumber(source.calories),
+    proteinGrams: readNumber(source.proteinGrams ?? source.protein),
+    carbohydrateGrams: readNumber(source.carbohydrateGrams ?? source.carbohydrates ?? source.carbs),
+    fatGrams: readNumber(source.fatGrams ?? source.fat),
+    fiberGrams: readNumber(source.fiberGrams ?? source.fiber),
+    sugarGrams: readNumber(source.sugarGrams ?? source.sugar),
+    sodiumMilligrams: readNumber(source.sodiumMilligrams ?? source.sodium),
+  };
+  const entries = Object.entries(nutrition).filter(([, amount]) => amount !== undefined);
+  return entries.length ? (Object.fromEntries(entries) as RecipeNutrition) : null;
+}
+
+// Cleans a recipe from the model, the editor or a stored article. Accepts
+// camelCase or snake_case keys and ingredient objects or plain lines. Returns
+// null without at least one ingredient and one step.
+export function normalizeRecipe(raw: unknown, fallbackTitle = ''): Recipe | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+  const source = raw as Record<string, unknown>;
+  const ingredients = (Array.isArray(source.ingredients) ? source.ingredients : [])
+    .map(readIngredient)
+    .filter((ingredient): ingredient is RecipeIngredient => ingredient !== null)
+    .slice(0, MAX_INGREDIENTS);
+  const steps = readStringList(source.steps ?? source.instructions, MAX_STEPS);
+  if (ingredients.length === 0 || steps.length === 0) {
+    return null;
+  }
+  const servings = Math.round(readNumber(source.servings ?? source.yield) ?? DEFAULT_SERVINGS);
+  const unitSystem = source.unitSystem ?? source.unit_system;
+  return {
+    title: collapseWhitespace(String(source.title ?? '')) || fallbackTitle,
+    description: collapseWhitespace(String(source.description ?? '')),
+    servings: Math.min(Math.max(servings, 1), MAX_SERVINGS),
+    prepMinutes: readMinutes(source.prepMinutes ?? source.prep_minutes ?? source.prepTime),
+    cookMinutes: readMinutes(source.cookMinutes ?? source.cook_minutes ?? source.cookTime),
+    ingredients,
+    steps,
+    notes: readStringList(source.notes, MAX_NOTES),
+    nutrition: readNutrition(source.nutrition),
+    unitSystem: UNIT_SYSTEMS.includes(unitSystem as UnitSystem) ? (unitSystem as UnitSystem) : 'imperial',
+  };
+}
+
+export function formatQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const remainder = quantity - whole;
+  if (remainder < 0.02) {
+    return String(whole);
+  }
+  const fraction = DISPLAY_FRACTIONS.find(([value]) => Math.abs(value - remainder) < 0.02);
+  if (fraction) {
+    return whole ? `${whole} ${fraction[1]}` : fraction[1];
+  }
+  return String(Math.round(quantity * 100) / 100);
+}
+
+// Metric amounts round to whole (or 5) grams and millilitres; imperial ones
+// to the nearest eighth so they read as fractions.
+function roundQuantity(quantity: number, unit: string): number {
+  if (unit === 'g' || unit === 'ml') {
+    return quantity >= 100 ? Math.round(quantity / 5) * 5 : Math.max(1, Math.round(quantity));
+  }
+  if (unit === 'kg' || unit === 'l') {
+    return Math.round(quantity * 100) / 100;
+  }
+  return Math.max(1 / 8, Math.round(quantity * 8) / 8);
+}
+
+function pickUnit(kind: UnitKind, baseAmount: number, system: UnitSystem): string {
+  if (system === 'metric') {
+    if (kind === 'mass') return baseAmount >= 1000 ? 'kg' : 'g';
+    return baseAmount >= 1000 ? 'l' : 'ml';
+  }
+  if (kind === 'mass') return baseAmount >= UNITS.lb.toBase ? 'lb' : 'oz';
+  if (baseAmount < UNITS.tbsp.toBase) return 'tsp';
+  if (baseAmount < UNITS.cup.toBase / 4) return 'tbsp';
+  return 'cup';
+}
+
+export function convertIngredient(ingredient: RecipeIngredient, system: UnitSystem): RecipeIngredient {
+  const unit = ingredient.unit ? UNITS[ingredient.unit] : undefined;
+  if (ingredient.quantity === null || !unit || unit.system === 'both' || unit.system === system) {
+    return ingredient;
+  }
+  const baseAmount = ingredient.quantity * unit.toBase;
+  const nextUnit = pickUnit(unit.kind, baseAmount, system);
+  return {
+    ...ingredient,
+    quantity: roundQuantity(baseAmount / UNITS[nextUnit].toBase, nextUnit),
+    unit: nextUnit,
+  };
+}
+
+// Oven temperatures in the steps, rounded to the nearest 5 degrees.
+export function convertTemperatures(text: string, system: UnitSystem): string {
+  const from = system === 'metric' ? 'F' : 'C';
+  return text.replace(new RegExp(`(\\d{2,3})\\s*°\\s*${from}\\b`, 'g'), (_, degrees: string) => {
+    const value = Number(degrees);
+    const converted = system === 'metric' ? ((value - 32) * 5) / 9 : (value * 9) / 5 + 32;
+    return `${Math.round(converted / 5) * 5}°${system === 'metric' ? 'C' : 'F'}`;
+  });
+}
+
+export function convertRecipe(recipe: Recipe, system: UnitSystem): Recipe {
+  if (recipe.unitSystem === system) {
+    return recipe;
+  }
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients.map((ingredient) => convertIngredient(ingredient, system)),
+    steps: recipe.steps.map((step) => convertTemperatures(step, system)),
+    notes: recipe.notes.map((note) => convertTemperatures(note, system)),
+    unitSystem: system,
+  };
+}
+
+// Nutrition stays per serving, so only the ingredient amounts change.
+export function scaleRecipe(recipe: Recipe, servings: number): Recipe {
+  const target = Math.min(Math.max(Math.round(servings), 1), MAX_SERVINGS);
+  if (target === recipe.servings) {
+    return recipe;
+  }
+  const factor = target / recipe.servings;
+  return {
+    ...recipe,
+    servings: target,
+    ingredients: recipe.ingredients.map((ingredient) =>
+      ingredient.quantity === null || !ingredient.unit || !UNITS[ingredient.unit]
+        ? {
+            ...ingredient,
+            quantity:
+              ingredient.quantity === null ? null : Math.round(ingredient.quantity * factor * 100) / 100,
+          }
+        : { ...ingredient, quantity: roundQuantity(ingredient.quantity * factor, ingredient.unit) }
+    ),
+  };
+}
+
+function stem(word: string): string {
+  return word
+    .replace(/ies$/, 'y')
+    .replace(/(oes|ches|shes|sses)$/, (suffix) => suffix.slice(0, -2))
+    .replace(/s$/, '');
+}
+
+function keywords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((word) => word.length >= 3 && !DESCRIPTOR_WORDS.has(word))
+    .map(stem);
+}
+
+// Ingredients whose name shares no word with any step.
+export function findUnusedIngredients(recipe: Recipe): RecipeIngredient[] {
+  const stepWords = new Set(keywords(recipe.steps.join(' ')));
+  return recipe.ingredients.filter((ingredient) => {
+    const words = keywords(ingredient.name);
+    return words.length > 0 && !words.some((word) => stepWords.has(word));
+  });
+}
+
+export function formatIngredient(ingredient: RecipeIngredient): string {
+  const amount = [
+    ingredient.quantity === null ? '' : formatQuantity(ingredient.quantity),
+    ingredient.unit ?? '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return [amount, ingredient.name].filter(Boolean).join(' ') + (ingredient.note ? `, ${ingredient.note}` : '');
+}
+
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return [
+    hours ? `${hours} hour${hours === 1 ? '' : 's'}` : '',
+    rest ? `${rest} minute${rest === 1 ? '' : 's'}` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+const NUTRITION_LABELS: Array<[keyof RecipeNutrition, string, string]> = [
+  ['calories', 'Calories', ''],
+  ['proteinGrams', 'Protein', ' g'],
+  ['carbohydrateGrams', 'Carbohydrates', ' g'],
+  ['fatGrams', 'Fat', ' g'],
+  ['fiberGrams', 'Fiber', ' g'],
+  ['sugarGrams', 'Sugar', ' g'],
+  ['sodiumMilligrams', 'Sodium', ' mg'],
+];
+
+// The article HTML for a recipe. The time and yield line and the
+// Ingredients/Instructions headings are what the JSON-LD reader looks for.
+export function renderRecipeHtml(recipe: Recipe): string {
+  const times = [
+    recipe.prepMinutes ? `Prep time: ${formatMinutes(recipe.prepMinutes)}` : '',
+    recipe.cookMinutes ? `Cook time: ${formatMinutes(recipe.cookMinutes)}` : '',
+    recipe.prepMinutes && recipe.cookMinutes
+      ? `Total time: ${formatMinutes(recipe.prepMinutes + recipe.cookMinutes)}`
+      : '',
+    `Serves ${recipe.servings}`,
+  ].filter(Boolean);
+  const nutrition = recipe.nutrition
+    ? NUTRITION_LABELS.filter(([key]) => recipe.nutrition?.[key] !== undefined).map(
+        ([key, label, suffix]) => `<li>${label}: ${recipe.nutrition?.[key]}${suffix}</li>`
+      )
+    : [];
+
+  return [
+    ...(recipe.description ? [`<p>${escapeHtml(recipe.description)}</p>`] : []),
+    `<p>${times.join(' | ')}</p>`,
+    '<h2>Ingredients</h2>',
+    `<ul>${recipe.ingredients.map((ingredient) => `<li>${escapeHtml(formatIngredient(ingredient))}</li>`).join('')}</ul>`,
+    '<h2>Instructions</h2>',
+    `<ol>${recipe.steps.map((step) => `<li>${escapeHtml(step)}</li>`).join('')}</ol>`,
+    ...(recipe.notes.length
+      ? ['<h2>Notes</h2>', `<ul>${recipe.notes.map((note) => `<li>${escapeHtml(note)}</li>`).join('')}</ul>`]
+      : []),
+    ...(nutrition.length
+      ? [
+          '<h2>Nutrition per serving</h2>',
+          `<ul>${nutrition.join('')}</ul>`,
+          '<p><em>Nutrition values are estimates.</em></p>',
+        ]
+      : []),
+  ].join('\n');
+}
+
+export type RecipePromptOptions = {
+  title: string;
+  servings?: number;
+  unitSystem?: UnitSystem;
+  toneInstruction?: string;
+  customInstructions?: string;
+};
+
+export function buildRecipePrompt({
+  title,
+  servings = DEFAULT_SERVINGS,
+  unitSystem = 'imperial',
+  toneInstruction = '',
+  customInstructions = '',
+}: RecipePromptOptions): string {
+  const units =
+    unitSystem === 'metric'
+      ? 'grams, kilograms, millilitres and litres (spoons are fine for small amounts)'
+      : 'cups, ounces and pounds (spoons are fine for small amounts)';
+  return `
+You are a recipe developer. Write a tested, home-cook friendly recipe for "${title}".
+
+Requirements:
+- Serves ${servings}. Give ingredient amounts in ${units}, and oven temperatures in ${unitSystem === 'metric' ? '°C' : '°F'}.
+- List every ingredient with a numeric quantity and a unit where one applies ("2 eggs" has no unit).
+- Write numbered steps in order. Every ingredient must be used in at least one step, named the same way.
+- Add short notes for substitutions, storage or make-ahead tips.
+- Estimate nutrition per serving.
+${toneInstruction}${customInstructions ? `- ${customInstructions}\n` : ''}
+Return a JSON object with these keys:
+- "title": the recipe name.
+- "description": two or three sentences introducing the dish.
+- "servings": ${servings}.
+- "prepMinutes" and "cookMinutes": whole numbers.
+- "ingredients": an array of {"quantity": number or null, "unit": string or null, "name": string, "note": optional string such as "finely chopped"}.
+- "steps": an array of strings, one per step, without numbers.
+- "notes": an array of strings.
+- "nutrition": {"calories", "proteinGrams", "carbohydrateGrams", "fatGrams", "fiberGrams", "sugarGrams", "sodiumMilligrams"} as numbers.
+
+Respond with JSON only.
+`.trim();
+}
+
+export function buildUnusedIngredientFeedback(unused: RecipeIngredient[]): string {
+  return `These ingredients are not used in any step: ${unused
+    .map((ingredient) => ingredient.name)
+    .join(', ')}. Return the full recipe JSON again with steps that use every ingredient by name, or remove ingredients the recipe does not need.`;
+}
+
+export function parseRecipeResponse(raw: string | null | undefined, fallbackTitle: string, unitSystem: UnitSystem): Recipe | null {
+  const json = raw?.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(json);
+    return normalizeRecipe({ ...parsed, unitSystem }, fallbackTitle);
+  } catch {
+    return null;
+  }
+}
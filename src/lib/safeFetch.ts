@@ -0,0 +1,148 @@
+// Server-side fetches of URLs that come from users or article HTML. Every
+// hop of a redirect chain must resolve to a public address, so the server
+// cannot be pointed at itself, cloud metadata or the private network, and
+// bodies are read as a stream up to a byte limit.
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+export type LookupImpl = (hostname: string) => Promise<string[]>;
+
+export type PublicFetchOptions = {
+  fetchImpl?: typeof fetch;
+  lookupImpl?: LookupImpl;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  maxRedirects?: number;
+};
+
+const DEFAULT_MAX_REDIRECTS = 5;
+
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedUrlError';
+  }
+}
+
+const resolveHost: LookupImpl = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+function ipv4Parts(address: string): number[] | null {
+  const parts = address.split('.').map(Number);
+  return parts.length === 4 && parts.every((part) => Number.isInteger(part) && part >= 0 && part <= 255)
+    ? parts
+    : null;
+}
+
+// Loopback, private, link-local, carrier-grade NAT, benchmark, multicast and
+// reserved ranges, for IPv4 and IPv6 (including IPv4-mapped IPv6).
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const v4 = ipv4Parts(mapped ? mapped[1] : ip);
+  if (v4) {
+    const [a, b] = v4;
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0 && v4[2] === 0) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+  if (isIP(ip) !== 6) {
+    return true;
+  }
+  if (ip === '::' || ip === '::1' || ip.startsWith('::ffff:')) {
+    return true;
+  }
+  const first = parseInt(ip.split(':')[0] || '0', 16);
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Throws unless the URL is http(s) and every address its host resolves to is
+// public.
+export async function assertPublicUrl(url: string, lookupImpl: LookupImpl = resolveHost): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError('Invalid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedUrlError('Only http and https URLs can be fetched');
+  }
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname) ? [hostname] : await lookupImpl(hostname);
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    throw new BlockedUrlError(`${parsed.hostname} is not a public address`);
+  }
+  return parsed;
+}
+
+// Follows redirects by hand so each hop is checked before it is requested.
+export async function fetchPublicUrl(url: string, options: PublicFetchOptions = {}): Promise<Response> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(current, options.lookupImpl);
+    const res = await fetchImpl(current, {
+      redirect: 'manual',
+      headers: options.headers,
+      signal: options.signal,
+    });
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+    if (!location) {
+      return res;
+    }
+    if (hop >= maxRedirects) {
+      throw new BlockedUrlError('Too many redirects');
+    }
+    await res.body?.cancel().catch(() => undefined);
+    current = new URL(location, current).toString();
+  }
+}
+
+// Reads at most maxBytes of the body, cancelling the stream once the limit is
+// reached. `truncated` tells the caller whether anything was left unread.
+export async function readLimitedBody(
+  res: Response,
+  maxBytes: number
+): Promise<{ data: Buffer; truncated: boolean }> {
+  if (!res.body) {
+    const data = Buffer.from(await res.arrayBuffer());
+    return { data: data.subarray(0, maxBytes), truncated: data.length > maxBytes };
+  }
+  const reader = res.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return { data: Buffer.concat(chunks, size), truncated: false };
+      }
+      const chunk = Buffer.from(value);
+      if (size + chunk.length > maxBytes) {
+        chunks.push(chunk.subarray(0, maxBytes - size));
+        await reader.cancel().catch(() => undefined);
+        return { data: Buffer.concat(chunks, maxBytes), truncated: true };
+      }
+      chunks.push(chunk);
+      size += chunk.length;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,414 @@
+// On-page checks for a draft: where the focus keyphrase appears, how the
+// headings nest, paragraph length, reading grade, links and image alt text.
+// Each failed check can be handed to planAuditFix for a targeted rewrite.
+
+import { analyzeArticleStructure, countWordsFromHtml } from './articleStructure';
+
+export type AuditStatus = 'pass' | 'warning' | 'fail';
+
+export type AuditCheckId =
+  | 'keyphrase-title'
+  | 'keyphrase-intro'
+  | 'keyphrase-headings'
+  | 'heading-hierarchy'
+  | 'duplicate-headings'
+  | 'paragraph-length'
+  | 'readability'
+  | 'link-density'
+  | 'image-alt';
+
+export type AuditCheck = {
+  id: AuditCheckId;
+  label: string;
+  status: AuditStatus;
+  message: string;
+  details?: string[];
+  fixable: boolean;
+};
+
+export type SeoAuditStats = {
+  wordCount: number;
+  paragraphCount: number;
+  readabilityGrade: number | null;
+  linkCount: number;
+  imageCount: number;
+};
+
+export type SeoAudit = {
+  score: number;
+  checks: AuditCheck[];
+  stats: SeoAuditStats;
+};
+
+export type AuditInput = {
+  title: string;
+  html: string;
+  focusKeyphrase?: string;
+};
+
+// Yoast flags paragraphs over 150 words; the grade limits follow its
+// Flesch-Kincaid guidance for general audiences.
+export const MAX_PARAGRAPH_WORDS = 150;
+export const TARGET_READING_GRADE = 9;
+export const MAX_READING_GRADE = 12;
+export const MAX_LINKED_WORD_SHARE = 0.1;
+
+// Checks that need sources or an editor's judgement are not offered a fix.
+export const FIXABLE_AUDIT_CHECKS: AuditCheckId[] = [
+  'keyphrase-title',
+  'keyphrase-intro',
+  'keyphrase-headings',
+  'heading-hierarchy',
+  'duplicate-headings',
+  'paragraph-length',
+  'readability',
+  'image-alt',
+];
+
+const MAX_DETAILS = 5;
+const DETAIL_SNIPPET_WORDS = 8;
+const STATUS_POINTS: Record<AuditStatus, number> = { pass: 1, warning: 0.5, fail: 0 };
+
+export type HtmlFragment = { start: number; end: number; html: string };
+export type HeadingFragment = HtmlFragment & {
+  level: number;
+  text: string;
+  innerStart: number;
+  innerEnd: number;
+};
+
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(nbsp|#160);/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0?39;|&rsquo;|&lsquo;/gi, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizePhrase(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+}
+
+export function containsKeyphrase(text: string, keyphrase: string): boolean {
+  const phrase = normalizePhrase(keyphrase);
+  return phrase.trim().length > 0 && normalizePhrase(text).includes(phrase);
+}
+
+export function findHeadings(html: string): HeadingFragment[] {
+  return Array.from(html.matchAll(/(<h([1-6])\b[^>]*>)([\s\S]*?)<\/h\2>/gi), (match) => {
+    const start = match.index ?? 0;
+    const innerStart = start + match[1].length;
+    return {
+      start,
+      end: start + match[0].length,
+      html: match[0],
+      level: Number(match[2]),
+      text: htmlToPlainText(match[3]),
+      innerStart,
+      innerEnd: innerStart + match[3].length,
+    };
+  });
+}
+
+export function findParagraphs(html: string): HtmlFragment[] {
+  return Array.from(html.matchAll(/<p\b[^>]*>[\s\S]*?<\/p>/gi), (match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    html: match[0],
+  }));
+}
+
+export function findImages(html: string): HtmlFragment[] {
+  return Array.from(html.matchAll(/<img\b[^>]*>/gi), (match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    html: match[0],
+  }));
+}
+
+export function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? match[2] ?? match[3] ?? match[4] ?? '' : null;
+}
+
+// Everything before the first <h2>, matching how analyzeArticleStructure
+// splits the intro from the sections.
+export function findIntroRange(html: string): { start: number; end: number } {
+  const firstHeading = html.search(/<h2\b/i);
+  return { start: 0, end: firstHeading === -1 ? html.length : firstHeading };
+}
+
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) {
+    return 0;
+  }
+  if (letters.length <= 3) {
+    return 1;
+  }
+  const trimmed = letters.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+}
+
+// Flesch-Kincaid grade level of plain text, or null when there is too little
+// text to score.
+export function readingGrade(text: string): number | null {
+  const words = text.split(/\s+/).filter((word) => /[a-z]/i.test(word));
+  if (words.length === 0) {
+    return null;
+  }
+  const sentences = Math.max(1, text.split(/[.!?]+(?:\s|$)/).filter((part) => part.trim()).length);
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.round(grade * 10) / 10;
+}
+
+function snippet(text: string): string {
+  const words = text.split(' ');
+  return words.length > DETAIL_SNIPPET_WORDS
+    ? `${words.slice(0, DETAIL_SNIPPET_WORDS).join(' ')}…`
+    : text;
+}
+
+function check(
+  id: AuditCheckId,
+  label: string,
+  status: AuditStatus,
+  message: string,
+  details: string[] = []
+): AuditCheck {
+  return {
+    id,
+    label,
+    status,
+    message,
+    ...(details.length && { details: details.slice(0, MAX_DETAILS) }),
+    fixable: status !== 'pass' && FIXABLE_AUDIT_CHECKS.includes(id),
+  };
+}
+
+// A warning there is nothing to rewrite for, such as a missing keyphrase.
+function noticeCheck(id: AuditCheckId, label: string, message: string): AuditCheck {
+  return { id, label, status: 'warning', message, fixable: false };
+}
+
+const MISSING_KEYPHRASE_MESSAGE = 'Set a focus keyphrase in the SEO panel to run this check.';
+
+function checkKeyphrasePlacement(input: AuditInput, html: string): AuditCheck[] {
+  const keyphrase = input.focusKeyphrase?.trim() ?? '';
+  if (!keyphrase) {
+    return [
+      noticeCheck('keyphrase-title', 'Keyphrase in title', MISSING_KEYPHRASE_MESSAGE),
+      noticeCheck('keyphrase-intro', 'Keyphrase in introduction', MISSING_KEYPHRASE_MESSAGE),
+      noticeCheck('keyphrase-headings', 'Keyphrase in subheadings', MISSING_KEYPHRASE_MESSAGE),
+    ];
+  }
+
+  const intro = findIntroRange(html);
+  const introText = htmlToPlainText(html.slice(intro.start, intro.end));
+  const h2s = findHeadings(html).filter((heading) => heading.level === 2);
+  const matchingH2s = h2s.filter((heading) => containsKeyphrase(heading.text, keyphrase));
+
+  return [
+    containsKeyphrase(input.title, keyphrase)
+      ? check('keyphrase-title', 'Keyphrase in title', 'pass', `The title contains "${keyphrase}".`)
+      : check('keyphrase-title', 'Keyphrase in title', 'fail', `The title does not contain "${keyphrase}".`),
+    !introText
+      ? check('keyphrase-intro', 'Keyphrase in introduction', 'fail', 'The article has no introduction before the first subheading.')
+      : containsKeyphrase(introText, keyphrase)
+      ? check('keyphrase-intro', 'Keyphrase in introduction', 'pass', `The introduction mentions "${keyphrase}".`)
+      : check('keyphrase-intro', 'Keyphrase in introduction', 'fail', `The introduction does not mention "${keyphrase}".`),
+    h2s.length === 0
+      ? noticeCheck('keyphrase-headings', 'Keyphrase in subheadings', 'The article has no H2 subheadings.')
+      : matchingH2s.length > 0
+      ? check(
+          'keyphrase-headings',
+          'Keyphrase in subheadings',
+          'pass',
+          `${matchingH2s.length} of ${h2s.length} H2 subheadings contain "${keyphrase}".`
+        )
+      : check(
+          'keyphrase-headings',
+          'Keyphrase in subheadings',
+          'warning',
+          `None of the ${h2s.length} H2 subheadings contain "${keyphrase}".`
+        ),
+  ];
+}
+
+// WordPress renders the post title as the page's H1, so the body should start
+// at H2 and go down one level at a time.
+export function findHierarchyIssues(headings: HeadingFragment[]): string[] {
+  const issues: string[] = [];
+  let previousLevel = 1;
+  for (const heading of headings) {
+    const name = `H${heading.level} "${snippet(heading.text)}"`;
+    if (heading.level === 1) {
+      issues.push(`${name} duplicates the page title's H1`);
+    } else if (heading.level > previousLevel + 1) {
+      issues.push(`${name} skips from H${previousLevel}`);
+    }
+    previousLevel = Math.max(heading.level, 1);
+  }
+  return issues;
+}
+
+function checkHeadingHierarchy(headings: HeadingFragment[]): AuditCheck {
+  if (headings.length === 0) {
+    return noticeCheck('heading-hierarchy', 'Heading hierarchy', 'The article has no subheadings.');
+  }
+  const issues = findHierarchyIssues(headings);
+  return issues.length
+    ? check(
+        'heading-hierarchy',
+        'Heading hierarchy',
+        'fail',
+        `${issues.length} heading${issues.length === 1 ? '' : 's'} break the H2–H6 order.`,
+        issues
+      )
+    : check('heading-hierarchy', 'Heading hierarchy', 'pass', 'Headings nest in order.');
+}
+
+export function findDuplicateHeadings(headings: HeadingFragment[]): HeadingFragment[] {
+  const seen = new Set<string>();
+  return headings.filter((heading) => {
+    const key = normalizePhrase(heading.text);
+    if (seen.has(key)) {
+      return true;
+    }
+    seen.add(key);
+    return false;
+  });
+}
+
+function checkDuplicateHeadings(headings: HeadingFragment[]): AuditCheck {
+  const duplicates = findDuplicateHeadings(headings);
+  return duplicates.length
+    ? check(
+        'duplicate-headings',
+        'Unique headings',
+        'fail',
+        `${duplicates.length} heading${duplicates.length === 1 ? ' repeats' : 's repeat'} an earlier one.`,
+        duplicates.map((heading) => heading.text)
+      )
+    : check('duplicate-headings', 'Unique headings', 'pass', 'Every heading is unique.');
+}
+
+export function findLongParagraphs(html: string): HtmlFragment[] {
+  return findParagraphs(html).filter(
+    (paragraph) => countWordsFromHtml(paragraph.html) > MAX_PARAGRAPH_WORDS
+  );
+}
+
+function checkParagraphLength(html: string): AuditCheck {
+  const long = findLongParagraphs(html);
+  return long.length
+    ? check(
+        'paragraph-length',
+        'Paragraph length',
+        'fail',
+        `${long.length} paragraph${long.length === 1 ? ' is' : 's are'} longer than ${MAX_PARAGRAPH_WORDS} words.`,
+        long.map((paragraph) => snippet(htmlToPlainText(paragraph.html)))
+      )
+    : check('paragraph-length', 'Paragraph length', 'pass', `No paragraph is longer than ${MAX_PARAGRAPH_WORDS} words.`);
+}
+
+// Paragraphs above the target grade, hardest first, for the readability fix.
+export function findHardParagraphs(html: string): HtmlFragment[] {
+  return findParagraphs(html)
+    .map((paragraph) => ({ paragraph, grade: readingGrade(htmlToPlainText(paragraph.html)) }))
+    .filter((entry) => entry.grade !== null && entry.grade > TARGET_READING_GRADE)
+    .sort((a, b) => b.grade - a.grade)
+    .map((entry) => entry.paragraph);
+}
+
+function bodyText(html: string): string {
+  const blocks = html.match(/<(p|li)\b[^>]*>[\s\S]*?<\/\1>/gi) ?? [];
+  return blocks.map(htmlToPlainText).join(' ');
+}
+
+function checkReadability(grade: number | null): AuditCheck {
+  if (grade === null) {
+    return noticeCheck('readability', 'Readability', 'There is not enough body text to score.');
+  }
+  const message = `Flesch-Kincaid grade ${grade} (aim for ${TARGET_READING_GRADE} or lower).`;
+  if (grade <= TARGET_READING_GRADE) {
+    return check('readability', 'Readability', 'pass', message);
+  }
+  return check('readability', 'Readability', grade <= MAX_READING_GRADE ? 'warning' : 'fail', message);
+}
+
+function checkLinkDensity(html: string, wordCount: number): AuditCheck {
+  const anchors: string[] = html.match(/<a\b[^>]*>[\s\S]*?<\/a>/gi) ?? [];
+  if (anchors.length === 0) {
+    return check('link-density', 'Link density', 'warning', 'The article has no links to sources or related posts.');
+  }
+  const linkedWords = anchors.reduce((total, anchor) => total + countWordsFromHtml(anchor), 0);
+  const share = wordCount ? linkedWords / wordCount : 1;
+  const percent = Math.round(share * 100);
+  return share > MAX_LINKED_WORD_SHARE
+    ? check(
+        'link-density',
+        'Link density',
+        'fail',
+        `${percent}% of words are linked across ${anchors.length} links; keep it under ${MAX_LINKED_WORD_SHARE * 100}%.`
+      )
+    : check('link-density', 'Link density', 'pass', `${anchors.length} links cover ${percent}% of words.`);
+}
+
+export function findImagesMissingAlt(html: string): HtmlFragment[] {
+  return findImages(html).filter((image) => !readAttribute(image.html, 'alt')?.trim());
+}
+
+function checkImageAlt(html: string, imageCount: number): AuditCheck {
+  if (imageCount === 0) {
+    return check('image-alt', 'Image alt text', 'pass', 'The article has no images.');
+  }
+  const missing = findImagesMissingAlt(html);
+  return missing.length
+    ? check(
+        'image-alt',
+        'Image alt text',
+        'fail',
+        `${missing.length} of ${imageCount} images have no alt text.`,
+        missing.map((image) => readAttribute(image.html, 'src') ?? 'image without src')
+      )
+    : check('image-alt', 'Image alt text', 'pass', `All ${imageCount} images have alt text.`);
+}
+
+export function auditArticle(input: AuditInput): SeoAudit {
+  const html = input.html ?? '';
+  const structure = analyzeArticleStructure(html);
+  const headings = findHeadings(html);
+  const wordCount = countWordsFromHtml(html);
+  const grade = readingGrade(bodyText(html));
+  const imageCount = findImages(html).length;
+
+  const checks = [
+    ...checkKeyphrasePlacement(input, html),
+    checkHeadingHierarchy(headings),
+    checkDuplicateHeadings(headings),
+    checkParagraphLength(html),
+    checkReadability(grade),
+    checkLinkDensity(html, wordCount),
+    checkImageAlt(html, imageCount),
+  ];
+  const points = checks.reduce((total, entry) => total + STATUS_POINTS[entry.status], 0);
+
+  return {
+    score: Math.round((points / checks.length) * 100),
+    checks,
+    stats: {
+      wordCount,
+      paragraphCount:
+        structure.intro.paragraphCount +
+        structure.sections.reduce((total, section) => total + section.paragraphCount, 0),
+      readabilityGrade: grade,
+      linkCount: (html.match(/<a\b[^>]*href=/gi) ?? []).length,
+      imageCount,
+    },
+  };
+}
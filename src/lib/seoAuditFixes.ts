@@ -0,0 +1,283 @@
+// One-click fixes for failed audit checks. Each fix sends the model only the
+// fragments the check flagged and splices its replacements back in place, so
+// the rest of the article is never rewritten.
+
+import {
+  containsKeyphrase,
+  findDuplicateHeadings,
+  findHardParagraphs,
+  findHeadings,
+  findImagesMissingAlt,
+  findIntroRange,
+  findLongParagraphs,
+  htmlToPlainText,
+  MAX_PARAGRAPH_WORDS,
+  readAttribute,
+  TARGET_READING_GRADE,
+  type AuditCheckId,
+  type AuditInput,
+} from './seoAudit';
+
+export type AuditFixFormat = 'html' | 'text' | 'alt';
+
+export type AuditFixTarget = {
+  start: number;
+  end: number;
+  prompt: string;
+};
+
+export type AuditFixPlan = {
+  checkId: AuditCheckId;
+  field: 'content' | 'title';
+  format: AuditFixFormat;
+  targets: AuditFixTarget[];
+  instructions: string[];
+  context?: string[];
+};
+
+const MAX_FIX_TARGETS = 5;
+const MAX_READABILITY_TARGETS = 3;
+export const MAX_ALT_TEXT_LENGTH = 125;
+const ALT_CONTEXT_CHARS = 400;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
+
+function outline(html: string): string[] {
+  return [
+    'Article outline:',
+    ...findHeadings(html).map((heading) => `${'  '.repeat(Math.max(0, heading.level - 2))}- ${heading.text}`),
+  ];
+}
+
+// What the model has to go on for an image: its file name and nearby text.
+export function describeImage(html: string, start: number, end: number, tag: string): string {
+  const before = htmlToPlainText(html.slice(Math.max(0, start - ALT_CONTEXT_CHARS), start));
+  const after = htmlToPlainText(html.slice(end, end + ALT_CONTEXT_CHARS));
+  const src = readAttribute(tag, 'src') ?? '';
+  const fileName = src.split(/[?#]/)[0].split('/').pop() ?? '';
+  return `File: ${fileName || 'unknown'}\nText before: "${before.slice(-200)}"\nText after: "${after.slice(0, 200)}"`;
+}
+
+// Works out what to send the model for a failed check. Returns null when the
+// check has no fix or nothing in the draft needs one.
+export function planAuditFix(checkId: AuditCheckId, input: AuditInput): AuditFixPlan | null {
+  const html = input.html ?? '';
+  const keyphrase = input.focusKeyphrase?.trim() ?? '';
+
+  switch (checkId) {
+    case 'keyphrase-title': {
+      if (!keyphrase || containsKeyphrase(input.title, keyphrase)) return null;
+      return {
+        checkId,
+        field: 'title',
+        format: 'text',
+        targets: [{ start: 0, end: input.title.length, prompt: input.title }],
+        instructions: [
+          `Rewrite the title so it contains the exact phrase "${keyphrase}", as close to the start as reads naturally.`,
+          'Keep the meaning and keep it under 60 characters.',
+        ],
+      };
+    }
+    case 'keyphrase-intro': {
+      if (!keyphrase) return null;
+      const intro = findIntroRange(html);
+      const introHtml = html.slice(intro.start, intro.end);
+      if (introHtml.trim() && containsKeyphrase(htmlToPlainText(introHtml), keyphrase)) return null;
+      return {
+        checkId,
+        field: 'content',
+        format: 'html',
+        targets: [{ ...intro, prompt: introHtml.trim() || '(no introduction yet)' }],
+        instructions: [
+          introHtml.trim()
+            ? `Rewrite the introduction so the exact phrase "${keyphrase}" appears naturally in its first paragraph.`
+            : `Write a one or two paragraph introduction that uses the exact phrase "${keyphrase}" naturally.`,
+          'Keep every fact and link, and keep the length about the same.',
+          'Use only <p>, <strong>, <em> and <a> tags.',
+        ],
+        context: outline(html),
+      };
+    }
+    case 'keyphrase-headings': {
+      const h2s = findHeadings(html).filter((heading) => heading.level === 2);
+      if (!keyphrase || h2s.length === 0) return null;
+      return {
+        checkId,
+        field: 'content',
+        format: 'text',
+        targets: h2s.map((heading) => ({
+          start: heading.innerStart,
+          end: heading.innerEnd,
+          prompt: heading.text,
+        })),
+        instructions: [
+          `Rewrite one or two of these H2 headings so they contain the exact phrase "${keyphrase}" where it fits the section.`,
+          'Return every heading, leaving the others exactly as they are.',
+        ],
+      };
+    }
+    case 'duplicate-headings': {
+      const duplicates = findDuplicateHeadings(findHeadings(html)).slice(0, MAX_FIX_TARGETS);
+      if (duplicates.length === 0) return null;
+      return {
+        checkId,
+        field: 'content',
+        format: 'text',
+        targets: duplicates.map((heading) => ({
+          start: heading.innerStart,
+          end: heading.innerEnd,
+          prompt: `${heading.text}\nSection opens: "${htmlToPlainText(html.slice(heading.end, heading.end + 300))}"`,
+        })),
+        instructions: [
+          'Each of these headings repeats an earlier heading. Rewrite each one so it is distinct and describes its own section.',
+          'Return only the new heading text.',
+        ],
+        context: outline(html),
+      };
+    }
+    case 'paragraph-length': {
+      const long = findLongParagraphs(html).slice(0, MAX_FIX_TARGETS);
+      if (long.length === 0) return null;
+      return {
+        checkId,
+        field: 'content',
+        format: 'html',
+        targets: long.map((paragraph) => ({ ...paragraph, prompt: paragraph.html })),
+        instructions: [
+          `Split each paragraph into two or three paragraphs of under ${MAX_PARAGRAPH_WORDS} words at natural breaks.`,
+          'Keep the wording, facts and links; only change where the paragraphs break.',
+          'Return each item as one or more <p> elements.',
+        ],
+      };
+    }
+    case 'readability': {
+      const hard = findHardParagraphs(html).slice(0, MAX_READABILITY_TARGETS);
+      if (hard.length === 0) return null;
+      return {
+        checkId,
+        field: 'content',
+        format: 'html',
+        targets: hard.map((paragraph) => ({ ...paragraph, prompt: paragraph.html })),
+        instructions: [
+          `Rewrite each paragraph in plainer language, around reading grade ${TARGET_READING_GRADE}: shorter sentences and everyday words.`,
+          'Keep every fact, number, name and link.',
+          'Return each item as a single <p> element.',
+        ],
+      };
+    }
+    case 'image-alt': {
+      const missing = findImagesMissingAlt(html).slice(0, MAX_FIX_TARGETS);
+      if (missing.length === 0) return null;
+      return {
+        checkId,
+        field: 'content',
+        format: 'alt',
+        targets: missing.map((image) => ({
+          start: image.start,
+          end: image.end,
+          prompt: describeImage(html, image.start, image.end, image.html),
+        })),
+        instructions: [
+          `Write alt text for each image: a plain description of what it most likely shows, under ${MAX_ALT_TEXT_LENGTH} characters.`,
+          'Use the file name and the nearby text as clues. Do not start with "image of" or "picture of".',
+        ],
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export function buildAuditFixPrompt(plan: AuditFixPlan, input: AuditInput): string {
+  const keyphrase = input.focusKeyphrase?.trim();
+  return [
+    `You are an SEO editor fixing one issue in the article "${input.title || 'Untitled article'}".`,
+    ...(keyphrase ? [`Focus keyphrase: "${keyphrase}"`] : []),
+    ...(plan.context?.length ? ['', ...plan.context] : []),
+    '',
+    'Instructions:',
+    ...plan.instructions.map((instruction) => `- ${instruction}`),
+    '- Match the tone of the article and do not add facts.',
+    `- Return valid JSON exactly matching {"replacements":["..."]} with ${plan.targets.length} ${plan.targets.length === 1 ? 'entry' : 'entries'}, one per item and in the same order, using double quotes.`,
+    '',
+    'Items:',
+    ...plan.targets.map((target, index) => `${index + 1}. ${target.prompt}`),
+  ].join('\n');
+}
+
+export function parseAuditFixResponse(raw: string | null | undefined, expected: number): string[] | null {
+  const json = raw?.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    return null;
+  }
+  try {
+    const replacements = JSON.parse(json)?.replacements;
+    if (
+      !Array.isArray(replacements) ||
+      replacements.length !== expected ||
+      replacements.some((entry) => typeof entry !== 'string' || !entry.trim())
+    ) {
+      return null;
+    }
+    return replacements.map((entry: string) => entry.trim());
+  } catch {
+    return null;
+  }
+}
+
+export function setAltAttribute(tag: string, alt: string): string {
+  const value = `alt="${escapeAttribute(alt.slice(0, MAX_ALT_TEXT_LENGTH))}"`;
+  return /\salt\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i.test(tag)
+    ? tag.replace(/(\s)alt\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i, `$1${value}`)
+    : tag.replace(/^<img\b/i, `<img ${value}`);
+}
+
+// Splices the replacements into the title or content, last target first so
+// earlier offsets stay valid.
+export function applyAuditFix(source: string, plan: AuditFixPlan, replacements: string[]): string {
+  let result = source;
+  const ordered = plan.targets
+    .map((target, index) => ({ target, replacement: replacements[index] }))
+    .sort((a, b) => b.target.start - a.target.start);
+  for (const { target, replacement } of ordered) {
+    const original = result.slice(target.start, target.end);
+    let next: string;
+    if (plan.format === 'alt') {
+      next = setAltAttribute(original, htmlToPlainText(replacement));
+    } else if (plan.format === 'text') {
+      const text = htmlToPlainText(replacement);
+      next = plan.field === 'content' ? escapeHtml(text) : text;
+    } else {
+      // Keep the whitespace that separated the fragment from what follows.
+      next = original.trim() ? `${replacement}${original.match(/\s*$/)?.[0] ?? ''}` : `${replacement}\n`;
+    }
+    result = result.slice(0, target.start) + next + result.slice(target.end);
+  }
+  return result;
+}
+
+// Renumbers headings so the body starts at H2 and never skips a level. This
+// fix needs no model call.
+export function fixHeadingHierarchy(html: string): string {
+  let previousLevel = 1;
+  const changes = findHeadings(html).map((heading) => {
+    const level = Math.min(Math.max(heading.level, 2), previousLevel + 1);
+    previousLevel = level;
+    return { heading, level };
+  });
+  let result = html;
+  for (const { heading, level } of changes.reverse()) {
+    if (level === heading.level) continue;
+    const retagged = heading.html
+      .replace(/^<h[1-6]/i, `<h${level}`)
+      .replace(/<\/h[1-6]>$/i, `</h${level}>`);
+    result = result.slice(0, heading.start) + retagged + result.slice(heading.end);
+  }
+  return result;
+}
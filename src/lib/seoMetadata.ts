@@ -0,0 +1,203 @@
+// Search metadata for an article: the meta title and description shown in
+// results, the URL slug and the keyphrases SEO plugins score the post against.
+
+export type SeoMetadata = {
+  metaTitle: string;
+  metaDescription: string;
+  slug: string;
+  focusKeyphrase: string;
+  secondaryKeywords: string[];
+};
+
+// Google cuts titles at roughly 600px of 20px Arial; Yoast uses the same limit.
+export const META_TITLE_MAX_PIXELS = 600;
+export const META_DESCRIPTION_MIN_LENGTH = 120;
+export const META_DESCRIPTION_MAX_LENGTH = 155;
+export const MAX_SLUG_LENGTH = 75;
+export const MAX_SECONDARY_KEYWORDS = 6;
+
+const MAX_PROMPT_ARTICLE_LENGTH = 6_000;
+const MAX_KEYPHRASE_LENGTH = 80;
+// Shorter than this, a description cut at a sentence end reads as truncated.
+const MIN_SENTENCE_CUT_LENGTH = 90;
+
+// Approximate advance widths of 20px Arial, grouped by character shape.
+const CHARACTER_WIDTHS: Array<[RegExp, number]> = [
+  [/[ijl.,;:!|'`]/, 4.5],
+  [/[ frtI()[\]{}\-/"]/, 6.7],
+  [/[mwMW@%]/, 16.7],
+  [/[A-Z]/, 13.3],
+];
+const DEFAULT_CHARACTER_WIDTH = 11.1;
+
+const SLUG_STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of',
+  'on', 'or', 'the', 'to', 'with', 'your', 'you', 'this', 'that', 'how', 'what', 'why',
+]);
+
+export function estimateTitlePixelWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const match = CHARACTER_WIDTHS.find(([pattern]) => pattern.test(char));
+    width += match ? match[1] : DEFAULT_CHARACTER_WIDTH;
+  }
+  return Math.round(width);
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Drops whole words from the end until the title fits the pixel budget.
+export function fitMetaTitle(title: string, maxPixels = META_TITLE_MAX_PIXELS): string {
+  let words = collapseWhitespace(title).split(' ');
+  while (words.length > 1 && estimateTitlePixelWidth(words.join(' ')) > maxPixels) {
+    words = words.slice(0, -1);
+  }
+  return words.join(' ').replace(/[\s,;:\-–—|]+$/, '');
+}
+
+// Keeps the description within the snippet length, preferring to end on a
+// full sentence and otherwise cutting at a word with an ellipsis.
+export function fitMetaDescription(
+  description: string,
+  maxLength = META_DESCRIPTION_MAX_LENGTH
+): string {
+  const text = collapseWhitespace(description);
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const clipped = text.slice(0, maxLength);
+  const sentenceEnd = Math.max(clipped.lastIndexOf('. '), clipped.lastIndexOf('! '), clipped.lastIndexOf('? '));
+  if (sentenceEnd + 1 >= MIN_SENTENCE_CUT_LENGTH) {
+    return clipped.slice(0, sentenceEnd + 1);
+  }
+  const wordEnd = clipped.slice(0, maxLength - 1).lastIndexOf(' ');
+  return `${clipped.slice(0, wordEnd > 0 ? wordEnd : maxLength - 1).replace(/[\s,;:.\-–—]+$/, '')}…`;
+}
+
+export function slugify(text: string): string {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const meaningful = words.filter((word) => !SLUG_STOPWORDS.has(word));
+  let slug = (meaningful.length >= 2 ? meaningful : words).join('-');
+  if (slug.length > MAX_SLUG_LENGTH) {
+    slug = slug.slice(0, MAX_SLUG_LENGTH);
+    const lastHyphen = slug.lastIndexOf('-');
+    slug = lastHyphen > 0 ? slug.slice(0, lastHyphen) : slug;
+  }
+  return slug;
+}
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? collapseWhitespace(value) : '';
+}
+
+function readKeywords(value: unknown, exclude: string): string[] {
+  const entries = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+    ? value.split(',')
+    : [];
+  const keywords: string[] = [];
+  for (const entry of entries) {
+    const keyword = readString(entry).slice(0, MAX_KEYPHRASE_LENGTH);
+    const key = keyword.toLowerCase();
+    if (keyword && key !== exclude && !keywords.some((item) => item.toLowerCase() === key)) {
+      keywords.push(keyword);
+    }
+  }
+  return keywords.slice(0, MAX_SECONDARY_KEYWORDS);
+}
+
+// Cleans metadata from the model, the editor or a stored article. Accepts
+// camelCase or snake_case keys and enforces the length limits. Returns null
+// when there is neither a title nor a description to work with.
+export function normalizeSeoMetadata(raw: unknown, fallbackTitle = ''): SeoMetadata | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+  const source = raw as Record<string, unknown>;
+  const metaTitle = fitMetaTitle(readString(source.metaTitle ?? source.meta_title) || fallbackTitle);
+  const metaDescription = fitMetaDescription(
+    readString(source.metaDescription ?? source.meta_description)
+  );
+  if (!metaTitle && !metaDescription) {
+    return null;
+  }
+  const focusKeyphrase = readString(source.focusKeyphrase ?? source.focus_keyphrase).slice(
+    0,
+    MAX_KEYPHRASE_LENGTH
+  );
+  return {
+    metaTitle,
+    metaDescription,
+    slug: slugify(readString(source.slug) || focusKeyphrase || metaTitle),
+    focusKeyphrase,
+    secondaryKeywords: readKeywords(
+      source.secondaryKeywords ?? source.secondary_keywords,
+      focusKeyphrase.toLowerCase()
+    ),
+  };
+}
+
+function htmlToText(html: string): string {
+  return collapseWhitespace(
+    html
+      .replace(/<\/(p|h[1-6]|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+  );
+}
+
+// Used when the metadata request fails: the article title and the opening
+// paragraph, with no keyphrases.
+export function buildFallbackSeoMetadata(title: string, html: string): SeoMetadata {
+  const firstParagraph = html.match(/<p\b[^>]*>([\s\S]*?)<\/p>/i)?.[1] ?? html;
+  return {
+    metaTitle: fitMetaTitle(title),
+    metaDescription: fitMetaDescription(htmlToText(firstParagraph)),
+    slug: slugify(title),
+    focusKeyphrase: '',
+    secondaryKeywords: [],
+  };
+}
+
+export function buildSeoPrompt(title: string, html: string): string {
+  const article = htmlToText(html).slice(0, MAX_PROMPT_ARTICLE_LENGTH);
+  return `
+You are an SEO editor. Write search metadata for the article below.
+
+Title: "${title}"
+
+Article:
+${article}
+
+Return a JSON object with these keys:
+- "metaTitle": at most 60 characters, with the focus keyphrase near the start. Do not add a site name.
+- "metaDescription": ${META_DESCRIPTION_MIN_LENGTH}–${META_DESCRIPTION_MAX_LENGTH} characters that include the focus keyphrase and give a reason to click. No quotation marks.
+- "slug": 3–6 lowercase words joined by hyphens, based on the focus keyphrase, without stop words or dates.
+- "focusKeyphrase": the 2–4 word phrase the article should rank for. It must appear in the article.
+- "secondaryKeywords": an array of 3–${MAX_SECONDARY_KEYWORDS} related phrases that appear in the article.
+
+Respond with JSON only.
+`.trim();
+}
+
+export function parseSeoResponse(raw: string | null | undefined, fallbackTitle: string): SeoMetadata | null {
+  const json = raw?.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    return null;
+  }
+  try {
+    return normalizeSeoMetadata(JSON.parse(json), fallbackTitle);
+  } catch {
+    return null;
+  }
+}
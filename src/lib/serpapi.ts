@@ -29,7 +29,18 @@ export interface SerpApiScholarResult {
   };
 }
 
+// Google's "People also ask" box. Some answers are a list instead of a snippet.
+export interface SerpApiRelatedQuestion {
+  question?: string;
+  snippet?: string;
+  list?: string[];
+  title?: string;
+  link?: string;
+  source?: { name?: string } | null;
+}
+
 export interface SerpApiResponse {
+  related_questions?: SerpApiRelatedQuestion[];
   organic_results?: SerpApiOrganicResult[];
   news_results?: SerpApiNewsResult[];
   scholar_results?: SerpApiScholarResult[];
@@ -37,6 +48,8 @@ export interface SerpApiResponse {
 }
 
 export type SerpApiResult = {
+  // Set only for related questions.
+  question?: string;
   title?: string;
   link?: string;
   snippet?: string;
@@ -54,6 +67,10 @@ export type SerpApiSearchParams = {
   fetchImpl?: typeof fetch;
   timeoutMs?: number;
   limit?: number;
+  // Return the "People also ask" questions instead of the main results.
+  relatedQuestions?: boolean;
+  // Called once per billable request, before it is sent.
+  onRequest?: () => void;
 };
 
 function normalizeSource(source: SerpApiNewsResult['source']): string {
@@ -72,6 +89,26 @@ function normalizeSource(source: SerpApiNewsResult['source']): string {
   return '';
 }
 
+function mapRelatedQuestions(data: SerpApiResponse): SerpApiResult[] {
+  if (!Array.isArray(data.related_questions)) {
+    return [];
+  }
+
+  return data.related_questions
+    .filter((item) => typeof item?.question === 'string' && item.question.trim())
+    .map((item) => {
+      const snippet = item.snippet ?? (Array.isArray(item.list) ? item.list.join('; ') : undefined);
+      return {
+        question: item.question,
+        title: item.title,
+        link: item.link,
+        snippet,
+        summary: snippet,
+        source: normalizeSource(item.source),
+      };
+    });
+}
+
 function mapResponseToResults(data: SerpApiResponse): SerpApiResult[] {
   if (Array.isArray(data.news_results) && data.news_results.length > 0) {
     return data.news_results.map((item) => ({
@@ -118,6 +155,8 @@ export async function serpapiSearch({
   fetchImpl,
   timeoutMs = 10000,
   limit,
+  relatedQuestions = false,
+  onRequest,
 }: SerpApiSearchParams): Promise<SerpApiResult[]> {
   if (!process.env.SERPAPI_KEY) {
     return [];
@@ -150,6 +189,7 @@ export async function serpapiSearch({
         }, timeoutMs)
       : null;
 
+    onRequest?.();
     const response = await requester(url, {
       signal: controller?.signal,
     });
@@ -168,7 +208,7 @@ export async function serpapiSearch({
       return [];
     }
 
-    const results = mapResponseToResults(data);
+    const results = relatedQuestions ? mapRelatedQuestions(data) : mapResponseToResults(data);
     if (typeof limit === 'number' && limit > 0) {
       return results.slice(0, limit);
     }
@@ -0,0 +1,39 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import { DEFAULT_ASPECT_RATIO, parseAspectRatio, type AspectRatio } from './articleImages';
+import { EMPTY_SOURCE_POLICY, normalizeSourcePolicy, type SourcePolicy } from './sourcePolicy';
+
+// Loads the publisher rules from the user's site profile. A missing profile or
+// a storage error falls back to no rules rather than failing generation.
+export async function loadSourcePolicy(userId?: string | null): Promise<SourcePolicy> {
+  if (!userId) {
+    return EMPTY_SOURCE_POLICY;
+  }
+  const { data, error } = await supabaseAdmin
+    .from('site_profiles')
+    .select('source_policy')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('[site-profiles] failed to load source policy', error);
+    return EMPTY_SOURCE_POLICY;
+  }
+  return normalizeSourcePolicy(data?.source_policy);
+}
+
+// The aspect ratio article images are cropped to, from the site profile.
+export async function loadImageAspectRatio(userId?: string | null): Promise<AspectRatio> {
+  const fallback = parseAspectRatio(DEFAULT_ASPECT_RATIO) as AspectRatio;
+  if (!userId) {
+    return fallback;
+  }
+  const { data, error } = await supabaseAdmin
+    .from('site_profiles')
+    .select('image_aspect_ratio')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('[site-profiles] failed to load image aspect ratio', error);
+    return fallback;
+  }
+  return parseAspectRatio(data?.image_aspect_ratio) ?? fallback;
+}
@@ -0,0 +1,59 @@
+// Source documents as the generate page sends them. Kept apart from
+// userSources, which fetches URLs on the server, so the page can use them
+// without bundling Node-only modules.
+
+// Writer-supplied grounding material sent with a generate request: uploaded
+// documents (already converted to text by /api/sources/extract), pasted text,
+// or bare URLs.
+export type SourceDocumentInput =
+  | string
+  | {
+      title?: string | null;
+      url?: string | null;
+      text?: string | null;
+      fileName?: string | null;
+    };
+
+// 'merge' grounds on the documents plus web search results; 'replace' skips
+// the search and uses the documents alone.
+export type SourceDocumentMode = 'merge' | 'replace';
+
+export const MAX_SOURCE_DOCUMENTS = 6;
+export const MAX_SOURCE_DOCUMENT_LENGTH = 30_000;
+
+// Drops empty entries and caps the count and length so that request payloads
+// and stored job payloads stay small.
+export function normalizeSourceDocuments(value: unknown): SourceDocumentInput[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const documents: SourceDocumentInput[] = [];
+  for (const entry of value) {
+    if (documents.length >= MAX_SOURCE_DOCUMENTS) {
+      break;
+    }
+    if (typeof entry === 'string') {
+      const trimmed = entry.trim();
+      if (trimmed) {
+        documents.push(trimmed.slice(0, MAX_SOURCE_DOCUMENT_LENGTH));
+      }
+      continue;
+    }
+    if (!entry || typeof entry !== 'object') {
+      continue;
+    }
+    const readField = (field: unknown) => (typeof field === 'string' ? field.trim() : '');
+    const text = readField(entry.text).slice(0, MAX_SOURCE_DOCUMENT_LENGTH);
+    const url = readField(entry.url);
+    if (!text && !url) {
+      continue;
+    }
+    documents.push({
+      title: readField(entry.title) || null,
+      url: url || null,
+      text: text || null,
+      fileName: readField(entry.fileName) || null,
+    });
+  }
+  return documents;
+}
@@ -0,0 +1,303 @@
+import he from 'he';
+import { fetchPublicUrl, readLimitedBody, type LookupImpl } from './safeFetch';
+
+export type ExtractedArticle = {
+  title: string | null;
+  paragraphs: string[];
+  text: string;
+};
+
+export type SourceFetchOptions = {
+  fetchImpl?: typeof fetch;
+  lookupImpl?: LookupImpl;
+  timeoutMs?: number;
+};
+
+export type SourcePassageOptions = SourceFetchOptions & {
+  maxPassages?: number;
+};
+
+const DEFAULT_FETCH_TIMEOUT_MS = 8_000;
+const SOURCE_FETCH_TIMEOUT_MS = (() => {
+  const parsed = Number(process.env.SOURCE_FETCH_TIMEOUT_MS);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_FETCH_TIMEOUT_MS;
+})();
+const MAX_HTML_BYTES = 1_500_000;
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const FAILURE_CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 200;
+const MIN_PARAGRAPH_LENGTH = 60;
+const MAX_LINK_DENSITY = 0.5;
+const MAX_PASSAGE_LENGTH = 700;
+const DEFAULT_MAX_PASSAGES = 4;
+const LEDE_PASSAGES = 2;
+
+// Elements that never hold article copy. Each is removed with its contents.
+const BOILERPLATE_ELEMENTS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'form',
+  'button',
+  'select',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'figure',
+];
+const BOILERPLATE_TEXT =
+  /^(advertisement|sponsored|subscribe|sign up|log in|read more|related|recommended|share this|follow us|all rights reserved|copyright|©|we use cookies|this site uses cookies)/i;
+const QUERY_STOPWORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'that',
+  'this',
+  'from',
+  'into',
+  'about',
+  'after',
+  'over',
+  'what',
+  'when',
+  'why',
+  'how',
+  'are',
+  'was',
+  'were',
+  'has',
+  'have',
+  'its',
+  'their',
+  'new',
+]);
+
+const cache = new Map<string, { article: ExtractedArticle | null; expiresAt: number }>();
+
+export function isSourceIngestionEnabled(): boolean {
+  return !/^(0|false|off)$/i.test(process.env.SOURCE_FULL_TEXT_ENABLED?.trim() ?? '');
+}
+
+function htmlToText(html: string): string {
+  return he
+    .decode(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function removeElements(html: string, tags: string[]): string {
+  let result = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of tags) {
+    result = result.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), ' ');
+  }
+  return result;
+}
+
+function readTitle(html: string): string | null {
+  const ogTitle = html.match(
+    /<meta[^>]+property=["']og:title["'][^>]*content=["']([^"']+)["']/i
+  )?.[1];
+  const title = ogTitle ?? html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const text = title ? htmlToText(title) : '';
+  return text || null;
+}
+
+// Narrows the page to the element most likely to hold the story: the longest
+// <article>, then <main>, then <body>.
+function selectContentRoot(html: string): string {
+  const articles = html.match(/<article\b[\s\S]*?<\/article\s*>/gi) ?? [];
+  if (articles.length) {
+    return articles.reduce((longest, candidate) =>
+      htmlToText(candidate).length > htmlToText(longest).length ? candidate : longest
+    );
+  }
+  const main = html.match(/<main\b[\s\S]*?<\/main\s*>/i)?.[0];
+  if (main) {
+    return main;
+  }
+  return html.match(/<body\b[\s\S]*<\/body\s*>/i)?.[0] ?? html;
+}
+
+function linkDensity(blockHtml: string, textLength: number): number {
+  const linkText = (blockHtml.match(/<a\b[\s\S]*?<\/a\s*>/gi) ?? [])
+    .map((link) => htmlToText(link))
+    .join('');
+  return textLength ? linkText.length / textLength : 1;
+}
+
+// Readability-style extraction without a DOM: drop boilerplate elements, pick
+// the content root, then keep the paragraphs that read like prose rather than
+// link lists, captions or cookie banners.
+export function extractMainText(html: string): ExtractedArticle {
+  const title = readTitle(html);
+  const root = selectContentRoot(removeElements(html, ['head', ...BOILERPLATE_ELEMENTS]));
+  const seen = new Set<string>();
+  const paragraphs: string[] = [];
+
+  for (const match of root.matchAll(/<(p|li|blockquote)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi)) {
+    const blockHtml = match[2];
+    const text = htmlToText(blockHtml);
+    if (text.length < MIN_PARAGRAPH_LENGTH || BOILERPLATE_TEXT.test(text)) {
+      continue;
+    }
+    if (linkDensity(blockHtml, text.length) > MAX_LINK_DENSITY) {
+      continue;
+    }
+    const key = text.toLowerCase();
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    paragraphs.push(text);
+  }
+
+  return { title, paragraphs, text: paragraphs.join('\n\n') };
+}
+
+function readCache(url: string): { article: ExtractedArticle | null } | null {
+  const entry = cache.get(url);
+  if (!entry) {
+    return null;
+  }
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(url);
+    return null;
+  }
+  return entry;
+}
+
+function writeCache(url: string, article: ExtractedArticle | null) {
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) {
+      cache.delete(oldest);
+    }
+  }
+  cache.set(url, {
+    article,
+    expiresAt: Date.now() + (article ? CACHE_TTL_MS : FAILURE_CACHE_TTL_MS),
+  });
+}
+
+export function clearSourceCache() {
+  cache.clear();
+}
+
+// Fetches a source page and extracts its main text. Results, including
+// failures, are cached per URL in memory so retries and verification reuse
+// the first fetch. Returns null for non-HTML responses and pages without prose.
+export async function fetchSourceText(
+  url: string,
+  { fetchImpl, lookupImpl, timeoutMs = SOURCE_FETCH_TIMEOUT_MS }: SourceFetchOptions = {}
+): Promise<ExtractedArticle | null> {
+  const cached = readCache(url);
+  if (cached) {
+    return cached.article;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let article: ExtractedArticle | null = null;
+  try {
+    // URLs come from search results and users, so private hosts are refused
+    // on every redirect and only the first MAX_HTML_BYTES are read.
+    const response = await fetchPublicUrl(url, {
+      fetchImpl,
+      lookupImpl,
+      signal: controller.signal,
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+    });
+    const contentType = response.headers.get('content-type') ?? '';
+    if (response.ok && /html/i.test(contentType)) {
+      const html = (await readLimitedBody(response, MAX_HTML_BYTES)).data.toString('utf8');
+      const extracted = extractMainText(html);
+      article = extracted.paragraphs.length ? extracted : null;
+    }
+  } catch (err) {
+    console.warn(`[sources] failed to fetch ${url}`, err);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  writeCache(url, article);
+  return article;
+}
+
+function buildQueryTokens(query: string): Set<string> {
+  return new Set(
+    query
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length >= 3 && !QUERY_STOPWORDS.has(token))
+  );
+}
+
+function truncatePassage(text: string): string {
+  return text.length > MAX_PASSAGE_LENGTH ? `${text.slice(0, MAX_PASSAGE_LENGTH - 1)}…` : text;
+}
+
+// Ranks paragraphs by how many query terms they mention, with a small bonus
+// for figures, and returns the best ones in article order. Falls back to the
+// lede when nothing matches the query.
+export function selectRelevantPassages(
+  paragraphs: string[],
+  query: string,
+  maxPassages = DEFAULT_MAX_PASSAGES
+): string[] {
+  const queryTokens = buildQueryTokens(query);
+  const scored = paragraphs.map((paragraph, index) => {
+    const tokens = new Set(paragraph.toLowerCase().split(/[^a-z0-9]+/));
+    let score = 0;
+    for (const token of queryTokens) {
+      if (tokens.has(token)) {
+        score += 1;
+      }
+    }
+    if (score > 0 && /\d/.test(paragraph)) {
+      score += 0.5;
+    }
+    return { paragraph, index, score };
+  });
+
+  const matches = scored
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, maxPassages)
+    .sort((a, b) => a.index - b.index)
+    .map((item) => item.paragraph);
+  const selected = matches.length ? matches : paragraphs.slice(0, LEDE_PASSAGES);
+  return selected.map(truncatePassage);
+}
+
+// Adds `passages` from each source's full text, chosen for relevance to the
+// query and the source title. Sources that cannot be fetched are returned
+// unchanged, so callers still have the search snippet.
+export async function attachSourcePassages<T extends { url: string; title?: string | null }>(
+  sources: T[],
+  query: string,
+  { maxPassages = DEFAULT_MAX_PASSAGES, ...fetchOptions }: SourcePassageOptions = {}
+): Promise<Array<T & { passages?: string[] }>> {
+  if (!isSourceIngestionEnabled()) {
+    return sources;
+  }
+
+  return Promise.all(
+    sources.map(async (source) => {
+      const article = await fetchSourceText(source.url, fetchOptions);
+      if (!article) {
+        return source;
+      }
+      const passages = selectRelevantPassages(
+        article.paragraphs,
+        `${query} ${source.title ?? ''}`,
+        maxPassages
+      );
+      return passages.length ? { ...source, passages } : source;
+    })
+  );
+}
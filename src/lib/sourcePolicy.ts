@@ -0,0 +1,198 @@
+// Publisher rules applied when picking and linking grounding sources. A policy
+// is stored on the user's site profile and can be extended per request.
+
+export type SourceTrustTier = 'primary' | 'trusted' | 'standard' | 'low';
+
+export type SourcePolicy = {
+  // Preferred publishers. They rank as "trusted" unless a tier says otherwise,
+  // and with allowlistOnly they are the only publishers used.
+  allowlist: string[];
+  allowlistOnly: boolean;
+  // Never used as sources and never linked.
+  denylist: string[];
+  competitors: string[];
+  // Drops competitor sources and unlinks any competitor URL in the article.
+  neverLinkCompetitors: boolean;
+  // Domain → tier overrides, on top of the built-in tiers.
+  trustTiers: Record<string, SourceTrustTier>;
+};
+
+export const SOURCE_TRUST_TIERS: SourceTrustTier[] = ['primary', 'trusted', 'standard', 'low'];
+
+export const EMPTY_SOURCE_POLICY: SourcePolicy = {
+  allowlist: [],
+  allowlistOnly: false,
+  denylist: [],
+  competitors: [],
+  neverLinkCompetitors: false,
+  trustTiers: {},
+};
+
+// Added to the headline overlap score when ranking candidate sources.
+export const TRUST_TIER_BOOSTS: Record<SourceTrustTier, number> = {
+  primary: 0.3,
+  trusted: 0.15,
+  standard: 0,
+  low: -0.2,
+};
+
+const MAX_POLICY_DOMAINS = 200;
+// Government, education and intergovernmental sites publish primary material.
+const PRIMARY_HOST_PATTERN = /\.(gov|mil|edu|int)(\.[a-z]{2})?$|\.(gov|ac|nhs)\.uk$|\.europa\.eu$/;
+const DEFAULT_TRUSTED_DOMAINS = [
+  'apnews.com',
+  'reuters.com',
+  'bbc.com',
+  'bbc.co.uk',
+  'npr.org',
+  'nature.com',
+  'science.org',
+  'who.int',
+];
+
+export function normalizeDomain(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    const { hostname } = new URL(/^[a-z]+:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const domain = hostname.replace(/^www\./, '').replace(/\.$/, '');
+    return domain.includes('.') ? domain : null;
+  } catch {
+    return null;
+  }
+}
+
+function toDomainList(value: unknown): string[] {
+  const entries = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+    ? value.split(/[,\n]/)
+    : [];
+  const domains = new Set<string>();
+  for (const entry of entries) {
+    const domain = typeof entry === 'string' ? normalizeDomain(entry) : null;
+    if (domain) {
+      domains.add(domain);
+    }
+  }
+  return Array.from(domains).slice(0, MAX_POLICY_DOMAINS);
+}
+
+// Accepts the stored JSON or a request body, in snake_case or camelCase, and
+// drops anything that is not a valid domain or tier.
+export function normalizeSourcePolicy(raw: unknown): SourcePolicy {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+  const trustTiers: Record<string, SourceTrustTier> = {};
+  const rawTiers = source.trust_tiers ?? source.trustTiers;
+  if (rawTiers && typeof rawTiers === 'object' && !Array.isArray(rawTiers)) {
+    for (const [key, tier] of Object.entries(rawTiers)) {
+      const domain = normalizeDomain(key);
+      if (domain && SOURCE_TRUST_TIERS.includes(tier as SourceTrustTier)) {
+        trustTiers[domain] = tier as SourceTrustTier;
+      }
+    }
+  }
+  return {
+    allowlist: toDomainList(source.allowlist),
+    allowlistOnly: Boolean(source.allowlist_only ?? source.allowlistOnly),
+    denylist: toDomainList(source.denylist),
+    competitors: toDomainList(source.competitors),
+    neverLinkCompetitors: Boolean(source.never_link_competitors ?? source.neverLinkCompetitors),
+    trustTiers,
+  };
+}
+
+// Combines policies from least to most specific: lists are unioned, flags
+// stay on once any policy sets them, and later tiers win.
+export function mergeSourcePolicies(...policies: SourcePolicy[]): SourcePolicy {
+  const union = (key: 'allowlist' | 'denylist' | 'competitors') =>
+    Array.from(new Set(policies.flatMap((policy) => policy[key])));
+  return {
+    allowlist: union('allowlist'),
+    allowlistOnly: policies.some((policy) => policy.allowlistOnly),
+    denylist: union('denylist'),
+    competitors: union('competitors'),
+    neverLinkCompetitors: policies.some((policy) => policy.neverLinkCompetitors),
+    trustTiers: Object.assign({}, ...policies.map((policy) => policy.trustTiers)),
+  };
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+// Returns the most specific listed domain that covers the hostname, so an
+// entry for example.com also matches news.example.com.
+function findDomain(hostname: string, domains: Iterable<string>): string | null {
+  let best: string | null = null;
+  for (const domain of domains) {
+    if (
+      (hostname === domain || hostname.endsWith(`.${domain}`)) &&
+      (!best || domain.length > best.length)
+    ) {
+      best = domain;
+    }
+  }
+  return best;
+}
+
+export function resolveTrustTier(url: string, policy: SourcePolicy): SourceTrustTier {
+  const hostname = getHostname(url);
+  if (!hostname) {
+    return 'standard';
+  }
+  const override = findDomain(hostname, Object.keys(policy.trustTiers));
+  if (override) {
+    return policy.trustTiers[override];
+  }
+  if (PRIMARY_HOST_PATTERN.test(hostname)) {
+    return 'primary';
+  }
+  if (findDomain(hostname, policy.allowlist) || findDomain(hostname, DEFAULT_TRUSTED_DOMAINS)) {
+    return 'trusted';
+  }
+  return 'standard';
+}
+
+// True when the policy rules the URL out as a source or a link.
+export function isSourceBlocked(url: string, policy: SourcePolicy): boolean {
+  const hostname = getHostname(url);
+  if (!hostname) {
+    return false;
+  }
+  if (findDomain(hostname, policy.denylist)) {
+    return true;
+  }
+  if (policy.neverLinkCompetitors && findDomain(hostname, policy.competitors)) {
+    return true;
+  }
+  return policy.allowlistOnly && policy.allowlist.length > 0 && !findDomain(hostname, policy.allowlist);
+}
+
+// Unwraps links to denied and (when configured) competitor domains, keeping
+// the anchor text. The allowlist is not applied here, so ordinary links the
+// model added to other sites are left alone.
+export function removeBlockedLinks(
+  html: string,
+  policy: SourcePolicy
+): { html: string; removed: string[] } {
+  const removed: string[] = [];
+  const blocked = { ...policy, allowlistOnly: false };
+  const result = html.replace(
+    /<a\b[^>]*\bhref\s*=\s*(["'])([^"']*)\1[^>]*>([\s\S]*?)<\/a\s*>/gi,
+    (anchor, _quote, href: string, text: string) => {
+      if (!isSourceBlocked(href.replace(/&amp;/g, '&'), blocked)) {
+        return anchor;
+      }
+      removed.push(href);
+      return text;
+    }
+  );
+  return { html: result, removed };
+}
@@ -0,0 +1,355 @@
+// schema.org JSON-LD for an article, read from its HTML: Recipe, NewsArticle,
+// ItemList or BlogPosting depending on the article type, plus FAQPage when
+// the article has an FAQ section.
+
+import type { SeoMetadata } from './seoMetadata';
+
+export type JsonLd = { '@context': string; '@type': string } & Record<string, unknown>;
+
+export type StructuredDataPublisher = {
+  name: string;
+  url?: string;
+  logoUrl?: string;
+};
+
+export type StructuredDataInput = {
+  articleType?: string | null;
+  title: string;
+  html: string;
+  seo?: SeoMetadata | null;
+  url?: string;
+  datePublished?: string;
+  publisher?: StructuredDataPublisher | null;
+};
+
+export type StructuredDataResult = {
+  schemas: JsonLd[];
+  warnings: string[];
+};
+
+export type FaqEntry = { question: string; answer: string };
+
+export type RecipeDetails = {
+  ingredients: string[];
+  instructions: string[];
+  prepTime?: string;
+  cookTime?: string;
+  totalTime?: string;
+  recipeYield?: string;
+};
+
+// Without these a schema is left out; missing recommended properties are only
+// reported. The lists follow Google's rich result requirements.
+export const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  Recipe: ['name', 'recipeIngredient', 'recipeInstructions'],
+  NewsArticle: ['headline', 'datePublished'],
+  BlogPosting: ['headline'],
+  ItemList: ['itemListElement'],
+  FAQPage: ['mainEntity'],
+};
+
+export const RECOMMENDED_PROPERTIES: Record<string, string[]> = {
+  Recipe: ['image', 'description', 'totalTime', 'recipeYield'],
+  NewsArticle: ['image', 'publisher', 'dateline'],
+  BlogPosting: ['image', 'datePublished', 'publisher'],
+  ItemList: [],
+  FAQPage: [],
+};
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+const MAX_HEADLINE_LENGTH = 110;
+const MAX_DESCRIPTION_LENGTH = 160;
+const MIN_LIST_ITEMS = 2;
+
+export const FAQ_HEADING = /\b(faqs?|frequently asked questions)\b/i;
+const INGREDIENTS_HEADING = /\bingredients?\b/i;
+const INSTRUCTIONS_HEADING = /\b(instructions|directions|method|steps|preparation|how to make)\b/i;
+const JSON_LD_SCRIPT = /<script\b[^>]*type=["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>\s*/gi;
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(nbsp|#160);/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0?39;|&rsquo;/gi, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength - 1);
+  const wordEnd = cut.lastIndexOf(' ');
+  return `${cut.slice(0, wordEnd > 0 ? wordEnd : cut.length)}…`;
+}
+
+type HtmlBlock = { tag: string; level: number; html: string; text: string };
+
+// Top-level headings, paragraphs and lists in document order.
+function readBlocks(html: string): HtmlBlock[] {
+  return Array.from(html.matchAll(/<(h[1-6]|p|ul|ol)\b[^>]*>([\s\S]*?)<\/\1>/gi), (match) => {
+    const tag = match[1].toLowerCase();
+    return {
+      tag,
+      level: tag.startsWith('h') ? Number(tag[1]) : 0,
+      html: match[2],
+      text: htmlToText(match[2]),
+    };
+  });
+}
+
+// The blocks under the first heading that matches, up to the next heading of
+// the same or a higher level.
+function sectionBlocks(blocks: HtmlBlock[], heading: RegExp): HtmlBlock[] | null {
+  const index = blocks.findIndex((block) => block.level > 0 && heading.test(block.text));
+  if (index === -1) {
+    return null;
+  }
+  const level = blocks[index].level;
+  const end = blocks.findIndex((block, position) => position > index && block.level > 0 && block.level <= level);
+  return blocks.slice(index + 1, end === -1 ? blocks.length : end);
+}
+
+function listItems(blocks: HtmlBlock[]): string[] {
+  return blocks
+    .filter((block) => block.tag === 'ul' || block.tag === 'ol')
+    .flatMap((block) => Array.from(block.html.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi), (match) => htmlToText(match[1])))
+    .filter(Boolean);
+}
+
+function firstImage(html: string): string | undefined {
+  return html.match(/<img\b[^>]*\ssrc=["']([^"']+)["']/i)?.[1];
+}
+
+function firstParagraph(html: string): string {
+  return htmlToText(html.match(/<p\b[^>]*>([\s\S]*?)<\/p>/i)?.[1] ?? '');
+}
+
+// "1 hour 15 minutes", "45 mins" or "1½ hrs" as an ISO 8601 duration.
+export function toIsoDuration(text: string): string | undefined {
+  const normalized = text.toLowerCase().replace(/½/g, '.5');
+  const hours = Number(normalized.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/)?.[1] ?? 0);
+  const minutes = Number(normalized.match(/(\d+)\s*(?:minutes?|mins?|m)\b/)?.[1] ?? 0);
+  const totalMinutes = Math.round(hours * 60 + minutes);
+  if (!totalMinutes) {
+    return undefined;
+  }
+  const wholeHours = Math.floor(totalMinutes / 60);
+  const rest = totalMinutes % 60;
+  return `PT${wholeHours ? `${wholeHours}H` : ''}${rest ? `${rest}M` : ''}`;
+}
+
+function readLabelledValue(text: string, label: RegExp): string | undefined {
+  const match = text.match(new RegExp(`${label.source}\\s*:?\\s*([^.;|\\n]{1,40})`, 'i'));
+  return match?.[1]?.trim() || undefined;
+}
+
+export function extractRecipe(html: string): RecipeDetails | null {
+  const blocks = readBlocks(html);
+  const ingredients = listItems(sectionBlocks(blocks, INGREDIENTS_HEADING) ?? []);
+  const instructionBlocks = sectionBlocks(blocks, INSTRUCTIONS_HEADING) ?? [];
+  const instructionItems = listItems(instructionBlocks);
+  const instructions = instructionItems.length
+    ? instructionItems
+    : instructionBlocks.filter((block) => block.tag === 'p' && block.text).map((block) => block.text);
+  if (ingredients.length === 0 || instructions.length === 0) {
+    return null;
+  }
+
+  const text = blocks.map((block) => block.text).join('\n');
+  const readTime = (label: RegExp) => {
+    const value = readLabelledValue(text, label);
+    return value ? toIsoDuration(value) : undefined;
+  };
+  const prepTime = readTime(/\bprep(?:aration)?\s+time/);
+  const cookTime = readTime(/\bcook(?:ing)?\s+time/);
+  const totalTime = readTime(/\btotal\s+time/);
+  const recipeYield = readLabelledValue(text, /\b(?:serves|servings|yield|makes)/);
+  return {
+    ingredients,
+    instructions,
+    ...(prepTime && { prepTime }),
+    ...(cookTime && { cookTime }),
+    ...(totalTime && { totalTime }),
+    ...(recipeYield && { recipeYield }),
+  };
+}
+
+// Questions are the subheadings (or bold question paragraphs) inside an FAQ
+// section; each answer is the text up to the next question.
+export function extractFaqs(html: string): FaqEntry[] {
+  const blocks = sectionBlocks(readBlocks(html), FAQ_HEADING) ?? [];
+  const faqs: FaqEntry[] = [];
+  for (const block of blocks) {
+    const isBoldQuestion =
+      block.tag === 'p' &&
+      /^\s*<(strong|b)\b[^>]*>[\s\S]*<\/\1>\s*$/i.test(block.html) &&
+      block.text.endsWith('?');
+    if (block.level > 0 || isBoldQuestion) {
+      faqs.push({ question: block.text, answer: '' });
+    } else if (faqs.length) {
+      const current = faqs[faqs.length - 1];
+      const text = block.tag === 'p' ? block.text : listItems([block]).join('; ');
+      current.answer = [current.answer, text].filter(Boolean).join(' ');
+    }
+  }
+  return faqs.filter((faq) => faq.question && faq.answer);
+}
+
+// Listicle entries are the H2s, without the numbering the generator adds.
+export function extractListItems(html: string): string[] {
+  return readBlocks(html)
+    .filter((block) => block.level === 2 && !FAQ_HEADING.test(block.text))
+    .map((block) => block.text.replace(/^(?:#?\d+[.):]?|\(\d+\))\s*[-–—:]?\s*/, '').trim())
+    .filter(Boolean);
+}
+
+// "PORTLAND, Ore. —" or "LONDON (Reuters) -" at the start of the first paragraph.
+export function extractDateline(html: string): string | undefined {
+  const match = firstParagraph(html).match(/^([A-Z][A-Z .'-]+(?:,\s*[A-Z][\w. ]{1,20})?)\s*(?:\([^)]{1,40}\))?\s*[—–-]{1,2}\s/);
+  return match?.[1]?.trim();
+}
+
+function buildPublisher(publisher?: StructuredDataPublisher | null) {
+  if (!publisher?.name) {
+    return undefined;
+  }
+  return {
+    '@type': 'Organization',
+    name: publisher.name,
+    ...(publisher.url && { url: publisher.url }),
+    ...(publisher.logoUrl && { logo: { '@type': 'ImageObject', url: publisher.logoUrl } }),
+  };
+}
+
+function compact(schema: Record<string, unknown>): JsonLd {
+  return Object.fromEntries(
+    Object.entries(schema).filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+  ) as JsonLd;
+}
+
+function seoKeywords(seo?: SeoMetadata | null): string {
+  return seo ? [seo.focusKeyphrase, ...seo.secondaryKeywords].filter(Boolean).join(', ') : '';
+}
+
+function articleSchema(type: 'NewsArticle' | 'BlogPosting', input: StructuredDataInput): JsonLd {
+  return compact({
+    '@context': SCHEMA_CONTEXT,
+    '@type': type,
+    headline: truncate(input.title.trim(), MAX_HEADLINE_LENGTH),
+    description: input.seo?.metaDescription || truncate(firstParagraph(input.html), MAX_DESCRIPTION_LENGTH),
+    image: firstImage(input.html),
+    datePublished: input.datePublished,
+    dateModified: input.datePublished,
+    ...(type === 'NewsArticle' && { dateline: extractDateline(input.html) }),
+    publisher: buildPublisher(input.publisher),
+    mainEntityOfPage: input.url,
+    keywords: seoKeywords(input.seo),
+  });
+}
+
+function recipeSchema(input: StructuredDataInput, recipe: RecipeDetails | null): JsonLd {
+  return compact({
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'Recipe',
+    name: input.title.trim(),
+    description: input.seo?.metaDescription || truncate(firstParagraph(input.html), MAX_DESCRIPTION_LENGTH),
+    image: firstImage(input.html),
+    datePublished: input.datePublished,
+    author: buildPublisher(input.publisher),
+    prepTime: recipe?.prepTime,
+    cookTime: recipe?.cookTime,
+    totalTime: recipe?.totalTime,
+    recipeYield: recipe?.recipeYield,
+    recipeIngredient: recipe?.ingredients,
+    recipeInstructions: recipe?.instructions.map((text) => ({ '@type': 'HowToStep', text })),
+    keywords: seoKeywords(input.seo),
+  });
+}
+
+function itemListSchema(input: StructuredDataInput): JsonLd {
+  const items = extractListItems(input.html);
+  return compact({
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'ItemList',
+    name: input.title.trim(),
+    numberOfItems: items.length,
+    itemListElement:
+      items.length >= MIN_LIST_ITEMS
+        ? items.map((name, index) => ({ '@type': 'ListItem', position: index + 1, name }))
+        : undefined,
+  });
+}
+
+function faqSchema(faqs: FaqEntry[]): JsonLd {
+  return compact({
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'FAQPage',
+    mainEntity: faqs.map((faq) => ({
+      '@type': 'Question',
+      name: faq.question,
+      acceptedAnswer: { '@type': 'Answer', text: faq.answer },
+    })),
+  });
+}
+
+export function validateStructuredData(schema: JsonLd): { missing: string[]; recommended: string[] } {
+  const absent = (property: string) => schema[property] === undefined;
+  return {
+    missing: (REQUIRED_PROPERTIES[schema['@type']] ?? []).filter(absent),
+    recommended: (RECOMMENDED_PROPERTIES[schema['@type']] ?? []).filter(absent),
+  };
+}
+
+// Builds the schemas for the article type and drops any that lack a required
+// property. Articles without a type are treated as recipes when the HTML has
+// ingredient and instruction lists, and as blog posts otherwise.
+export function buildStructuredData(input: StructuredDataInput): StructuredDataResult {
+  const html = input.html ?? '';
+  const recipe = extractRecipe(html);
+  const articleType = input.articleType || (recipe ? 'Recipe article' : 'Blog post');
+  const candidates: JsonLd[] = [];
+  if (articleType === 'Recipe article') {
+    candidates.push(recipeSchema(input, recipe));
+  } else if (articleType === 'News article') {
+    candidates.push(articleSchema('NewsArticle', input));
+  } else if (articleType === 'Listicle/Gallery') {
+    candidates.push(itemListSchema(input));
+  } else {
+    candidates.push(articleSchema('BlogPosting', input));
+  }
+  const faqs = extractFaqs(html);
+  if (faqs.length) {
+    candidates.push(faqSchema(faqs));
+  }
+
+  const schemas: JsonLd[] = [];
+  const warnings: string[] = [];
+  for (const schema of candidates) {
+    const { missing, recommended } = validateStructuredData(schema);
+    if (missing.length) {
+      warnings.push(`${schema['@type']} left out: missing ${missing.join(', ')}`);
+      continue;
+    }
+    if (recommended.length) {
+      warnings.push(`${schema['@type']} has no ${recommended.join(', ')}`);
+    }
+    schemas.push(schema);
+  }
+  return { schemas, warnings };
+}
+
+// One <script> per schema. "<" is escaped so article text can never close the
+// script tag early.
+export function renderJsonLd(schemas: JsonLd[]): string {
+  return schemas
+    .map((schema) => `<script type="application/ld+json">${JSON.stringify(schema).replace(/</g, '\\u003c')}</script>`)
+    .join('\n');
+}
+
+export function stripJsonLd(html: string): string {
+  return html.replace(JSON_LD_SCRIPT, '');
+}
@@ -0,0 +1,98 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import { getModelSpec, type TokenizerEncoding } from './modelRegistry';
+import type { LlmMessage, LlmTokenLimits } from './llm';
+
+const ENCODING_RANKS = {
+  o200k_base: o200kBase,
+  cl100k_base: cl100kBase,
+};
+
+// Local and unlisted models fall back to cl100k_base, which counts slightly
+// high for most open-weight tokenizers and so errs on the safe side.
+const FALLBACK_ENCODING: TokenizerEncoding = 'cl100k_base';
+
+// Chat formatting wraps every message in a few special tokens and primes the
+// assistant reply, on top of the content itself.
+const TOKENS_PER_MESSAGE = 3;
+const REPLY_PRIMER_TOKENS = 3;
+
+const DEFAULT_MARGIN_TOKENS = 256;
+
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+function getEncoder(model: string): Tiktoken {
+  const encoding = getModelSpec(model)?.encoding ?? FALLBACK_ENCODING;
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(ENCODING_RANKS[encoding]);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+export function countTokens(text: string, model: string): number {
+  if (!text) {
+    return 0;
+  }
+  return getEncoder(model).encode(text).length;
+}
+
+export function countMessageTokens(messages: LlmMessage[], model: string): number {
+  return (
+    messages.reduce(
+      (total, message) => total + TOKENS_PER_MESSAGE + countTokens(message.content, model),
+      0
+    ) + REPLY_PRIMER_TOKENS
+  );
+}
+
+export function truncateToTokens(text: string, maxTokens: number, model: string): string {
+  const encoder = getEncoder(model);
+  const tokens = encoder.encode(text);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+  return encoder.decode(tokens.slice(0, Math.max(maxTokens, 0)));
+}
+
+export type PromptBudget = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+// Reserves room for the completion first (capped at the model's output limit)
+// and leaves the rest of the context window, minus a margin, to the prompt.
+export function planPromptBudget(
+  limits: LlmTokenLimits,
+  desiredOutputTokens: number,
+  marginTokens = DEFAULT_MARGIN_TOKENS
+): PromptBudget {
+  const outputTokens = Math.min(Math.max(desiredOutputTokens, 0), limits.maxOutputTokens);
+  return {
+    inputTokens: Math.max(limits.contextTokens - outputTokens - marginTokens, 0),
+    outputTokens,
+  };
+}
+
+// Keeps the longest prefix of `items` whose rendered text fits in `maxTokens`.
+// Items are expected in priority order, so the lowest-ranked ones go first.
+export function fitItemsToTokenBudget<T>(
+  items: T[],
+  render: (items: T[]) => string,
+  maxTokens: number,
+  model: string
+): T[] {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (countTokens(render(items.slice(0, mid)), model) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return items.slice(0, low);
+}
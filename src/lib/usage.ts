@@ -0,0 +1,257 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import {
+  estimateLlmCost,
+  getLlmProvider,
+  type LlmChatRequest,
+  type LlmChatResponse,
+  type LlmProvider,
+} from './llm';
+import { countMessageTokens, countTokens } from './tokenBudget';
+
+export type UsageEvent = {
+  kind: 'llm' | 'search';
+  provider: string;
+  model: string | null;
+  stage: string;
+  purpose?: string;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+  // True when the provider did not report usage and tokens were counted locally.
+  estimated: boolean;
+  costUsd: number | null;
+  metadata?: Record<string, unknown>;
+};
+
+export type UsageContext = {
+  route: string;
+  userId?: string | null;
+  articleId?: string | null;
+  articleTitle?: string | null;
+};
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// SerpAPI bills per search rather than per token; the default matches the
+// Developer plan (5,000 searches for $75).
+const SERPAPI_COST_PER_SEARCH_USD = (() => {
+  const parsed = Number.parseFloat(process.env.SERPAPI_COST_PER_SEARCH_USD ?? '');
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0.015;
+})();
+
+export function buildLlmUsageEvent(
+  stage: string,
+  request: LlmChatRequest,
+  response: LlmChatResponse,
+  purpose?: string
+): UsageEvent {
+  const reported = response.usage;
+  const usage = reported ?? {
+    prompt_tokens: countMessageTokens(request.messages, response.model),
+    completion_tokens: countTokens(
+      response.choices[0]?.message?.content ?? '',
+      response.model
+    ),
+    total_tokens: 0,
+  };
+  return {
+    kind: 'llm',
+    provider: response.provider,
+    model: response.model,
+    stage,
+    ...(purpose ? { purpose } : {}),
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    requests: 1,
+    estimated: !reported,
+    costUsd: estimateLlmCost(getLlmProvider(response.provider), response.model, usage),
+  };
+}
+
+export function buildSearchUsageEvent(stage: string, engine: string): UsageEvent {
+  return {
+    kind: 'search',
+    provider: 'serpapi',
+    model: engine,
+    stage,
+    promptTokens: 0,
+    completionTokens: 0,
+    requests: 1,
+    estimated: false,
+    costUsd: SERPAPI_COST_PER_SEARCH_USD,
+  };
+}
+
+// Returns a provider that reports a usage event after every successful call.
+export function withUsageReporting(
+  provider: LlmProvider,
+  stage: string,
+  onUsage: (event: UsageEvent) => void,
+  purpose?: string
+): LlmProvider {
+  const report = (request: LlmChatRequest, response: LlmChatResponse) => {
+    try {
+      onUsage(buildLlmUsageEvent(stage, request, response, purpose));
+    } catch (err) {
+      console.warn('[usage] failed to report usage', err);
+    }
+    return response;
+  };
+  return {
+    ...provider,
+    chat: async (request, options) => report(request, await provider.chat(request, options)),
+    streamChat: async (request, options) =>
+      report(request, await provider.streamChat(request, options)),
+  };
+}
+
+// Usage is bookkeeping: failures are logged and never fail the request.
+export async function recordUsageEvents(
+  context: UsageContext,
+  events: UsageEvent[]
+): Promise<void> {
+  if (!events.length) {
+    return;
+  }
+  const userId = context.userId && UUID_REGEX.test(context.userId) ? context.userId : null;
+  const articleId =
+    context.articleId && UUID_REGEX.test(context.articleId) ? context.articleId : null;
+
+  try {
+    const { error } = await supabaseAdmin.from('usage_events').insert(
+      events.map((event) => ({
+        user_id: userId,
+        article_id: articleId,
+        article_title: context.articleTitle?.trim() || null,
+        route: context.route,
+        kind: event.kind,
+        provider: event.provider,
+        model: event.model,
+        stage: event.stage,
+        purpose: event.purpose ?? null,
+        prompt_tokens: event.promptTokens,
+        completion_tokens: event.completionTokens,
+        requests: event.requests,
+        estimated: event.estimated,
+        cost_usd: event.costUsd,
+        metadata: event.metadata ?? {},
+      }))
+    );
+    if (error) {
+      console.error('[usage] failed to record usage events', error);
+    }
+  } catch (err) {
+    console.error('[usage] failed to record usage events', err);
+  }
+}
+
+export type UsageEventRow = {
+  article_id: string | null;
+  article_title: string | null;
+  kind: UsageEvent['kind'];
+  provider: string;
+  model: string | null;
+  stage: string;
+  purpose: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  requests: number;
+  cost_usd: number | string | null;
+  created_at: string;
+};
+
+export type UsageTotals = {
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  llmRequests: number;
+  searches: number;
+};
+
+export type UsageBreakdown = UsageTotals & {
+  stage: string;
+  purpose: string | null;
+  provider: string;
+  model: string | null;
+};
+
+export type ArticleUsage = UsageTotals & {
+  articleId: string;
+  title: string | null;
+  lastUsedAt: string;
+};
+
+export type UsageSummary = {
+  totals: UsageTotals;
+  byStage: UsageBreakdown[];
+  articles: ArticleUsage[];
+};
+
+function emptyTotals(): UsageTotals {
+  return { costUsd: 0, promptTokens: 0, completionTokens: 0, llmRequests: 0, searches: 0 };
+}
+
+function addRow(totals: UsageTotals, row: UsageEventRow) {
+  // numeric columns come back from PostgREST as strings.
+  const cost = Number(row.cost_usd ?? 0);
+  totals.costUsd += Number.isFinite(cost) ? cost : 0;
+  totals.promptTokens += row.prompt_tokens ?? 0;
+  totals.completionTokens += row.completion_tokens ?? 0;
+  if (row.kind === 'search') {
+    totals.searches += row.requests ?? 0;
+  } else {
+    totals.llmRequests += row.requests ?? 0;
+  }
+}
+
+function roundCost<T extends UsageTotals>(totals: T): T {
+  return { ...totals, costUsd: Math.round(totals.costUsd * 1e6) / 1e6 };
+}
+
+// Rows are expected newest first, as returned by the usage endpoint query.
+export function summarizeUsage(rows: UsageEventRow[]): UsageSummary {
+  const totals = emptyTotals();
+  const stages = new Map<string, UsageBreakdown>();
+  const articles = new Map<string, ArticleUsage>();
+
+  for (const row of rows) {
+    addRow(totals, row);
+
+    const stageKey = [row.stage, row.purpose ?? '', row.provider, row.model ?? ''].join('|');
+    let stage = stages.get(stageKey);
+    if (!stage) {
+      stage = {
+        stage: row.stage,
+        purpose: row.purpose ?? null,
+        provider: row.provider,
+        model: row.model ?? null,
+        ...emptyTotals(),
+      };
+      stages.set(stageKey, stage);
+    }
+    addRow(stage, row);
+
+    if (row.article_id) {
+      let article = articles.get(row.article_id);
+      if (!article) {
+        article = {
+          articleId: row.article_id,
+          title: row.article_title ?? null,
+          lastUsedAt: row.created_at,
+          ...emptyTotals(),
+        };
+        articles.set(row.article_id, article);
+      }
+      addRow(article, row);
+    }
+  }
+
+  return {
+    totals: roundCost(totals),
+    byStage: Array.from(stages.values())
+      .map(roundCost)
+      .sort((a, b) => b.costUsd - a.costUsd),
+    articles: Array.from(articles.values()).map(roundCost),
+  };
+}
@@ -0,0 +1,97 @@
+import { fetchSourceText, selectRelevantPassages } from './sourceIngestion';
+import type { SourceDocumentInput } from './sourceDocuments';
+
+export type UserReportingSource = {
+  title: string;
+  url: string;
+  summary: string;
+  publishedAt: string;
+  passages: string[];
+  sourceName?: string;
+  sourceType: 'user';
+};
+
+const USER_SOURCE_PASSAGES = 8;
+const SUMMARY_LENGTH = 400;
+const CHUNK_LENGTH = 600;
+
+// Splits document text into paragraph-sized chunks. Extracted PDFs often have
+// no blank lines, so long paragraphs are cut at sentence boundaries.
+export function splitDocumentText(text: string): string[] {
+  const chunks: string[] = [];
+  for (const block of text.split(/\n\s*\n/)) {
+    const paragraph = block.replace(/\s+/g, ' ').trim();
+    if (!paragraph) continue;
+    if (paragraph.length <= CHUNK_LENGTH) {
+      chunks.push(paragraph);
+      continue;
+    }
+    let current = '';
+    for (const sentence of paragraph.match(/[^.!?]+(?:[.!?]+["'”’)]*|$)\s*/g) ?? [paragraph]) {
+      if (current && current.length + sentence.length > CHUNK_LENGTH) {
+        chunks.push(current.trim());
+        current = '';
+      }
+      current += sentence;
+    }
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+  }
+  return chunks;
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value);
+}
+
+function summarize(paragraphs: string[]): string {
+  const summary = paragraphs[0] ?? '';
+  return summary.length > SUMMARY_LENGTH ? `${summary.slice(0, SUMMARY_LENGTH - 1)}…` : summary;
+}
+
+// Turns writer-supplied documents into reporting sources. URLs without text
+// are fetched and extracted like search results; documents without a URL keep
+// an empty url, so they ground the article but are never required as links.
+export async function buildUserReportingSources(
+  documents: SourceDocumentInput[],
+  query: string
+): Promise<UserReportingSource[]> {
+  const sources = await Promise.all(
+    documents.map(async (document, index): Promise<UserReportingSource | null> => {
+      const entry =
+        typeof document === 'string'
+          ? isUrl(document)
+            ? { url: document }
+            : { text: document }
+          : document;
+      const url = entry.url && isUrl(entry.url) ? entry.url : '';
+      let title = entry.title?.trim() || entry.fileName?.trim() || '';
+      let paragraphs = entry.text ? splitDocumentText(entry.text) : [];
+
+      if (!paragraphs.length && url) {
+        const article = await fetchSourceText(url);
+        if (!article) {
+          console.warn(`[sources] could not read writer-supplied URL ${url}`);
+          return null;
+        }
+        title ||= article.title ?? '';
+        paragraphs = article.paragraphs;
+      }
+      if (!paragraphs.length) {
+        return null;
+      }
+
+      return {
+        title: title || `Writer-supplied document ${index + 1}`,
+        url,
+        summary: summarize(paragraphs),
+        publishedAt: '',
+        passages: selectRelevantPassages(paragraphs, `${query} ${title}`, USER_SOURCE_PASSAGES),
+        ...(entry.fileName ? { sourceName: entry.fileName } : {}),
+        sourceType: 'user',
+      };
+    })
+  );
+  return sources.filter((source): source is UserReportingSource => Boolean(source));
+}
@@ -0,0 +1,364 @@
+import { resolveStageProviders, type LlmMessage, type LlmProvider } from './llm';
+import type { VerificationVerdict } from './verificationReport';
+
+export type VerificationSource =
+  | string
+  | {
+      url?: string | null;
+      title?: string | null;
+      summary?: string | null;
+      publishedAt?: string | null;
+      passages?: string[] | null;
+    };
+
+export type NormalizedVerificationSource = {
+  url: string;
+  title?: string;
+  summary?: string;
+  publishedAt?: string;
+  passages?: string[];
+};
+
+const VERIFICATION_MAX_SOURCE_FIELD_LENGTH = 600;
+const VERIFICATION_MAX_SOURCES = 8;
+
+const DEFAULT_VERIFICATION_TIMEOUT_MS = 60_000;
+const VERIFICATION_TIMEOUT_MS = (() => {
+  const raw = process.env.GROK_VERIFICATION_TIMEOUT_MS ?? process.env.OPENAI_VERIFICATION_TIMEOUT_MS;
+  const parsed = raw ? Number(raw) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : DEFAULT_VERIFICATION_TIMEOUT_MS;
+})();
+
+export function truncateField(value: string | null | undefined): string {
+  if (!value) {
+    return '';
+  }
+  const trimmed = value.replace(/\s+/g, ' ').trim();
+  if (trimmed.length <= VERIFICATION_MAX_SOURCE_FIELD_LENGTH) {
+    return trimmed;
+  }
+  return `${trimmed.slice(0, VERIFICATION_MAX_SOURCE_FIELD_LENGTH - 1)}…`;
+}
+
+export function normalizeVerificationSources(
+  sources: VerificationSource[]
+): NormalizedVerificationSource[] {
+  const seen = new Set<string>();
+  const normalized: NormalizedVerificationSource[] = [];
+
+  for (const source of sources) {
+    if (normalized.length >= VERIFICATION_MAX_SOURCES) {
+      break;
+    }
+
+    let url: string | undefined;
+    let title: string | undefined;
+    let summary: string | undefined;
+    let publishedAt: string | undefined;
+    let passages: string[] | undefined;
+
+    if (typeof source === 'string') {
+      url = source;
+    } else if (source) {
+      url = source.url ?? undefined;
+      title = source.title ?? undefined;
+      summary = source.summary ?? undefined;
+      publishedAt = source.publishedAt ?? undefined;
+      passages = source.passages?.length ? source.passages : undefined;
+    }
+
+    const trimmedUrl = url?.trim();
+    if (!trimmedUrl) {
+      continue;
+    }
+
+    const normalizedUrl = trimmedUrl.replace(/\s+/g, ' ');
+    if (seen.has(normalizedUrl)) {
+      continue;
+    }
+
+    seen.add(normalizedUrl);
+    normalized.push({
+      url: normalizedUrl,
+      title,
+      summary,
+      publishedAt,
+      passages,
+    });
+  }
+
+  return normalized;
+}
+
+function isRetriableProviderError(err: unknown): boolean {
+  if (err && typeof err === 'object') {
+    const status = (err as { status?: number }).status;
+    if (typeof status === 'number') {
+      return status >= 500 && status < 600;
+    }
+  }
+
+  if (!(err instanceof Error)) {
+    return false;
+  }
+
+  const match = err.message.match(/status\s+(\d{3})/i);
+  if (!match) {
+    return false;
+  }
+  const status = Number.parseInt(match[1], 10);
+  return Number.isFinite(status) && status >= 500 && status < 600;
+}
+
+// Sends a verification prompt to each configured verification provider in
+// turn. `wrapProvider` lets callers attach usage reporting.
+export async function requestVerification(
+  prompt: string,
+  wrapProvider: (provider: LlmProvider) => LlmProvider = (provider) => provider
+): Promise<string> {
+  let lastError: unknown;
+
+  for (const candidate of resolveStageProviders('verification')) {
+    const provider = wrapProvider(candidate.provider);
+    const { model } = candidate;
+    for (let attempt = 1; attempt <= 2; attempt += 1) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), VERIFICATION_TIMEOUT_MS);
+
+      try {
+        const messages: LlmMessage[] = [{ role: 'user', content: prompt }];
+        const response = await provider.streamChat(
+          {
+            model,
+            temperature: 0,
+            messages,
+          },
+          { signal: controller.signal }
+        );
+
+        clearTimeout(timeout);
+
+        const aggregated = response.choices[0]?.message?.content?.trim();
+        if (!aggregated) {
+          throw new Error('Verification response contained no content');
+        }
+        return aggregated;
+      } catch (err) {
+        clearTimeout(timeout);
+        lastError = err;
+        if (attempt < 2 && isRetriableProviderError(err)) {
+          console.warn(
+            `[verification] ${provider.label} verification attempt failed, retrying`,
+            err
+          );
+          continue;
+        }
+        console.warn(`[verification] ${provider.label} verification failed`, err);
+        break;
+      }
+    }
+  }
+
+  throw lastError instanceof Error
+    ? lastError
+    : new Error('Verification request failed unexpectedly');
+}
+
+export type ClaimAuditSourceInput =
+  | string
+  | {
+      url?: string | null;
+      title?: string | null;
+      summary?: string | null;
+      text?: string | null;
+    };
+
+export type ClaimAuditSource = {
+  id: string;
+  url: string | null;
+  title: string | null;
+  text: string;
+};
+
+export type ClaimEvidence = {
+  sourceId: string;
+  url: string | null;
+  passage: string;
+};
+
+export type ClaimAudit = {
+  claim: string;
+  sentence: string | null;
+  verdict: VerificationVerdict;
+  // 0 when no source supports the claim, 1 when a source states it directly.
+  supportScore: number;
+  evidence: ClaimEvidence[];
+  explanation: string;
+};
+
+export type ClaimAuditSummary = {
+  claims: number;
+  supported: number;
+  unsupported: number;
+  contradicted: number;
+  averageSupport: number | null;
+};
+
+const MAX_AUDIT_CLAIMS = 40;
+const MAX_PASTED_SOURCES = 8;
+const MAX_PASTED_SOURCE_LENGTH = 6_000;
+const AUDIT_VERDICTS: VerificationVerdict[] = ['supported', 'unsupported', 'contradicted'];
+const DEFAULT_SUPPORT_SCORES: Record<VerificationVerdict, number> = {
+  supported: 1,
+  unsupported: 0,
+  contradicted: 0,
+};
+
+function truncatePastedText(text: string): string {
+  return text.length > MAX_PASTED_SOURCE_LENGTH
+    ? `${text.slice(0, MAX_PASTED_SOURCE_LENGTH)}…`
+    : text;
+}
+
+// URL sources go through normalizeVerificationSources and get ids S1, S2, …;
+// pasted text gets T1, T2, … so the verifier can cite either kind. Text pasted
+// alongside a URL is kept at full length instead of the short summary limit.
+export function prepareClaimAuditSources(inputs: ClaimAuditSourceInput[]): ClaimAuditSource[] {
+  const urlSources: VerificationSource[] = [];
+  const textByUrl = new Map<string, string>();
+  const pasted: string[] = [];
+  for (const input of inputs) {
+    if (typeof input === 'string') {
+      const trimmed = input.trim();
+      if (/^https?:\/\/\S+$/i.test(trimmed)) {
+        urlSources.push(trimmed);
+      } else if (trimmed) {
+        pasted.push(trimmed);
+      }
+    } else if (input?.url?.trim()) {
+      urlSources.push({ url: input.url, title: input.title, summary: input.summary });
+      if (input.text?.trim()) {
+        textByUrl.set(input.url.trim(), input.text.trim());
+      }
+    } else if (input?.text?.trim()) {
+      pasted.push(input.text.trim());
+    }
+  }
+
+  const urls = normalizeVerificationSources(urlSources).map((source, index) => {
+    const text = textByUrl.get(source.url);
+    return {
+      id: `S${index + 1}`,
+      url: source.url,
+      title: source.title?.trim() || null,
+      text: text ? truncatePastedText(text) : truncateField(source.summary),
+    };
+  });
+  const texts = pasted.slice(0, MAX_PASTED_SOURCES).map((text, index) => ({
+    id: `T${index + 1}`,
+    url: null,
+    title: null,
+    text: truncatePastedText(text),
+  }));
+  return [...urls, ...texts];
+}
+
+export function buildClaimAuditPrompt(articleHtml: string, sources: ClaimAuditSource[]): string {
+  const formattedSources = sources
+    .map((source) => {
+      const parts = [`[${source.id}] ${source.url ? `URL: ${source.url}` : 'Pasted text'}`];
+      if (source.title) {
+        parts.push(`   Title: ${truncateField(source.title)}`);
+      }
+      if (source.text) {
+        parts.push(`   Text: ${source.text}`);
+      }
+      return parts.join('\n');
+    })
+    .join('\n');
+
+  return [
+    'You are a fact-checking assistant auditing an article against its sources.',
+    `Split the article into atomic factual claims, one checkable fact each (who did what, a number, a date, a quote). Skip opinions, questions and transitions. List at most ${MAX_AUDIT_CLAIMS} claims.`,
+    'For each claim, find the source passages that support or contradict it.',
+    'Respond with JSON using this schema: {"claims":[{"claim":string,"sentence":string,"verdict":"supported"|"unsupported"|"contradicted","supportScore":number,"evidence":[{"sourceId":string,"passage":string}],"explanation":string}]}.',
+    '- Copy "sentence" word for word from the article text without HTML tags.',
+    '- "supportScore" runs from 0 (no source supports it, or a source contradicts it) to 1 (a source states it directly).',
+    '- Quote each "passage" verbatim from the source, at most two sentences, and use only the source ids listed below.',
+    '',
+    'Article HTML:',
+    articleHtml,
+    '',
+    'Sources:',
+    formattedSources || 'No sources provided.',
+  ].join('\n');
+}
+
+export function parseClaimAudit(raw: string, sources: ClaimAuditSource[]): ClaimAudit[] {
+  let parsed: any = null;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    const match = raw.match(/\{[\s\S]*\}/);
+    if (match) {
+      try {
+        parsed = JSON.parse(match[0]);
+      } catch {
+        parsed = null;
+      }
+    }
+  }
+  if (!parsed || !Array.isArray(parsed.claims)) {
+    throw new Error('Verification response did not include a claims list');
+  }
+
+  const sourcesById = new Map(sources.map((source) => [source.id.toUpperCase(), source]));
+  const readString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+  return parsed.claims
+    .map((item: any): ClaimAudit | null => {
+      const claim = readString(item?.claim);
+      if (!claim) {
+        return null;
+      }
+      const verdict: VerificationVerdict = AUDIT_VERDICTS.includes(item.verdict)
+        ? item.verdict
+        : 'unsupported';
+      const score = Number(item.supportScore);
+      const evidence: ClaimEvidence[] = (Array.isArray(item.evidence) ? item.evidence : [])
+        .map((entry: any) => {
+          const source = sourcesById.get(readString(entry?.sourceId).toUpperCase());
+          const passage = readString(entry?.passage);
+          return source && passage ? { sourceId: source.id, url: source.url, passage } : null;
+        })
+        .filter((entry: ClaimEvidence | null): entry is ClaimEvidence => Boolean(entry));
+      return {
+        claim,
+        sentence: readString(item.sentence) || null,
+        verdict,
+        supportScore: Number.isFinite(score)
+          ? Math.min(Math.max(score, 0), 1)
+          : DEFAULT_SUPPORT_SCORES[verdict],
+        evidence,
+        explanation: readString(item.explanation),
+      };
+    })
+    .filter((item: ClaimAudit | null): item is ClaimAudit => Boolean(item))
+    .slice(0, MAX_AUDIT_CLAIMS);
+}
+
+export function summarizeClaimAudit(claims: ClaimAudit[]): ClaimAuditSummary {
+  const count = (verdict: VerificationVerdict) =>
+    claims.filter((claim) => claim.verdict === verdict).length;
+  return {
+    claims: claims.length,
+    supported: count('supported'),
+    unsupported: count('unsupported'),
+    contradicted: count('contradicted'),
+    averageSupport: claims.length
+      ? Math.round(
+          (claims.reduce((total, claim) => total + claim.supportScore, 0) / claims.length) * 100
+        ) / 100
+      : null,
+  };
+}
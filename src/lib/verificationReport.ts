@@ -0,0 +1,166 @@
+import type { ThemeCoverageIssue } from './themeCoverage';
+
+export type VerificationVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+export type VerificationSeverity = 'minor' | 'major' | 'critical';
+
+export type VerificationClaim = {
+  claim: string;
+  // The article sentence the claim was taken from, as quoted by the verifier.
+  sentence: string | null;
+  sourceUrl: string | null;
+  verdict: VerificationVerdict;
+  severity: VerificationSeverity;
+  explanation: string;
+  // Set when the claim was sent to the automatic revision and its sentence no
+  // longer appears in the revised article.
+  autoCorrected: boolean;
+};
+
+export type VerificationReport = {
+  isAccurate: boolean;
+  discrepancies: string[];
+  claims: VerificationClaim[];
+  themeCoverageIssue: ThemeCoverageIssue | null;
+  revised: boolean;
+};
+
+const ENTITY_TEXT: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const TOKEN_PATTERN = /<[^>]*>|&#?[a-z0-9]+;|[^<&]+|&/gi;
+// Block tags separate words; inline tags such as <a> and <strong> do not.
+const BLOCK_TAG_PATTERN =
+  /^<\/?(p|br|h[1-6]|li|ul|ol|blockquote|div|section|table|tr|td|th|figure|figcaption)\b/i;
+
+function decodeEntity(entity: string): string {
+  const name = entity.slice(1, -1).toLowerCase();
+  if (name.startsWith('#x')) {
+    return String.fromCodePoint(Number.parseInt(name.slice(2), 16) || 32);
+  }
+  if (name.startsWith('#')) {
+    return String.fromCodePoint(Number.parseInt(name.slice(1), 10) || 32);
+  }
+  return ENTITY_TEXT[name] ?? entity;
+}
+
+function normalizeChar(char: string): string {
+  if (/\s/.test(char)) return ' ';
+  if (char === '‘' || char === '’') return "'";
+  if (char === '“' || char === '”') return '"';
+  return char.toLowerCase();
+}
+
+function normalizeText(value: string): string {
+  return Array.from(value, normalizeChar).join('').replace(/ +/g, ' ').trim();
+}
+
+// Flattens HTML to normalized text and records where each text character
+// starts and ends in the HTML, so a match in the text maps back to markup.
+function indexHtmlText(html: string) {
+  let text = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let offset = 0;
+  for (const token of html.match(TOKEN_PATTERN) ?? []) {
+    const tokenStart = offset;
+    offset += token.length;
+    if (token.startsWith('<')) {
+      if (BLOCK_TAG_PATTERN.test(token) && !text.endsWith(' ')) {
+        text += ' ';
+        starts.push(tokenStart);
+        ends.push(tokenStart);
+      }
+      continue;
+    }
+    const isEntity = token.startsWith('&') && token.length > 1;
+    const chars = isEntity ? [decodeEntity(token)] : Array.from(token);
+    let charStart = tokenStart;
+    for (const char of chars) {
+      const length = isEntity ? token.length : char.length;
+      const normalized = normalizeChar(char);
+      if (normalized === ' ' && text.endsWith(' ')) {
+        charStart += length;
+        continue;
+      }
+      text += normalized;
+      starts.push(charStart);
+      ends.push(charStart + length);
+      charStart += length;
+    }
+  }
+  return { text, starts, ends };
+}
+
+// Returns the HTML offsets of the first occurrence of `sentence`, ignoring
+// markup, case, curly quotes and whitespace differences.
+export function findSentenceRange(
+  html: string,
+  sentence: string
+): { start: number; end: number } | null {
+  const needle = normalizeText(sentence);
+  if (!needle) {
+    return null;
+  }
+  const { text, starts, ends } = indexHtmlText(html);
+  const index = text.indexOf(needle);
+  if (index === -1) {
+    return null;
+  }
+  return { start: starts[index], end: ends[index + needle.length - 1] };
+}
+
+function wrapTextRuns(html: string, open: string): string {
+  return html
+    .split(/(<[^>]*>)/)
+    .map((part) => (part.startsWith('<') || !part.trim() ? part : `${open}${part}</mark>`))
+    .join('');
+}
+
+// Wraps every located claim sentence in <mark data-claim="index">. Tags inside
+// a sentence are left in place and only the text between them is wrapped, so
+// the result stays valid HTML. Overlapping sentences keep the first match.
+export function highlightClaimSentences(
+  html: string,
+  claims: Pick<VerificationClaim, 'sentence'>[]
+): { html: string; located: boolean[] } {
+  const ranges: Array<{ start: number; end: number; index: number }> = [];
+  const located = claims.map((claim, index) => {
+    const range = claim.sentence ? findSentenceRange(html, claim.sentence) : null;
+    if (!range) {
+      return false;
+    }
+    if (!ranges.some((other) => range.start < other.end && other.start < range.end)) {
+      ranges.push({ ...range, index });
+    }
+    return true;
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+  for (const range of ranges) {
+    result += html.slice(cursor, range.start);
+    result += wrapTextRuns(
+      html.slice(range.start, range.end),
+      `<mark class="verification-flag" data-claim="${range.index}">`
+    );
+    cursor = range.end;
+  }
+  result += html.slice(cursor);
+  return { html: result, located };
+}
+
+const CLAIM_MARK_PATTERN = /<mark\b[^>]*\bverification-flag\b[^>]*>([\s\S]*?)<\/mark>/gi;
+
+// Removes the marks added by highlightClaimSentences, so the highlights only
+// ever live in the editor and never reach a save or a publish.
+export function clearClaimHighlights(html: string): string {
+  return html.replace(CLAIM_MARK_PATTERN, '$1');
+}
@@ -0,0 +1,42 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import { decrypt } from '../utils/encryption';
+
+export type WordPressCredentials = {
+  accountId: string;
+  siteUrl: string;
+  authorization: string;
+  footerHtml: string;
+};
+
+// Loads a connected WordPress site from wp_accounts and builds its Basic auth
+// header. Returns null when the account does not exist for this user.
+export async function loadWordPressCredentials(
+  userId: string,
+  accountId: string
+): Promise<WordPressCredentials | null> {
+  const { data: account, error } = await supabaseAdmin
+    .from('wp_accounts')
+    .select('id, site_url, username, encrypted_password, footer_html')
+    .eq('id', accountId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('[wordpress] failed to load account', error);
+    return null;
+  }
+  if (!account) {
+    return null;
+  }
+
+  const credentials = `${account.username}:${decrypt(account.encrypted_password)}`;
+  const basicAuth =
+    typeof Buffer !== 'undefined'
+      ? Buffer.from(credentials).toString('base64')
+      : btoa(credentials);
+  return {
+    accountId: account.id,
+    siteUrl: account.site_url.replace(/\/+$/, ''),
+    authorization: `Basic ${basicAuth}`,
+    footerHtml: account.footer_html || '',
+  };
+}
@@ -0,0 +1,82 @@
+import { cropToSize, readImageSource } from './imagePipeline';
+
+export const FEATURED_IMAGE_WIDTH = 1280;
+export const FEATURED_IMAGE_HEIGHT = 720;
+
+export type MediaUpload = { ok: true; id: number; url: string | null } | { ok: false; error: string };
+
+export type MediaFile = {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+  altText?: string;
+  caption?: string;
+};
+
+// Adds a file to the site's media library. Alt text and caption are sent as
+// query parameters because the body is the file itself.
+export async function uploadWordPressMedia(
+  siteUrl: string,
+  authorization: string,
+  file: MediaFile,
+  fetchImpl: typeof fetch = fetch
+): Promise<MediaUpload> {
+  const params = new URLSearchParams();
+  if (file.altText) params.set('alt_text', file.altText);
+  if (file.caption) params.set('caption', file.caption);
+  const query = params.toString();
+  try {
+    const res = await fetchImpl(
+      `${siteUrl.replace(/\/+$/, '')}/wp-json/wp/v2/media${query ? `?${query}` : ''}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.mimeType,
+          'Content-Disposition': `attachment; filename="${file.fileName}"`,
+          Authorization: authorization,
+        },
+        body: file.data,
+      }
+    );
+    const data = await res.json().catch(() => null);
+    if (!res.ok || !Number.isInteger(data?.id)) {
+      return { ok: false, error: data?.message || 'Media upload failed' };
+    }
+    return { ok: true, id: data.id, url: data.source_url ?? data.guid?.rendered ?? null };
+  } catch (err) {
+    console.warn('[wordpress] failed to upload media', err);
+    return { ok: false, error: 'Media upload failed' };
+  }
+}
+
+// Center-crops an image to the 16:9 featured image size.
+export function cropFeaturedImage(image: Buffer): Promise<Buffer> {
+  return cropToSize(image, FEATURED_IMAGE_WIDTH, FEATURED_IMAGE_HEIGHT);
+}
+
+// Reads an article image through the same guarded download as other images
+// (public hosts only, size-capped), crops it and adds it to the site's media
+// library, ready to be set as a post's featured_media.
+export async function uploadFeaturedImage(
+  siteUrl: string,
+  authorization: string,
+  imageUrl: string,
+  altText: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<MediaUpload> {
+  let cropped: Buffer;
+  try {
+    cropped = await cropFeaturedImage(await readImageSource(imageUrl, { fetchImpl }));
+  } catch (err) {
+    console.warn('[wordpress] failed to prepare featured image', err);
+    return { ok: false, error: `Featured image could not be read: ${(err as Error).message}` };
+  }
+
+  const upload = await uploadWordPressMedia(
+    siteUrl,
+    authorization,
+    { data: cropped, fileName: `featured-${Date.now()}.jpg`, mimeType: 'image/jpeg', altText },
+    fetchImpl
+  );
+  return upload.ok === false ? { ok: false, error: `Featured image: ${upload.error}` } : upload;
+}
@@ -0,0 +1,148 @@
+// Post statuses the publish route and proxy accept, and the date handling for
+// scheduled posts. WordPress reads `date_gmt` as UTC without a zone suffix.
+
+export type WordPressPostStatus = 'draft' | 'pending' | 'private' | 'publish' | 'future';
+
+export const WORDPRESS_POST_STATUSES: WordPressPostStatus[] = [
+  'draft',
+  'pending',
+  'private',
+  'publish',
+  'future',
+];
+
+export const WORDPRESS_POST_STATUS_LABELS: Record<WordPressPostStatus, string> = {
+  draft: 'Draft',
+  pending: 'Pending review',
+  private: 'Private',
+  publish: 'Publish now',
+  future: 'Schedule',
+};
+
+export type PublishOptions = {
+  status: WordPressPostStatus;
+  dateGmt?: string;
+};
+
+// Scheduling closer than this is rejected: WordPress would publish the post
+// right away.
+export const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+
+export function toWordPressDateGmt(date: Date): string {
+  return date.toISOString().slice(0, 19);
+}
+
+export function fromWordPressDateGmt(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(/([zZ]|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function parseScheduleTime(value: unknown, now = new Date()): Date | string {
+  const date = typeof value === 'string' && value.trim() ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    return 'scheduledAt must be an ISO date';
+  }
+  if (date.getTime() - now.getTime() < MIN_SCHEDULE_LEAD_MS) {
+    return 'scheduledAt must be in the future';
+  }
+  return date;
+}
+
+// Reads `status` and `scheduledAt` (or a raw `date_gmt`) from a publish
+// request. Posts default to drafts, and `future` needs a time to publish at.
+export function parsePublishOptions(
+  body: { status?: unknown; scheduledAt?: unknown; date_gmt?: unknown },
+  now = new Date()
+): PublishOptions | string {
+  const status = body.status ?? 'draft';
+  if (!WORDPRESS_POST_STATUSES.includes(status as WordPressPostStatus)) {
+    return `status must be one of ${WORDPRESS_POST_STATUSES.join(', ')}`;
+  }
+  if (status !== 'future') {
+    return { status: status as WordPressPostStatus };
+  }
+  const scheduledAt =
+    body.scheduledAt ?? (typeof body.date_gmt === 'string' ? fromWordPressDateGmt(body.date_gmt) : undefined);
+  const date = parseScheduleTime(scheduledAt, now);
+  if (typeof date === 'string') {
+    return date;
+  }
+  return { status: 'future', dateGmt: toWordPressDateGmt(date) };
+}
+
+// Local calendar day, used to group entries on the calendar view.
+export function toDateKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+// The value a datetime-local input expects, in local time.
+export function toDateTimeLocalValue(date: Date): string {
+  return `${toDateKey(date)}T${String(date.getHours()).padStart(2, '0')}:${String(
+    date.getMinutes()
+  ).padStart(2, '0')}`;
+}
+
+// Weeks (Sunday first) covering a month, padded with days from the months
+// either side.
+export function buildCalendarWeeks(year: number, month: number): Date[][] {
+  const first = new Date(year, month, 1);
+  const start = new Date(year, month, 1 - first.getDay());
+  const weeks: Date[][] = [];
+  for (let day = new Date(start); weeks.length < 6; ) {
+    const week: Date[] = [];
+    for (let i = 0; i < 7; i += 1) {
+      week.push(new Date(day));
+      day.setDate(day.getDate() + 1);
+    }
+    weeks.push(week);
+    if (day.getMonth() !== month) {
+      break;
+    }
+  }
+  return weeks;
+}
+
+export type PostStatusUpdate =
+  | { ok: true; status: WordPressPostStatus; dateGmt: string | null; modifiedAt: string | null }
+  | { ok: false; httpStatus: number; error: string };
+
+// Moves an existing post to a new status or publish time through the REST API.
+export async function updateWordPressPostStatus(
+  siteUrl: string,
+  authorization: string,
+  postId: number,
+  options: PublishOptions,
+  fetchImpl: typeof fetch = fetch
+): Promise<PostStatusUpdate> {
+  let res: Response;
+  try {
+    res = await fetchImpl(`${siteUrl.replace(/\/+$/, '')}/wp-json/wp/v2/posts/${postId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: authorization },
+      body: JSON.stringify({
+        status: options.status,
+        ...(options.dateGmt && { date_gmt: options.dateGmt }),
+      }),
+    });
+  } catch (err) {
+    console.warn('[wordpress] failed to reach WordPress', err);
+    return { ok: false, httpStatus: 502, error: 'Failed to reach WordPress' };
+  }
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    return { ok: false, httpStatus: res.status, error: data?.message || 'WP API error' };
+  }
+  return {
+    ok: true,
+    status: WORDPRESS_POST_STATUSES.includes(data?.status) ? data.status : options.status,
+    dateGmt: fromWordPressDateGmt(data?.date_gmt),
+    modifiedAt: fromWordPressDateGmt(data?.modified_gmt),
+  };
+}
@@ -0,0 +1,130 @@
+import type { SeoMetadata } from './seoMetadata';
+
+export type SeoPlugins = {
+  yoast: boolean;
+  rankMath: boolean;
+};
+
+export type SiteIdentity = {
+  name: string;
+  url: string;
+  logoUrl?: string;
+};
+
+export type SeoPostFields = {
+  slug?: string;
+  excerpt?: string;
+  meta?: Record<string, string>;
+};
+
+const YOAST_NAMESPACE = 'yoast/v1';
+const RANK_MATH_NAMESPACE = 'rankmath/v1';
+
+// The site's REST index (`/wp-json/`), or null when it cannot be read.
+export async function readRestIndex(
+  siteUrl: string,
+  authorization: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<Record<string, unknown> | null> {
+  try {
+    const res = await fetchImpl(`${siteUrl.replace(/\/+$/, '')}/wp-json/`, {
+      headers: { Accept: 'application/json', Authorization: authorization },
+    });
+    if (!res.ok) {
+      return null;
+    }
+    const index = await res.json();
+    return index && typeof index === 'object' ? index : null;
+  } catch (err) {
+    console.warn('[wordpress] failed to read the REST index', err);
+    return null;
+  }
+}
+
+// Yoast SEO and Rank Math register their own REST namespaces.
+export function seoPluginsFromIndex(index: Record<string, unknown> | null): SeoPlugins {
+  const namespaces: unknown[] = Array.isArray(index?.namespaces) ? index.namespaces : [];
+  return {
+    yoast: namespaces.includes(YOAST_NAMESPACE),
+    rankMath: namespaces.includes(RANK_MATH_NAMESPACE),
+  };
+}
+
+// An unreachable index is treated as "no plugins" so publishing still works.
+export async function detectSeoPlugins(
+  siteUrl: string,
+  authorization: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<SeoPlugins> {
+  return seoPluginsFromIndex(await readRestIndex(siteUrl, authorization, fetchImpl));
+}
+
+// The site name, home URL and icon, used as the publisher in structured data.
+export function siteIdentityFromIndex(
+  index: Record<string, unknown> | null,
+  siteUrl: string
+): SiteIdentity | null {
+  const name = typeof index?.name === 'string' ? index.name.trim() : '';
+  if (!name) {
+    return null;
+  }
+  const iconUrl = index.site_icon_url;
+  const logoUrl = typeof iconUrl === 'string' && /^https?:\/\//.test(iconUrl) ? iconUrl : '';
+  return {
+    name,
+    url: typeof index.home === 'string' && index.home ? index.home : siteUrl,
+    ...(logoUrl && { logoUrl }),
+  };
+}
+
+function buildRankMathMeta(seo: SeoMetadata): Record<string, string> {
+  // Rank Math stores the focus keyword and any secondary ones as one list.
+  const keywords = [seo.focusKeyphrase, ...seo.secondaryKeywords].filter(Boolean);
+  return {
+    rank_math_title: seo.metaTitle,
+    rank_math_description: seo.metaDescription,
+    ...(keywords.length && { rank_math_focus_keyword: keywords.join(',') }),
+  };
+}
+
+// Post fields for the core posts endpoint. The plugin meta keys are only
+// saved when the site exposes them to the REST API; Rank Math is also updated
+// through its own endpoint after the post exists.
+export function buildSeoPostFields(seo: SeoMetadata, plugins: SeoPlugins): SeoPostFields {
+  const meta: Record<string, string> = {};
+  if (plugins.yoast) {
+    meta._yoast_wpseo_title = seo.metaTitle;
+    meta._yoast_wpseo_metadesc = seo.metaDescription;
+    if (seo.focusKeyphrase) {
+      meta._yoast_wpseo_focuskw = seo.focusKeyphrase;
+    }
+  }
+  if (plugins.rankMath) {
+    Object.assign(meta, buildRankMathMeta(seo));
+  }
+  return {
+    ...(seo.slug && { slug: seo.slug }),
+    ...(seo.metaDescription && { excerpt: seo.metaDescription }),
+    ...(Object.keys(meta).length && { meta }),
+  };
+}
+
+export async function updateRankMathMeta(
+  siteUrl: string,
+  authorization: string,
+  postId: number,
+  seo: SeoMetadata,
+  fetchImpl: typeof fetch = fetch
+): Promise<boolean> {
+  try {
+    const res = await fetchImpl(`${siteUrl.replace(/\/+$/, '')}/wp-json/rankmath/v1/updateMeta`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: authorization },
+      body: JSON.stringify({ objectType: 'post', objectID: postId, meta: buildRankMathMeta(seo) }),
+    });
+    return res.ok;
+  } catch (err) {
+    console.warn('[wordpress] failed to update Rank Math meta', err);
+    return false;
+  }
+}
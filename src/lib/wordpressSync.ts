@@ -0,0 +1,213 @@
+// Keeps a library article and its WordPress post in step: reads the remote
+// post, spots edits made in WordPress since our last publish, and merges them
+// block by block with the editor's version.
+import { fromWordPressDateGmt, type WordPressPostStatus } from './wordpressPublishing';
+
+export type ConflictResolution = 'overwrite' | 'merge';
+
+export const CONFLICT_RESOLUTIONS: ConflictResolution[] = ['overwrite', 'merge'];
+
+export type RemotePost = {
+  id: number;
+  status: WordPressPostStatus | 'trash';
+  content: string;
+  link: string | null;
+  dateGmt: string | null;
+  modifiedAt: string | null;
+};
+
+export type RemotePostResult =
+  | { ok: true; post: RemotePost }
+  | { ok: false; httpStatus: number; error: string };
+
+// Loads a post with its raw content. Needs an account that can edit the post.
+export async function fetchWordPressPost(
+  siteUrl: string,
+  authorization: string,
+  postId: number,
+  fetchImpl: typeof fetch = fetch
+): Promise<RemotePostResult> {
+  let res: Response;
+  try {
+    res = await fetchImpl(
+      `${siteUrl.replace(/\/+$/, '')}/wp-json/wp/v2/posts/${postId}?context=edit`,
+      { headers: { Authorization: authorization } }
+    );
+  } catch (err) {
+    console.warn('[wordpress] failed to reach WordPress', err);
+    return { ok: false, httpStatus: 502, error: 'Failed to reach WordPress' };
+  }
+  const data = await res.json().catch(() => null);
+  if (!res.ok || !data) {
+    return { ok: false, httpStatus: res.status, error: data?.message || 'WP API error' };
+  }
+  return {
+    ok: true,
+    post: {
+      id: data.id,
+      status: data.status,
+      content: typeof data.content?.raw === 'string' ? data.content.raw : data.content?.rendered ?? '',
+      link: data.link ?? null,
+      dateGmt: fromWordPressDateGmt(data.date_gmt),
+      modifiedAt: fromWordPressDateGmt(data.modified_gmt),
+    },
+  };
+}
+
+// True when WordPress saved the post after our last sync. Without a sync
+// time there is nothing to compare against.
+export function isEditedSince(remoteModifiedAt: string | null, syncedAt: string | null): boolean {
+  if (!remoteModifiedAt || !syncedAt) {
+    return false;
+  }
+  return new Date(remoteModifiedAt).getTime() > new Date(syncedAt).getTime();
+}
+
+// The promo footer is appended verbatim on publish, so it is cut off again
+// before comparing content.
+export function stripFooter(html: string, footerHtml: string): string {
+  return footerHtml && html.endsWith(footerHtml) ? html.slice(0, -footerHtml.length) : html;
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Splits HTML into its top-level elements. Text and comments between them
+// become blocks of their own.
+export function splitHtmlBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  const pushText = (text: string) => {
+    if (text.trim()) blocks.push(text.trim());
+  };
+  const tagPattern = /<!--[\s\S]*?-->|<\/?([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g;
+  let depth = 0;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    const [tag, name] = match;
+    if (!name) {
+      if (depth === 0) {
+        pushText(html.slice(start, match.index));
+        blocks.push(tag);
+        start = tagPattern.lastIndex;
+      }
+      continue;
+    }
+    const lower = name.toLowerCase();
+    if (tag.startsWith('</')) {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) {
+        blocks.push(html.slice(start, tagPattern.lastIndex).trim());
+        start = tagPattern.lastIndex;
+      }
+    } else if (VOID_ELEMENTS.has(lower) || tag.endsWith('/>')) {
+      if (depth === 0) {
+        pushText(html.slice(start, match.index));
+        blocks.push(tag);
+        start = tagPattern.lastIndex;
+      }
+    } else {
+      if (depth === 0) {
+        pushText(html.slice(start, match.index));
+        start = match.index;
+      }
+      depth += 1;
+    }
+  }
+  pushText(html.slice(start));
+  return blocks;
+}
+
+const normalizeBlock = (block: string) => block.replace(/\s+/g, ' ').trim();
+
+// Index pairs of a longest common subsequence of two block lists.
+function commonBlocks(a: string[], b: string[]): Map<number, number> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const pairs = new Map<number, number>();
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      pairs.set(i, j);
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+  return pairs;
+}
+
+export type HtmlMerge = {
+  html: string;
+  // Regions changed differently on both sides; the editor's version is kept.
+  conflicts: number;
+};
+
+// Three-way merge of the last published HTML (base) with the editor's HTML
+// (local) and the post as WordPress has it now (remote). Blocks changed only
+// in WordPress are taken from WordPress, everything else from the editor.
+export function mergeHtml(base: string, local: string, remote: string): HtmlMerge {
+  const [baseBlocks, localBlocks, remoteBlocks] = [base, local, remote].map(splitHtmlBlocks);
+  const [baseKeys, localKeys, remoteKeys] = [baseBlocks, localBlocks, remoteBlocks].map((blocks) =>
+    blocks.map(normalizeBlock)
+  );
+  const toLocal = commonBlocks(baseKeys, localKeys);
+  const toRemote = commonBlocks(baseKeys, remoteKeys);
+  const sameKeys = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((key, index) => key === b[index]);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let l = 0;
+  let r = 0;
+  const resolve = (baseEnd: number, localEnd: number, remoteEnd: number) => {
+    const baseChunk = baseKeys.slice(b, baseEnd);
+    const localChunk = localKeys.slice(l, localEnd);
+    const remoteChunk = remoteKeys.slice(r, remoteEnd);
+    if (sameKeys(localChunk, baseChunk) && !sameKeys(remoteChunk, baseChunk)) {
+      merged.push(...remoteBlocks.slice(r, remoteEnd));
+      return;
+    }
+    if (sameKeys(remoteChunk, baseChunk) || sameKeys(localChunk, remoteChunk)) {
+      merged.push(...localBlocks.slice(l, localEnd));
+      return;
+    }
+    // Both sides edited the same stretch. Blocks edited in place on different
+    // sides still merge one by one.
+    if (localChunk.length === baseChunk.length && remoteChunk.length === baseChunk.length) {
+      baseChunk.forEach((key, index) => {
+        const [ours, theirs] = [localChunk[index], remoteChunk[index]];
+        if (ours !== key && theirs !== key && ours !== theirs) {
+          conflicts += 1;
+        }
+        merged.push(ours === key ? remoteBlocks[r + index] : localBlocks[l + index]);
+      });
+      return;
+    }
+    conflicts += 1;
+    merged.push(...localBlocks.slice(l, localEnd));
+  };
+
+  for (let i = 0; i < baseBlocks.length; i += 1) {
+    if (!toLocal.has(i) || !toRemote.has(i)) {
+      continue;
+    }
+    resolve(i, toLocal.get(i) as number, toRemote.get(i) as number);
+    merged.push(localBlocks[toLocal.get(i) as number]);
+    b = i + 1;
+    l = (toLocal.get(i) as number) + 1;
+    r = (toRemote.get(i) as number) + 1;
+  }
+  resolve(baseBlocks.length, localBlocks.length, remoteBlocks.length);
+
+  return { html: merged.join('\n'), conflicts };
+}
@@ -0,0 +1,188 @@
+// Categories, tags and authors of a WordPress site, and term suggestions for
+// an article drawn from its text and the site profile's taxonomy.
+
+export type WordPressTerm = {
+  id: number;
+  name: string;
+  slug: string;
+  count: number;
+};
+
+export type WordPressAuthor = {
+  id: number;
+  name: string;
+};
+
+export type WordPressTaxonomy = {
+  categories: WordPressTerm[];
+  tags: WordPressTerm[];
+  authors: WordPressAuthor[];
+};
+
+export type TaxonomySuggestion = {
+  categories: number[];
+  tags: number[];
+  // Profile terms the article covers that the site has no tag for yet.
+  newTags: string[];
+};
+
+export const MAX_SUGGESTED_CATEGORIES = 2;
+export const MAX_SUGGESTED_TAGS = 8;
+export const MAX_SUGGESTED_NEW_TAGS = 3;
+
+// WordPress escapes term names in REST responses.
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#0?39;|&#x27;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function toTerm(raw: any): WordPressTerm | null {
+  if (!raw || !Number.isInteger(raw.id) || typeof raw.name !== 'string') {
+    return null;
+  }
+  return {
+    id: raw.id,
+    name: decodeEntities(raw.name),
+    slug: typeof raw.slug === 'string' ? raw.slug : '',
+    count: Number.isInteger(raw.count) ? raw.count : 0,
+  };
+}
+
+async function fetchList(url: string, authorization: string, fetchImpl: typeof fetch): Promise<any[] | null> {
+  try {
+    const res = await fetchImpl(url, { headers: { Authorization: authorization } });
+    if (!res.ok) {
+      console.warn(`[wordpress] ${url} returned ${res.status}`);
+      return null;
+    }
+    const data = await res.json();
+    return Array.isArray(data) ? data : null;
+  } catch (err) {
+    console.warn(`[wordpress] failed to load ${url}`, err);
+    return null;
+  }
+}
+
+// Loads the most used categories and tags and the users who can write posts.
+// Returns null when the terms cannot be read; authors are optional because
+// listing users needs more rights than publishing.
+export async function fetchWordPressTaxonomy(
+  siteUrl: string,
+  authorization: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<WordPressTaxonomy | null> {
+  const base = `${siteUrl.replace(/\/+$/, '')}/wp-json/wp/v2`;
+  const termQuery = 'per_page=100&orderby=count&order=desc&_fields=id,name,slug,count';
+  const [categories, tags, authors] = await Promise.all([
+    fetchList(`${base}/categories?${termQuery}`, authorization, fetchImpl),
+    fetchList(`${base}/tags?${termQuery}`, authorization, fetchImpl),
+    fetchList(`${base}/users?per_page=100&who=authors&_fields=id,name`, authorization, fetchImpl),
+  ]);
+  if (!categories || !tags) {
+    return null;
+  }
+  return {
+    categories: categories.map(toTerm).filter((term): term is WordPressTerm => term !== null),
+    tags: tags.map(toTerm).filter((term): term is WordPressTerm => term !== null),
+    authors: (authors ?? [])
+      .filter((author) => Number.isInteger(author?.id) && typeof author.name === 'string')
+      .map((author) => ({ id: author.id, name: decodeEntities(author.name) })),
+  };
+}
+
+// Creates a tag by name. An existing tag with that name is reused.
+export async function createWordPressTag(
+  siteUrl: string,
+  authorization: string,
+  name: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<number | null> {
+  try {
+    const res = await fetchImpl(`${siteUrl.replace(/\/+$/, '')}/wp-json/wp/v2/tags`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: authorization },
+      body: JSON.stringify({ name }),
+    });
+    const data = await res.json().catch(() => null);
+    if (res.ok && Number.isInteger(data?.id)) {
+      return data.id;
+    }
+    if (data?.code === 'term_exists' && Number.isInteger(data?.data?.term_id)) {
+      return data.data.term_id;
+    }
+    console.warn(`[wordpress] failed to create tag "${name}"`, data?.message ?? res.status);
+    return null;
+  } catch (err) {
+    console.warn(`[wordpress] failed to create tag "${name}"`, err);
+    return null;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countMentions(text: string, phrase: string): number {
+  const trimmed = phrase.trim();
+  if (trimmed.length < 2) {
+    return 0;
+  }
+  const pattern = new RegExp(
+    `(^|[^a-z0-9\\u00c0-\\u024f])${escapeRegExp(trimmed)}(?=$|[^a-z0-9\\u00c0-\\u024f])`,
+    'gi'
+  );
+  return (text.match(pattern) ?? []).length;
+}
+
+// Title mentions weigh most, body mentions add up to a cap, and terms from
+// the site profile get a boost. A term the article never mentions is not
+// suggested.
+function rankTerms(
+  title: string,
+  text: string,
+  terms: WordPressTerm[],
+  profileTerms: Set<string>,
+  limit: number
+): number[] {
+  return terms
+    .filter((term) => term.slug !== 'uncategorized')
+    .map((term) => {
+      const inTitle = countMentions(title, term.name) > 0;
+      const inBody = Math.min(countMentions(text, term.name), 5);
+      if (!inTitle && !inBody) {
+        return { term, score: 0 };
+      }
+      const boost = profileTerms.has(term.name.toLowerCase()) ? 2 : 0;
+      return { term, score: (inTitle ? 3 : 0) + inBody + boost };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.term.count - a.term.count)
+    .slice(0, limit)
+    .map(({ term }) => term.id);
+}
+
+export function suggestTaxonomy(
+  article: { title: string; html: string },
+  taxonomy: Pick<WordPressTaxonomy, 'categories' | 'tags'>,
+  profileTaxonomy: string[] = []
+): TaxonomySuggestion {
+  const title = article.title;
+  const text = article.html.replace(/<[^>]+>/g, ' ');
+  const profileTerms = new Set(profileTaxonomy.map((term) => term.trim().toLowerCase()).filter(Boolean));
+  const tagNames = new Set(taxonomy.tags.map((tag) => tag.name.toLowerCase()));
+
+  return {
+    categories: rankTerms(title, text, taxonomy.categories, profileTerms, MAX_SUGGESTED_CATEGORIES),
+    tags: rankTerms(title, text, taxonomy.tags, profileTerms, MAX_SUGGESTED_TAGS),
+    newTags: profileTaxonomy
+      .map((term) => term.trim())
+      .filter((term, index, all) => term && all.indexOf(term) === index)
+      .filter((term) => !tagNames.has(term.toLowerCase()))
+      .filter((term) => countMentions(`${title} ${text}`, term) > 0)
+      .slice(0, MAX_SUGGESTED_NEW_TAGS),
+  };
+}
@@ -0,0 +1,195 @@
+export type HtmlDiffOp = 'equal' | 'insert' | 'delete';
+
+export interface HtmlDiffPart {
+  op: HtmlDiffOp;
+  tokens: string[];
+}
+
+export interface HtmlDiffStats {
+  insertedWords: number;
+  deletedWords: number;
+}
+
+// Tags, words and whitespace runs are the units of comparison, so a diff never
+// splits a tag and markup changes show up next to the words they wrap.
+const TOKEN_PATTERN = /<[^>]*>|[^<\s]+|\s+/g;
+const BLOCK_END_PATTERN =
+  /^<\/(p|h[1-6]|li|ul|ol|blockquote|table|figure|pre|div|section)\s*>$/i;
+// Above this many LCS cells a changed run is shown as a whole-block replacement.
+const MAX_DIFF_CELLS = 1_000_000;
+
+export function tokenizeHtml(html: string): string[] {
+  return html.match(TOKEN_PATTERN) ?? [];
+}
+
+function isTag(token: string): boolean {
+  return token.startsWith('<');
+}
+
+function isWhitespace(token: string): boolean {
+  return /^\s+$/.test(token);
+}
+
+function tokenKey(token: string): string {
+  return isWhitespace(token) ? ' ' : token;
+}
+
+function splitBlocks(tokens: string[]): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  for (const token of tokens) {
+    current.push(token);
+    if (BLOCK_END_PATTERN.test(token)) {
+      blocks.push(current);
+      current = [];
+    }
+  }
+  if (current.length) {
+    blocks.push(current);
+  }
+  return blocks;
+}
+
+type DiffStep<T> = { op: HtmlDiffOp; item: T };
+
+function lcsDiff<T>(a: T[], b: T[], key: (item: T) => string): DiffStep<T>[] {
+  const aKeys = a.map(key);
+  const bKeys = b.map(key);
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        aKeys[i] === bKeys[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const steps: DiffStep<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (aKeys[i] === bKeys[j]) {
+      steps.push({ op: 'equal', item: b[j] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      steps.push({ op: 'delete', item: a[i] });
+      i += 1;
+    } else {
+      steps.push({ op: 'insert', item: b[j] });
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) steps.push({ op: 'delete', item: a[i] });
+  for (; j < b.length; j += 1) steps.push({ op: 'insert', item: b[j] });
+  return steps;
+}
+
+function diffTokens(before: string[], after: string[]): DiffStep<string>[] {
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [
+      ...before.map((item) => ({ op: 'delete' as const, item })),
+      ...after.map((item) => ({ op: 'insert' as const, item })),
+    ];
+  }
+  return lcsDiff(before, after, tokenKey);
+}
+
+// Diffs paragraphs first and only compares words inside the runs of blocks
+// that changed, which keeps full-article comparisons cheap.
+export function diffHtml(before: string, after: string): HtmlDiffPart[] {
+  const beforeBlocks = splitBlocks(tokenizeHtml(before));
+  const afterBlocks = splitBlocks(tokenizeHtml(after));
+  const blockSteps = diffTokens(
+    beforeBlocks.map((block) => block.join('')),
+    afterBlocks.map((block) => block.join(''))
+  );
+
+  const steps: DiffStep<string>[] = [];
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+  const flushChanges = () => {
+    if (deleted.length || inserted.length) {
+      steps.push(...diffTokens(deleted, inserted));
+      deleted = [];
+      inserted = [];
+    }
+  };
+  for (const step of blockSteps) {
+    const tokens = tokenizeHtml(step.item);
+    if (step.op === 'delete') {
+      deleted.push(...tokens);
+    } else if (step.op === 'insert') {
+      inserted.push(...tokens);
+    } else {
+      flushChanges();
+      steps.push(...tokens.map((item) => ({ op: 'equal' as const, item })));
+    }
+  }
+  flushChanges();
+
+  const parts: HtmlDiffPart[] = [];
+  for (const { op, item } of steps) {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+      last.tokens.push(item);
+    } else {
+      parts.push({ op, tokens: [item] });
+    }
+  }
+  return parts;
+}
+
+function wrapText(tokens: string[], tag: 'ins' | 'del'): string {
+  let html = '';
+  let text: string[] = [];
+  const flush = () => {
+    const joined = text.join('');
+    html += joined.trim() ? `<${tag} class="diff-${tag}">${joined}</${tag}>` : joined;
+    text = [];
+  };
+  for (const token of tokens) {
+    if (isTag(token)) {
+      flush();
+      html += token;
+    } else {
+      text.push(token);
+    }
+  }
+  flush();
+  return html;
+}
+
+// Renders both versions with removed words in <del> on the left and added
+// words in <ins> on the right. Tags are never wrapped, so both sides stay
+// valid HTML.
+export function renderHtmlDiff(parts: HtmlDiffPart[]): { before: string; after: string } {
+  let before = '';
+  let after = '';
+  for (const part of parts) {
+    if (part.op === 'equal') {
+      const html = part.tokens.join('');
+      before += html;
+      after += html;
+    } else if (part.op === 'delete') {
+      before += wrapText(part.tokens, 'del');
+    } else {
+      after += wrapText(part.tokens, 'ins');
+    }
+  }
+  return { before, after };
+}
+
+export function summarizeHtmlDiff(parts: HtmlDiffPart[]): HtmlDiffStats {
+  const countWords = (tokens: string[]) =>
+    tokens.filter((token) => !isTag(token) && !isWhitespace(token)).length;
+  return parts.reduce(
+    (stats, part) => ({
+      insertedWords: stats.insertedWords + (part.op === 'insert' ? countWords(part.tokens) : 0),
+      deletedWords: stats.deletedWords + (part.op === 'delete' ? countWords(part.tokens) : 0),
+    }),
+    { insertedWords: 0, deletedWords: 0 }
+  );
+}
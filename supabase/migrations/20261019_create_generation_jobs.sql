@@ -0,0 +1,61 @@
+create table if not exists public.generation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed')),
+  stage text,
+  payload jsonb not null,
+  outline text,
+  partial_content text,
+  content text,
+  sources jsonb,
+  error text,
+  attempts integer not null default 0,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists generation_jobs_user_id_created_at_idx
+  on public.generation_jobs(user_id, created_at desc);
+
+create index if not exists generation_jobs_status_created_at_idx
+  on public.generation_jobs(status, created_at);
+
+-- Claims the oldest runnable job for a worker. Jobs left in `running` without a
+-- heartbeat for `stale_after` (for example after a worker was killed) are
+-- picked up again until they run out of attempts.
+create or replace function public.claim_generation_job(
+  stale_after interval default interval '10 minutes',
+  max_attempts integer default 3
+)
+returns setof public.generation_jobs
+language plpgsql
+as $$
+begin
+  return query
+  update public.generation_jobs as jobs
+     set status = 'running',
+         attempts = jobs.attempts + 1,
+         started_at = timezone('utc', now()),
+         updated_at = timezone('utc', now()),
+         error = null
+   where jobs.id = (
+     select candidate.id
+       from public.generation_jobs as candidate
+      where candidate.attempts < max_attempts
+        and (
+          candidate.status = 'queued'
+          or (
+            candidate.status = 'running'
+            and candidate.updated_at < timezone('utc', now()) - stale_after
+          )
+        )
+      order by candidate.created_at
+      limit 1
+      for update skip locked
+   )
+  returning jobs.*;
+end;
+$$;
@@ -0,0 +1,4 @@
+alter table public.generation_jobs add column if not exists batch_id uuid;
+
+create index if not exists generation_jobs_batch_id_idx
+  on public.generation_jobs(batch_id, created_at);
@@ -0,0 +1,25 @@
+create table if not exists public.usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete set null,
+  article_id uuid,
+  article_title text,
+  route text not null,
+  kind text not null check (kind in ('llm', 'search')),
+  provider text not null,
+  model text,
+  stage text not null,
+  purpose text,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  requests integer not null default 1,
+  estimated boolean not null default false,
+  cost_usd numeric(12, 6),
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists usage_events_user_id_created_at_idx
+  on public.usage_events(user_id, created_at desc);
+
+create index if not exists usage_events_article_id_idx
+  on public.usage_events(article_id);
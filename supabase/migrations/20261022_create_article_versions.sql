@@ -0,0 +1,19 @@
+create table if not exists public.article_versions (
+  id uuid primary key default gen_random_uuid(),
+  article_id uuid not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  version integer not null,
+  source text not null
+    check (source in ('generation', 'regeneration', 'verification', 'manual', 'restore')),
+  title text not null default '',
+  content text not null,
+  sources jsonb not null default '[]'::jsonb,
+  restored_from integer,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists article_versions_article_id_version_key
+  on public.article_versions(article_id, version);
+
+create index if not exists article_versions_user_id_created_at_idx
+  on public.article_versions(user_id, created_at desc);
@@ -0,0 +1,21 @@
+create table if not exists public.articles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null default '',
+  content text not null default '',
+  sources jsonb not null default '[]'::jsonb,
+  payload jsonb,
+  article_type text,
+  status text not null default 'draft'
+    check (status in ('draft', 'published', 'archived')),
+  word_count integer not null default 0,
+  verification jsonb,
+  wordpress_account_id uuid,
+  wordpress_post_id bigint,
+  wordpress_post_url text,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists articles_user_id_updated_at_idx
+  on public.articles(user_id, updated_at desc);
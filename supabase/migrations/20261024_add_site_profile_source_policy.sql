@@ -0,0 +1,2 @@
+alter table public.site_profiles
+  add column if not exists source_policy jsonb not null default '{}'::jsonb;
@@ -0,0 +1,2 @@
+alter table public.articles
+  add column if not exists recipe jsonb;
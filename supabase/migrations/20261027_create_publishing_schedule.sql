@@ -0,0 +1,20 @@
+create table if not exists public.publishing_schedule (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  article_id uuid not null,
+  wordpress_account_id uuid not null,
+  wordpress_post_id bigint not null,
+  wordpress_post_url text,
+  title text not null default '',
+  status text not null
+    check (status in ('draft', 'pending', 'private', 'publish', 'future')),
+  publish_at timestamptz,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists publishing_schedule_article_id_account_key
+  on public.publishing_schedule(article_id, wordpress_account_id);
+
+create index if not exists publishing_schedule_user_id_publish_at_idx
+  on public.publishing_schedule(user_id, publish_at);
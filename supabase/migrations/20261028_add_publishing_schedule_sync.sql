@@ -0,0 +1,3 @@
+alter table public.publishing_schedule
+  add column if not exists wordpress_modified_at timestamptz,
+  add column if not exists synced_content text;
@@ -0,0 +1,14 @@
+create table if not exists public.wordpress_media (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  wordpress_account_id uuid not null,
+  content_hash text not null,
+  media_id bigint not null,
+  media_url text not null,
+  alt_text text not null default '',
+  caption text not null default '',
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create unique index if not exists wordpress_media_account_hash_key
+  on public.wordpress_media(wordpress_account_id, content_hash);
@@ -0,0 +1,5 @@
+alter table public.articles
+  add column if not exists images jsonb;
+
+alter table public.site_profiles
+  add column if not exists image_aspect_ratio text not null default '16:9';
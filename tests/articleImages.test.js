@@ -0,0 +1,158 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const {
+  insertSectionImages,
+  mergeImageRecords,
+  normalizeImageRecords,
+  outputSize,
+  parseAspectRatio,
+  parseImagePlanResponse,
+  planImageSlots,
+  renderImageFigure,
+} = loadModule('src/lib/articleImages.ts');
+const { IMAGE_PROVIDERS, isProviderImageUrl } = loadModule('src/lib/imageProviders.ts');
+
+const article = [
+  '<p>Intro</p>',
+  '<h2>Best Beaches in Lisbon</h2><p>Sand.</p>',
+  '<h2>Getting Around</h2><img src="https://example.com/tram.jpg"><p>Trams.</p>',
+  '<h2>Where to Eat</h2><p>Food.</p>',
+  '<h2>Frequently Asked Questions</h2><p>FAQ.</p>',
+].join('');
+
+const record = (overrides = {}) => ({
+  slot: 'section',
+  heading: 'Where to Eat',
+  kind: 'stock',
+  alt: 'Grilled sardines on a plate',
+  caption: 'Sardines are a Lisbon staple.',
+  credit: {
+    provider: 'Unsplash',
+    author: 'Ana Silva',
+    authorUrl: 'https://unsplash.com/@ana?utm_source=app&utm_medium=referral',
+    sourceUrl: 'https://unsplash.com/photos/abc?utm_source=app&utm_medium=referral',
+  },
+  license: { name: 'Unsplash License', url: 'https://unsplash.com/license' },
+  width: 1200,
+  height: 675,
+  addedAt: '2026-10-19T10:00:00.000Z',
+  ...overrides,
+});
+
+test('parseAspectRatio accepts common forms and rejects extreme ratios', () => {
+  assert.deepEqual(parseAspectRatio('16:9'), { width: 16, height: 9 });
+  assert.deepEqual(parseAspectRatio('4x3'), { width: 4, height: 3 });
+  assert.deepEqual(parseAspectRatio('1.91:1'), { width: 1.91, height: 1 });
+  assert.equal(parseAspectRatio('4:1'), null);
+  assert.equal(parseAspectRatio('wide'), null);
+  assert.deepEqual(outputSize({ width: 16, height: 9 }), { width: 1200, height: 675 });
+});
+
+test('planImageSlots skips the FAQ and sections with images; the plan fills in wording', () => {
+  const slots = planImageSlots(article, 'A Weekend in Lisbon');
+  assert.deepEqual(
+    slots.map((slot) => [slot.kind, slot.heading, slot.query]),
+    [
+      ['featured', '', 'weekend lisbon'],
+      ['section', 'Best Beaches in Lisbon', 'beaches lisbon'],
+      ['section', 'Where to Eat', 'eat'],
+    ]
+  );
+  assert.equal(planImageSlots(article, 'Lisbon', { featured: false, maxSections: 1 }).length, 1);
+
+  const planned = parseImagePlanResponse(
+    '{"images":[{"id":3,"query":"Lisbon grilled sardines!","alt":"Grilled sardines","caption":"Sardines at a tasca."}]}',
+    slots
+  );
+  assert.equal(planned[0], slots[0]);
+  assert.deepEqual([planned[2].query, planned[2].alt, planned[2].caption, planned[2].prompt], [
+    'lisbon grilled sardines',
+    'Grilled sardines',
+    'Sardines at a tasca.',
+    slots[2].prompt,
+  ]);
+});
+
+test('section images go under their heading with caption and credit', () => {
+  const figure = renderImageFigure('data:image/jpeg;base64,AAAA', record());
+  assert.match(figure, /<img src="data:image\/jpeg;base64,AAAA" alt="Grilled sardines on a plate" width="1200" height="675">/);
+  assert.match(
+    figure,
+    /<figcaption>Sardines are a Lisbon staple\. <span class="image-credit">Photo by <a href="https:\/\/unsplash\.com\/@ana\?utm_source=app&amp;utm_medium=referral"[^>]*>Ana Silva<\/a> on <a [^>]*>Unsplash<\/a><\/span><\/figcaption>/
+  );
+  const generated = renderImageFigure('x', record({ kind: 'generated', caption: '', credit: { provider: 'OpenAI', author: null, authorUrl: null, sourceUrl: null } }));
+  assert.match(generated, /<figcaption><span class="image-credit">Image generated with OpenAI<\/span><\/figcaption>/);
+
+  const html = insertSectionImages(article, [
+    { heading: 'where to eat', figure: '<figure>F</figure>' },
+    { heading: 'Removed section', figure: '<figure>X</figure>' },
+  ]);
+  assert.ok(html.includes('<h2>Where to Eat</h2><figure>F</figure><p>Food.</p>'));
+  assert.ok(!html.includes('<figure>X</figure>'));
+});
+
+test('image records need a license and replace the record for the same slot', () => {
+  assert.equal(normalizeImageRecords([record({ license: { name: '' } })]), null);
+  assert.equal(normalizeImageRecords({}), null);
+  const [normalized] = normalizeImageRecords([record({ src: 'data:image/jpeg;base64,AAAA' })]);
+  assert.equal(normalized.src, undefined);
+  assert.equal(normalized.license.name, 'Unsplash License');
+
+  const featured = record({ slot: 'featured', heading: '' });
+  const merged = mergeImageRecords([featured, record()], [record({ alt: 'Newer' })]);
+  assert.deepEqual(merged.map((item) => [item.slot, item.alt]), [
+    ['featured', 'Grilled sardines on a plate'],
+    ['section', 'Newer'],
+  ]);
+});
+
+test('Unsplash results map to candidates with credit, license and download tracking', async () => {
+  process.env.UNSPLASH_ACCESS_KEY = 'key';
+  process.env.UNSPLASH_APP_NAME = 'app';
+  const requests = [];
+  const fetchImpl = async (url, init) => {
+    requests.push({ url, auth: init?.headers?.Authorization });
+    return new Response(
+      JSON.stringify({
+        results: [
+          {
+            id: 'abc',
+            width: 4000,
+            height: 3000,
+            alt_description: 'sardines on a grill',
+            urls: { raw: 'https://images.unsplash.com/photo-1?ixid=x', small: 'https://images.unsplash.com/small' },
+            links: { html: 'https://unsplash.com/photos/abc', download_location: 'https://api.unsplash.com/photos/abc/download' },
+            user: { name: 'Ana Silva', links: { html: 'https://unsplash.com/@ana' } },
+          },
+        ],
+      }),
+      { status: 200 }
+    );
+  };
+  const provider = IMAGE_PROVIDERS.unsplash;
+  const slot = { kind: 'section', heading: 'Where to Eat', query: 'grilled sardines', prompt: '', alt: '', caption: '' };
+  const [candidate] = await provider.findImages({ slot, aspect: { width: 16, height: 9 }, count: 4 }, fetchImpl);
+
+  assert.match(requests[0].url, /query=grilled\+sardines&per_page=4&orientation=landscape/);
+  assert.equal(requests[0].auth, 'Client-ID key');
+  assert.equal(candidate.src, 'https://images.unsplash.com/photo-1?ixid=x&w=2400&fm=jpg&q=85');
+  assert.deepEqual(candidate.credit, {
+    provider: 'Unsplash',
+    author: 'Ana Silva',
+    authorUrl: 'https://unsplash.com/@ana?utm_source=app&utm_medium=referral',
+    sourceUrl: 'https://unsplash.com/photos/abc?utm_source=app&utm_medium=referral',
+  });
+  assert.equal(candidate.license.name, 'Unsplash License');
+
+  await provider.trackDownload(candidate, fetchImpl);
+  assert.equal(requests[1].url, 'https://api.unsplash.com/photos/abc/download');
+
+  // Only the provider's own image host or a data URL may be downloaded
+  assert.ok(isProviderImageUrl(provider, candidate.src));
+  assert.ok(isProviderImageUrl(null, 'data:image/png;base64,AAAA'));
+  assert.ok(!isProviderImageUrl(provider, 'https://169.254.169.254/latest/meta-data'));
+  assert.ok(!isProviderImageUrl(provider, 'http://images.unsplash.com/photo-1'));
+  assert.ok(!isProviderImageUrl(IMAGE_PROVIDERS.pexels, candidate.src));
+});
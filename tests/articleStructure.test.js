@@ -0,0 +1,71 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+const libPath = new URL('../src/lib/articleStructure.ts', import.meta.url);
+const tsCode = fs.readFileSync(libPath, 'utf8');
+const jsCode = ts.transpileModule(tsCode, {
+  compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+}).outputText;
+const moduleUrl =
+  'data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64');
+const { analyzeArticleStructure, applySectionExpansions, findSection, parseExpansionResponse } =
+  await import(moduleUrl);
+
+const article =
+  '<p>Intro with <a href="https://a.test">a link</a>.</p>' +
+  '<h2>First  Section</h2><p>One two three.</p><p>Four five.</p>' +
+  '<h2>Second</h2><p>Six <a href="https://b.test">seven</a>.</p>';
+
+test('analyzeArticleStructure measures the intro and each <h2> section', () => {
+  const structure = analyzeArticleStructure(article);
+  assert.deepStrictEqual(structure.intro, { paragraphCount: 1, wordCount: 5 });
+  assert.deepStrictEqual(
+    structure.sections.map(({ heading, paragraphCount, wordCount }) => ({
+      heading,
+      paragraphCount,
+      wordCount,
+    })),
+    [
+      { heading: 'First Section', paragraphCount: 2, wordCount: 5 },
+      { heading: 'Second', paragraphCount: 1, wordCount: 3 },
+    ]
+  );
+  assert.strictEqual(findSection(structure, ' first section ')?.heading, 'First Section');
+  assert.strictEqual(findSection(structure, 'Missing'), undefined);
+});
+
+test('applySectionExpansions appends after the matching section by default', () => {
+  const updated = applySectionExpansions(article, [
+    { heading: 'first section', html: '<p>Added.</p>' },
+  ]);
+  assert.strictEqual(
+    updated,
+    article.replace('<p>Four five.</p>', '<p>Four five.</p><p>Added.</p>')
+  );
+});
+
+test('replace mode swaps only the section body and leaves other links alone', () => {
+  const updated = applySectionExpansions(
+    article,
+    [
+      { heading: 'First Section', html: '<p>Rewritten.</p>' },
+      { heading: 'Not in the article', html: '<p>Dropped.</p>' },
+    ],
+    'replace'
+  );
+  assert.strictEqual(
+    updated,
+    '<p>Intro with <a href="https://a.test">a link</a>.</p>' +
+      '<h2>First  Section</h2><p>Rewritten.</p>' +
+      '<h2>Second</h2><p>Six <a href="https://b.test">seven</a>.</p>'
+  );
+});
+
+test('parseExpansionResponse reads JSON wrapped in model chatter', () => {
+  const raw =
+    'Here you go:\n```json\n{"expansions":[{"heading":"Second","html":"<p>x</p>"},{"heading":"","html":"<p>y</p>"}]}\n```';
+  assert.deepStrictEqual(parseExpansionResponse(raw), [{ heading: 'Second', html: '<p>x</p>' }]);
+  assert.deepStrictEqual(parseExpansionResponse('not json'), []);
+});
@@ -0,0 +1,75 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const { parseArticleFields, serializeArticle, toArticleColumns } = loadModule('src/lib/articles.ts');
+
+test('parseArticleFields keeps only the fields that were sent', () => {
+  assert.deepStrictEqual(parseArticleFields({ userId: 'u', title: 'Hello' }), { title: 'Hello' });
+  assert.deepStrictEqual(
+    parseArticleFields({ wordpress: { accountId: 'a', postId: 42, postUrl: 'https://wp.test/?p=42' } }),
+    { wordpressPostId: 42, wordpressAccountId: 'a', wordpressPostUrl: 'https://wp.test/?p=42' }
+  );
+});
+
+test('parseArticleFields rejects invalid values', () => {
+  assert.strictEqual(parseArticleFields({ status: 'deleted' }), 'status must be one of draft, published, archived');
+  assert.strictEqual(parseArticleFields({ sources: 'https://a.test' }), 'sources must be an array');
+  assert.strictEqual(parseArticleFields({ wordpress: { postId: '42' } }), 'wordpress.postId must be an integer');
+  assert.strictEqual(
+    parseArticleFields({ verification: { isAccurate: 'yes' } }),
+    'verification must include isAccurate and discrepancies'
+  );
+  assert.strictEqual(parseArticleFields({ seo: { slug: 'x' } }), 'seo must include a metaTitle or metaDescription');
+});
+
+test('parseArticleFields normalizes edited SEO metadata', () => {
+  assert.deepStrictEqual(
+    parseArticleFields({
+      seo: {
+        metaTitle: '  Rocket launch guide ',
+        metaDescription: 'Everything about the launch.',
+        slug: 'Rocket Launch Guide!',
+        focusKeyphrase: 'rocket launch',
+        secondaryKeywords: 'launch window, rocket launch, Launch window',
+      },
+    }),
+    {
+      seo: {
+        metaTitle: 'Rocket launch guide',
+        metaDescription: 'Everything about the launch.',
+        slug: 'rocket-launch-guide',
+        focusKeyphrase: 'rocket launch',
+        secondaryKeywords: ['launch window'],
+      },
+    }
+  );
+  assert.deepStrictEqual(parseArticleFields({ seo: null }), { seo: null });
+});
+
+test('toArticleColumns derives word count and article type', () => {
+  assert.deepStrictEqual(
+    toArticleColumns({
+      title: '  Rockets  ',
+      content: '<h2>Launch</h2><p>It went up.</p>',
+      payload: { articleType: 'News article', title: 'Rockets' },
+    }),
+    {
+      title: 'Rockets',
+      content: '<h2>Launch</h2><p>It went up.</p>',
+      word_count: 4,
+      payload: { articleType: 'News article', title: 'Rockets' },
+      article_type: 'News article',
+    }
+  );
+  assert.deepStrictEqual(toArticleColumns({ status: 'archived' }), { status: 'archived' });
+});
+
+test('serializeArticle exposes WordPress linkage only when a post exists', () => {
+  const base = { id: 'a1', title: 'T', sources: null, status: 'draft', word_count: 3 };
+  assert.strictEqual(serializeArticle(base).wordpress, null);
+  assert.deepStrictEqual(
+    serializeArticle({ ...base, wordpress_post_id: 7, wordpress_account_id: 'acc', wordpress_post_url: null }).wordpress,
+    { accountId: 'acc', postId: 7, postUrl: null }
+  );
+});
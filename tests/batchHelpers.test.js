@@ -0,0 +1,79 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+const helperPath = new URL('../src/app/generate/batchHelpers.ts', import.meta.url);
+const helperSource = fs.readFileSync(helperPath, 'utf8');
+
+const jsCode = ts
+  .transpileModule(helperSource, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  })
+  .outputText;
+
+const moduleUrl = 'data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64');
+
+const {
+  buildBatchPayloads,
+  getHeadlineSelectionKey,
+  MAX_BATCH_SIZE,
+  summarizeBatchJobs,
+} = await import(moduleUrl);
+
+test('getHeadlineSelectionKey prefers the headline URL', () => {
+  assert.strictEqual(
+    getHeadlineSelectionKey({ title: 'A', url: ' https://example.com/a ' }, 3),
+    'https://example.com/a'
+  );
+  assert.strictEqual(getHeadlineSelectionKey({ title: 'No link' }, 2), '2:No link');
+});
+
+test('buildBatchPayloads applies shared settings and skips duplicate titles', () => {
+  const payloads = buildBatchPayloads(
+    [
+      { title: '  Markets  rally on rate cut ' },
+      { title: 'markets rally on rate cut' },
+      { title: '' },
+      { title: 'Storm hits coast' },
+    ],
+    { articleType: 'News article', toneOfVoice: 'Neutral', modelVersion: 'gpt-4o' }
+  );
+  assert.deepStrictEqual(payloads, [
+    {
+      articleType: 'News article',
+      toneOfVoice: 'Neutral',
+      modelVersion: 'gpt-4o',
+      title: 'Markets rally on rate cut',
+    },
+    {
+      articleType: 'News article',
+      toneOfVoice: 'Neutral',
+      modelVersion: 'gpt-4o',
+      title: 'Storm hits coast',
+    },
+  ]);
+});
+
+test('buildBatchPayloads caps the batch size', () => {
+  const headlines = Array.from({ length: MAX_BATCH_SIZE + 5 }, (_, index) => ({
+    title: `Headline ${index}`,
+  }));
+  assert.strictEqual(buildBatchPayloads(headlines, {}).length, MAX_BATCH_SIZE);
+});
+
+test('summarizeBatchJobs counts statuses and detects completion', () => {
+  assert.deepStrictEqual(
+    summarizeBatchJobs([
+      { status: 'succeeded' },
+      { status: 'failed' },
+      { status: 'running' },
+    ]),
+    { total: 3, queued: 0, running: 1, succeeded: 1, failed: 1, isComplete: false }
+  );
+  assert.strictEqual(
+    summarizeBatchJobs([{ status: 'succeeded' }, { status: 'failed' }]).isComplete,
+    true
+  );
+  assert.strictEqual(summarizeBatchJobs([]).isComplete, false);
+});
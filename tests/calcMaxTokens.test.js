@@ -5,13 +5,15 @@ import { test } from 'node:test';
 
 const routePath = new URL('../src/app/api/generate/route.ts', import.meta.url);
 const configPath = new URL('../src/constants/lengthOptions.ts', import.meta.url);
+const registryPath = new URL('../src/lib/modelRegistry.ts', import.meta.url);
 const tsCode = fs.readFileSync(routePath, 'utf8');
 const configTs = fs.readFileSync(configPath, 'utf8');
+const registryTs = fs.readFileSync(registryPath, 'utf8');
 
 const configSnippet = configTs.replace(/export /g, '');
-const modelLimitsMatch = tsCode.match(/const MODEL_CONTEXT_LIMITS[\s\S]*?};/);
+const registrySnippet = registryTs.replace(/^import type .*$/gm, '').replace(/export /g, '');
 const funcMatch = tsCode.match(/function calcMaxTokens[\s\S]*?\n\}/);
-const snippet = [configSnippet, modelLimitsMatch[0], funcMatch[0], 'export { calcMaxTokens, DEFAULT_WORDS };'].join('\n');
+const snippet = [configSnippet, registrySnippet, funcMatch[0], 'export { calcMaxTokens, DEFAULT_WORDS };'].join('\n');
 const jsCode = ts.transpileModule(snippet, { compilerOptions: { module: ts.ModuleKind.ESNext } }).outputText;
 const moduleUrl = 'data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64');
 const { calcMaxTokens, DEFAULT_WORDS } = await import(moduleUrl);
@@ -40,7 +42,12 @@ test('calcMaxTokens falls back for unknown option', () => {
   assert(approxWords > 1850 && approxWords < 1950);
 });
 
-test('calcMaxTokens caps output at the model context limit', () => {
+test('calcMaxTokens caps output at the model output limit', () => {
   const tokens = calcMaxTokens('custom', 500, 'gpt-4o');
   assert.equal(tokens, 16384);
 });
+
+test('calcMaxTokens resolves dated model snapshots through the registry', () => {
+  assert.equal(calcMaxTokens('custom', 500, 'gpt-3.5-turbo-0125'), 4096);
+  assert.equal(calcMaxTokens('custom', 500, 'unknown-model'), 4096);
+});
@@ -0,0 +1,131 @@
+import assert from 'assert';
+import fs from 'fs';
+import { test } from 'node:test';
+import zlib from 'zlib';
+import { loadModule } from './helpers/loadModule.js';
+
+const { detectDocumentKind, extractDocumentText } = loadModule('src/lib/documentText.ts');
+const { buildUserReportingSources, splitDocumentText } = loadModule('src/lib/userSources.ts');
+const { normalizeSourceDocuments } = loadModule('src/lib/sourceDocuments.ts');
+
+function readFixture(name) {
+  return fs.readFileSync(new URL(`./fixtures/documents/${name}`, import.meta.url));
+}
+
+test('extractDocumentText reads paragraphs and the title from a DOCX file', () => {
+  const document = extractDocumentText(readFixture('press-release.docx'), 'press-release.docx');
+  assert.deepStrictEqual(document, {
+    kind: 'docx',
+    title: 'Press release: Leeds plant',
+    text: [
+      'Acme Robotics opens Leeds plant',
+      'Acme Robotics will open a £40 million assembly plant in Leeds on 3 March, creating 250 jobs.',
+      '“Leeds has the engineering talent we need,” said chief executive Priya Shah.\nProduction starts in the second quarter.',
+    ].join('\n\n'),
+  });
+});
+
+test('extractDocumentText reads compressed and plain PDF content streams', () => {
+  const document = extractDocumentText(readFixture('press-release.pdf'), 'release.pdf');
+  assert.strictEqual(document.kind, 'pdf');
+  assert.strictEqual(document.title, 'Acme Leeds announcement');
+  assert.strictEqual(
+    document.text,
+    'Acme Robotics will open a £40 million assembly plant\nin Leeds, creating 250 jobs.\nPriya Shah\n\n' +
+      'Production starts in the second quarter (Q2).'
+  );
+});
+
+test('extractDocumentText detects kinds and rejects unsupported files', () => {
+  assert.strictEqual(detectDocumentKind('notes.MD'), 'text');
+  assert.strictEqual(detectDocumentKind('upload', 'text/html; charset=utf-8'), 'html');
+  assert.strictEqual(detectDocumentKind('photo.png', 'image/png'), null);
+  assert.throws(() => extractDocumentText(Buffer.from('x'), 'photo.png'), /Unsupported file type/);
+  assert.throws(() => extractDocumentText(Buffer.from('not a pdf'), 'a.pdf'), /not a valid PDF/);
+  assert.deepStrictEqual(
+    extractDocumentText(Buffer.from('First line\nstill first.\n\n\nSecond.'), 'notes.txt'),
+    { kind: 'text', title: null, text: 'First line\nstill first.\n\nSecond.' }
+  );
+});
+
+// A one-entry ZIP with just the header fields readZipEntries looks at.
+function zipWithEntry(name, compressed) {
+  const nameBytes = Buffer.from(name);
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(compressed.length, 18);
+  local.writeUInt16LE(nameBytes.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(compressed.length, 20);
+  central.writeUInt16LE(nameBytes.length, 28);
+  const centralOffset = local.length + nameBytes.length + compressed.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + nameBytes.length, 12);
+  eocd.writeUInt32LE(centralOffset, 16);
+  return Buffer.concat([local, nameBytes, compressed, central, nameBytes, eocd]);
+}
+
+test('extractDocumentText refuses entries that decompress past the size limit', () => {
+  const oversized = Buffer.alloc(60 * 1024 * 1024, 0x20);
+
+  const docx = zipWithEntry('word/document.xml', zlib.deflateRawSync(oversized));
+  assert.throws(
+    () => extractDocumentText(docx, 'bomb.docx'),
+    /The DOCX entry word\/document\.xml decompresses past the 50 MB limit/
+  );
+
+  const pdf = Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Filter /FlateDecode >>\nstream\n', 'latin1'),
+    zlib.deflateSync(oversized),
+    Buffer.from('\nendstream\nendobj\n', 'latin1'),
+  ]);
+  assert.throws(
+    () => extractDocumentText(pdf, 'bomb.pdf'),
+    /The PDF content decompresses past the 50 MB limit/
+  );
+});
+
+test('writer-supplied documents become reporting sources without required links', async () => {
+  const documents = normalizeSourceDocuments([
+    '   ',
+    {
+      title: 'Press release',
+      fileName: 'release.docx',
+      text: 'Acme will hire 250 people in Leeds.\n\nThe plant opens in March.',
+    },
+    { title: 'Empty' },
+    'Notes from the call: Priya Shah confirmed the £40 million budget.',
+  ]);
+  assert.strictEqual(documents.length, 2);
+
+  const sources = await buildUserReportingSources(documents, 'Acme Leeds plant');
+  assert.deepStrictEqual(
+    sources.map(({ title, url, sourceType, sourceName }) => ({
+      title,
+      url,
+      sourceType,
+      sourceName,
+    })),
+    [
+      { title: 'Press release', url: '', sourceType: 'user', sourceName: 'release.docx' },
+      { title: 'Writer-supplied document 2', url: '', sourceType: 'user', sourceName: undefined },
+    ]
+  );
+  assert.strictEqual(sources[0].summary, 'Acme will hire 250 people in Leeds.');
+  assert.deepStrictEqual(sources[0].passages, [
+    'Acme will hire 250 people in Leeds.',
+    'The plant opens in March.',
+  ]);
+});
+
+test('splitDocumentText cuts long unbroken text at sentence boundaries', () => {
+  const sentence = 'The council met again to discuss the seawall budget and its timeline. ';
+  const chunks = splitDocumentText(sentence.repeat(20));
+  assert(chunks.length > 1);
+  assert(chunks.every((chunk) => chunk.length <= 600 && chunk.endsWith('timeline.')));
+});
@@ -0,0 +1,121 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const {
+  fetchRelatedQuestions,
+  hasFaqSection,
+  parseFaqResponse,
+  renderFaqSection,
+  selectFaqQuestions,
+} = loadModule('src/lib/faq.ts');
+const { buildStructuredData } = loadModule('src/lib/structuredData.ts');
+
+const draft = [
+  '<p>Sourdough needs only flour, water and salt.</p>',
+  '<h2>How to feed a sourdough starter</h2>',
+  '<p>Feed it equal weights of flour and water.</p>',
+  '<h2>Baking the loaf</h2>',
+  '<p>The dough proofs overnight in the fridge before baking.</p>',
+].join('\n');
+
+const questions = [
+  { question: 'How do you feed a sourdough starter?', snippet: 'Discard half and add flour and water.', url: 'https://a.test/feed', source: 'A Test' },
+  { question: 'Why is my sourdough so dense?', snippet: 'Dense bread is usually underproofed.', url: 'https://b.test/dense', source: 'B Test' },
+  { question: 'why is my sourdough SO dense', snippet: 'Duplicate.', url: 'https://c.test/dense' },
+  { question: 'Can you freeze sourdough bread?', snippet: 'Wrapped loaves freeze for three months.', url: 'https://d.test/freeze' },
+];
+
+test('fetchRelatedQuestions reads People also ask results from SerpAPI', async () => {
+  const previousKey = process.env.SERPAPI_KEY;
+  const previousFetch = globalThis.fetch;
+  process.env.SERPAPI_KEY = 'test-key';
+  let requestedUrl = '';
+  globalThis.fetch = async (url) => {
+    requestedUrl = String(url);
+    return {
+      ok: true,
+      json: async () => ({
+        organic_results: [{ title: 'Ignored', link: 'https://organic.test' }],
+        related_questions: [
+          { question: 'Is sourdough healthy?', snippet: 'It is easier to digest.', link: 'https://www.health.test/a' },
+          { question: 'What is a levain?', list: ['A starter build', 'Made the night before'], link: 'https://e.test/levain', source: { name: 'E' } },
+          { question: 'No answer?' },
+        ],
+      }),
+    };
+  };
+  try {
+    let requests = 0;
+    const related = await fetchRelatedQuestions('sourdough', () => (requests += 1));
+    assert.equal(requests, 1);
+    assert.match(requestedUrl, /engine=google(&|$)/);
+    assert.deepEqual(related, [
+      { question: 'Is sourdough healthy?', snippet: 'It is easier to digest.', url: 'https://www.health.test/a', source: 'health.test' },
+      { question: 'What is a levain?', snippet: 'A starter build; Made the night before', url: 'https://e.test/levain', source: 'E' },
+    ]);
+  } finally {
+    globalThis.fetch = previousFetch;
+    if (previousKey === undefined) delete process.env.SERPAPI_KEY;
+    else process.env.SERPAPI_KEY = previousKey;
+  }
+});
+
+test('selectFaqQuestions skips questions the draft answers and repeats', () => {
+  assert.deepEqual(
+    selectFaqQuestions(questions, draft).map((item) => item.question),
+    ['Why is my sourdough so dense?', 'Can you freeze sourdough bread?']
+  );
+  assert.equal(selectFaqQuestions(questions, draft, 1).length, 1);
+  assert.equal(hasFaqSection(draft), false);
+  assert.equal(hasFaqSection(`${draft}\n<h2>Frequently asked questions</h2>`), true);
+});
+
+test('parseFaqResponse keeps valid answers in question order', () => {
+  const selected = selectFaqQuestions(questions, draft);
+  const faqs = parseFaqResponse(
+    JSON.stringify({
+      answers: [
+        { id: 2, answer: '  Wrapped loaves keep for three months. ' },
+        { id: 1, answer: 'It is usually underproofed.' },
+        { id: 1, answer: 'Duplicate answer.' },
+        { id: 9, answer: 'Unknown question.' },
+        { id: 2, answer: '' },
+      ],
+    }),
+    selected
+  );
+  assert.deepEqual(
+    faqs.map((faq) => [faq.question, faq.answer]),
+    [
+      ['Why is my sourdough so dense?', 'It is usually underproofed.'],
+      ['Can you freeze sourdough bread?', 'Wrapped loaves keep for three months.'],
+    ]
+  );
+  assert.deepEqual(parseFaqResponse('not json', selected), []);
+});
+
+test('renderFaqSection cites each answer and yields FAQPage JSON-LD', () => {
+  const faqs = [
+    { ...questions[1], answer: 'It is usually <underproofed>.' },
+    { question: 'Can you freeze sourdough bread?', snippet: '', answer: 'Yes, for three months.' },
+  ];
+  const html = renderFaqSection(faqs);
+  assert.equal(
+    html,
+    [
+      '<h2>FAQ</h2>',
+      '<h3>Why is my sourdough so dense?</h3>',
+      '<p>It is usually &lt;underproofed&gt;. (<a href="https://b.test/dense" target="_blank">B Test</a>)</p>',
+      '<h3>Can you freeze sourdough bread?</h3>',
+      '<p>Yes, for three months.</p>',
+    ].join('\n')
+  );
+  assert.doesNotMatch(renderFaqSection(faqs, { includeLinks: false }), /<a /);
+  assert.equal(renderFaqSection([]), '');
+
+  const { schemas } = buildStructuredData({ articleType: 'Blog post', title: 'Sourdough', html: `${draft}\n${html}` });
+  const faqPage = schemas.find((schema) => schema['@type'] === 'FAQPage');
+  assert.equal(faqPage.mainEntity.length, 2);
+  assert.equal(faqPage.mainEntity[0].name, 'Why is my sourdough so dense?');
+});
@@ -5,6 +5,10 @@ import { test } from 'node:test';
 
 const routePath = new URL('../src/app/api/generate/route.ts', import.meta.url);
 const tsCode = fs.readFileSync(routePath, 'utf8');
+const sourcePolicyPath = new URL('../src/lib/sourcePolicy.ts', import.meta.url);
+const sourcePolicyCode = fs
+  .readFileSync(sourcePolicyPath, 'utf8')
+  .replace(/^export /gm, '');
 
 function extract(regex, description) {
   const match = tsCode.match(regex);
@@ -15,6 +19,7 @@ function extract(regex, description) {
 }
 
 const snippet = `
+${sourcePolicyCode}
 ${extract(/const MILLIS_IN_MINUTE[\s\S]*?const MAX_FUTURE_DRIFT_MS[^;]*;/, 'time constants')}
 const serpCalls = [];
 let serpResults = [];
@@ -43,6 +48,7 @@ export {
   setSerpResults,
   fetchNewsArticles,
   buildRecentReportingBlock,
+  normalizeSourcePolicy,
 };
 `;
 
@@ -54,6 +60,7 @@ const {
   setSerpResults,
   fetchNewsArticles,
   buildRecentReportingBlock,
+  normalizeSourcePolicy,
 } = await import(moduleUrl);
 
 const FIXED_NOW_ISO = '2024-03-10T12:00:00Z';
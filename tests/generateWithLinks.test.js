@@ -5,6 +5,10 @@ import { test } from 'node:test';
 
 const routePath = new URL('../src/app/api/generate/route.ts', import.meta.url);
 const tsCode = fs.readFileSync(routePath, 'utf8');
+const eventsPath = new URL('../src/lib/generationEvents.ts', import.meta.url);
+const eventsCode = fs.readFileSync(eventsPath, 'utf8');
+const structurePath = new URL('../src/lib/articleStructure.ts', import.meta.url);
+const structureCode = fs.readFileSync(structurePath, 'utf8');
 
 const minLinksMatch = tsCode.match(/const MIN_LINKS = \d+;/);
 const strictRetryMatch = tsCode.match(
@@ -14,7 +18,9 @@ const lengthExpansionMatch = tsCode.match(
   /const LENGTH_EXPANSION_ATTEMPTS = \d+;/
 );
 const factualTempMatch = tsCode.match(/const FACTUAL_TEMPERATURE\s*=\s*[^;]+;/);
-const modelLimitsMatch = tsCode.match(/const MODEL_CONTEXT_LIMITS[\s\S]*?};/);
+const budgetConstantsMatch = tsCode.match(
+  /const HTML_TOKENS_PER_WORD = [^;]+;[\s\S]*?const COMPLETION_HEADROOM = [^;]+;/
+);
 const safetyMarginMatch = tsCode.match(/const COMPLETION_SAFETY_MARGIN_TOKENS\s*=\s*\d+;/);
 if (!safetyMarginMatch) {
   throw new Error('Failed to locate completion safety margin constant');
@@ -35,11 +41,13 @@ const helperBlock = tsCode.slice(helpersStart, generateWithLinksIndex);
 const funcMatch = tsCode.match(/async function generateWithLinks[\s\S]*?\n\}/);
 
 const snippet = `
+${eventsCode}
+${structureCode}
 ${minLinksMatch[0]}
 ${strictRetryMatch[0]}
 ${lengthExpansionMatch[0]}
 ${factualTempMatch[0]}
-${modelLimitsMatch[0]}
+${budgetConstantsMatch[0]}
 ${safetyMarginMatch[0]}
 ${normalizeTitleMatch[0]}
 ${normalizeHrefMatch[0]}
@@ -49,8 +57,33 @@ ${findMissingMatch[0]}
 ${helperBlock}
 let responses = [];
 let calls = [];
-const openai = { chat: { completions: { create: async (opts) => { calls.push(opts); return responses.shift(); } } } };
-function getOpenAI() { return openai; }
+const MODEL_LIMITS = {
+  'gpt-4o': { contextTokens: 128000, maxOutputTokens: 16384 },
+  'small-model': { contextTokens: 8000, maxOutputTokens: 4096 },
+};
+function countMessageTokens(messages) {
+  return messages.reduce((total, message) => total + Math.ceil(message.content.length / 4), 0);
+}
+const provider = {
+  getTokenLimits: (model) => MODEL_LIMITS[model] || MODEL_LIMITS['small-model'],
+  chat: async (opts) => { calls.push(opts); return responses.shift(); },
+  streamChat: async (opts, { onDelta } = {}) => {
+    calls.push({ ...opts, stream: true });
+    let content = '';
+    let finish_reason = null;
+    for await (const chunk of responses.shift()) {
+      const choice = chunk.choices[0];
+      if (choice.delta?.content) {
+        content += choice.delta.content;
+        onDelta?.(choice.delta.content);
+      }
+      finish_reason = choice.finish_reason ?? finish_reason;
+    }
+    return { choices: [{ message: { content }, finish_reason }] };
+  },
+};
+function getStageProvider(_stage, model) { return { provider, model }; }
+function trackUsage(stageProvider) { return stageProvider; }
 ${funcMatch[0]}
 export { generateWithLinks, MIN_LINKS, responses, calls, findMissingSources };
 `;
@@ -265,7 +298,7 @@ test('generateWithLinks retries when response is truncated', async () => {
   assert.strictEqual(content, 'complete');
   assert.strictEqual(calls.length, 2);
   assert(calls[0].max_tokens >= 800);
-  assert.strictEqual(calls[1].max_tokens, 16126);
+  assert.strictEqual(calls[1].max_tokens, 16384);
   assert.strictEqual(responses.length, 0);
   for (const call of calls) {
     assert.strictEqual(call.messages.length, 1);
@@ -273,19 +306,57 @@ test('generateWithLinks retries when response is truncated', async () => {
   }
 });
 
+test('generateWithLinks streams draft deltas when an event handler is provided', async () => {
+  calls.length = 0;
+  responses.length = 0;
+  const chunks = [
+    { choices: [{ delta: { content: '<p>Hello' } }] },
+    { choices: [{ delta: { content: ' world</p>' }, finish_reason: 'stop' }] },
+  ];
+  responses.push({
+    async *[Symbol.asyncIterator]() {
+      yield* chunks;
+    },
+  });
+  const events = [];
+  const content = await generateWithLinks(
+    'prompt',
+    'gpt-4o',
+    [],
+    undefined,
+    0,
+    100,
+    0,
+    [],
+    true,
+    0,
+    (event) => events.push(event)
+  );
+  assert.strictEqual(content, '<p>Hello world</p>');
+  assert.strictEqual(calls.length, 1);
+  assert.strictEqual(calls[0].stream, true);
+  assert.deepStrictEqual(
+    events.filter((event) => event.type === 'draft').map((event) => event.delta),
+    ['<p>Hello', ' world</p>']
+  );
+  const draftStages = events.filter(
+    (event) => event.type === 'stage' && event.stage === 'draft'
+  );
+  assert.deepStrictEqual(
+    draftStages.map((event) => event.status),
+    ['started', 'completed']
+  );
+  assert.strictEqual(typeof draftStages[1].elapsedMs, 'number');
+});
+
 test('generateWithLinks caps max_tokens so prompt stays within context window', async () => {
   calls.length = 0;
   responses.length = 0;
   responses.push({ choices: [{ message: { content: 'done' }, finish_reason: 'stop' }] });
 
-  const modelLimitsSource = modelLimitsMatch[0]
-    .replace(/const MODEL_CONTEXT_LIMITS[^=]*=\s*/, '')
-    .replace(/;\s*$/, '');
-  const modelLimits = Function('return ' + modelLimitsSource)();
-  const limit = modelLimits['gpt-4o'];
-
+  const limit = 8000;
   const longPrompt = 'x'.repeat((limit - 50) * 4);
-  const content = await generateWithLinks(longPrompt, 'gpt-4o', [], undefined, 0, 100);
+  const content = await generateWithLinks(longPrompt, 'small-model', [], undefined, 0, 100);
   assert.strictEqual(content, 'done');
   assert.strictEqual(responses.length, 0);
   assert.strictEqual(calls.length, 1);
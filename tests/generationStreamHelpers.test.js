@@ -0,0 +1,97 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+const helperPath = new URL('../src/app/generate/generationStreamHelpers.ts', import.meta.url);
+const helperSource = fs.readFileSync(helperPath, 'utf8');
+
+const jsCode = ts
+  .transpileModule(helperSource, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+  })
+  .outputText;
+
+const moduleUrl = 'data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64');
+
+const {
+  applyGenerationEvent,
+  INITIAL_GENERATION_PROGRESS,
+  parseGenerationStreamChunk,
+  readGenerationStream,
+} = await import(moduleUrl);
+
+function createStreamResponse(chunks) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/x-ndjson' },
+  });
+}
+
+test('parseGenerationStreamChunk keeps partial lines for the next chunk', () => {
+  const { events, rest } = parseGenerationStreamChunk(
+    '{"type":"outline","outline":"A"}\n{"type":"draft","del'
+  );
+  assert.deepStrictEqual(events, [{ type: 'outline', outline: 'A' }]);
+  assert.strictEqual(rest, '{"type":"draft","del');
+});
+
+test('applyGenerationEvent tracks stages, outline and the live draft', () => {
+  const events = [
+    { type: 'stage', stage: 'outline', status: 'started' },
+    { type: 'outline', outline: '<h2>Intro</h2>' },
+    { type: 'stage', stage: 'outline', status: 'completed', elapsedMs: 1200 },
+    { type: 'draft', delta: '<p>Hel' },
+    { type: 'draft', delta: 'lo</p>' },
+    { type: 'draft', delta: '', reset: true },
+    { type: 'draft', delta: '<p>Again</p>' },
+    { type: 'verification', isAccurate: false, discrepancies: ['[CRITICAL] Wrong date'] },
+  ];
+  const progress = events.reduce(applyGenerationEvent, INITIAL_GENERATION_PROGRESS);
+  assert.deepStrictEqual(progress.stages, [
+    { stage: 'outline', status: 'completed', elapsedMs: 1200 },
+  ]);
+  assert.strictEqual(progress.outline, '<h2>Intro</h2>');
+  assert.strictEqual(progress.draft, '<p>Again</p>');
+  assert.deepStrictEqual(progress.discrepancies, ['[CRITICAL] Wrong date']);
+  assert.deepStrictEqual(INITIAL_GENERATION_PROGRESS.stages, []);
+});
+
+test('readGenerationStream forwards events and rebuilds the final response', async () => {
+  const response = createStreamResponse([
+    '{"type":"stage","stage":"sources","status":"started"}\n{"type":"sou',
+    'rces","sources":[{"url":"https://example.com"}]}\n',
+    '{"type":"complete","status":200,"body":{"content":"<p>Done</p>","sources":[]}}',
+  ]);
+  const received = [];
+  const finalResponse = await readGenerationStream(response, (event) => received.push(event));
+  assert.deepStrictEqual(
+    received.map((event) => event.type),
+    ['stage', 'sources']
+  );
+  assert.strictEqual(finalResponse.status, 200);
+  assert.deepStrictEqual(await finalResponse.json(), { content: '<p>Done</p>', sources: [] });
+});
+
+test('readGenerationStream surfaces error events with their status', async () => {
+  const response = createStreamResponse([
+    '{"type":"error","status":422,"error":"No recent news","body":{"error":"No recent news","code":"NO_RECENT_SOURCES"}}\n',
+  ]);
+  const finalResponse = await readGenerationStream(response, () => {});
+  assert.strictEqual(finalResponse.status, 422);
+  const body = await finalResponse.json();
+  assert.strictEqual(body.code, 'NO_RECENT_SOURCES');
+});
+
+test('readGenerationStream rejects streams without a terminal event', async () => {
+  const response = createStreamResponse(['{"type":"outline","outline":"A"}\n']);
+  await assert.rejects(() => readGenerationStream(response, () => {}), /ended before/);
+});
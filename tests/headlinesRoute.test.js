@@ -14,6 +14,10 @@ const sanitizedSource = tsSource
   .replace(
     "import { serpapiSearch, type SerpApiResult } from '../../../lib/serpapi';",
     ''
+  )
+  .replace(
+    /import \{\s*buildLlmUsageEvent,[\s\S]*?\} from '\.\.\/\.\.\/\.\.\/lib\/usage';/,
+    ''
   );
 
 const snippet = `
@@ -23,7 +27,11 @@ const fetch = globalThis.__fetch;
 const serpapiSearch = (...args) => globalThis.__serpapiSearch(...args);
 const { XMLParser } = globalThis.__fastXmlParser;
 const he = globalThis.__he;
+const buildLlmUsageEvent = (stage) => ({ kind: 'llm', stage });
+const buildSearchUsageEvent = (stage, engine) => ({ kind: 'search', stage, model: engine });
+const recordUsageEvents = async () => {};
 type SerpApiResult = any;
+type UsageEvent = any;
 type NextRequest = any;
 ${sanitizedSource}
 export { createHeadlinesHandler };
@@ -1703,3 +1711,45 @@ test('falls back to SERP with a default time filter when NewsAPI has no results'
     }
   }
 });
+
+test('records keyword inference usage against the requesting user', async () => {
+  globalThis.__openaiCreate = async () => ({
+    model: 'gpt-4o-mini',
+    choices: [{ message: { content: '{"keywords":["robotics"]}' } }],
+    usage: { prompt_tokens: 120, completion_tokens: 12, total_tokens: 132 },
+  });
+  globalThis.__fetchImpl = async () => ({
+    ok: true,
+    status: 200,
+    headers: {
+      get(name) {
+        return name === 'content-type' ? 'application/json' : null;
+      },
+    },
+    async json() {
+      return { status: 'ok', articles: [] };
+    },
+  });
+
+  const recorded = [];
+  const handler = createHeadlinesHandler({
+    logger: { error() {} },
+    recordUsage: async (context, events) => {
+      recorded.push({ context, events });
+    },
+  });
+  await handler(
+    createRequest({
+      description: 'Hospital robotics news',
+      limit: 5,
+      userId: '11111111-1111-4111-8111-111111111111',
+    })
+  );
+
+  assert.strictEqual(recorded.length, 1);
+  assert.deepStrictEqual(recorded[0].context, {
+    route: 'headlines',
+    userId: '11111111-1111-4111-8111-111111111111',
+  });
+  assert.deepStrictEqual(recorded[0].events, [{ kind: 'llm', stage: 'keywords' }]);
+});
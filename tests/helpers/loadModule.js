@@ -0,0 +1,70 @@
+// Shared loaders for tests that need a TypeScript module together with the
+// src/ files it imports. The module is bundled to CommonJS with esbuild and
+// required from a temp directory.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { buildSync } from 'esbuild';
+
+const require = createRequire(import.meta.url);
+const repoRoot = fileURLToPath(new URL('../../', import.meta.url));
+
+// sharp stays an external require, resolved from the repo, so its native
+// binary loads
+const sharpPath = require.resolve('sharp');
+
+// The Supabase client is created at import time, so it needs placeholder config.
+process.env.NEXT_PUBLIC_SUPABASE_URL ??= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'test-service-role-key';
+
+function bundle(relativePath, options) {
+  const name = path.basename(relativePath, path.extname(relativePath));
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), `${name}-test-`));
+  const outFile = path.join(tempDir, `${name}.cjs`);
+  buildSync({
+    entryPoints: [path.join(repoRoot, relativePath)],
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    target: 'es2022',
+    alias: { sharp: sharpPath },
+    external: [sharpPath],
+    outfile: outFile,
+    logLevel: 'silent',
+    ...options,
+  });
+  return outFile;
+}
+
+// Bundles a repo file (for example 'src/lib/faq.ts') and requires it.
+export function loadModule(relativePath) {
+  return require(bundle(relativePath));
+}
+
+// Bundles a repo file for running in a vm context. Packages stay external and
+// load from node_modules. `mocks` maps a package name or a repo file (for
+// example 'src/lib/llm.ts') to the exports to use instead; only module
+// boundaries such as LLM providers, the database or the framework should be
+// mocked, the rest of src/ runs for real. Returns the bundled code and the
+// require function to give the vm.
+export function bundleWithMocks(relativePath, mocks = {}) {
+  const mockedFiles = Object.keys(mocks).filter((key) => key.startsWith('src/'));
+  const outFile = bundle(relativePath, {
+    packages: 'external',
+    alias: {},
+    external: mockedFiles.map((file) => path.join(repoRoot, file)),
+  });
+  const repoRequire = createRequire(path.join(repoRoot, relativePath));
+  return {
+    code: fs.readFileSync(outFile, 'utf8'),
+    require(specifier) {
+      const key = specifier.startsWith('.')
+        ? path.relative(repoRoot, path.resolve(path.dirname(outFile), specifier))
+        : specifier;
+      return Object.prototype.hasOwnProperty.call(mocks, key) ? mocks[key] : repoRequire(specifier);
+    },
+  };
+}
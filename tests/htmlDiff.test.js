@@ -0,0 +1,57 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+const utilPath = new URL('../src/utils/htmlDiff.ts', import.meta.url);
+const tsCode = fs.readFileSync(utilPath, 'utf8');
+const jsCode = ts.transpileModule(tsCode, {
+  compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+}).outputText;
+const moduleUrl =
+  'data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64');
+const { diffHtml, renderHtmlDiff, summarizeHtmlDiff, tokenizeHtml } = await import(moduleUrl);
+
+test('tokenizeHtml keeps tags whole', () => {
+  assert.deepStrictEqual(tokenizeHtml('<p>Hello <a href="https://x.test/a b">world</a></p>'), [
+    '<p>',
+    'Hello',
+    ' ',
+    '<a href="https://x.test/a b">',
+    'world',
+    '</a>',
+    '</p>',
+  ]);
+});
+
+test('identical documents produce a single equal part', () => {
+  const html = '<h2>Intro</h2><p>Same text here.</p>';
+  const parts = diffHtml(html, html);
+  assert.deepStrictEqual(parts.map((part) => part.op), ['equal']);
+  assert.deepStrictEqual(summarizeHtmlDiff(parts), { insertedWords: 0, deletedWords: 0 });
+});
+
+test('changed words are marked without wrapping tags', () => {
+  const before = '<h2>Intro</h2><p>The launch was <strong>delayed</strong> again.</p><p>Unchanged.</p>';
+  const after = '<h2>Intro</h2><p>The launch was <strong>confirmed</strong> today.</p><p>Unchanged.</p>';
+  const parts = diffHtml(before, after);
+  assert.deepStrictEqual(summarizeHtmlDiff(parts), { insertedWords: 2, deletedWords: 2 });
+
+  const rendered = renderHtmlDiff(parts);
+  assert.strictEqual(
+    rendered.before,
+    '<h2>Intro</h2><p>The launch was <strong><del class="diff-del">delayed</del></strong> <del class="diff-del">again.</del></p><p>Unchanged.</p>'
+  );
+  assert.strictEqual(
+    rendered.after,
+    '<h2>Intro</h2><p>The launch was <strong><ins class="diff-ins">confirmed</ins></strong> <ins class="diff-ins">today.</ins></p><p>Unchanged.</p>'
+  );
+});
+
+test('added paragraphs only appear on the new side', () => {
+  const before = '<p>First.</p>';
+  const after = '<p>First.</p><p>Second paragraph.</p>';
+  const rendered = renderHtmlDiff(diffHtml(before, after));
+  assert.strictEqual(rendered.before, '<p>First.</p>');
+  assert.strictEqual(rendered.after, '<p>First.</p><p><ins class="diff-ins">Second paragraph.</ins></p>');
+});
@@ -0,0 +1,151 @@
+import assert from 'assert';
+import sharp from 'sharp';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const {
+  cropToSize,
+  findArticleImages,
+  hashImage,
+  parseImageTextResponse,
+  processImage,
+  readImageSource,
+  rewriteImageTags,
+} = loadModule('src/lib/imagePipeline.ts');
+const { DEFAULT_IMAGE_OPTIONS, parseImagePipelineOptions } = loadModule(
+  'src/lib/imagePipelineOptions.ts'
+);
+
+test('processImage resizes, converts and strips EXIF', async () => {
+  const photo = await sharp({ create: { width: 2400, height: 1200, channels: 3, background: '#c08040' } })
+    .jpeg()
+    .withExif({ IFD0: { Copyright: 'Someone', Make: 'Camera' } })
+    .toBuffer();
+  assert.ok((await sharp(photo).metadata()).exif);
+
+  const webp = await processImage(photo, DEFAULT_IMAGE_OPTIONS);
+  const webpMeta = await sharp(webp.data).metadata();
+  assert.deepEqual([webp.width, webp.height, webp.mimeType, webp.extension], [1200, 600, 'image/webp', 'webp']);
+  assert.equal(webpMeta.format, 'webp');
+  assert.equal(webpMeta.exif, undefined);
+
+  // Small images are not enlarged; transparency is flattened for JPEG
+  const icon = await sharp({ create: { width: 400, height: 300, channels: 4, background: '#00000000' } })
+    .png()
+    .toBuffer();
+  const jpeg = await processImage(icon, { ...DEFAULT_IMAGE_OPTIONS, format: 'jpeg', quality: 70 });
+  assert.deepEqual([jpeg.width, jpeg.height, jpeg.mimeType], [400, 300, 'image/jpeg']);
+  assert.equal((await sharp(jpeg.data).metadata()).hasAlpha, false);
+});
+
+test('findArticleImages and rewriteImageTags swap in uploaded media', async () => {
+  const pixel = await sharp({ create: { width: 2, height: 2, channels: 3, background: '#fff' } }).png().toBuffer();
+  const dataUrl = `data:image/png;base64,${pixel.toString('base64')}`;
+  const html = [
+    '<p>Intro about sourdough.</p>',
+    '<img src="https://cdn.test/photos/loaf.jpg?w=2000" srcset="https://cdn.test/a.jpg 2x" class="hero">',
+    `<img src="${dataUrl}" alt="Starter jar">`,
+    '<img src="https://blog.test/wp-content/uploads/2026/10/old.webp" alt="Old">',
+    '<figure><img src="https://cdn.test/crumb.jpg"><figcaption>Crumb</figcaption></figure>',
+  ].join('\n');
+
+  const images = findArticleImages(html, 'https://blog.test/');
+  assert.deepEqual(
+    images.map((image) => [image.src.slice(0, 22), image.alt, image.inFigure]),
+    [
+      ['https://cdn.test/photo', '', false],
+      ['data:image/png;base64,', 'Starter jar', false],
+      ['https://cdn.test/crumb', '', true],
+    ]
+  );
+  assert.match(images[0].context, /File: loaf\.jpg/);
+  assert.ok(hashImage(await readImageSource(images[1].src)) === hashImage(pixel));
+
+  const rewritten = rewriteImageTags(
+    html,
+    images.map((image, index) => ({
+      image,
+      url: `https://blog.test/wp-content/uploads/2026/10/${index}.webp`,
+      mediaId: 40 + index,
+      alt: `Generated ${index}`,
+      caption: `Caption ${index}`,
+    })),
+    true
+  );
+  assert.match(
+    rewritten,
+    /<figure class="wp-caption"><img alt="Generated 0" src="https:\/\/blog\.test\/wp-content\/uploads\/2026\/10\/0\.webp" class="hero wp-image-40"><figcaption>Caption 0<\/figcaption><\/figure>/
+  );
+  // Existing alt text and figures are kept
+  assert.match(rewritten, /<img class="wp-image-41" src="[^"]*\/1\.webp" alt="Starter jar"><figcaption>Caption 1/);
+  assert.match(rewritten, /<figure><img class="wp-image-42" alt="Generated 2" src="[^"]*\/2\.webp"><figcaption>Crumb/);
+  assert.match(rewritten, /old\.webp" alt="Old">/);
+  assert.doesNotMatch(rewritten, /srcset|data:image/);
+});
+
+test('parseImagePipelineOptions and parseImageTextResponse validate their input', () => {
+  assert.deepEqual(parseImagePipelineOptions({}), DEFAULT_IMAGE_OPTIONS);
+  assert.deepEqual(parseImagePipelineOptions({ maxWidth: 800, quality: 60, format: 'jpeg', insertCaptions: true }), {
+    maxWidth: 800,
+    quality: 60,
+    format: 'jpeg',
+    insertCaptions: true,
+  });
+  assert.match(parseImagePipelineOptions({ maxWidth: 10 }), /maxWidth must be/);
+  assert.match(parseImagePipelineOptions({ format: 'gif' }), /format must be one of webp, jpeg/);
+
+  const texts = parseImageTextResponse(
+    '{"images":[{"id":1,"alt":"A <b>loaf</b> on a board","caption":"Fresh from the oven."},{"id":2,"alt":" ","caption":""}]}'
+  );
+  assert.deepEqual(Array.from(texts.entries()), [[1, { alt: 'A loaf on a board', caption: 'Fresh from the oven.' }]]);
+  assert.equal(parseImageTextResponse('not json').size, 0);
+});
+
+test('readImageSource refuses private hosts, private redirects and oversized bodies', async () => {
+  const lookupImpl = async (hostname) => (hostname === 'internal.test' ? ['10.0.0.5'] : ['93.184.216.34']);
+  const requested = [];
+  const fetchImpl = async (url) => {
+    requested.push(url);
+    if (url === 'https://cdn.test/redirect.jpg') {
+      return new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data' } });
+    }
+    // No content-length: the limit has to hold while streaming
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    return new Response(
+      new ReadableStream({
+        pull(controller) {
+          sent += 1;
+          if (sent > 20) controller.close();
+          else controller.enqueue(chunk);
+        },
+      })
+    );
+  };
+
+  await assert.rejects(readImageSource('http://127.0.0.1/a.jpg', { fetchImpl, lookupImpl }), /not a public address/);
+  await assert.rejects(readImageSource('https://internal.test/a.jpg', { fetchImpl, lookupImpl }), /not a public address/);
+  await assert.rejects(readImageSource('https://cdn.test/redirect.jpg', { fetchImpl, lookupImpl }), /not a public address/);
+  await assert.rejects(readImageSource('https://cdn.test/huge.jpg', { fetchImpl, lookupImpl }), /too large/);
+  assert.deepEqual(requested, ['https://cdn.test/redirect.jpg', 'https://cdn.test/huge.jpg']);
+});
+
+test('cropToSize applies the EXIF orientation before cropping', async () => {
+  // Stored landscape, left half red and right half blue; orientation 6 shows
+  // it rotated a quarter turn, so red is on top.
+  const blue = await sharp({ create: { width: 200, height: 200, channels: 3, background: '#0000ff' } }).png().toBuffer();
+  const photo = await sharp({ create: { width: 400, height: 200, channels: 3, background: '#ff0000' } })
+    .composite([{ input: blue, left: 200, top: 0 }])
+    .jpeg()
+    .withMetadata({ orientation: 6 })
+    .toBuffer();
+
+  const cropped = await cropToSize(photo, 160, 90);
+  const { data, info } = await sharp(cropped).raw().toBuffer({ resolveWithObject: true });
+  const pixel = (x, y) => Array.from(data.subarray((y * info.width + x) * 3, (y * info.width + x) * 3 + 3));
+  assert.deepEqual([info.width, info.height], [160, 90]);
+  const [topRed, , topBlue] = pixel(80, 5);
+  const [bottomRed, , bottomBlue] = pixel(80, 84);
+  assert.ok(topRed > 200 && topBlue < 60, `top should be red, got ${pixel(80, 5)}`);
+  assert.ok(bottomBlue > 200 && bottomRed < 60, `bottom should be blue, got ${pixel(80, 84)}`);
+});
@@ -0,0 +1,122 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const {
+  applyInternalLinks,
+  buildInternalLinkInstruction,
+  clearInternalLinkIndex,
+  extractInternalLinks,
+  fetchWordPressPosts,
+  loadInternalLinkIndex,
+  selectInternalLinks,
+} = loadModule('src/lib/internalLinks.ts');
+
+function wpPost(slug, title, excerpt = '') {
+  return {
+    link: `https://blog.example.com/${slug}/`,
+    slug,
+    title: { rendered: title },
+    excerpt: { rendered: `<p>${excerpt}</p>` },
+  };
+}
+
+test('fetchWordPressPosts pages through the REST API with the account credentials', async () => {
+  const calls = [];
+  const pageOne = Array.from({ length: 100 }, (_, index) => wpPost(`post-${index}`, `Post ${index}`));
+  const fetchImpl = async (url, init) => {
+    calls.push({ url, authorization: init.headers.Authorization });
+    const page = Number(new URL(url).searchParams.get('page'));
+    return new Response(JSON.stringify(page === 1 ? pageOne : [wpPost('last', 'Last &amp; final')]), {
+      status: 200,
+      headers: { 'content-type': 'application/json', 'x-wp-totalpages': '2' },
+    });
+  };
+
+  const posts = await fetchWordPressPosts('https://blog.example.com/', 'Basic abc', { fetchImpl });
+  assert.strictEqual(calls.length, 2);
+  assert.ok(calls[0].url.startsWith('https://blog.example.com/wp-json/wp/v2/posts?status=publish'));
+  assert.strictEqual(calls[0].authorization, 'Basic abc');
+  assert.strictEqual(posts.length, 101);
+  assert.deepStrictEqual(posts[100], {
+    url: 'https://blog.example.com/last/',
+    title: 'Last & final',
+    slug: 'last',
+    excerpt: '',
+  });
+});
+
+test('loadInternalLinkIndex caches the index and falls back to empty on errors', async () => {
+  clearInternalLinkIndex();
+  let requests = 0;
+  const fetchImpl = async () => {
+    requests += 1;
+    return new Response('Forbidden', { status: 403 });
+  };
+  assert.deepStrictEqual(await loadInternalLinkIndex('https://down.example', null, { fetchImpl }), []);
+  assert.deepStrictEqual(await loadInternalLinkIndex('https://down.example', null, { fetchImpl }), []);
+  assert.strictEqual(requests, 1);
+});
+
+test('selectInternalLinks ranks posts by title overlap with the topic', () => {
+  const posts = [
+    wpPost('sourdough-basics', 'Sourdough starter basics', 'Feeding schedules explained'),
+    wpPost('camping', 'Winter camping checklist'),
+    wpPost('rye', 'Baking rye bread at home', 'A sourdough starter helps rye loaves rise'),
+    wpPost('starter-troubleshooting', 'Why your sourdough starter is not rising'),
+  ].map((post) => ({
+    url: post.link,
+    title: post.title.rendered,
+    slug: post.slug,
+    excerpt: post.excerpt.rendered.replace(/<[^>]+>/g, ''),
+  }));
+
+  const selected = selectInternalLinks(posts, 'How to keep a sourdough starter alive', {
+    excludeUrls: ['https://blog.example.com/starter-troubleshooting'],
+  });
+  assert.deepStrictEqual(
+    selected.map((post) => post.slug),
+    ['sourdough-basics']
+  );
+  assert.match(
+    buildInternalLinkInstruction(selected),
+    /internal links to 1 of these related articles[\s\S]*sourdough-basics\/ \(Sourdough starter basics\)/
+  );
+});
+
+test('applyInternalLinks marks cited posts, links title phrases and adds related reading', () => {
+  const candidates = [
+    { url: 'https://blog.example.com/sourdough-basics/', title: 'Sourdough starter basics' },
+    { url: 'https://blog.example.com/rye/', title: 'Baking rye bread at home' },
+    { url: 'https://blog.example.com/flour/', title: 'Choosing flour types' },
+  ];
+  const html = [
+    '<h2>Baking rye bread</h2>',
+    '<p>Start with <a href="https://www.blog.example.com/sourdough-basics" target="_blank">a healthy starter</a>.</p>',
+    '<p>Many bakers enjoy baking rye bread on weekends.</p>',
+  ].join('\n');
+
+  const result = applyInternalLinks(html, candidates, 3);
+  assert.ok(
+    result.html.includes(
+      '<a href="https://www.blog.example.com/sourdough-basics" data-link-type="internal">a healthy starter</a>'
+    )
+  );
+  assert.ok(result.html.includes('<h2>Baking rye bread</h2>'));
+  assert.ok(
+    result.html.includes(
+      'enjoy <a href="https://blog.example.com/rye/" data-link-type="internal">baking rye bread</a> on weekends'
+    )
+  );
+  assert.ok(
+    result.html.endsWith(
+      '<p>Related reading: <a href="https://blog.example.com/flour/" data-link-type="internal">Choosing flour types</a></p>'
+    )
+  );
+  assert.strictEqual(result.links.length, 3);
+
+  assert.deepStrictEqual(
+    extractInternalLinks(result.html).map((link) => link.title),
+    ['a healthy starter', 'baking rye bread', 'Choosing flour types']
+  );
+});
@@ -0,0 +1,118 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const { getStageProvider, resolveStageProviders, estimateLlmCost } = loadModule('src/lib/llm.ts');
+
+function withEnv(overrides, fn) {
+  const keys = [
+    'OPENAI_API_KEY',
+    'GROK_API_KEY',
+    'LOCAL_LLM_BASE_URL',
+    'LOCAL_LLM_MODEL',
+    'LLM_OUTLINE_PROVIDERS',
+    'LLM_DRAFT_PROVIDERS',
+    'LLM_VERIFICATION_PROVIDERS',
+  ];
+  const previous = Object.fromEntries(keys.map((key) => [key, process.env[key]]));
+  for (const key of keys) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, overrides);
+  const restore = () => {
+    for (const key of keys) {
+      if (previous[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = previous[key];
+      }
+    }
+  };
+  return Promise.resolve()
+    .then(fn)
+    .finally(restore);
+}
+
+test('resolveStageProviders defaults outlines to Grok then OpenAI', () =>
+  withEnv({ OPENAI_API_KEY: 'sk-test', GROK_API_KEY: 'grok-key' }, () => {
+    const candidates = resolveStageProviders('outline', 'gpt-4o-mini');
+    assert.deepStrictEqual(
+      candidates.map(({ provider, model }) => [provider.id, model]),
+      [
+        ['grok', 'grok-4-fast'],
+        ['openai', 'gpt-4o-mini'],
+      ]
+    );
+  }));
+
+test('resolveStageProviders reads per-stage overrides and skips unconfigured providers', () =>
+  withEnv(
+    {
+      OPENAI_API_KEY: 'sk-test',
+      LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1',
+      LLM_DRAFT_PROVIDERS: 'local:qwen2.5:14b, grok, unknown, openai',
+    },
+    () => {
+      const candidates = resolveStageProviders('draft', 'gpt-4o');
+      assert.deepStrictEqual(
+        candidates.map(({ provider, model }) => [provider.id, model]),
+        [
+          ['local', 'qwen2.5:14b'],
+          ['openai', 'gpt-4o'],
+        ]
+      );
+    }
+  ));
+
+test('getStageProvider throws when no provider is configured for a stage', () =>
+  withEnv({ OPENAI_API_KEY: 'sk-test' }, () => {
+    assert.throws(() => getStageProvider('verification'), /verification stage/);
+  }));
+
+test('the Grok provider streams deltas and reports finish reason and usage', () =>
+  withEnv({ GROK_API_KEY: 'grok-key' }, async () => {
+    const encoder = new TextEncoder();
+    const chunks = [
+      'data: {"choices":[{"delta":{"content":"Hello"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":" world"},"finish_reason":"stop"}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3,"total_tokens":15}}\n\n',
+      'data: [DONE]\n\n',
+    ];
+    const originalFetch = globalThis.fetch;
+    const requests = [];
+    globalThis.fetch = async (_input, init) => {
+      requests.push(JSON.parse(init.body));
+      return new Response(
+        new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) {
+              controller.enqueue(encoder.encode(chunk));
+            }
+            controller.close();
+          },
+        }),
+        { status: 200 }
+      );
+    };
+
+    try {
+      const { provider, model } = getStageProvider('verification');
+      const deltas = [];
+      const response = await provider.streamChat(
+        { model, messages: [{ role: 'user', content: 'Hi' }] },
+        { onDelta: (delta) => deltas.push(delta) }
+      );
+      assert.strictEqual(requests[0].stream, true);
+      assert.deepStrictEqual(deltas, ['Hello', ' world']);
+      assert.strictEqual(response.choices[0].message.content, 'Hello world');
+      assert.strictEqual(response.choices[0].finish_reason, 'stop');
+      assert.deepStrictEqual(response.usage, {
+        prompt_tokens: 12,
+        completion_tokens: 3,
+        total_tokens: 15,
+      });
+      assert.ok(Math.abs(estimateLlmCost(provider, model, response.usage) - 0.0000039) < 1e-12);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }));
@@ -25,6 +25,7 @@ const normalizeSiteUrl = undefined;
 const normalizeProfile = undefined;
 const buildProfileHeadlineQuery = undefined;
 const getProfileQuotaTotal = undefined;
+const recordUsageEvents = async () => {};
 
 const NextResponse = {
   json(body, init) {
@@ -160,6 +160,31 @@ export { block };
   assert.strictEqual(block.includes('Key details:'), false);
 });
 
+test('buildRecentReportingBlock quotes full-text excerpts and mines them for key details', async () => {
+  const snippet = `
+${reportingHelpers}
+const block = buildRecentReportingBlock([
+  {
+    title: 'Seawall vote',
+    summary: 'Council backs the seawall.',
+    passages: ['The council approved a $48 million budget for the wall.'],
+    url: 'https://ledger.test/seawall',
+    publishedAt: '2024-05-01T12:00:00Z',
+  },
+]);
+export { block };
+`;
+  const { block } = await transpile(snippet);
+  assert(block.includes('Summary: Council backs the seawall.'));
+  assert(
+    block.includes(
+      'Excerpts from the full article:\n    > The council approved a $48 million budget for the wall.'
+    )
+  );
+  assert(block.includes('$48 million'));
+  assert(block.indexOf('Excerpts from') < block.indexOf('URL: https://ledger.test/seawall'));
+});
+
 test('formatKeyDetails surfaces metrics, timelines, methods, and entities', async () => {
   const snippet = `
 ${reportingHelpers}
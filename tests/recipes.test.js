@@ -0,0 +1,98 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+async function importTs(relativePath) {
+  const source = fs.readFileSync(new URL(relativePath, import.meta.url), 'utf8');
+  const jsCode = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2018 },
+  }).outputText;
+  return import('data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64'));
+}
+
+const {
+  convertRecipe,
+  findUnusedIngredients,
+  formatIngredient,
+  normalizeRecipe,
+  parseIngredientLine,
+  parseRecipeResponse,
+  renderRecipeHtml,
+  scaleRecipe,
+} = await importTs('../src/lib/recipes.ts');
+const { buildStructuredData } = await importTs('../src/lib/structuredData.ts');
+
+const modelResponse = JSON.stringify({
+  title: 'Lemon Roast Chicken',
+  description: 'A simple Sunday roast.',
+  servings: 4,
+  prep_minutes: 15,
+  cook_minutes: 75,
+  ingredients: [
+    { quantity: 1.5, unit: 'pounds', name: 'chicken thighs' },
+    '2 tablespoons olive oil',
+    { quantity: '1/2', unit: 'cup', name: 'chicken stock' },
+    { quantity: 2, unit: null, name: 'lemons', note: 'halved' },
+  ],
+  steps: ['Heat the oven to 400°F.', 'Rub the chicken with olive oil.', 'Roast with the lemons and stock for 75 minutes.'],
+  notes: ['Leftovers keep for 3 days.'],
+  nutrition: { calories: 420, proteinGrams: 38 },
+});
+
+test('parseRecipeResponse normalizes quantities, units and keys from the model', () => {
+  const recipe = parseRecipeResponse(`\`\`\`json\n${modelResponse}\n\`\`\``, 'Fallback', 'imperial');
+  assert.equal(recipe.title, 'Lemon Roast Chicken');
+  assert.equal(recipe.prepMinutes, 15);
+  assert.equal(recipe.cookMinutes, 75);
+  assert.deepEqual(recipe.ingredients[0], { quantity: 1.5, unit: 'lb', name: 'chicken thighs' });
+  assert.deepEqual(recipe.ingredients[1], { quantity: 2, unit: 'tbsp', name: 'olive oil' });
+  assert.equal(recipe.ingredients[2].quantity, 0.5);
+  assert.equal(formatIngredient(recipe.ingredients[3]), '2 lemons, halved');
+  assert.deepEqual(parseIngredientLine('1 ½ cups flour'), { quantity: 1.5, unit: 'cup', name: 'flour' });
+  assert.equal(normalizeRecipe({ title: 'Empty', ingredients: ['salt'], steps: [] }), null);
+  assert.equal(parseRecipeResponse('not json', 'Fallback', 'imperial'), null);
+});
+
+test('convertRecipe and scaleRecipe change amounts, units and oven temperatures', () => {
+  const recipe = parseRecipeResponse(modelResponse, '', 'imperial');
+  const metric = convertRecipe(recipe, 'metric');
+  assert.deepEqual(metric.ingredients[0], { quantity: 680, unit: 'g', name: 'chicken thighs' });
+  assert.deepEqual(metric.ingredients[1], { quantity: 2, unit: 'tbsp', name: 'olive oil' });
+  assert.deepEqual(metric.ingredients[2], { quantity: 120, unit: 'ml', name: 'chicken stock' });
+  assert.equal(metric.steps[0], 'Heat the oven to 205°C.');
+  assert.equal(metric.unitSystem, 'metric');
+
+  const doubled = scaleRecipe(recipe, 8);
+  assert.equal(doubled.servings, 8);
+  assert.equal(doubled.ingredients[0].quantity, 3);
+  assert.equal(doubled.ingredients[2].quantity, 1);
+  assert.equal(doubled.ingredients[3].quantity, 4);
+  assert.deepEqual(doubled.nutrition, recipe.nutrition);
+});
+
+test('findUnusedIngredients flags ingredients no step mentions', () => {
+  const recipe = parseRecipeResponse(modelResponse, '', 'imperial');
+  assert.deepEqual(findUnusedIngredients(recipe), []);
+  const missing = { ...recipe, ingredients: [...recipe.ingredients, { quantity: 1, unit: 'tsp', name: 'smoked paprika' }] };
+  assert.deepEqual(
+    findUnusedIngredients(missing).map((ingredient) => ingredient.name),
+    ['smoked paprika']
+  );
+});
+
+test('renderRecipeHtml produces HTML the Recipe JSON-LD reader understands', () => {
+  const recipe = parseRecipeResponse(modelResponse, '', 'imperial');
+  const html = renderRecipeHtml(recipe);
+  assert.match(html, /<h2>Nutrition per serving<\/h2>/);
+  assert.match(html, /<p><em>Nutrition values are estimates\.<\/em><\/p>/);
+
+  const { schemas, warnings } = buildStructuredData({ articleType: 'Recipe article', title: recipe.title, html });
+  const schema = schemas[0];
+  assert.equal(schema['@type'], 'Recipe');
+  assert.deepEqual(schema.recipeIngredient, recipe.ingredients.map(formatIngredient));
+  assert.equal(schema.recipeInstructions.length, 3);
+  assert.equal(schema.totalTime, 'PT1H30M');
+  assert.equal(schema.recipeYield, '4');
+  assert.ok(!warnings.some((warning) => /required/i.test(warning)));
+});
@@ -0,0 +1,85 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const { auditArticle, readingGrade } = loadModule('src/lib/seoAudit.ts');
+const {
+  applyAuditFix,
+  buildAuditFixPrompt,
+  fixHeadingHierarchy,
+  parseAuditFixResponse,
+  planAuditFix,
+} = loadModule('src/lib/seoAuditFixes.ts');
+
+const draft = [
+  '<p>Raised beds warm up early in spring. See <a href="https://extension.test/beds">the extension guide</a>.</p>',
+  '<h2>Choosing lumber</h2>',
+  '<p>Cedar lasts for years.</p>',
+  '<h4>Cost</h4>',
+  '<p>Expect to pay more up front.</p>',
+  '<h2>Choosing lumber</h2>',
+  '<p>Avoid treated wood near food. <img src="https://cdn.test/uploads/cedar-boards.jpg"></p>',
+].join('\n');
+
+function findCheck(audit, id) {
+  return audit.checks.find((check) => check.id === id);
+}
+
+test('auditArticle scores keyphrase placement, headings and images', () => {
+  const audit = auditArticle({ title: 'Build a garden box', html: draft, focusKeyphrase: 'raised beds' });
+
+  assert.strictEqual(findCheck(audit, 'keyphrase-title').status, 'fail');
+  assert.strictEqual(findCheck(audit, 'keyphrase-intro').status, 'pass');
+  assert.strictEqual(findCheck(audit, 'keyphrase-headings').status, 'warning');
+  assert.deepStrictEqual(findCheck(audit, 'heading-hierarchy').details, ['H4 "Cost" skips from H2']);
+  assert.deepStrictEqual(findCheck(audit, 'duplicate-headings').details, ['Choosing lumber']);
+  assert.deepStrictEqual(findCheck(audit, 'image-alt').details, ['https://cdn.test/uploads/cedar-boards.jpg']);
+  assert.strictEqual(findCheck(audit, 'paragraph-length').status, 'pass');
+  assert.strictEqual(findCheck(audit, 'link-density').status, 'pass');
+  assert.ok(audit.checks.filter((check) => check.status !== 'pass').every((check) => check.fixable));
+  assert.strictEqual(audit.stats.imageCount, 1);
+  assert.ok(audit.score > 0 && audit.score < 100);
+
+  const withoutKeyphrase = auditArticle({ title: 'Build a garden box', html: draft });
+  assert.strictEqual(findCheck(withoutKeyphrase, 'keyphrase-title').fixable, false);
+});
+
+test('readingGrade ranks plain sentences below dense ones', () => {
+  const plain = readingGrade('The cat sat on the mat. It was warm. We fed it fish.');
+  const dense = readingGrade(
+    'Municipal infrastructure appropriations necessitate comprehensive intergovernmental coordination, particularly regarding environmental sustainability considerations.'
+  );
+  assert.ok(plain < 3);
+  assert.ok(dense > 12);
+  assert.strictEqual(readingGrade('   '), null);
+});
+
+test('fixHeadingHierarchy demotes H1s and closes skipped levels', () => {
+  assert.strictEqual(
+    fixHeadingHierarchy('<h1>Intro</h1><p>a</p><h2>One</h2><h4 id="x">Deep</h4><h2>Two</h2>'),
+    '<h2>Intro</h2><p>a</p><h2>One</h2><h3 id="x">Deep</h3><h2>Two</h2>'
+  );
+});
+
+test('planAuditFix targets flagged fragments and applyAuditFix splices replacements back', () => {
+  const input = { title: 'Build a garden box', html: draft, focusKeyphrase: 'raised beds' };
+
+  const duplicates = planAuditFix('duplicate-headings', input);
+  assert.strictEqual(duplicates.targets.length, 1);
+  assert.match(buildAuditFixPrompt(duplicates, input), /Focus keyphrase: "raised beds"[\s\S]*1\. Choosing lumber\nSection opens: "Avoid treated wood/);
+  const renamed = applyAuditFix(draft, duplicates, ['Safe lumber & food']);
+  assert.ok(renamed.includes('<h2>Choosing lumber</h2>\n<p>Cedar'));
+  assert.ok(renamed.includes('<h2>Safe lumber &amp; food</h2>'));
+
+  const images = planAuditFix('image-alt', input);
+  assert.match(images.targets[0].prompt, /File: cedar-boards\.jpg/);
+  const withAlt = applyAuditFix(draft, images, ['Stack of "cedar" boards']);
+  assert.ok(withAlt.includes('<img alt="Stack of &quot;cedar&quot; boards" src="https://cdn.test/uploads/cedar-boards.jpg">'));
+
+  const titlePlan = planAuditFix('keyphrase-title', input);
+  assert.strictEqual(applyAuditFix(input.title, titlePlan, ['Raised beds & how to build them']), 'Raised beds & how to build them');
+
+  assert.strictEqual(planAuditFix('keyphrase-intro', input), null);
+  assert.deepStrictEqual(parseAuditFixResponse('```json\n{"replacements":["A","B"]}\n```', 2), ['A', 'B']);
+  assert.strictEqual(parseAuditFixResponse('{"replacements":["A"]}', 2), null);
+});
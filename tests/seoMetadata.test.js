@@ -0,0 +1,107 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+async function importTs(relativePath) {
+  const source = fs.readFileSync(new URL(relativePath, import.meta.url), 'utf8');
+  const jsCode = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2018 },
+  }).outputText;
+  return import('data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64'));
+}
+
+const {
+  buildFallbackSeoMetadata,
+  estimateTitlePixelWidth,
+  fitMetaDescription,
+  fitMetaTitle,
+  META_TITLE_MAX_PIXELS,
+  parseSeoResponse,
+  slugify,
+} = await importTs('../src/lib/seoMetadata.ts');
+const { buildSeoPostFields, detectSeoPlugins } = await importTs('../src/lib/wordpressSeo.ts');
+
+test('fitMetaTitle drops trailing words until the title fits the pixel budget', () => {
+  const long =
+    'The Complete Beginner Guide To Building A Raised Garden Bed With Reclaimed Wood And Minimal Tools';
+  const fitted = fitMetaTitle(long);
+  assert.ok(estimateTitlePixelWidth(fitted) <= META_TITLE_MAX_PIXELS);
+  assert.ok(long.startsWith(fitted));
+  assert.ok(estimateTitlePixelWidth('WWWW') > estimateTitlePixelWidth('iiii'));
+  assert.strictEqual(fitMetaTitle('Short title'), 'Short title');
+});
+
+test('fitMetaDescription prefers a sentence end and otherwise adds an ellipsis', () => {
+  const sentences =
+    'Raised beds warm up faster in spring and drain better after heavy rain. They also keep weeds down. ' +
+    'This guide covers lumber, soil mixes and layouts for small yards.';
+  assert.strictEqual(
+    fitMetaDescription(sentences),
+    'Raised beds warm up faster in spring and drain better after heavy rain. They also keep weeds down.'
+  );
+  const words = 'word '.repeat(60).trim();
+  const fitted = fitMetaDescription(words);
+  assert.ok(fitted.length <= 155);
+  assert.ok(fitted.endsWith('word…'));
+});
+
+test('slugify strips accents, punctuation and stop words', () => {
+  assert.strictEqual(slugify('How to Make Crème Brûlée at Home!'), 'make-creme-brulee-home');
+  assert.strictEqual(slugify("What's new in the 2026 Budget?"), 'whats-new-2026-budget');
+});
+
+test('parseSeoResponse normalizes model output and rejects non-JSON', () => {
+  const raw = '```json\n{"meta_title":"Raised garden beds: a beginner guide","metaDescription":"Build a raised bed in a weekend.","slug":"","focusKeyphrase":"raised garden beds","secondaryKeywords":["raised garden beds","soil mix","cedar lumber"]}\n```';
+  assert.deepStrictEqual(parseSeoResponse(raw, 'Fallback'), {
+    metaTitle: 'Raised garden beds: a beginner guide',
+    metaDescription: 'Build a raised bed in a weekend.',
+    slug: 'raised-garden-beds',
+    focusKeyphrase: 'raised garden beds',
+    secondaryKeywords: ['soil mix', 'cedar lumber'],
+  });
+  assert.strictEqual(parseSeoResponse('no metadata here', 'Fallback'), null);
+});
+
+test('buildFallbackSeoMetadata uses the title and opening paragraph', () => {
+  const seo = buildFallbackSeoMetadata(
+    'City council approves new bike lanes',
+    '<p>The council voted 7–2 on Tuesday to add <a href="https://x.test">protected lanes</a> downtown.</p><h2>Next</h2>'
+  );
+  assert.deepStrictEqual(seo, {
+    metaTitle: 'City council approves new bike lanes',
+    metaDescription: 'The council voted 7–2 on Tuesday to add protected lanes downtown.',
+    slug: 'city-council-approves-new-bike-lanes',
+    focusKeyphrase: '',
+    secondaryKeywords: [],
+  });
+});
+
+test('buildSeoPostFields maps metadata to core fields and detected plugin meta', async () => {
+  const seo = {
+    metaTitle: 'Raised garden beds',
+    metaDescription: 'Build one this weekend.',
+    slug: 'raised-garden-beds',
+    focusKeyphrase: 'raised garden beds',
+    secondaryKeywords: ['soil mix'],
+  };
+  assert.deepStrictEqual(buildSeoPostFields(seo, { yoast: false, rankMath: false }), {
+    slug: 'raised-garden-beds',
+    excerpt: 'Build one this weekend.',
+  });
+  assert.deepStrictEqual(buildSeoPostFields(seo, { yoast: true, rankMath: true }).meta, {
+    _yoast_wpseo_title: 'Raised garden beds',
+    _yoast_wpseo_metadesc: 'Build one this weekend.',
+    _yoast_wpseo_focuskw: 'raised garden beds',
+    rank_math_title: 'Raised garden beds',
+    rank_math_description: 'Build one this weekend.',
+    rank_math_focus_keyword: 'raised garden beds,soil mix',
+  });
+
+  const fetchImpl = async () =>
+    new Response(JSON.stringify({ namespaces: ['wp/v2', 'rankmath/v1'] }), { status: 200 });
+  assert.deepStrictEqual(await detectSeoPlugins('https://wp.test/', 'Basic x', fetchImpl), {
+    yoast: false,
+    rankMath: true,
+  });
+});
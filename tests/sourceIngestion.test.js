@@ -0,0 +1,131 @@
+import assert from 'assert';
+import fs from 'fs';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const {
+  attachSourcePassages,
+  clearSourceCache,
+  extractMainText,
+  fetchSourceText,
+  selectRelevantPassages,
+} = loadModule('src/lib/sourceIngestion.ts');
+
+function readFixture(name) {
+  return fs.readFileSync(new URL(`./fixtures/sources/${name}`, import.meta.url), 'utf8');
+}
+
+// Fixture hosts resolve to a public address unless they say otherwise.
+const lookupImpl = async (hostname) => (hostname.startsWith('intranet.') ? ['10.1.2.3'] : ['93.184.216.34']);
+
+// Serves fixture files by URL and records every request it receives.
+function createFixtureFetch(routes) {
+  const calls = [];
+  const fetchImpl = async (url) => {
+    calls.push(url);
+    const route = routes[url];
+    if (!route) {
+      return new Response('Not found', { status: 404, headers: { 'content-type': 'text/html' } });
+    }
+    const body = route.fixture ? readFixture(route.fixture) : route.body;
+    return new Response(body, {
+      status: route.status ?? 200,
+      headers: { 'content-type': route.contentType ?? 'text/html; charset=utf-8', ...route.headers },
+    });
+  };
+  return { fetchImpl, calls };
+}
+
+test('extractMainText keeps article prose and drops page chrome', () => {
+  const article = extractMainText(readFixture('news-article.html'));
+  assert.strictEqual(article.title, 'Harbor City approves $48 million seawall');
+  assert.deepStrictEqual(article.paragraphs, [
+    'Harbor City’s council voted 7–2 on Tuesday to fund a $48 million seawall along the southern waterfront, the largest public works project in the city’s history.',
+    'Construction is scheduled to begin in March 2027 and finish by late 2029, according to the city engineering office.',
+    'Mayor Lena Ortiz said the wall would protect roughly 3,200 homes from storm surge and cut flood insurance premiums for many residents.',
+    '“We cannot keep rebuilding the same streets after every storm,” Ortiz told reporters after the vote.',
+    'Two council members opposed the plan, arguing that the city should first finish a study of managed retreat from the most exposed blocks.',
+  ]);
+  assert.strictEqual(article.text, article.paragraphs.join('\n\n'));
+});
+
+test('extractMainText falls back to the body and filters link lists without an <article>', () => {
+  const article = extractMainText(readFixture('blog-post.html'));
+  assert.strictEqual(article.title, 'Five lessons from our first year of composting at scale');
+  assert.strictEqual(article.paragraphs.length, 3);
+  assert.match(article.paragraphs[0], /^Our farm diverted 140 tonnes/);
+  assert.match(article.paragraphs[2], /^We also learned that turning the piles weekly/);
+  assert(!article.text.includes('Draft paragraph'));
+  assert(!article.text.includes('windrow turner'));
+  assert(!article.text.includes('newsletter'));
+});
+
+test('selectRelevantPassages prefers paragraphs that mention the query, in article order', () => {
+  const { paragraphs } = extractMainText(readFixture('news-article.html'));
+  assert.deepStrictEqual(selectRelevantPassages(paragraphs, 'seawall construction timeline', 2), [
+    paragraphs[0],
+    paragraphs[1],
+  ]);
+  assert.deepStrictEqual(
+    selectRelevantPassages(paragraphs, 'Ortiz flood insurance homes', 1),
+    [paragraphs[2]]
+  );
+  assert.deepStrictEqual(selectRelevantPassages(paragraphs, 'volcano', 3), paragraphs.slice(0, 2));
+});
+
+test('fetchSourceText caches results and failures per URL', async () => {
+  clearSourceCache();
+  const { fetchImpl, calls } = createFixtureFetch({
+    'https://ledger.test/seawall': { fixture: 'news-article.html' },
+    'https://ledger.test/feed.json': { body: '{"items":[]}', contentType: 'application/json' },
+  });
+
+  const first = await fetchSourceText('https://ledger.test/seawall', { fetchImpl, lookupImpl });
+  const second = await fetchSourceText('https://ledger.test/seawall', { fetchImpl, lookupImpl });
+  assert.strictEqual(first?.paragraphs.length, 5);
+  assert.strictEqual(second, first);
+
+  assert.strictEqual(await fetchSourceText('https://ledger.test/feed.json', { fetchImpl, lookupImpl }), null);
+  assert.strictEqual(await fetchSourceText('https://ledger.test/missing', { fetchImpl, lookupImpl }), null);
+  assert.strictEqual(await fetchSourceText('https://ledger.test/missing', { fetchImpl, lookupImpl }), null);
+  assert.deepStrictEqual(calls, [
+    'https://ledger.test/seawall',
+    'https://ledger.test/feed.json',
+    'https://ledger.test/missing',
+  ]);
+});
+
+test('attachSourcePassages adds passages and leaves unreachable sources unchanged', async () => {
+  clearSourceCache();
+  const { fetchImpl } = createFixtureFetch({
+    'https://farm.test/compost': { fixture: 'blog-post.html' },
+  });
+  const sources = [
+    { url: 'https://farm.test/compost', title: 'Farm notes', summary: 'A farm diverted food waste.' },
+    { url: 'https://farm.test/gone', title: 'Missing', summary: 'Snippet only.' },
+  ];
+
+  const [withPassages, unchanged] = await attachSourcePassages(sources, 'moisture in drier piles', {
+    fetchImpl,
+    lookupImpl,
+    maxPassages: 1,
+  });
+  assert.deepStrictEqual(withPassages.passages, [
+    'The biggest surprise was moisture: piles kept between 40 and 60 percent moisture finished in about eight weeks, half the time of drier piles.',
+  ]);
+  assert.strictEqual(withPassages.summary, 'A farm diverted food waste.');
+  assert.strictEqual(unchanged, sources[1]);
+});
+
+test('fetchSourceText refuses private hosts, including after a redirect', async () => {
+  clearSourceCache();
+  const { fetchImpl, calls } = createFixtureFetch({
+    'https://ledger.test/moved': { status: 301, body: '', headers: { location: 'http://127.0.0.1:8080/admin' } },
+    'https://intranet.ledger.test/wiki': { fixture: 'news-article.html' },
+  });
+
+  assert.strictEqual(await fetchSourceText('https://ledger.test/moved', { fetchImpl, lookupImpl }), null);
+  assert.strictEqual(await fetchSourceText('https://intranet.ledger.test/wiki', { fetchImpl, lookupImpl }), null);
+  assert.strictEqual(await fetchSourceText('http://169.254.169.254/latest', { fetchImpl, lookupImpl }), null);
+  assert.deepStrictEqual(calls, ['https://ledger.test/moved']);
+});
@@ -0,0 +1,98 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+const sourcePolicyPath = new URL('../src/lib/sourcePolicy.ts', import.meta.url);
+const sourcePolicyTs = fs.readFileSync(sourcePolicyPath, 'utf8');
+
+const jsCode = ts.transpileModule(sourcePolicyTs, {
+  compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2018 },
+}).outputText;
+const moduleUrl =
+  'data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64');
+const {
+  isSourceBlocked,
+  mergeSourcePolicies,
+  normalizeSourcePolicy,
+  removeBlockedLinks,
+  resolveTrustTier,
+} = await import(moduleUrl);
+
+test('normalizeSourcePolicy cleans domains and accepts snake_case fields', () => {
+  const policy = normalizeSourcePolicy({
+    allowlist: 'https://www.Reuters.com/world, apnews.com\nnot a domain',
+    denylist: ['spam.example', 'spam.example', ''],
+    competitors: ['rival.com'],
+    never_link_competitors: true,
+    trust_tiers: { 'www.blog.example': 'low', 'other.example': 'bogus' },
+  });
+  assert.deepStrictEqual(policy, {
+    allowlist: ['reuters.com', 'apnews.com'],
+    allowlistOnly: false,
+    denylist: ['spam.example'],
+    competitors: ['rival.com'],
+    neverLinkCompetitors: true,
+    trustTiers: { 'blog.example': 'low' },
+  });
+  assert.deepStrictEqual(normalizeSourcePolicy(null).denylist, []);
+});
+
+test('mergeSourcePolicies unions lists and lets later tiers win', () => {
+  const merged = mergeSourcePolicies(
+    normalizeSourcePolicy({ denylist: ['a.com'], trustTiers: { 'b.com': 'low' } }),
+    normalizeSourcePolicy({ denylist: ['c.com'], allowlistOnly: true, trustTiers: { 'b.com': 'trusted' } })
+  );
+  assert.deepStrictEqual(merged.denylist, ['a.com', 'c.com']);
+  assert.strictEqual(merged.allowlistOnly, true);
+  assert.deepStrictEqual(merged.trustTiers, { 'b.com': 'trusted' });
+});
+
+test('resolveTrustTier applies overrides before built-in and allowlist tiers', () => {
+  const policy = normalizeSourcePolicy({
+    allowlist: ['industry.example'],
+    trustTiers: { 'stats.example.gov': 'low', 'reuters.com': 'primary' },
+  });
+  assert.strictEqual(resolveTrustTier('https://www.cdc.gov/report', policy), 'primary');
+  assert.strictEqual(resolveTrustTier('https://stats.example.gov/page', policy), 'low');
+  assert.strictEqual(resolveTrustTier('https://www.reuters.com/story', policy), 'primary');
+  assert.strictEqual(resolveTrustTier('https://news.industry.example/a', policy), 'trusted');
+  assert.strictEqual(resolveTrustTier('https://apnews.com/article', policy), 'trusted');
+  assert.strictEqual(resolveTrustTier('https://random.example/a', policy), 'standard');
+});
+
+test('isSourceBlocked honours the denylist, competitors and allowlist-only mode', () => {
+  const policy = normalizeSourcePolicy({
+    denylist: ['spam.example'],
+    competitors: ['rival.com'],
+  });
+  assert.strictEqual(isSourceBlocked('https://cdn.spam.example/x', policy), true);
+  assert.strictEqual(isSourceBlocked('https://rival.com/x', policy), false);
+  assert.strictEqual(
+    isSourceBlocked('https://rival.com/x', { ...policy, neverLinkCompetitors: true }),
+    true
+  );
+
+  const allowOnly = normalizeSourcePolicy({ allowlist: ['reuters.com'], allowlistOnly: true });
+  assert.strictEqual(isSourceBlocked('https://www.reuters.com/a', allowOnly), false);
+  assert.strictEqual(isSourceBlocked('https://other.example/a', allowOnly), true);
+});
+
+test('removeBlockedLinks unwraps blocked anchors and keeps other links', () => {
+  const policy = normalizeSourcePolicy({
+    allowlist: ['reuters.com'],
+    allowlistOnly: true,
+    competitors: ['rival.com'],
+    neverLinkCompetitors: true,
+  });
+  const { html, removed } = removeBlockedLinks(
+    '<p>See <a href="https://www.rival.com/guide">their guide</a> and ' +
+      '<a href="https://example.org/data" target="_blank">this data</a>.</p>',
+    policy
+  );
+  assert.strictEqual(
+    html,
+    '<p>See their guide and <a href="https://example.org/data" target="_blank">this data</a>.</p>'
+  );
+  assert.deepStrictEqual(removed, ['https://www.rival.com/guide']);
+});
@@ -0,0 +1,123 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+async function importTs(relativePath) {
+  const source = fs.readFileSync(new URL(relativePath, import.meta.url), 'utf8');
+  const jsCode = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2018 },
+  }).outputText;
+  return import('data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64'));
+}
+
+const {
+  buildStructuredData,
+  extractDateline,
+  extractFaqs,
+  renderJsonLd,
+  stripJsonLd,
+  toIsoDuration,
+} = await importTs('../src/lib/structuredData.ts');
+const { siteIdentityFromIndex } = await importTs('../src/lib/wordpressSeo.ts');
+
+const recipeHtml = [
+  '<p>A weeknight soup that freezes well.</p>',
+  '<p><img src="https://cdn.test/soup.jpg" alt="Soup"></p>',
+  '<p>Prep time: 15 minutes | Cook time: 1 hour 10 mins | Serves 4</p>',
+  '<h2>Ingredients</h2>',
+  '<ul><li>2 onions</li><li>1 <strong>butternut</strong> squash</li></ul>',
+  '<h3>For the topping</h3>',
+  '<ul><li>Pumpkin seeds</li></ul>',
+  '<h2>Instructions</h2>',
+  '<ol><li>Soften the onions.</li><li>Add the squash and simmer.</li></ol>',
+  '<h2>FAQ</h2>',
+  '<h3>Can I freeze it?</h3>',
+  '<p>Yes, for up to three months.</p>',
+  '<p><strong>Is it vegan?</strong></p>',
+  '<p>Use vegetable stock and it is.</p>',
+].join('\n');
+
+test('buildStructuredData reads a recipe and its FAQ section from the HTML', () => {
+  const { schemas, warnings } = buildStructuredData({
+    articleType: 'Recipe article',
+    title: 'Roasted squash soup',
+    html: recipeHtml,
+  });
+  assert.deepStrictEqual(schemas.map((schema) => schema['@type']), ['Recipe', 'FAQPage']);
+  const [recipe, faq] = schemas;
+  assert.deepStrictEqual(recipe.recipeIngredient, ['2 onions', '1 butternut squash', 'Pumpkin seeds']);
+  assert.deepStrictEqual(recipe.recipeInstructions, [
+    { '@type': 'HowToStep', text: 'Soften the onions.' },
+    { '@type': 'HowToStep', text: 'Add the squash and simmer.' },
+  ]);
+  assert.strictEqual(recipe.prepTime, 'PT15M');
+  assert.strictEqual(recipe.cookTime, 'PT1H10M');
+  assert.strictEqual(recipe.recipeYield, '4');
+  assert.strictEqual(recipe.image, 'https://cdn.test/soup.jpg');
+  assert.deepStrictEqual(warnings, ['Recipe has no totalTime']);
+  assert.deepStrictEqual(
+    faq.mainEntity.map((entry) => [entry.name, entry.acceptedAnswer.text]),
+    [
+      ['Can I freeze it?', 'Yes, for up to three months.'],
+      ['Is it vegan?', 'Use vegetable stock and it is.'],
+    ]
+  );
+
+  // Articles without a type fall back to detecting the recipe lists.
+  assert.strictEqual(buildStructuredData({ title: 'Soup', html: recipeHtml }).schemas[0]['@type'], 'Recipe');
+});
+
+test('news articles carry the dateline and publisher, and need a publish date', () => {
+  const html = '<p>PORTLAND, Ore. — The council voted 7–2 on Tuesday.</p><h2>What changes</h2><p>More lanes.</p>';
+  assert.strictEqual(extractDateline(html), 'PORTLAND, Ore.');
+
+  const { schemas, warnings } = buildStructuredData({
+    articleType: 'News article',
+    title: 'Council approves bike lanes',
+    html,
+    datePublished: '2026-10-19T12:00:00.000Z',
+    publisher: siteIdentityFromIndex(
+      { name: 'Metro Daily', home: 'https://metro.test', site_icon_url: 'https://metro.test/icon.png' },
+      'https://metro.test/wp'
+    ),
+  });
+  assert.strictEqual(schemas[0]['@type'], 'NewsArticle');
+  assert.strictEqual(schemas[0].dateline, 'PORTLAND, Ore.');
+  assert.deepStrictEqual(schemas[0].publisher, {
+    '@type': 'Organization',
+    name: 'Metro Daily',
+    url: 'https://metro.test',
+    logo: { '@type': 'ImageObject', url: 'https://metro.test/icon.png' },
+  });
+  assert.deepStrictEqual(warnings, ['NewsArticle has no image']);
+
+  const undated = buildStructuredData({ articleType: 'News article', title: 'Council', html });
+  assert.deepStrictEqual(undated.schemas, []);
+  assert.deepStrictEqual(undated.warnings, ['NewsArticle left out: missing datePublished']);
+});
+
+test('listicles become an ItemList without the heading numbers', () => {
+  const html = '<p>Intro</p><h2>1. Crater Lake</h2><p>a</p><h2>2) Smith Rock</h2><p>b</p><h2>#3 Painted Hills</h2><p>c</p>';
+  const { schemas } = buildStructuredData({ articleType: 'Listicle/Gallery', title: 'Oregon parks', html });
+  assert.deepStrictEqual(
+    schemas[0].itemListElement.map((item) => [item.position, item.name]),
+    [
+      [1, 'Crater Lake'],
+      [2, 'Smith Rock'],
+      [3, 'Painted Hills'],
+    ]
+  );
+  assert.deepStrictEqual(extractFaqs(html), []);
+});
+
+test('renderJsonLd escapes markup and stripJsonLd removes earlier scripts', () => {
+  const rendered = renderJsonLd([
+    { '@context': 'https://schema.org', '@type': 'BlogPosting', headline: 'Why </script> breaks pages' },
+  ]);
+  assert.ok(rendered.startsWith('<script type="application/ld+json">{"@context"'));
+  assert.ok(!rendered.slice(1, -'</script>'.length).includes('</'));
+  assert.strictEqual(stripJsonLd(`<p>Body</p>\n${rendered}`), '<p>Body</p>\n');
+  assert.strictEqual(toIsoDuration('1½ hrs'), 'PT1H30M');
+  assert.strictEqual(toIsoDuration('a while'), undefined);
+});
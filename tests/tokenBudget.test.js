@@ -0,0 +1,63 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const {
+  countMessageTokens,
+  countTokens,
+  fitItemsToTokenBudget,
+  planPromptBudget,
+  truncateToTokens,
+} = loadModule('src/lib/tokenBudget.ts');
+const { getModelLimits, getModelSpec } = loadModule('src/lib/modelRegistry.ts');
+
+test('countTokens uses the BPE encoding of the model family', () => {
+  assert.strictEqual(countTokens('Hello world', 'gpt-4o'), 2);
+  assert.strictEqual(countTokens('', 'gpt-4o'), 0);
+  const html = '<p>Officials said on <a href="https://example.com">Tuesday</a> that 1,500 jobs would go.</p>';
+  assert.notStrictEqual(countTokens(html, 'gpt-4o'), Math.ceil(html.length / 4));
+  assert(countTokens(html, 'gpt-4') > 0);
+});
+
+test('countMessageTokens adds per-message chat overhead', () => {
+  const messages = [
+    { role: 'system', content: 'Be concise.' },
+    { role: 'user', content: 'Hello world' },
+  ];
+  const contentTokens = countTokens('Be concise.', 'gpt-4o') + countTokens('Hello world', 'gpt-4o');
+  assert.strictEqual(countMessageTokens(messages, 'gpt-4o'), contentTokens + 2 * 3 + 3);
+});
+
+test('truncateToTokens keeps text within the token limit', () => {
+  const text = 'alpha beta gamma delta epsilon zeta eta theta';
+  const truncated = truncateToTokens(text, 3, 'gpt-4o');
+  assert.strictEqual(countTokens(truncated, 'gpt-4o'), 3);
+  assert(text.startsWith(truncated));
+  assert.strictEqual(truncateToTokens(text, 100, 'gpt-4o'), text);
+});
+
+test('planPromptBudget reserves the completion before sizing the prompt', () => {
+  assert.deepStrictEqual(
+    planPromptBudget({ contextTokens: 128000, maxOutputTokens: 16384 }, 40000),
+    { inputTokens: 128000 - 16384 - 256, outputTokens: 16384 }
+  );
+  assert.deepStrictEqual(
+    planPromptBudget({ contextTokens: 8000, maxOutputTokens: 8000 }, 9000, 0),
+    { inputTokens: 0, outputTokens: 8000 }
+  );
+});
+
+test('fitItemsToTokenBudget drops the lowest-ranked items first', () => {
+  const items = ['one two three', 'four five six', 'seven eight nine'];
+  const render = (selected) => selected.join('\n');
+  const budget = countTokens(render(items.slice(0, 2)), 'gpt-4o');
+  assert.deepStrictEqual(fitItemsToTokenBudget(items, render, budget, 'gpt-4o'), items.slice(0, 2));
+  assert.deepStrictEqual(fitItemsToTokenBudget(items, render, 0, 'gpt-4o'), []);
+});
+
+test('model registry resolves snapshots and falls back for unknown models', () => {
+  assert.strictEqual(getModelSpec('gpt-4o-mini-2024-07-18').maxOutputTokens, 16384);
+  assert.strictEqual(getModelSpec('gpt-4o-2024-08-06').contextTokens, 128000);
+  assert.strictEqual(getModelSpec('llama3.1'), null);
+  assert.deepStrictEqual(getModelLimits('llama3.1'), { contextTokens: 8000, maxOutputTokens: 4096 });
+});
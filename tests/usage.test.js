@@ -0,0 +1,92 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const { buildLlmUsageEvent, summarizeUsage, withUsageReporting } = loadModule('src/lib/usage.ts');
+
+const request = {
+  model: 'gpt-4o',
+  messages: [{ role: 'user', content: 'Write a headline about rockets.' }],
+};
+
+test('buildLlmUsageEvent prices reported usage from the model registry', () => {
+  const event = buildLlmUsageEvent('draft', request, {
+    provider: 'openai',
+    model: 'gpt-4o',
+    choices: [{ message: { role: 'assistant', content: 'Rockets!' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+  }, 'length-retry');
+  assert.strictEqual(event.kind, 'llm');
+  assert.strictEqual(event.purpose, 'length-retry');
+  assert.strictEqual(event.estimated, false);
+  assert.strictEqual(event.promptTokens, 1000);
+  assert.strictEqual(event.costUsd, (1000 * 2.5 + 500 * 10) / 1_000_000);
+});
+
+test('buildLlmUsageEvent counts tokens locally when the provider omits usage', () => {
+  const event = buildLlmUsageEvent('verification', request, {
+    provider: 'grok',
+    model: 'grok-3',
+    choices: [{ message: { role: 'assistant', content: '{"discrepancies":[]}' }, finish_reason: 'stop' }],
+    usage: null,
+  });
+  assert.strictEqual(event.estimated, true);
+  assert(event.promptTokens > 0);
+  assert(event.completionTokens > 0);
+  assert(event.costUsd > 0);
+});
+
+test('withUsageReporting reports one event per call', async () => {
+  const events = [];
+  const provider = {
+    id: 'openai',
+    chat: async (req) => ({
+      provider: 'openai',
+      model: req.model,
+      choices: [{ message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+    }),
+  };
+  const tracked = withUsageReporting(provider, 'links', (event) => events.push(event));
+  const response = await tracked.chat(request);
+  assert.strictEqual(response.choices[0].message.content, 'ok');
+  assert.deepStrictEqual(
+    events.map(({ stage, promptTokens, completionTokens }) => ({ stage, promptTokens, completionTokens })),
+    [{ stage: 'links', promptTokens: 10, completionTokens: 2 }]
+  );
+});
+
+test('summarizeUsage totals cost by stage and by article', () => {
+  const row = {
+    article_id: 'a1',
+    article_title: 'Rockets',
+    kind: 'llm',
+    provider: 'openai',
+    model: 'gpt-4o',
+    stage: 'draft',
+    purpose: null,
+    prompt_tokens: 100,
+    completion_tokens: 50,
+    requests: 1,
+    cost_usd: '0.001000',
+    created_at: '2026-10-19T10:00:00Z',
+  };
+  const summary = summarizeUsage([
+    row,
+    { ...row, purpose: 'length-retry', cost_usd: '0.002000' },
+    { ...row, kind: 'search', provider: 'serpapi', model: 'google_news', stage: 'sources', prompt_tokens: 0, completion_tokens: 0, cost_usd: '0.015000' },
+    { ...row, article_id: null },
+  ]);
+  assert.deepStrictEqual(summary.totals, {
+    costUsd: 0.019,
+    promptTokens: 300,
+    completionTokens: 150,
+    llmRequests: 3,
+    searches: 1,
+  });
+  assert.strictEqual(summary.byStage[0].stage, 'sources');
+  assert.strictEqual(summary.byStage.length, 3);
+  assert.strictEqual(summary.articles.length, 1);
+  assert.strictEqual(summary.articles[0].costUsd, 0.018);
+  assert.strictEqual(summary.articles[0].searches, 1);
+});
@@ -0,0 +1,62 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const { buildClaimAuditPrompt, parseClaimAudit, prepareClaimAuditSources, summarizeClaimAudit } =
+  loadModule('src/lib/verification.ts');
+
+test('prepareClaimAuditSources labels URLs and pasted text separately', () => {
+  const sources = prepareClaimAuditSources([
+    'https://example.com/a',
+    'The council approved the budget on Monday.',
+    { url: 'https://example.com/a', title: 'Duplicate' },
+    { url: 'https://example.com/b', title: 'Budget vote', text: 'Full article text.' },
+    { text: '   ' },
+  ]);
+  assert.deepStrictEqual(sources, [
+    { id: 'S1', url: 'https://example.com/a', title: null, text: '' },
+    { id: 'S2', url: 'https://example.com/b', title: 'Budget vote', text: 'Full article text.' },
+    { id: 'T1', url: null, title: null, text: 'The council approved the budget on Monday.' },
+  ]);
+  const prompt = buildClaimAuditPrompt('<p>Article</p>', sources);
+  assert.match(prompt, /\[S2\] URL: https:\/\/example\.com\/b\n {3}Title: Budget vote\n {3}Text: Full article text\./);
+  assert.match(prompt, /\[T1\] Pasted text\n {3}Text: The council approved/);
+});
+
+test('parseClaimAudit clamps scores and keeps only evidence from known sources', () => {
+  const sources = prepareClaimAuditSources(['https://example.com/a', 'Pasted passage.']);
+  const raw = `Here is the audit:
+{"claims":[
+  {"claim":"The budget passed","sentence":"The budget passed on Monday.","verdict":"supported","supportScore":1.4,
+   "evidence":[{"sourceId":"t1","passage":"Pasted passage."},{"sourceId":"S9","passage":"Invented."}]},
+  {"claim":"Taxes fall","verdict":"contradicted","evidence":[]},
+  {"claim":"","verdict":"supported"}
+]}`;
+  const claims = parseClaimAudit(raw, sources);
+  assert.deepStrictEqual(claims, [
+    {
+      claim: 'The budget passed',
+      sentence: 'The budget passed on Monday.',
+      verdict: 'supported',
+      supportScore: 1,
+      evidence: [{ sourceId: 'T1', url: null, passage: 'Pasted passage.' }],
+      explanation: '',
+    },
+    {
+      claim: 'Taxes fall',
+      sentence: null,
+      verdict: 'contradicted',
+      supportScore: 0,
+      evidence: [],
+      explanation: '',
+    },
+  ]);
+  assert.deepStrictEqual(summarizeClaimAudit(claims), {
+    claims: 2,
+    supported: 1,
+    unsupported: 0,
+    contradicted: 1,
+    averageSupport: 0.5,
+  });
+  assert.throws(() => parseClaimAudit('no json here', sources), /claims list/);
+});
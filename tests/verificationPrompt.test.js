@@ -1,67 +1,60 @@
 import assert from 'assert';
 import fs from 'fs';
-import { createRequire } from 'module';
 import { test } from 'node:test';
 import { fileURLToPath } from 'url';
 import vm from 'vm';
-import { transformSync } from 'esbuild';
+import { bundleWithMocks } from './helpers/loadModule.js';
 
 const routePath = new URL('../src/app/api/generate/route.ts', import.meta.url);
 const routeTs = fs.readFileSync(routePath, 'utf8');
 const routeFilename = fileURLToPath(routePath);
-const transformedRouteTs = transformSync(routeTs, {
-  loader: 'ts',
-  format: 'cjs',
-  target: 'es2020',
-}).code;
+const verificationLibPath = new URL('../src/lib/verification.ts', import.meta.url);
+const verificationLibTs = fs.readFileSync(verificationLibPath, 'utf8');
+const { code: routeBundle, require: routeRequire } = bundleWithMocks(
+  'src/app/api/generate/route.ts',
+  {
+    // Only the boundaries are mocked: the framework, the LLM providers and the
+    // database client. Everything else the route imports runs for real.
+    'next/server': { NextResponse: class {} },
+    'src/lib/llm.ts': (() => {
+      const provider = {
+        id: 'grok',
+        label: 'Grok',
+        chat: async () => ({ choices: [{ message: { content: '{}' } }] }),
+        streamChat: async () => ({ choices: [{ message: { content: '{}' } }] }),
+      };
+      const resolveStageProviders = () => [{ provider, model: 'grok-test' }];
+      return {
+        resolveStageProviders,
+        getStageProvider: () => resolveStageProviders()[0],
+      };
+    })(),
+    'src/lib/supabaseAdmin.ts': { supabaseAdmin: {} },
+  }
+);
 
 function createVerificationSandbox(envOverrides = {}) {
   const infoLogs = [];
-  const baseRequire = createRequire(routePath);
-  const mockModules = new Map([
-    ['next/server', { NextResponse: class {} }],
-    [
-      '../../../lib/openai',
-      {
-        getOpenAI: () => ({
-          chat: {
-            completions: {
-              create: async () => ({ choices: [{ message: { content: '{}' } }] }),
-            },
-          },
-        }),
-      },
-    ],
-    [
-      '../../../lib/grok',
-      {
-        DEFAULT_GROK_MODEL: 'grok-test',
-        runChatCompletion: async () => ({ choices: [{ message: { content: '{}' } }] }),
-      },
-    ],
-    ['../../../constants/lengthOptions', { DEFAULT_WORDS: 600, WORD_RANGES: {} }],
-    ['../../../lib/serpapi', { serpapiSearch: async () => ({}) }],
-    [
-      '../../../lib/themeCoverage',
-      {
-        formatThemeCoverageIssue: (issue) => `Theme issue: ${issue}`,
-        parseThemeCoverageIssue: () => null,
-        resolveThemeThreshold: (value) => (typeof value === 'number' ? value : 0.5),
-        validateThemeCoverage: () => null,
-      },
-    ],
-  ]);
-
   const sandbox = {
     console: {
-      info: (...args) => infoLogs.push(args.join(' ')),
+      info: (...args) =>
+        infoLogs.push(
+          args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ')
+        ),
       warn: () => {},
       error: () => {},
       log: () => {},
       debug: () => {},
       trace: () => {},
     },
-    process: { env: { GROK_API_KEY: 'test-grok-key', ...envOverrides } },
+    process: {
+      env: {
+        GROK_API_KEY: 'test-grok-key',
+        // The credential encryption helpers refuse to load without a key
+        SECRET_KEY: 'test-secret-key',
+        ...envOverrides,
+      },
+    },
     setTimeout,
     clearTimeout,
     AbortController,
@@ -85,31 +78,26 @@ function createVerificationSandbox(envOverrides = {}) {
   sandbox.global = sandbox;
   sandbox.globalThis = sandbox;
   sandbox.self = sandbox;
-  sandbox.require = (specifier) => {
-    if (mockModules.has(specifier)) {
-      return mockModules.get(specifier);
-    }
-    return baseRequire(specifier);
-  };
+  sandbox.require = routeRequire;
 
   const context = vm.createContext(sandbox);
-  vm.runInContext(transformedRouteTs, context, { filename: routeFilename });
+  vm.runInContext(routeBundle, context, { filename: routeFilename });
 
   return { context, infoLogs };
 }
 
-test('runGrokVerificationWithRetry accepts only the prompt parameter', () => {
+test('runVerificationWithRetry accepts the prompt, an event handler and a provider callback', () => {
   assert(
-    /async function runGrokVerificationWithRetry\(\s*prompt: string\s*\): Promise<string>\s*{/.test(
+    /async function runVerificationWithRetry\(\s*prompt: string,\s*onEvent\?: GenerationEventHandler,\s*onProvider\?: \(provider: LlmProvider\) => void\s*\): Promise<string>\s*{/.test(
       routeTs
     ),
-    'runGrokVerificationWithRetry should only expect the user prompt.'
+    'runVerificationWithRetry should only expect the user prompt, the usage event handler and the provider callback.'
   );
 });
 
-test('runGrokVerificationWithRetry builds a user-only message payload', () => {
-  const messageBlockMatch = routeTs.match(
-    /const messages:[^=]*= \[[\s\S]*?\{ role: 'user', content: prompt }[\s\S]*?\];\s*\n\s*const response = await runChatCompletion/
+test('runVerificationWithRetry builds a user-only message payload', () => {
+  const messageBlockMatch = verificationLibTs.match(
+    /const messages:[^=]*= \[[\s\S]*?\{ role: 'user', content: prompt }[\s\S]*?\];\s*\n\s*const response = await provider\.streamChat/
   );
   assert(messageBlockMatch, 'Expected to locate message construction block.');
   const messageBlock = messageBlockMatch[0];
@@ -119,25 +107,27 @@ test('runGrokVerificationWithRetry builds a user-only message payload', () => {
   );
 });
 
-test('runGrokVerificationWithRetry requests streaming Grok completions', () => {
-  const callMatch = routeTs.match(
-    /runChatCompletion\(\s*{[\s\S]*?}\s*,\s*{\s*signal: controller\.signal\s*}\s*\)/
+test('runVerificationWithRetry requests streaming completions from the verification provider', () => {
+  const callMatch = verificationLibTs.match(
+    /provider\.streamChat\(\s*{[\s\S]*?}\s*,\s*{\s*signal: controller\.signal\s*}\s*\)/
   );
-  assert(callMatch, 'Expected to locate runChatCompletion invocation.');
+  assert(callMatch, 'Expected to locate the streaming verification invocation.');
   assert(
-    callMatch[0].includes('stream: true'),
-    'runGrokVerificationWithRetry should request streaming completions from Grok.'
+    /resolveStageProviders\('verification'\)/.test(verificationLibTs),
+    'Verification should use the providers configured for the verification stage.'
   );
 });
 
 test('verifyOutput sends prompts directly to verification helpers', () => {
   assert(
-    routeTs.includes('const hasGrokKey = Boolean(process.env.GROK_API_KEY?.trim());'),
-    'verifyOutput should determine whether a Grok key is available.'
+    routeTs.includes(
+      "const hasVerificationProvider = resolveStageProviders('verification').length > 0;"
+    ),
+    'verifyOutput should determine whether a verification provider is available.'
   );
   assert(
-    routeTs.includes('runGrokVerificationWithRetry(prompt);'),
-    'verifyOutput should pass only the prompt to Grok verification.'
+    routeTs.includes('runVerificationWithRetry(prompt, options.onEvent, (provider) => {'),
+    'verifyOutput should pass only the prompt to verification.'
   );
   assert(
     !routeTs.includes('runOpenAIVerificationWithTimeout'),
@@ -193,7 +183,10 @@ test('verifyOutput logs a success message when Grok approves an article', async
 
   vm.runInContext(
     `
-      runGrokVerificationWithRetry = async () => JSON.stringify({ discrepancies: [] });
+      runVerificationWithRetry = async (_prompt, _onEvent, onProvider) => {
+        onProvider?.({ id: 'grok', label: 'Grok' });
+        return JSON.stringify({ discrepancies: [] });
+      };
     `,
     context
   );
@@ -207,6 +200,10 @@ test('verifyOutput logs a success message when Grok approves an article', async
     infoLogs.some((entry) => entry.includes('GROK_VERIFICATION_SUCCEEDED')),
     'Expected Grok verification success to emit a console.info message.'
   );
+  assert(
+    infoLogs.some((entry) => entry.includes('{"provider":"grok"}')),
+    'Expected the success log to name the provider that verified the article.'
+  );
 });
 
 test('verifyOutput does not log Grok success when verification fallback is unavailable', async () => {
@@ -214,7 +211,7 @@ test('verifyOutput does not log Grok success when verification fallback is unava
 
   vm.runInContext(
     `
-      runGrokVerificationWithRetry = async () => { throw new Error('primary failure'); };
+      runVerificationWithRetry = async () => { throw new Error('primary failure'); };
     `,
     context
   );
@@ -234,7 +231,7 @@ test('verifyOutput does not log Grok success when discrepancies are reported', a
 
   vm.runInContext(
     `
-      runGrokVerificationWithRetry = async () => JSON.stringify({
+      runVerificationWithRetry = async () => JSON.stringify({
         discrepancies: [
           { description: 'Mismatch detected', severity: 'critical' }
         ],
@@ -251,3 +248,59 @@ test('verifyOutput does not log Grok success when discrepancies are reported', a
     'Grok success log should only fire when no discrepancies are reported.'
   );
 });
+
+test('verifyOutput returns every checked claim and flags only critical problems', async () => {
+  const { context } = createVerificationSandbox();
+
+  vm.runInContext(
+    `
+      runVerificationWithRetry = async () => JSON.stringify({
+        claims: [
+          {
+            claim: 'The bridge reopens in May',
+            sentence: 'The bridge reopens in May.',
+            sourceUrl: 'https://example.com',
+            verdict: 'supported',
+            severity: 'critical',
+            explanation: '',
+          },
+          {
+            claim: 'Tolls rise to $5',
+            sentence: 'Tolls rise to $5.',
+            sourceUrl: 'https://example.com',
+            verdict: 'contradicted',
+            severity: 'critical',
+            explanation: 'The source says tolls rise to $4.',
+          },
+          {
+            claim: 'Work began in 2019',
+            sentence: null,
+            sourceUrl: null,
+            verdict: 'unsupported',
+            severity: 'minor',
+            explanation: 'No source mentions when work began.',
+          },
+        ],
+      });
+    `,
+    context
+  );
+
+  const result = await context.verifyOutput('<p>Claims</p>', [{ url: 'https://example.com' }]);
+
+  assert.strictEqual(result.isAccurate, false);
+  assert.deepStrictEqual(
+    Array.from(result.discrepancies),
+    ['[CRITICAL] The source says tolls rise to $4.']
+  );
+  assert.deepStrictEqual(
+    JSON.parse(
+      JSON.stringify(result.claims.map((claim) => [claim.verdict, claim.severity, claim.sourceUrl]))
+    ),
+    [
+      ['supported', 'minor', 'https://example.com'],
+      ['contradicted', 'critical', 'https://example.com'],
+      ['unsupported', 'minor', null],
+    ]
+  );
+});
@@ -0,0 +1,66 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+const libPath = new URL('../src/lib/verificationReport.ts', import.meta.url);
+const tsCode = fs.readFileSync(libPath, 'utf8');
+const jsCode = ts.transpileModule(tsCode, {
+  compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+}).outputText;
+const moduleUrl =
+  'data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64');
+const { clearClaimHighlights, findSentenceRange, highlightClaimSentences } = await import(moduleUrl);
+
+const article =
+  '<p>The mayor said the bridge <a href="https://news.test/a">will reopen</a> in May.</p>' +
+  '<p>Tolls rise to $5 &amp; commuters’ passes double.</p>';
+
+test('findSentenceRange ignores inline markup, entities, quotes and case', () => {
+  const range = findSentenceRange(article, 'the Mayor said the bridge will reopen in  May.');
+  assert.deepStrictEqual(
+    article.slice(range.start, range.end),
+    'The mayor said the bridge <a href="https://news.test/a">will reopen</a> in May.'
+  );
+  const tolls = findSentenceRange(article, "Tolls rise to $5 & commuters' passes double.");
+  assert.strictEqual(
+    article.slice(tolls.start, tolls.end),
+    'Tolls rise to $5 &amp; commuters’ passes double.'
+  );
+  assert.strictEqual(findSentenceRange(article, 'The bridge closed for good.'), null);
+});
+
+test('findSentenceRange does not match across paragraph boundaries without a space', () => {
+  assert.strictEqual(findSentenceRange(article, 'in May.Tolls rise'), null);
+  assert.ok(findSentenceRange(article, 'in May. Tolls rise'));
+});
+
+test('highlightClaimSentences wraps text runs without breaking links', () => {
+  const { html, located } = highlightClaimSentences(article, [
+    { sentence: 'The mayor said the bridge will reopen in May.' },
+    { sentence: 'Not in the article.' },
+    { sentence: null },
+  ]);
+  assert.deepStrictEqual(located, [true, false, false]);
+  assert.strictEqual(
+    html,
+    '<p><mark class="verification-flag" data-claim="0">The mayor said the bridge </mark>' +
+      '<a href="https://news.test/a"><mark class="verification-flag" data-claim="0">will reopen</mark></a>' +
+      '<mark class="verification-flag" data-claim="0"> in May.</mark></p>' +
+      '<p>Tolls rise to $5 &amp; commuters’ passes double.</p>'
+  );
+});
+
+test('clearClaimHighlights restores the article HTML', () => {
+  const { html } = highlightClaimSentences(article, [
+    { sentence: 'The mayor said the bridge will reopen in May.' },
+    { sentence: "Tolls rise to $5 & commuters' passes double." },
+  ]);
+  assert.notStrictEqual(html, article);
+  assert.strictEqual(clearClaimHighlights(html), article);
+  // Marks the editor wrote back with reordered attributes are removed too
+  assert.strictEqual(
+    clearClaimHighlights('<p><mark data-claim="2" class="verification-flag">Flagged</mark> <mark>kept</mark></p>'),
+    '<p>Flagged <mark>kept</mark></p>'
+  );
+});
@@ -0,0 +1,96 @@
+import assert from 'assert';
+import fs from 'fs';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+
+async function importTs(relativePath) {
+  const source = fs.readFileSync(new URL(relativePath, import.meta.url), 'utf8');
+  const jsCode = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2018 },
+  }).outputText;
+  return import('data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64'));
+}
+
+const {
+  buildCalendarWeeks,
+  fromWordPressDateGmt,
+  parsePublishOptions,
+  toDateKey,
+  updateWordPressPostStatus,
+} = await importTs('../src/lib/wordpressPublishing.ts');
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+test('parsePublishOptions defaults to drafts and requires a future time to schedule', () => {
+  assert.deepEqual(parsePublishOptions({}, now), { status: 'draft' });
+  assert.deepEqual(parsePublishOptions({ status: 'pending' }, now), { status: 'pending' });
+  assert.deepEqual(parsePublishOptions({ status: 'publish', scheduledAt: 'ignored' }, now), { status: 'publish' });
+  assert.deepEqual(parsePublishOptions({ status: 'future', scheduledAt: '2026-10-20T09:30:00+02:00' }, now), {
+    status: 'future',
+    dateGmt: '2026-10-20T07:30:00',
+  });
+  assert.deepEqual(parsePublishOptions({ status: 'future', date_gmt: '2026-10-21T08:00:00' }, now), {
+    status: 'future',
+    dateGmt: '2026-10-21T08:00:00',
+  });
+  assert.match(parsePublishOptions({ status: 'trash' }, now), /status must be one of/);
+  assert.equal(parsePublishOptions({ status: 'future' }, now), 'scheduledAt must be an ISO date');
+  assert.equal(
+    parsePublishOptions({ status: 'future', scheduledAt: '2026-10-19T12:00:30Z' }, now),
+    'scheduledAt must be in the future'
+  );
+  assert.equal(fromWordPressDateGmt('2026-10-21T08:00:00'), '2026-10-21T08:00:00.000Z');
+  assert.equal(fromWordPressDateGmt(''), null);
+});
+
+test('buildCalendarWeeks covers the month in whole Sunday-first weeks', () => {
+  const weeks = buildCalendarWeeks(2026, 9);
+  assert.equal(weeks.length, 5);
+  assert.ok(weeks.every((week) => week.length === 7 && week[0].getDay() === 0));
+  assert.equal(toDateKey(weeks[0][0]), '2026-09-27');
+  assert.equal(toDateKey(weeks[4][6]), '2026-10-31');
+
+  const february = buildCalendarWeeks(2026, 1);
+  assert.equal(february.length, 4);
+  assert.equal(toDateKey(february[0][0]), '2026-02-01');
+});
+
+test('updateWordPressPostStatus sends the new status and reads back the publish time', async () => {
+  const calls = [];
+  const fetchImpl = async (url, init) => {
+    calls.push({ url, body: JSON.parse(init.body), authorization: init.headers.Authorization });
+    return new Response(JSON.stringify({
+        id: 7,
+        status: 'future',
+        date_gmt: '2026-11-01T10:00:00',
+        modified_gmt: '2026-10-19T12:00:05',
+      }), {
+      status: 200,
+    });
+  };
+  const result = await updateWordPressPostStatus(
+    'https://blog.test/',
+    'Basic abc',
+    7,
+    { status: 'future', dateGmt: '2026-11-01T10:00:00' },
+    fetchImpl
+  );
+  assert.deepEqual(result, {
+    ok: true,
+    status: 'future',
+    dateGmt: '2026-11-01T10:00:00.000Z',
+    modifiedAt: '2026-10-19T12:00:05.000Z',
+  });
+  assert.deepEqual(calls, [
+    {
+      url: 'https://blog.test/wp-json/wp/v2/posts/7',
+      body: { status: 'future', date_gmt: '2026-11-01T10:00:00' },
+      authorization: 'Basic abc',
+    },
+  ]);
+
+  const failed = await updateWordPressPostStatus('https://blog.test', 'Basic abc', 7, { status: 'draft' }, async () =>
+    new Response(JSON.stringify({ message: 'Sorry, you are not allowed to edit this post.' }), { status: 403 })
+  );
+  assert.deepEqual(failed, { ok: false, httpStatus: 403, error: 'Sorry, you are not allowed to edit this post.' });
+});
@@ -0,0 +1,85 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+const { fetchWordPressPost, isEditedSince, mergeHtml, splitHtmlBlocks, stripFooter } = loadModule(
+  'src/lib/wordpressSync.ts'
+);
+
+test('splitHtmlBlocks keeps nested elements and comments in their own blocks', () => {
+  const html = [
+    '<!-- wp:paragraph -->',
+    '<p>One <strong>bold</strong> line</p>',
+    '<ul><li><p>Nested</p></li></ul>',
+    '<img src="a.jpg">',
+    'Loose text',
+  ].join('\n');
+  assert.deepEqual(splitHtmlBlocks(html), [
+    '<!-- wp:paragraph -->',
+    '<p>One <strong>bold</strong> line</p>',
+    '<ul><li><p>Nested</p></li></ul>',
+    '<img src="a.jpg">',
+    'Loose text',
+  ]);
+});
+
+test('mergeHtml keeps edits from both sides and prefers the editor on conflicts', () => {
+  const base = ['<h2>Intro</h2>', '<p>First.</p>', '<p>Second.</p>', '<p>Third.</p>'].join('\n');
+  const local = ['<h2>Intro</h2>', '<p>First, revised.</p>', '<p>Second.</p>', '<p>Third.</p>', '<p>New ending.</p>'].join(
+    '\n'
+  );
+  const remote = ['<h2>Intro</h2>', '<p>First.</p>', '<p>Second,   fixed in WordPress.</p>', '<p>Third.</p>'].join('\n');
+  assert.deepEqual(mergeHtml(base, local, remote), {
+    html: [
+      '<h2>Intro</h2>',
+      '<p>First, revised.</p>',
+      '<p>Second,   fixed in WordPress.</p>',
+      '<p>Third.</p>',
+      '<p>New ending.</p>',
+    ].join('\n'),
+    conflicts: 0,
+  });
+
+  const clash = mergeHtml(base, base.replace('Third.', 'Third, ours.'), base.replace('Third.', 'Third, theirs.'));
+  assert.equal(clash.conflicts, 1);
+  assert.match(clash.html, /Third, ours\./);
+  assert.doesNotMatch(clash.html, /theirs/);
+
+  // Whitespace-only differences are not edits
+  assert.equal(mergeHtml(base, base, base.replace(/\n/g, '\n\n')).html, base);
+});
+
+test('fetchWordPressPost reads the raw content and the edit time', async () => {
+  const urls = [];
+  const result = await fetchWordPressPost('https://blog.test/', 'Basic abc', 9, async (url) => {
+    urls.push(url);
+    return new Response(
+      JSON.stringify({
+        id: 9,
+        status: 'publish',
+        link: 'https://blog.test/post',
+        content: { raw: '<p>Raw</p>', rendered: '<p>Rendered</p>' },
+        date_gmt: '2026-10-01T08:00:00',
+        modified_gmt: '2026-10-18T09:30:00',
+      }),
+      { status: 200 }
+    );
+  });
+  assert.deepEqual(urls, ['https://blog.test/wp-json/wp/v2/posts/9?context=edit']);
+  assert.deepEqual(result, {
+    ok: true,
+    post: {
+      id: 9,
+      status: 'publish',
+      content: '<p>Raw</p>',
+      link: 'https://blog.test/post',
+      dateGmt: '2026-10-01T08:00:00.000Z',
+      modifiedAt: '2026-10-18T09:30:00.000Z',
+    },
+  });
+
+  assert.equal(isEditedSince(result.post.modifiedAt, '2026-10-18T09:00:00.000Z'), true);
+  assert.equal(isEditedSince(result.post.modifiedAt, '2026-10-18T09:30:00.000Z'), false);
+  assert.equal(isEditedSince(result.post.modifiedAt, null), false);
+  assert.equal(stripFooter('<p>Body</p><p>Promo</p>', '<p>Promo</p>'), '<p>Body</p>');
+});
@@ -0,0 +1,77 @@
+import assert from 'assert';
+import fs from 'fs';
+import sharp from 'sharp';
+import * as ts from 'typescript';
+import { test } from 'node:test';
+import { loadModule } from './helpers/loadModule.js';
+
+async function importTs(relativePath) {
+  const source = fs.readFileSync(new URL(relativePath, import.meta.url), 'utf8');
+  const jsCode = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2018 },
+  }).outputText;
+  return import('data:text/javascript;base64,' + Buffer.from(jsCode).toString('base64'));
+}
+
+const { createWordPressTag, fetchWordPressTaxonomy, suggestTaxonomy } = await importTs(
+  '../src/lib/wordpressTaxonomy.ts'
+);
+const { cropFeaturedImage } = loadModule('src/lib/wordpressMedia.ts');
+
+const term = (id, name, count = 1) => ({ id, name, slug: name.toLowerCase().replace(/\W+/g, '-'), count });
+
+test('suggestTaxonomy ranks terms the article mentions and proposes profile terms as new tags', () => {
+  const article = {
+    title: 'Sourdough baking for beginners',
+    html: '<p>Sourdough needs a starter. Baking bread at home with a starter is slow.</p><p>Bread flour works best.</p>',
+  };
+  const taxonomy = {
+    categories: [term(1, 'Uncategorized', 50), term(2, 'Baking'), term(3, 'Travel'), term(4, 'Bread')],
+    tags: [term(10, 'starter'), term(11, 'sourdough'), term(12, 'pasta'), term(13, 'art')],
+  };
+  assert.deepEqual(suggestTaxonomy(article, taxonomy, ['Bread', 'Home baking', 'Flour', 'sourdough']), {
+    categories: [2, 4],
+    tags: [11, 10],
+    newTags: ['Bread', 'Flour'],
+  });
+  // "art" does not match inside "starter"
+  assert.ok(!suggestTaxonomy(article, taxonomy).tags.includes(13));
+});
+
+test('fetchWordPressTaxonomy decodes term names and tolerates a missing author list', async () => {
+  const urls = [];
+  const fetchImpl = async (url) => {
+    urls.push(url);
+    if (url.includes('/users')) return new Response('{"code":"rest_forbidden"}', { status: 403 });
+    const body = url.includes('/categories')
+      ? [{ id: 2, name: 'Food &amp; Drink', slug: 'food-drink', count: 4 }]
+      : [{ id: 10, name: 'starter', slug: 'starter', count: 2 }];
+    return new Response(JSON.stringify(body), { status: 200 });
+  };
+  const taxonomy = await fetchWordPressTaxonomy('https://blog.test/', 'Basic abc', fetchImpl);
+  assert.deepEqual(taxonomy, {
+    categories: [{ id: 2, name: 'Food & Drink', slug: 'food-drink', count: 4 }],
+    tags: [{ id: 10, name: 'starter', slug: 'starter', count: 2 }],
+    authors: [],
+  });
+  assert.equal(urls.length, 3);
+  assert.ok(urls.every((url) => url.startsWith('https://blog.test/wp-json/wp/v2/')));
+
+  const existing = await createWordPressTag('https://blog.test', 'Basic abc', 'starter', async () =>
+    new Response(JSON.stringify({ code: 'term_exists', data: { status: 400, term_id: 10 } }), { status: 400 })
+  );
+  assert.equal(existing, 10);
+});
+
+test('cropFeaturedImage center-crops to 1280x720', async () => {
+  const portrait = await sharp({
+    create: { width: 900, height: 1600, channels: 3, background: '#336699' },
+  })
+    .png()
+    .toBuffer();
+  const cropped = await cropFeaturedImage(portrait);
+  const metadata = await sharp(cropped).metadata();
+  assert.equal(metadata.width, 1280);
+  assert.equal(metadata.height, 720);
+  assert.equal(metadata.format, 'jpeg');
+});
@@ -0,0 +1,15 @@
+// The rank files are only exposed through package "exports", which the
+// "node" module resolution used by tsconfig does not read.
+declare module 'js-tiktoken/ranks/cl100k_base' {
+  import type { TiktokenBPE } from 'js-tiktoken/lite';
+
+  const ranks: TiktokenBPE;
+  export default ranks;
+}
+
+declare module 'js-tiktoken/ranks/o200k_base' {
+  import type { TiktokenBPE } from 'js-tiktoken/lite';
+
+  const ranks: TiktokenBPE;
+  export default ranks;
+}